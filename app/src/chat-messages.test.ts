@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { buildChatMessages, chatMessagesFileName, parseExampleTurns, withExampleMeta } from './chat-messages';
+
+function node(content: string, example = false) {
+  return { content, meta: withExampleMeta({}, example) };
+}
+
+describe('chat messages', () => {
+  it('splits example content into turns and joins continuation lines', () => {
+    expect(parseExampleTurns('## Refund example\nUser: I was double charged.\nassistant: Sorry about that.\nLet me check.\nAssistant: Found it.')).toEqual([
+      { role: 'user', content: 'I was double charged.' },
+      { role: 'assistant', content: 'Sorry about that.\nLet me check.\nFound it.' },
+    ]);
+  });
+
+  it('puts example turns after a system message built from the other nodes', () => {
+    expect(buildChatMessages([
+      node('You are a billing agent.'),
+      node('User: Hi\nAssistant: Hello!', true),
+      node('   '),
+      node('Keep answers short.'),
+      node('Examples without turns stay in the system message.', true),
+    ])).toEqual([
+      { role: 'system', content: 'You are a billing agent.\n\nKeep answers short.\n\nExamples without turns stay in the system message.' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello!' },
+    ]);
+    expect(buildChatMessages([node('User: Only examples', true)])).toEqual([{ role: 'user', content: 'Only examples' }]);
+  });
+
+  it('stores the example flag in meta and names the export file', () => {
+    expect(withExampleMeta({ nodeColor: '#fff' }, true)).toEqual({ nodeColor: '#fff', example: 'true' });
+    expect(withExampleMeta({ example: 'true' }, false)).toEqual({});
+    expect(chatMessagesFileName(' Support Bot v2 ')).toBe('support-bot-v2.messages.json');
+  });
+});
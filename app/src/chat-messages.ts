@@ -0,0 +1,83 @@
+/**
+ * ChatMessages — the assembled prompt as an OpenAI-style `messages` array.
+ *
+ * Nodes are taken in assembly order. A node marked as an example whose content
+ * has `User:` / `Assistant:` turns becomes few-shot messages after the system
+ * message; every other node is part of the system message.
+ */
+import type { PromptNode } from './models';
+
+export const NODE_EXAMPLE_META_KEY = 'example';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const TURN_PATTERN = /^\s*(user|assistant)\s*:\s?(.*)$/i;
+
+export function isExampleNode(node: Pick<PromptNode, 'meta'>): boolean {
+  return node.meta?.[NODE_EXAMPLE_META_KEY] === 'true';
+}
+
+export function withExampleMeta(
+  meta: Record<string, string> | null | undefined,
+  isExample: boolean,
+): Record<string, string> {
+  const nextMeta = { ...(meta ?? {}) };
+  if (isExample) {
+    nextMeta[NODE_EXAMPLE_META_KEY] = 'true';
+  } else {
+    delete nextMeta[NODE_EXAMPLE_META_KEY];
+  }
+  return nextMeta;
+}
+
+/**
+ * Splits example content into turns. Lines before the first `User:` or `Assistant:`
+ * are notes and are dropped; consecutive turns of the same role are joined.
+ */
+export function parseExampleTurns(content: string): ChatMessage[] {
+  const turns: ChatMessage[] = [];
+  for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = TURN_PATTERN.exec(line);
+    const current = turns[turns.length - 1];
+    if (match) {
+      const role = match[1].toLowerCase() as 'user' | 'assistant';
+      if (current?.role === role) {
+        current.content += `\n${match[2]}`;
+      } else {
+        turns.push({ role, content: match[2] });
+      }
+    } else if (current) {
+      current.content += `\n${line}`;
+    }
+  }
+  return turns
+    .map((turn) => ({ ...turn, content: turn.content.trim() }))
+    .filter((turn) => turn.content.length > 0);
+}
+
+export function buildChatMessages(orderedNodes: Array<Pick<PromptNode, 'content' | 'meta'>>): ChatMessage[] {
+  const systemParts: string[] = [];
+  const examples: ChatMessage[] = [];
+  for (const node of orderedNodes) {
+    const turns = isExampleNode(node) ? parseExampleTurns(node.content) : [];
+    if (turns.length > 0) {
+      examples.push(...turns);
+    } else if (node.content.trim()) {
+      systemParts.push(node.content);
+    }
+  }
+  const system = systemParts.join('\n\n');
+  return system ? [{ role: 'system', content: system }, ...examples] : examples;
+}
+
+export function chatMessagesFileName(projectName: string): string {
+  const slug = projectName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'project'}.messages.json`;
+}
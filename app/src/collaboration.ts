@@ -0,0 +1,141 @@
+/**
+ * Collaboration — realtime session for one project canvas.
+ *
+ * Streams `prompt_nodes` / `connections` row changes from other clients into the
+ * store and shares presence: who has the project open and which node they selected.
+ */
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { store, type RemoteRowEvent, type RemoteRowTable } from './store';
+import { getCurrentUser } from './auth';
+import { DEFAULT_NODE_COLOR, getAutoNodeColor, normalizeNodeColor } from './node-colors';
+import { uid } from './models';
+import { isRecord } from './model-guards';
+
+export interface CollaboratorPresence {
+  sessionId: string;
+  userId: string;
+  name: string;
+  color: string;
+  selectedNodeId: string | null;
+}
+
+export interface CollaborationSession {
+  setSelectedNode(nodeId: string | null): void;
+  close(): void;
+}
+
+const REALTIME_TABLES: readonly RemoteRowTable[] = ['prompt_nodes', 'connections'];
+
+/** Joins the realtime channel for a project; `onPresence` receives the other sessions only. */
+export function joinProjectCollaboration(
+  projectId: string,
+  onPresence: (collaborators: CollaboratorPresence[]) => void,
+): CollaborationSession {
+  const sessionId = uid();
+  let closed = false;
+  let channel: RealtimeChannel | null = null;
+  let presence: CollaboratorPresence | null = null;
+  let selectedNodeId: string | null = null;
+
+  const publishPresence = (): void => {
+    if (!channel || !presence) return;
+    void channel.track({ ...presence });
+  };
+
+  void getCurrentUser().then((user) => {
+    if (closed || !user) return;
+    const fullName = typeof user.user_metadata?.full_name === 'string' ? user.user_metadata.full_name.trim() : '';
+    presence = {
+      sessionId,
+      userId: user.id,
+      name: fullName || user.email || 'Collaborator',
+      color: getAutoNodeColor(hashString(user.id)),
+      selectedNodeId,
+    };
+
+    const nextChannel = supabase.channel(`project-canvas:${projectId}`, {
+      config: { presence: { key: sessionId } },
+    });
+    for (const table of REALTIME_TABLES) {
+      const forward = (event: RemoteRowEvent, record: unknown): void => {
+        store.applyRemoteRowChange(table, event, record);
+      };
+      nextChannel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter: `project_id=eq.${projectId}` }, (payload) => {
+          forward('INSERT', payload.new);
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter: `project_id=eq.${projectId}` }, (payload) => {
+          forward('UPDATE', payload.new);
+        })
+        // Delete events cannot be filtered server-side; the store ignores ids it does not hold.
+        .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, (payload) => {
+          forward('DELETE', payload.old);
+        });
+    }
+    nextChannel.on('presence', { event: 'sync' }, () => {
+      const state = nextChannel.presenceState();
+      const others = Object.values(state)
+        .flat()
+        .flatMap((entry) => {
+          const collaborator = readCollaboratorPresence(entry);
+          return collaborator && collaborator.sessionId !== sessionId ? [collaborator] : [];
+        });
+      onPresence(others);
+    });
+    nextChannel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') publishPresence();
+    });
+    channel = nextChannel;
+  }).catch((err: unknown) => {
+    console.error('Failed to join project collaboration:', err);
+  });
+
+  return {
+    setSelectedNode(nodeId: string | null): void {
+      if (selectedNodeId === nodeId) return;
+      selectedNodeId = nodeId;
+      if (presence) {
+        presence.selectedNodeId = nodeId;
+        publishPresence();
+      }
+    },
+    close(): void {
+      closed = true;
+      if (channel) {
+        void supabase.removeChannel(channel);
+        channel = null;
+      }
+    },
+  };
+}
+
+/**
+ * Presence comes from other clients and ends up in markup, so entries are checked
+ * field by field and the colour is limited to a hex value.
+ */
+function readCollaboratorPresence(value: unknown): CollaboratorPresence | null {
+  if (
+    !isRecord(value) ||
+    typeof value.sessionId !== 'string' ||
+    typeof value.userId !== 'string' ||
+    typeof value.name !== 'string'
+  ) {
+    return null;
+  }
+  return {
+    sessionId: value.sessionId,
+    userId: value.userId,
+    name: value.name,
+    color: normalizeNodeColor(typeof value.color === 'string' ? value.color : null) ?? DEFAULT_NODE_COLOR,
+    selectedNodeId: typeof value.selectedNodeId === 'string' ? value.selectedNodeId : null,
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let index = 0; index < value.length; index += 1) {
+    hash = (hash * 31 + value.charCodeAt(index)) | 0;
+  }
+  return hash;
+}
@@ -16,6 +16,20 @@ export interface Database {
           icon: string;
           last_edited: string;
           created_at: string;
+          forked_from_project_id?: string | null;
+          forked_from_project_name?: string | null;
+          forked_from_version_id?: string | null;
+          forked_at?: string | null;
+          head_branch?: string | null;
+          head_version_id?: string | null;
+          deleted_at?: string | null;
+          folder?: string | null;
+          tags?: string[];
+          updated_at?: string | null;
+          variables?: unknown[];
+          environments?: string[];
+          token_budget?: number | null;
+          conversation_tokens?: number | null;
         };
         Insert: {
           id?: string;
@@ -26,6 +40,20 @@ export interface Database {
           icon?: string;
           last_edited?: string;
           created_at?: string;
+          forked_from_project_id?: string | null;
+          forked_from_project_name?: string | null;
+          forked_from_version_id?: string | null;
+          forked_at?: string | null;
+          head_branch?: string | null;
+          head_version_id?: string | null;
+          deleted_at?: string | null;
+          folder?: string | null;
+          tags?: string[];
+          updated_at?: string | null;
+          variables?: unknown[];
+          environments?: string[];
+          token_budget?: number | null;
+          conversation_tokens?: number | null;
         };
         Update: {
           id?: string;
@@ -36,6 +64,20 @@ export interface Database {
           icon?: string;
           last_edited?: string;
           created_at?: string;
+          forked_from_project_id?: string | null;
+          forked_from_project_name?: string | null;
+          forked_from_version_id?: string | null;
+          forked_at?: string | null;
+          head_branch?: string | null;
+          head_version_id?: string | null;
+          deleted_at?: string | null;
+          folder?: string | null;
+          tags?: string[];
+          updated_at?: string | null;
+          variables?: unknown[];
+          environments?: string[];
+          token_budget?: number | null;
+          conversation_tokens?: number | null;
         };
         Relationships: [];
       };
@@ -51,6 +93,8 @@ export interface Database {
           content: string;
           meta: Record<string, string>;
           sort_order: number;
+          revision?: number;
+          deleted_at?: string | null;
           created_at: string;
         };
         Insert: {
@@ -64,6 +108,8 @@ export interface Database {
           content?: string;
           meta?: Record<string, string>;
           sort_order?: number;
+          revision?: number;
+          deleted_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -77,6 +123,8 @@ export interface Database {
           content?: string;
           meta?: Record<string, string>;
           sort_order?: number;
+          revision?: number;
+          deleted_at?: string | null;
           created_at?: string;
         };
         Relationships: [];
@@ -133,6 +181,8 @@ export interface Database {
               label?: string;
             }>;
           } | null;
+          parent_id?: string | null;
+          branch?: string | null;
           created_at: string;
         };
         Insert: {
@@ -159,6 +209,8 @@ export interface Database {
               label?: string;
             }>;
           } | null;
+          parent_id?: string | null;
+          branch?: string | null;
           created_at?: string;
         };
         Update: {
@@ -185,6 +237,8 @@ export interface Database {
               label?: string;
             }>;
           } | null;
+          parent_id?: string | null;
+          branch?: string | null;
           created_at?: string;
         };
         Relationships: [];
@@ -200,6 +254,7 @@ export interface Database {
           meta: Record<string, string>;
           created_at: string;
           updated_at: string;
+          revision?: number;
         };
         Insert: {
           id?: string;
@@ -211,6 +266,7 @@ export interface Database {
           meta?: Record<string, string>;
           created_at?: string;
           updated_at?: string;
+          revision?: number;
         };
         Update: {
           id?: string;
@@ -222,6 +278,7 @@ export interface Database {
           meta?: Record<string, string>;
           created_at?: string;
           updated_at?: string;
+          revision?: number;
         };
         Relationships: [];
       };
@@ -326,6 +383,7 @@ export interface Database {
           name: string;
           description: string;
           source: string;
+          deleted_at?: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -336,6 +394,7 @@ export interface Database {
           name: string;
           description?: string;
           source?: string;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -346,6 +405,7 @@ export interface Database {
           name?: string;
           description?: string;
           source?: string;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -651,6 +711,27 @@ export interface Database {
         };
         Relationships: [];
       };
+      prompt_version_tags: {
+        Row: {
+          project_id: string;
+          tag: string;
+          version_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          project_id: string;
+          tag: string;
+          version_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          project_id?: string;
+          tag?: string;
+          version_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: Record<string, never>;
     Functions: {
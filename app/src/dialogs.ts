@@ -7,7 +7,7 @@ export function customAlert(message: string): Promise<void> {
         dialog.className = 'bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-xl max-w-sm w-full p-6 animate-in zoom-in-95 duration-200';
 
         const messageEl = document.createElement('p');
-        messageEl.className = 'text-zinc-900 dark:text-zinc-100 mb-6';
+        messageEl.className = 'text-zinc-900 dark:text-zinc-100 mb-6 whitespace-pre-line';
         messageEl.textContent = message;
 
         const buttonContainer = document.createElement('div');
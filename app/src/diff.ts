@@ -1,6 +1,7 @@
 /**
  * DiffEngine — line-level LCS-based diff for prompt versioning.
  */
+import { sourcesAtLine, type AssemblySourceRange } from './prompt-assembly';
 
 export interface DiffEntry {
   type: 'equal' | 'add' | 'remove';
@@ -97,3 +98,32 @@ export function toUnifiedHTML(diff: DiffEntry[]): string {
     return `<div class="diff-line diff-${entry.type}"><span class="diff-prefix">${prefix}</span><span class="diff-num">${lineNum}</span><span class="diff-text">${escaped}</span></div>`;
   }).join('');
 }
+
+/**
+ * Added and removed line counts per node, from the source maps of the two assembled
+ * texts. A line is counted for the node whose content covers it, else the node
+ * whose heading or tag it is; lines outside every node are not counted.
+ */
+export function attributeDiffToNodes(
+  diff: DiffEntry[],
+  oldSourceMap: AssemblySourceRange[],
+  newSourceMap: AssemblySourceRange[],
+): Map<string, DiffStats> {
+  const statsByNode = new Map<string, DiffStats>();
+  const count = (sourceMap: AssemblySourceRange[], line: number, key: 'added' | 'removed'): void => {
+    const nodeId = sourcesAtLine(sourceMap, line)[0]?.nodeId;
+    if (!nodeId) return;
+    const stats = statsByNode.get(nodeId) ?? { added: 0, removed: 0, unchanged: 0 };
+    stats[key]++;
+    statsByNode.set(nodeId, stats);
+  };
+
+  let oldLine = 0, newLine = 0;
+  for (const entry of diff) {
+    if (entry.type !== 'add') oldLine++;
+    if (entry.type !== 'remove') newLine++;
+    if (entry.type === 'remove') count(oldSourceMap, oldLine, 'removed');
+    if (entry.type === 'add') count(newSourceMap, newLine, 'added');
+  }
+  return statsByNode;
+}
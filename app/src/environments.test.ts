@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Connection, PromptNode } from './models';
+import {
+  isNodeIncluded,
+  projectForEnvironment,
+  readNodeEnvironmentRule,
+  renameEnvironmentInRule,
+  withNodeEnvironmentRule,
+} from './environments';
+
+function node(id: string, rule?: string): PromptNode {
+  return {
+    id,
+    type: 'custom',
+    label: id,
+    icon: 'widgets',
+    x: 0,
+    y: 0,
+    content: id,
+    meta: rule ? { environments: rule } : {},
+  };
+}
+
+function connection(id: string, from: string, to: string): Connection {
+  return { id, from, to };
+}
+
+describe('environments', () => {
+  it('round-trips node rules through meta and drops the key for "all"', () => {
+    const meta = withNodeEnvironmentRule({ color: '#fff' }, { mode: 'only', environments: ['staging', 'qa'] });
+    expect(meta).toEqual({ color: '#fff', environments: 'only:staging,qa' });
+    expect(readNodeEnvironmentRule(meta)).toEqual({ mode: 'only', environments: ['staging', 'qa'] });
+    expect(withNodeEnvironmentRule(meta, { mode: 'all' })).toEqual({ color: '#fff' });
+    expect(readNodeEnvironmentRule({ environments: 'sometimes' })).toEqual({ mode: 'all' });
+  });
+
+  it('includes nodes by only/except rules and rewrites rules on rename', () => {
+    expect(isNodeIncluded(node('a', 'only:staging'), 'staging')).toBe(true);
+    expect(isNodeIncluded(node('a', 'only:staging'), 'production')).toBe(false);
+    expect(isNodeIncluded(node('a', 'except:production'), 'production')).toBe(false);
+    expect(isNodeIncluded(node('a', 'except:production'), null)).toBe(true);
+
+    const rule = readNodeEnvironmentRule({ environments: 'except:staging,qa' });
+    expect(renameEnvironmentInRule(rule, 'staging', 'qa')).toEqual({ mode: 'except', environments: ['qa'] });
+    expect(renameEnvironmentInRule(rule, 'qa', null)).toEqual({ mode: 'except', environments: ['staging'] });
+    expect(renameEnvironmentInRule(rule, 'production', 'prod')).toBe(rule);
+  });
+
+  it('bridges around excluded nodes so the remaining order holds', () => {
+    const project = {
+      nodes: [node('a'), node('x', 'except:production'), node('b')],
+      connections: [connection('c1', 'a', 'x'), connection('c2', 'x', 'b'), connection('c3', 'a', 'b')],
+    };
+
+    const production = projectForEnvironment(project, 'production');
+    expect(production.nodes.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(production.connections).toEqual([connection('c3', 'a', 'b')]);
+    expect(projectForEnvironment({ ...project, connections: project.connections.slice(0, 2) }, 'production').connections)
+      .toEqual([connection('c1+c2', 'a', 'b')]);
+    expect(projectForEnvironment(project, 'staging')).toBe(project);
+  });
+});
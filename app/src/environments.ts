@@ -0,0 +1,109 @@
+/**
+ * Environments — named deployment profiles (e.g. staging, production) and the
+ * per-node rules that decide which nodes each profile's prompt includes.
+ *
+ * A rule lives in node meta as `only:staging,qa` or `except:production`; no rule
+ * means the node is in every environment. Assembling for an environment drops
+ * excluded nodes and joins their neighbours so the remaining order is kept.
+ */
+import type { Connection, Project, PromptNode } from './models';
+
+export const NODE_ENVIRONMENT_META_KEY = 'environments';
+export const MAX_ENVIRONMENT_NAME_LENGTH = 32;
+
+const ENVIRONMENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export type EnvironmentRule =
+  | { mode: 'all' }
+  | { mode: 'only' | 'except'; environments: string[] };
+
+/** Lowercases and dashes spaces; returns null when not a valid name. */
+export function normalizeEnvironmentName(raw: string): string | null {
+  const name = raw.trim().toLowerCase().replace(/\s+/g, '-');
+  if (!name || name.length > MAX_ENVIRONMENT_NAME_LENGTH || !ENVIRONMENT_NAME_PATTERN.test(name)) return null;
+  return name;
+}
+
+export function readNodeEnvironmentRule(meta: Record<string, string> | null | undefined): EnvironmentRule {
+  const raw = meta?.[NODE_ENVIRONMENT_META_KEY]?.trim() ?? '';
+  const match = /^(only|except):(.*)$/.exec(raw);
+  if (!match) return { mode: 'all' };
+  const environments = [...new Set(match[2].split(',').map(normalizeEnvironmentName).filter((name): name is string => name !== null))];
+  return { mode: match[1] as 'only' | 'except', environments };
+}
+
+export function withNodeEnvironmentRule(
+  meta: Record<string, string> | null | undefined,
+  rule: EnvironmentRule,
+): Record<string, string> {
+  const nextMeta = { ...(meta ?? {}) };
+  if (rule.mode === 'all' || (rule.mode === 'except' && rule.environments.length === 0)) {
+    delete nextMeta[NODE_ENVIRONMENT_META_KEY];
+    return nextMeta;
+  }
+  nextMeta[NODE_ENVIRONMENT_META_KEY] = `${rule.mode}:${rule.environments.join(',')}`;
+  return nextMeta;
+}
+
+/** With no environment selected every node is included. */
+export function isNodeIncluded(node: Pick<PromptNode, 'meta'>, environment: string | null): boolean {
+  if (environment === null) return true;
+  const rule = readNodeEnvironmentRule(node.meta);
+  if (rule.mode === 'all') return true;
+  const listed = rule.environments.includes(environment);
+  return rule.mode === 'only' ? listed : !listed;
+}
+
+export function describeEnvironmentRule(rule: EnvironmentRule): string {
+  if (rule.mode === 'all') return 'All environments';
+  if (rule.mode === 'only') {
+    return rule.environments.length > 0 ? `Only in ${rule.environments.join(', ')}` : 'Not in any environment';
+  }
+  return `Except ${rule.environments.join(', ')}`;
+}
+
+/** The rule after an environment is renamed (`to`) or removed (`to: null`). */
+export function renameEnvironmentInRule(rule: EnvironmentRule, from: string, to: string | null): EnvironmentRule {
+  if (rule.mode === 'all' || !rule.environments.includes(from)) return rule;
+  const environments = rule.environments.flatMap((name) => (name === from ? (to ? [to] : []) : [name]));
+  return { mode: rule.mode, environments: [...new Set(environments)] };
+}
+
+/**
+ * The graph an environment assembles: excluded nodes are dropped, and each of their
+ * incoming edges is joined to each outgoing edge so downstream order still holds.
+ */
+export function projectForEnvironment(
+  project: Pick<Project, 'nodes' | 'connections'>,
+  environment: string | null,
+): Pick<Project, 'nodes' | 'connections'> {
+  if (environment === null) return project;
+  const excluded = new Set(project.nodes.filter((node) => !isNodeIncluded(node, environment)).map((node) => node.id));
+  if (excluded.size === 0) return project;
+
+  let connections: Connection[] = project.connections;
+  for (const nodeId of excluded) {
+    const incoming = connections.filter((connection) => connection.to === nodeId && connection.from !== nodeId);
+    const outgoing = connections.filter((connection) => connection.from === nodeId && connection.to !== nodeId);
+    const bridged = incoming.flatMap((into) => outgoing.map((out): Connection => ({
+      ...out,
+      id: `${into.id}+${out.id}`,
+      from: into.from,
+    })));
+    connections = [
+      ...connections.filter((connection) => connection.from !== nodeId && connection.to !== nodeId),
+      ...bridged,
+    ];
+  }
+
+  const seenEdges = new Set<string>();
+  return {
+    nodes: project.nodes.filter((node) => !excluded.has(node.id)),
+    connections: connections.filter((connection) => {
+      const edge = `${connection.from}\u0000${connection.to}`;
+      if (connection.from === connection.to || seenEdges.has(edge)) return false;
+      seenEdges.add(edge);
+      return true;
+    }),
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptNode } from './models';
+import { diffGraphSnapshots, summarizeGraphRestore } from './graph-diff';
+
+function node(id: string, content = `# ${id}`, x = 0): PromptNode {
+  return { id, type: 'custom', label: `Node ${id}`, icon: 'widgets', x, y: 0, content, meta: {} };
+}
+
+describe('graph diff', () => {
+  it('marks nodes whose links change as modified and ignores positions', () => {
+    const before = { nodes: [node('a'), node('b')], connections: [] };
+    const after = { nodes: [node('a', '# a', 300), node('b')], connections: [{ id: 'c1', from: 'a', to: 'b' }] };
+
+    const diff = diffGraphSnapshots(before, after);
+
+    expect(diff.stats).toEqual({ added: 0, removed: 0, modified: 2, unchanged: 0 });
+    expect(diffGraphSnapshots(before, { ...before, nodes: [node('a', '# a', 300), node('b')] }).changedNodeIds).toEqual([]);
+  });
+
+  it('summarizes what a restore removes and brings back', () => {
+    const canvas = {
+      nodes: [node('a', '# a edited'), node('c')],
+      connections: [{ id: 'c2', from: 'a', to: 'c' }],
+    };
+    const saved = {
+      nodes: [node('a'), node('b')],
+      connections: [{ id: 'c1', from: 'a', to: 'b' }],
+    };
+
+    const summary = summarizeGraphRestore(canvas, saved);
+
+    expect(summary.removedNodes.map((item) => item.id)).toEqual(['c']);
+    expect(summary.addedNodes.map((item) => item.id)).toEqual(['b']);
+    expect(summary.modifiedNodes.map((item) => item.content)).toEqual(['# a']);
+    expect(summary).toMatchObject({ addedConnections: 1, removedConnections: 1 });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * GraphDiff — node-level comparison of two prompt graph snapshots.
+ *
+ * Nodes are matched by id; a node counts as modified when its fields or its
+ * neighbours change. Canvas positions are not compared.
+ */
+import type { Connection, PromptGraphSnapshot, PromptNode } from './models';
+
+export type NodeDiffStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface GraphDiffResult {
+  oldStatusById: Map<string, NodeDiffStatus>;
+  newStatusById: Map<string, NodeDiffStatus>;
+  changedNodeIds: string[];
+  changedNodeIdSet: Set<string>;
+  stats: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+}
+
+export const EMPTY_GRAPH_DIFF: GraphDiffResult = {
+  oldStatusById: new Map(),
+  newStatusById: new Map(),
+  changedNodeIds: [],
+  changedNodeIdSet: new Set(),
+  stats: {
+    added: 0,
+    removed: 0,
+    modified: 0,
+    unchanged: 0,
+  },
+};
+
+export function diffGraphSnapshots(oldSnapshot: PromptGraphSnapshot, newSnapshot: PromptGraphSnapshot): GraphDiffResult {
+  const oldMap = new Map(oldSnapshot.nodes.map((node) => [node.id, node] as const));
+  const newMap = new Map(newSnapshot.nodes.map((node) => [node.id, node] as const));
+
+  const oldAdj = adjacencyByNode(oldSnapshot.connections);
+  const newAdj = adjacencyByNode(newSnapshot.connections);
+
+  const allNodeIds = Array.from(new Set([...oldMap.keys(), ...newMap.keys()])).sort((left, right) => left.localeCompare(right));
+
+  const oldStatusById = new Map<string, NodeDiffStatus>();
+  const newStatusById = new Map<string, NodeDiffStatus>();
+  const changedNodeIds: string[] = [];
+
+  let added = 0;
+  let removed = 0;
+  let modified = 0;
+  let unchanged = 0;
+
+  for (const id of allNodeIds) {
+    const oldNode = oldMap.get(id);
+    const newNode = newMap.get(id);
+
+    if (!oldNode && newNode) {
+      newStatusById.set(id, 'added');
+      changedNodeIds.push(id);
+      added += 1;
+      continue;
+    }
+
+    if (oldNode && !newNode) {
+      oldStatusById.set(id, 'removed');
+      changedNodeIds.push(id);
+      removed += 1;
+      continue;
+    }
+
+    if (!oldNode || !newNode) {
+      continue;
+    }
+
+    const oldSig = nodeSignature(oldNode, oldAdj.incoming.get(id) ?? [], oldAdj.outgoing.get(id) ?? []);
+    const newSig = nodeSignature(newNode, newAdj.incoming.get(id) ?? [], newAdj.outgoing.get(id) ?? []);
+
+    if (oldSig === newSig) {
+      oldStatusById.set(id, 'unchanged');
+      newStatusById.set(id, 'unchanged');
+      unchanged += 1;
+      continue;
+    }
+
+    oldStatusById.set(id, 'modified');
+    newStatusById.set(id, 'modified');
+    changedNodeIds.push(id);
+    modified += 1;
+  }
+
+  return {
+    oldStatusById,
+    newStatusById,
+    changedNodeIds,
+    changedNodeIdSet: new Set(changedNodeIds),
+    stats: { added, removed, modified, unchanged },
+  };
+}
+
+function adjacencyByNode(connections: Connection[]): {
+  incoming: Map<string, string[]>;
+  outgoing: Map<string, string[]>;
+} {
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, string[]>();
+
+  for (const connection of connections) {
+    const outgoingList = outgoing.get(connection.from) ?? [];
+    outgoingList.push(connection.to);
+    outgoing.set(connection.from, outgoingList);
+
+    const incomingList = incoming.get(connection.to) ?? [];
+    incomingList.push(connection.from);
+    incoming.set(connection.to, incomingList);
+  }
+
+  for (const [nodeId, list] of incoming.entries()) {
+    incoming.set(nodeId, [...list].sort());
+  }
+  for (const [nodeId, list] of outgoing.entries()) {
+    outgoing.set(nodeId, [...list].sort());
+  }
+
+  return { incoming, outgoing };
+}
+
+function nodeSignature(node: PromptNode, incoming: string[], outgoing: string[]): string {
+  const sortedMeta = Object.entries(node.meta).sort(([left], [right]) => left.localeCompare(right));
+  return JSON.stringify({
+    id: node.id,
+    type: node.type,
+    label: node.label,
+    icon: node.icon,
+    content: node.content,
+    meta: sortedMeta,
+    incoming,
+    outgoing,
+  });
+}
+
+export interface GraphRestoreSummary {
+  /** Nodes on the canvas that the restored version does not have. */
+  removedNodes: PromptNode[];
+  /** Nodes the restored version brings back. */
+  addedNodes: PromptNode[];
+  /** Nodes whose fields or links differ; the restored version's copy. */
+  modifiedNodes: PromptNode[];
+  addedConnections: number;
+  removedConnections: number;
+}
+
+/** What replacing `current` with `target` would change, for a preview before restoring. */
+export function summarizeGraphRestore(current: PromptGraphSnapshot, target: PromptGraphSnapshot): GraphRestoreSummary {
+  const diff = diffGraphSnapshots(current, target);
+  const byStatus = (snapshot: PromptGraphSnapshot, statusById: Map<string, NodeDiffStatus>, status: NodeDiffStatus) => (
+    snapshot.nodes.filter((node) => statusById.get(node.id) === status)
+  );
+  const connectionKeys = (snapshot: PromptGraphSnapshot) => new Set(
+    snapshot.connections.map((connection) => `${connection.from}\u0000${connection.to}\u0000${connection.label?.trim() ?? ''}`),
+  );
+  const currentKeys = connectionKeys(current);
+  const targetKeys = connectionKeys(target);
+
+  return {
+    removedNodes: byStatus(current, diff.oldStatusById, 'removed'),
+    addedNodes: byStatus(target, diff.newStatusById, 'added'),
+    modifiedNodes: byStatus(target, diff.newStatusById, 'modified'),
+    addedConnections: [...targetKeys].filter((key) => !currentKeys.has(key)).length,
+    removedConnections: [...currentKeys].filter((key) => !targetKeys.has(key)).length,
+  };
+}
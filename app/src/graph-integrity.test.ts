@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptNode } from './models';
+import { checkGraphIntegrity, describeIntegrityIssue, planGraphRepair } from './graph-integrity';
+
+function node(id: string): PromptNode {
+  return { id, type: 'custom', label: `Node ${id}`, icon: 'widgets', x: 0, y: 0, content: '', meta: {} };
+}
+
+describe('graph integrity', () => {
+  it('reports dangling connections, reused ids and orphaned sync rows', () => {
+    const project = {
+      nodes: [node('a'), node('b'), node('c')],
+      connections: [
+        { id: 'c1', from: 'a', to: 'b' },
+        { id: 'c2', from: 'b', to: 'gone' },
+        { id: 'c1', from: 'b', to: 'c' },
+      ],
+    };
+
+    expect(checkGraphIntegrity(project, ['a', 'trashed'])).toEqual([
+      { kind: 'dangling-connection', connectionId: 'c2', from: 'b', to: 'gone', missingNodeIds: ['gone'] },
+      { kind: 'duplicate-connection-id', connectionId: 'c1', count: 2 },
+      { kind: 'orphaned-sync-meta', nodeId: 'trashed' },
+    ]);
+    expect(checkGraphIntegrity({ nodes: project.nodes, connections: [project.connections[0]] }, ['a'])).toEqual([]);
+  });
+
+  it('drops dangling connections and re-ids duplicates without deleting kept rows', () => {
+    const project = {
+      nodes: [node('a'), node('b'), node('c')],
+      connections: [
+        { id: 'c1', from: 'a', to: 'b' },
+        { id: 'c1', from: 'b', to: 'c' },
+        { id: 'c1', from: 'a', to: 'b' },
+        { id: 'c1', from: 'a', to: 'missing' },
+        { id: 'c2', from: 'missing', to: 'c' },
+      ],
+    };
+    const issues = [...checkGraphIntegrity(project, ['x']), { kind: 'orphaned-sync-meta' as const, nodeId: 'y' }];
+
+    const plan = planGraphRepair(project, issues, () => 'fresh');
+
+    expect(plan.connections).toEqual([
+      { id: 'c1', from: 'a', to: 'b' },
+      { id: 'fresh', from: 'b', to: 'c' },
+    ]);
+    expect(plan.insertedConnections).toEqual([{ id: 'fresh', from: 'b', to: 'c' }]);
+    expect(plan.deletedConnectionIds).toEqual(['c2']);
+    expect(plan.orphanedSyncMetaNodeIds).toEqual(['x', 'y']);
+    expect(checkGraphIntegrity({ nodes: project.nodes, connections: plan.connections })).toEqual([]);
+  });
+
+  it('locates problems by node label', () => {
+    const project = { nodes: [node('a')], connections: [{ id: 'c1', from: 'a', to: 'gone' }] };
+    const [issue] = checkGraphIntegrity(project);
+
+    expect(describeIntegrityIssue(issue, project)).toEqual({
+      title: 'Connection to a missing node',
+      location: 'Node a → missing node gone (connection c1)',
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * GraphIntegrity — structural problems in a project graph, and their repair.
+ *
+ * Assembly skips connections it cannot resolve, so these problems change the prompt
+ * without any sign on the canvas. The checker lists each one with where it is; the
+ * repair plan says what to change in the cached graph and which rows to write.
+ */
+import { uid, type Connection, type Project, type PromptNode } from './models';
+
+export type GraphIntegrityIssue =
+  | { kind: 'dangling-connection'; connectionId: string; from: string; to: string; missingNodeIds: string[] }
+  | { kind: 'duplicate-connection-id'; connectionId: string; count: number }
+  | { kind: 'orphaned-sync-meta'; nodeId: string };
+
+export interface GraphRepairPlan {
+  /** The project's connections after repair. */
+  connections: Connection[];
+  /** Remote connection rows to delete. Ids still used by a kept connection are never listed. */
+  deletedConnectionIds: string[];
+  /** Duplicates that were given a fresh id and still need a remote row. */
+  insertedConnections: Connection[];
+  orphanedSyncMetaNodeIds: string[];
+}
+
+/**
+ * Lists every problem in the graph. `syncMetaNodeIds` are the node ids that have a
+ * `prompt_node_sync_meta` row; any of them that is not a node of the project is orphaned.
+ */
+export function checkGraphIntegrity(
+  project: Pick<Project, 'nodes' | 'connections'>,
+  syncMetaNodeIds: Iterable<string> = [],
+): GraphIntegrityIssue[] {
+  const nodeIds = new Set(project.nodes.map((node) => node.id));
+  const issues: GraphIntegrityIssue[] = [];
+
+  for (const connection of project.connections) {
+    const missingNodeIds = [connection.from, connection.to].filter((nodeId) => !nodeIds.has(nodeId));
+    if (missingNodeIds.length > 0) {
+      issues.push({
+        kind: 'dangling-connection',
+        connectionId: connection.id,
+        from: connection.from,
+        to: connection.to,
+        missingNodeIds: [...new Set(missingNodeIds)],
+      });
+    }
+  }
+
+  const idCounts = new Map<string, number>();
+  for (const connection of project.connections) {
+    idCounts.set(connection.id, (idCounts.get(connection.id) ?? 0) + 1);
+  }
+  idCounts.forEach((count, connectionId) => {
+    if (count > 1) issues.push({ kind: 'duplicate-connection-id', connectionId, count });
+  });
+
+  for (const nodeId of new Set(syncMetaNodeIds)) {
+    if (!nodeIds.has(nodeId)) issues.push({ kind: 'orphaned-sync-meta', nodeId });
+  }
+
+  return issues;
+}
+
+/**
+ * Dangling connections are dropped. Of connections sharing an id the first keeps it;
+ * the rest get a fresh id unless they repeat an edge that is already kept.
+ */
+export function planGraphRepair(
+  project: Pick<Project, 'nodes' | 'connections'>,
+  issues: GraphIntegrityIssue[],
+  createId: () => string = uid,
+): GraphRepairPlan {
+  const nodeIds = new Set(project.nodes.map((node) => node.id));
+  const keptIds = new Set<string>();
+  const keptEdges = new Set<string>();
+  const droppedIds = new Set<string>();
+  const connections: Connection[] = [];
+  const insertedConnections: Connection[] = [];
+
+  for (const connection of project.connections) {
+    const edge = `${connection.from}\u0000${connection.to}`;
+    if (!nodeIds.has(connection.from) || !nodeIds.has(connection.to)) {
+      droppedIds.add(connection.id);
+      continue;
+    }
+    if (!keptIds.has(connection.id)) {
+      keptIds.add(connection.id);
+      keptEdges.add(edge);
+      connections.push(connection);
+      continue;
+    }
+    if (keptEdges.has(edge)) continue;
+    const renamed = { ...connection, id: createId() };
+    keptIds.add(renamed.id);
+    keptEdges.add(edge);
+    connections.push(renamed);
+    insertedConnections.push(renamed);
+  }
+
+  return {
+    connections,
+    deletedConnectionIds: [...droppedIds].filter((connectionId) => !keptIds.has(connectionId)),
+    insertedConnections,
+    orphanedSyncMetaNodeIds: issues.flatMap((issue) => (issue.kind === 'orphaned-sync-meta' ? [issue.nodeId] : [])),
+  };
+}
+
+/** A one-line description of the problem and where it is, using node labels where they exist. */
+export function describeIntegrityIssue(
+  issue: GraphIntegrityIssue,
+  project: Pick<Project, 'nodes' | 'connections'>,
+): { title: string; location: string } {
+  const nodeById = new Map<string, PromptNode>(project.nodes.map((node) => [node.id, node]));
+  const nodeName = (nodeId: string): string => nodeById.get(nodeId)?.label ?? `missing node ${nodeId}`;
+  const edgeName = (connection: Pick<Connection, 'from' | 'to'>): string => `${nodeName(connection.from)} → ${nodeName(connection.to)}`;
+
+  switch (issue.kind) {
+    case 'dangling-connection':
+      return {
+        title: issue.missingNodeIds.length > 1 ? 'Connection between two missing nodes' : 'Connection to a missing node',
+        location: `${edgeName(issue)} (connection ${issue.connectionId})`,
+      };
+    case 'duplicate-connection-id': {
+      const edges = project.connections.filter((connection) => connection.id === issue.connectionId).map(edgeName);
+      return {
+        title: `Connection id used ${issue.count} times`,
+        location: `${[...new Set(edges)].join(', ')} (connection ${issue.connectionId})`,
+      };
+    }
+    case 'orphaned-sync-meta':
+      return {
+        title: 'Sync record for a node that is not on the canvas',
+        location: `prompt_node_sync_meta row for node ${issue.nodeId}`,
+      };
+  }
+}
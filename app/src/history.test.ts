@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CommandHistory } from './history';
+
+function counterCommand(state: { value: number }, delta: number, label = 'step') {
+  state.value += delta;
+  return {
+    label,
+    undo: () => { state.value -= delta; },
+    redo: () => { state.value += delta; },
+  };
+}
+
+describe('CommandHistory', () => {
+  it('undoes and redoes recorded commands in order', () => {
+    const history = new CommandHistory();
+    const state = { value: 0 };
+    history.record(counterCommand(state, 1));
+    history.record(counterCommand(state, 10));
+
+    history.undo();
+    expect(state.value).toBe(1);
+    history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+
+    history.redo();
+    expect(state.value).toBe(1);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('drops the redo stack when a new command is recorded', () => {
+    const history = new CommandHistory();
+    const state = { value: 0 };
+    history.record(counterCommand(state, 1));
+    history.undo();
+    history.record(counterCommand(state, 5));
+
+    expect(history.canRedo()).toBe(false);
+    expect(state.value).toBe(5);
+  });
+
+  it('collapses grouped commands into a single step', () => {
+    const history = new CommandHistory();
+    const state = { value: 0 };
+    history.beginGroup('Move node');
+    history.record(counterCommand(state, 1));
+    history.record(counterCommand(state, 2));
+    history.endGroup();
+
+    expect(history.peekUndoLabel()).toBe('Move node');
+    history.undo();
+    expect(state.value).toBe(0);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('keeps at most `limit` commands', () => {
+    const history = new CommandHistory(2);
+    const state = { value: 0 };
+    history.record(counterCommand(state, 1));
+    history.record(counterCommand(state, 2));
+    history.record(counterCommand(state, 4));
+
+    history.undo();
+    history.undo();
+    expect(history.canUndo()).toBe(false);
+    expect(state.value).toBe(1);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * CommandHistory — per-project undo/redo stacks for graph mutations.
+ *
+ * Commands are recorded after a mutation has been applied. `undo`/`redo`
+ * callbacks are expected to re-run store mutations, so callers must suppress
+ * recording while a command is being replayed.
+ */
+
+export interface HistoryCommand {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+}
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+export class CommandHistory {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private openGroups: Array<{ label: string; commands: HistoryCommand[] }> = [];
+
+  constructor(private readonly limit = DEFAULT_HISTORY_LIMIT) {}
+
+  record(command: HistoryCommand): void {
+    const group = this.openGroups[this.openGroups.length - 1];
+    if (group) {
+      group.commands.push(command);
+      return;
+    }
+    this.undoStack.push(command);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.splice(0, this.undoStack.length - this.limit);
+    }
+    this.redoStack = [];
+  }
+
+  /** Collect every command recorded until the matching `endGroup` into one undo step. */
+  beginGroup(label: string): void {
+    this.openGroups.push({ label, commands: [] });
+  }
+
+  endGroup(): void {
+    const group = this.openGroups.pop();
+    if (!group || group.commands.length === 0) return;
+    if (group.commands.length === 1) {
+      this.record({ ...group.commands[0], label: group.label });
+      return;
+    }
+    const commands = group.commands;
+    this.record({
+      label: group.label,
+      undo: () => {
+        for (let i = commands.length - 1; i >= 0; i -= 1) {
+          commands[i].undo();
+        }
+      },
+      redo: () => {
+        for (const command of commands) {
+          command.redo();
+        }
+      },
+    });
+  }
+
+  undo(): HistoryCommand | null {
+    const command = this.undoStack.pop();
+    if (!command) return null;
+    command.undo();
+    this.redoStack.push(command);
+    return command;
+  }
+
+  redo(): HistoryCommand | null {
+    const command = this.redoStack.pop();
+    if (!command) return null;
+    command.redo();
+    this.undoStack.push(command);
+    return command;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  peekUndoLabel(): string | null {
+    return this.undoStack[this.undoStack.length - 1]?.label ?? null;
+  }
+
+  peekRedoLabel(): string | null {
+    return this.redoStack[this.redoStack.length - 1]?.label ?? null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.openGroups = [];
+  }
+}
+
+/** Maps Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo. */
+export function readHistoryShortcut(event: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && !event.shiftKey) return 'redo';
+  return null;
+}
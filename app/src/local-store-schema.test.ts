@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { LOCAL_STORE_MIGRATIONS, LOCAL_STORE_SCHEMA_VERSION, migrateLocalStorePayload } from './local-store-schema';
+
+describe('local store schema', () => {
+  it('has one migration per schema version', () => {
+    expect(LOCAL_STORE_MIGRATIONS).toHaveLength(LOCAL_STORE_SCHEMA_VERSION);
+  });
+
+  it('upgrades a bare project array and an unversioned payload', () => {
+    expect(migrateLocalStorePayload([])).toEqual({
+      ok: true,
+      fromVersion: 0,
+      payload: {
+        projects: [],
+        customNodeTemplates: [],
+        transcriptFlowDrafts: [],
+        trash: [],
+        schemaVersion: LOCAL_STORE_SCHEMA_VERSION,
+      },
+    });
+    expect(migrateLocalStorePayload({ projects: [], customNodeTemplates: [] })).toMatchObject({
+      ok: true,
+      fromVersion: 1,
+      payload: { transcriptFlowDrafts: [], trash: [], schemaVersion: LOCAL_STORE_SCHEMA_VERSION },
+    });
+  });
+
+  it('refuses payloads it cannot upgrade', () => {
+    expect(migrateLocalStorePayload({ schemaVersion: LOCAL_STORE_SCHEMA_VERSION + 1, projects: [] })).toMatchObject({ ok: false });
+    expect(migrateLocalStorePayload({ schemaVersion: 'two' })).toMatchObject({ ok: false });
+    expect(migrateLocalStorePayload('projects')).toMatchObject({ ok: false });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * LocalStoreSchema — versioned shape of the offline project cache in localStorage.
+ *
+ * Payloads written by older builds are upgraded one schema version at a time.
+ * A payload that cannot be upgraded is reported instead of dropped, so the store
+ * can keep the raw text for the user to export.
+ */
+import { isRecord } from './model-guards';
+
+export const LOCAL_STORE_SCHEMA_VERSION = 3;
+
+type LocalStoreMigration = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+/** `LOCAL_STORE_MIGRATIONS[n]` upgrades a version `n` payload to version `n + 1`. */
+export const LOCAL_STORE_MIGRATIONS: readonly LocalStoreMigration[] = [
+  // 0 → 1: projects used to be stored as a bare array, before custom node templates.
+  (payload) => ({ ...payload, customNodeTemplates: payload.customNodeTemplates ?? [] }),
+  // 1 → 2: transcript flow drafts were added as an optional field.
+  (payload) => ({ ...payload, transcriptFlowDrafts: payload.transcriptFlowDrafts ?? [] }),
+  // 2 → 3: deletions became soft and move to the trash.
+  (payload) => ({ ...payload, trash: payload.trash ?? [] }),
+];
+
+export type LocalStoreMigrationResult =
+  | { ok: true; payload: Record<string, unknown>; fromVersion: number }
+  | { ok: false; error: string };
+
+/** Raw localStorage text that failed to load, kept until the user exports or discards it. */
+export interface LocalStoreRecovery {
+  savedAt: string;
+  reason: string;
+  raw: string;
+}
+
+/** Reads the schema version of a parsed payload and runs every migration after it. */
+export function migrateLocalStorePayload(parsed: unknown): LocalStoreMigrationResult {
+  let payload: Record<string, unknown>;
+  let version: number;
+  if (Array.isArray(parsed)) {
+    payload = { projects: parsed };
+    version = 0;
+  } else if (isRecord(parsed)) {
+    const declared = parsed.schemaVersion;
+    if (declared === undefined) {
+      version = 1;
+    } else if (typeof declared === 'number' && Number.isInteger(declared) && declared >= 0) {
+      version = declared;
+    } else {
+      return { ok: false, error: 'The saved data has an invalid schema version.' };
+    }
+    payload = parsed;
+  } else {
+    return { ok: false, error: 'The saved data is not a project list.' };
+  }
+
+  if (version > LOCAL_STORE_SCHEMA_VERSION) {
+    return { ok: false, error: `The saved data was written by a newer version of the app (schema ${version}).` };
+  }
+
+  const fromVersion = version;
+  for (; version < LOCAL_STORE_SCHEMA_VERSION; version += 1) {
+    try {
+      payload = LOCAL_STORE_MIGRATIONS[version](payload);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { ok: false, error: `Upgrading saved data from schema ${version} failed: ${message}` };
+    }
+  }
+  return { ok: true, payload: { ...payload, schemaVersion: LOCAL_STORE_SCHEMA_VERSION }, fromVersion };
+}
+
+export function isLocalStoreRecovery(value: unknown): value is LocalStoreRecovery {
+  return (
+    isRecord(value) &&
+    typeof value.savedAt === 'string' &&
+    typeof value.reason === 'string' &&
+    typeof value.raw === 'string'
+  );
+}
+
+export function localStoreRecoveryFileName(recovery: LocalStoreRecovery): string {
+  const stamp = recovery.savedAt.slice(0, 19).replace(/[:T]/g, '-');
+  return `promptflow-offline-backup-${stamp}.json`;
+}
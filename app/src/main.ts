@@ -10,21 +10,24 @@ import { renderEditor } from './views/editor';
 import { renderDiff } from './views/diff';
 import { renderImport } from './views/import';
 import { renderTranscriptImport } from './views/transcript-import';
+import { renderTrash } from './views/trash';
+import { renderVariables } from './views/variables';
 import { renderAuthPage, renderOnboardingPage } from './views/auth';
 import { applyTheme } from './theme';
-import { store, type StoreRemoteErrorEventDetail } from './store';
+import { store, type StorePersistenceStatus, type StoreSyncConflictEventDetail } from './store';
 import { getCurrentUser, isOnboardingComplete } from './auth';
+import { localStoreRecoveryFileName, type LocalStoreRecovery } from './local-store-schema';
 
 applyTheme();
 
 const app = document.getElementById('app')!;
 app.className = 'ui-shell';
 
-function upsertPersistenceBanner(detail: StoreRemoteErrorEventDetail | null = null): void {
-  const status = detail ?? { context: 'status', ...store.getPersistenceStatus() };
+function upsertPersistenceBanner(detail: StorePersistenceStatus | null = null): void {
+  const status = detail ?? store.getPersistenceStatus();
   const existing = document.getElementById('persistence-banner');
 
-  if (status.mode === 'database') {
+  if (status.mode === 'database' && status.failedWrites === 0) {
     existing?.remove();
     return;
   }
@@ -34,26 +37,150 @@ function upsertPersistenceBanner(detail: StoreRemoteErrorEventDetail | null = nu
   banner.className =
     'fixed bottom-4 right-4 z-[1001] max-w-md rounded-lg border border-amber-300 bg-amber-50 px-4 py-3 text-xs text-amber-900 shadow-lg dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100';
 
-  const hint = status.hint ?? 'Database writes are blocked. Data is currently only in localStorage.';
+  const isFallback = status.mode === 'local-fallback';
+  const hint = isFallback
+    ? status.hint ?? 'Database writes are blocked. Data is currently only in localStorage.'
+    : 'Some changes could not be saved to the database after several attempts.';
   const title = document.createElement('p');
   const hintLine = document.createElement('p');
+  const queueLine = document.createElement('p');
   const errorLine = document.createElement('p');
+  const actions = document.createElement('div');
   title.className = 'font-semibold';
   hintLine.className = 'mt-1';
+  queueLine.className = 'mt-1';
   errorLine.className = 'mt-1 opacity-80';
-  title.textContent = 'Database sync unavailable';
+  actions.className = 'mt-2 flex items-center gap-2';
+  title.textContent = isFallback ? 'Database sync unavailable' : 'Database sync incomplete';
   hintLine.textContent = hint;
+  queueLine.textContent = `${status.pendingWrites} change${status.pendingWrites === 1 ? '' : 's'} waiting to sync, ${status.failedWrites} failed.`;
   errorLine.textContent = `Latest error: ${status.error ?? 'unknown'}`;
-  banner.replaceChildren(title, hintLine, errorLine);
+
+  const retryButton = document.createElement('button');
+  retryButton.type = 'button';
+  retryButton.className = 'ui-btn ui-btn-outline !px-2 !py-1 text-[11px]';
+  retryButton.textContent = 'Retry sync';
+  retryButton.addEventListener('click', () => {
+    retryButton.disabled = true;
+    void store.retryFailedRemoteWrites().finally(() => upsertPersistenceBanner());
+  });
+  actions.append(retryButton);
+
+  if (status.failedWrites > 0) {
+    const discardButton = document.createElement('button');
+    discardButton.type = 'button';
+    discardButton.className = 'ui-btn ui-btn-ghost !px-2 !py-1 text-[11px]';
+    discardButton.textContent = 'Discard failed';
+    discardButton.addEventListener('click', () => {
+      store.discardFailedRemoteWrites();
+      upsertPersistenceBanner();
+    });
+    actions.append(discardButton);
+  }
+
+  retryButton.hidden = !isFallback && status.pendingWrites === 0 && status.failedWrites === 0;
+  banner.replaceChildren(...(isFallback
+    ? [title, hintLine, queueLine, errorLine, actions]
+    : [title, hintLine, queueLine, actions]));
 
   if (!existing) {
     document.body.appendChild(banner);
   }
 }
 
-window.addEventListener('store:remote-error', (event: Event) => {
-  const customEvent = event as CustomEvent<StoreRemoteErrorEventDetail>;
-  upsertPersistenceBanner(customEvent.detail);
+store.on('persistence-changed', (event) => upsertPersistenceBanner(event.status));
+
+function showSyncConflictNotice(detail: StoreSyncConflictEventDetail): void {
+  const existing = document.getElementById('sync-conflict-notice');
+  const notice = existing ?? document.createElement('div');
+  notice.id = 'sync-conflict-notice';
+  notice.className =
+    'fixed bottom-4 left-4 z-[1001] max-w-sm rounded-lg border border-sky-300 bg-sky-50 px-4 py-3 text-xs text-sky-900 shadow-lg dark:border-sky-700 dark:bg-sky-950 dark:text-sky-100';
+
+  const title = document.createElement('p');
+  const body = document.createElement('p');
+  const dismiss = document.createElement('button');
+  title.className = 'font-semibold';
+  body.className = 'mt-1';
+  dismiss.type = 'button';
+  dismiss.className = 'ui-btn ui-btn-ghost mt-2 !px-2 !py-1 text-[11px]';
+  const elsewhere = detail.source === 'collaborator' ? 'by a collaborator' : 'in another tab';
+  title.textContent = detail.source === 'collaborator' ? 'Edited by a collaborator' : 'Edited in another tab';
+  body.textContent = detail.resolution === 'merged'
+    ? `"${detail.nodeLabel}" was also changed ${elsewhere}. Where both edits changed the same lines, both versions were kept (yours first); review the node.`
+    : `"${detail.nodeLabel}" was also changed ${elsewhere}. The latest save wins; review the node before saving again.`;
+  dismiss.textContent = 'Dismiss';
+  dismiss.addEventListener('click', () => notice.remove());
+  notice.replaceChildren(title, body, dismiss);
+
+  if (!existing) {
+    document.body.appendChild(notice);
+  }
+}
+
+window.addEventListener('store:sync-conflict', (event: Event) => {
+  const customEvent = event as CustomEvent<StoreSyncConflictEventDetail>;
+  showSyncConflictNotice(customEvent.detail);
+});
+
+function showLocalRecoveryNotice(recovery: LocalStoreRecovery): void {
+  const existing = document.getElementById('local-recovery-notice');
+  const notice = existing ?? document.createElement('div');
+  notice.id = 'local-recovery-notice';
+  notice.className =
+    'fixed top-4 left-1/2 -translate-x-1/2 z-[1001] max-w-md rounded-lg border border-red-300 bg-red-50 px-4 py-3 text-xs text-red-900 shadow-lg dark:border-red-700 dark:bg-red-950 dark:text-red-100';
+
+  const title = document.createElement('p');
+  const body = document.createElement('p');
+  const reason = document.createElement('p');
+  const actions = document.createElement('div');
+  title.className = 'font-semibold';
+  body.className = 'mt-1';
+  reason.className = 'mt-1 opacity-80';
+  actions.className = 'mt-2 flex items-center gap-2';
+  title.textContent = 'Offline data could not be fully loaded';
+  body.textContent = 'A copy of the unreadable data was kept on this device. Download it before discarding so no offline work is lost.';
+  reason.textContent = recovery.reason;
+
+  const downloadButton = document.createElement('button');
+  downloadButton.type = 'button';
+  downloadButton.className = 'ui-btn ui-btn-outline !px-2 !py-1 text-[11px]';
+  downloadButton.textContent = 'Download backup';
+  downloadButton.addEventListener('click', () => {
+    const url = URL.createObjectURL(new Blob([recovery.raw], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = localStoreRecoveryFileName(recovery);
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+
+  const discardButton = document.createElement('button');
+  discardButton.type = 'button';
+  discardButton.className = 'ui-btn ui-btn-ghost !px-2 !py-1 text-[11px]';
+  discardButton.textContent = 'Discard';
+  discardButton.addEventListener('click', () => {
+    store.discardLocalStoreRecovery();
+    notice.remove();
+  });
+
+  actions.append(downloadButton, discardButton);
+  notice.replaceChildren(title, body, reason, actions);
+
+  if (!existing) {
+    document.body.appendChild(notice);
+  }
+}
+
+window.addEventListener('store:local-recovery', (event: Event) => {
+  const customEvent = event as CustomEvent<LocalStoreRecovery>;
+  showLocalRecoveryNotice(customEvent.detail);
+});
+
+// Replay queued writes as soon as the browser reports connectivity again.
+window.addEventListener('online', () => {
+  if (store.getPersistenceStatus().mode !== 'local-fallback') return;
+  void store.retryRemoteWrites();
 });
 
 function showLoading(message: string): void {
@@ -115,6 +242,8 @@ async function runProtectedRoute(render: () => void): Promise<void> {
 
     await store.ready;
     upsertPersistenceBanner();
+    const recovery = store.getLocalStoreRecovery();
+    if (recovery) showLocalRecoveryNotice(recovery);
     render();
   } catch (err) {
     console.error('Protected route error:', err);
@@ -146,12 +275,18 @@ router
   .on('/project/:id/diff', (params) => {
     void runProtectedRoute(() => renderDiff(app, params.id));
   })
+  .on('/project/:id/variables', (params) => {
+    void runProtectedRoute(() => renderVariables(app, params.id));
+  })
   .on('/import', () => {
     void runProtectedRoute(() => renderImport(app));
   })
   .on('/import/transcript', () => {
     void runProtectedRoute(() => renderTranscriptImport(app));
   })
+  .on('/trash', () => {
+    void runProtectedRoute(() => renderTrash(app));
+  })
   .otherwise(() => {
     router.navigate('/');
   })
@@ -0,0 +1,190 @@
+/**
+ * Model guards — runtime shape checks for the domain models in `models.ts`.
+ *
+ * Used wherever models arrive as untrusted JSON: localStorage payloads,
+ * queued writes and imported project bundles.
+ */
+import type {
+  Connection,
+  CustomNodeTemplate,
+  NodeType,
+  Project,
+  ProjectHead,
+  ProjectLineage,
+  PromptGraphSnapshot,
+  PromptNode,
+  PromptVersion,
+  TemplateVariable,
+} from './models';
+
+export function isProject(value: unknown): value is Project {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    typeof value.description === 'string' &&
+    typeof value.model === 'string' &&
+    typeof value.icon === 'string' &&
+    typeof value.lastEdited === 'string' &&
+    Array.isArray(value.nodes) &&
+    value.nodes.every(isPromptNode) &&
+    Array.isArray(value.connections) &&
+    value.connections.every(isConnection) &&
+    Array.isArray(value.versions) &&
+    value.versions.every(isPromptVersion) &&
+    (value.forkedFrom === undefined || isProjectLineage(value.forkedFrom)) &&
+    (value.head === undefined || isProjectHead(value.head)) &&
+    (value.releaseTags === undefined || isStringRecord(value.releaseTags)) &&
+    (value.folder === undefined || typeof value.folder === 'string') &&
+    (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === 'string'))) &&
+    (value.updatedAt === undefined || typeof value.updatedAt === 'string') &&
+    (value.variables === undefined || (Array.isArray(value.variables) && value.variables.every(isTemplateVariable))) &&
+    (value.environments === undefined || (Array.isArray(value.environments) && value.environments.every((name) => typeof name === 'string'))) &&
+    (value.tokenBudget === undefined || typeof value.tokenBudget === 'number') &&
+    (value.conversationTokens === undefined || typeof value.conversationTokens === 'number')
+  );
+}
+
+export function isTemplateVariable(value: unknown): value is TemplateVariable {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.name === 'string' &&
+    typeof value.description === 'string' &&
+    typeof value.defaultValue === 'string' &&
+    typeof value.required === 'boolean'
+  );
+}
+
+export function isProjectHead(value: unknown): value is ProjectHead {
+  if (!isRecord(value)) return false;
+  return typeof value.branch === 'string' && (typeof value.versionId === 'string' || value.versionId === null);
+}
+
+export function isProjectLineage(value: unknown): value is ProjectLineage {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.projectId === 'string' &&
+    typeof value.projectName === 'string' &&
+    (typeof value.versionId === 'string' || value.versionId === null) &&
+    typeof value.forkedAt === 'string'
+  );
+}
+
+export function isPromptNode(value: unknown): value is PromptNode {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.type === 'string' &&
+    typeof value.label === 'string' &&
+    typeof value.icon === 'string' &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number' &&
+    typeof value.content === 'string' &&
+    isStringRecord(value.meta)
+  );
+}
+
+export function isConnection(value: unknown): value is Connection {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.from === 'string' &&
+    typeof value.to === 'string' &&
+    (value.label === undefined || typeof value.label === 'string')
+  );
+}
+
+export function isPromptVersion(value: unknown): value is PromptVersion {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.timestamp === 'number' &&
+    typeof value.content === 'string' &&
+    typeof value.notes === 'string' &&
+    (value.snapshot === undefined || value.snapshot === null || isPromptGraphSnapshot(value.snapshot)) &&
+    (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+    (value.branch === undefined || typeof value.branch === 'string')
+  );
+}
+
+export function isPromptGraphSnapshot(value: unknown): value is PromptGraphSnapshot {
+  if (!isRecord(value)) return false;
+  return (
+    Array.isArray(value.nodes) &&
+    value.nodes.every(isPromptSnapshotNode) &&
+    Array.isArray(value.connections) &&
+    value.connections.every(isConnection)
+  );
+}
+
+function isPromptSnapshotNode(value: unknown): value is {
+  id: string;
+  type: string;
+  label: string;
+  icon: string;
+  x: number;
+  y: number;
+  content: string;
+  meta: Record<string, string>;
+} {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.type === 'string' &&
+    typeof value.label === 'string' &&
+    typeof value.icon === 'string' &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number' &&
+    typeof value.content === 'string' &&
+    isStringRecord(value.meta)
+  );
+}
+
+export function isCustomNodeTemplate(value: unknown): value is CustomNodeTemplate {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    typeof value.type === 'string' &&
+    isNodeType(value.type) &&
+    typeof value.label === 'string' &&
+    typeof value.icon === 'string' &&
+    typeof value.content === 'string' &&
+    isStringRecord(value.meta) &&
+    typeof value.createdAt === 'string' &&
+    typeof value.updatedAt === 'string' &&
+    (value.revision === undefined || (typeof value.revision === 'number' && Number.isInteger(value.revision)))
+  );
+}
+
+export function isNodeType(value: string): value is NodeType {
+  switch (value) {
+    case 'core-persona':
+    case 'mission-objective':
+    case 'tone-guidelines':
+    case 'language-model':
+    case 'logic-branch':
+    case 'termination':
+    case 'vector-db':
+    case 'static-context':
+    case 'memory-buffer':
+    case 'webhook':
+    case 'transcriber':
+    case 'llm-brain':
+    case 'voice-synth':
+    case 'style-module':
+    case 'subflow':
+    case 'custom':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isStringRecord(value: unknown): value is Record<string, string> {
+  if (!isRecord(value)) return false;
+  return Object.values(value).every((entry) => typeof entry === 'string');
+}
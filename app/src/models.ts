@@ -1,3 +1,5 @@
+import { SUBFLOW_META_KEY, SUBFLOW_UNLINKED } from './subflows';
+
 export interface Project {
   id: string;
   name: string;
@@ -8,6 +10,48 @@ export interface Project {
   nodes: PromptNode[];
   connections: Connection[];
   versions: PromptVersion[];
+  /** Set when the project was forked from another one. */
+  forkedFrom?: ProjectLineage;
+  /** Branch and version the working graph is based on; defaults to the latest version. */
+  head?: ProjectHead;
+  /** Release tag name → tagged version id. */
+  releaseTags?: Record<string, string>;
+  /** Dashboard folder; absent when the project is unfiled. */
+  folder?: string;
+  /** User-defined dashboard tags, lowercase. */
+  tags?: string[];
+  /** ISO time of the last edit; absent on projects saved before it was tracked. */
+  updatedAt?: string;
+  /** Declared `{{name}}` placeholders used in node content. */
+  variables?: TemplateVariable[];
+  /** Deployment environment names, e.g. staging and production. */
+  environments?: string[];
+  /** Token limit for the assembled prompt, counted with the model's encoding. */
+  tokenBudget?: number;
+  /** Average conversation tokens sent with the prompt on each call, for cost estimates. */
+  conversationTokens?: number;
+}
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  /** Used when no other value is given; '' means none. */
+  defaultValue: string;
+  required: boolean;
+}
+
+export interface ProjectHead {
+  branch: string;
+  versionId: string | null;
+}
+
+export interface ProjectLineage {
+  projectId: string;
+  /** Parent name at fork time, shown when the parent no longer exists. */
+  projectName: string;
+  /** Null when forked from the live canvas rather than a saved version. */
+  versionId: string | null;
+  forkedAt: string;
 }
 
 export interface PromptNode {
@@ -36,6 +80,7 @@ export type NodeType =
   | 'llm-brain'
   | 'voice-synth'
   | 'style-module'
+  | 'subflow'
   | 'custom';
 
 export interface Connection {
@@ -56,6 +101,9 @@ export interface PromptVersion {
   content: string;
   notes: string;
   snapshot: PromptGraphSnapshot | null;
+  /** Version this one was saved on top of; absent on versions saved before branching. */
+  parentId?: string | null;
+  branch?: string;
 }
 
 export interface BlockDefinition {
@@ -64,6 +112,8 @@ export interface BlockDefinition {
   icon: string;
   category: string;
   defaultContent: string;
+  /** Meta every node created from the block starts with. */
+  meta?: Record<string, string>;
 }
 
 export interface CustomNodeTemplate {
@@ -75,14 +125,20 @@ export interface CustomNodeTemplate {
   meta: Record<string, string>;
   createdAt: string;
   updatedAt: string;
+  /** Bumped on every edit so linked nodes can tell they are out of date; absent means 1. */
+  revision?: number;
 }
 
+/** Node meta key recording the custom node template a node was created from. */
+export const CUSTOM_TEMPLATE_META_KEY = 'customTemplateId';
+
 export const BLOCK_PALETTE: BlockDefinition[] = [
   { type: 'core-persona', label: 'Core Persona', icon: 'psychology', category: 'Identity & Purpose', defaultContent: '# Core Persona\nYou are ...' },
   { type: 'mission-objective', label: 'Mission Objective', icon: 'flag', category: 'Identity & Purpose', defaultContent: '# Mission Objective\nYour primary goal is ...' },
   { type: 'tone-guidelines', label: 'Tone Guidelines', icon: 'record_voice_over', category: 'Voice & Persona', defaultContent: '## Tone Guidelines\n- Maintain a professional voice.\n- Be concise and clear.' },
   { type: 'language-model', label: 'Language Model', icon: 'translate', category: 'Voice & Persona', defaultContent: '## Language\nRespond in English.' },
   { type: 'logic-branch', label: 'Logic Branch', icon: 'alt_route', category: 'Conversation Flow', defaultContent: '## Logic Branch\nIf the user asks about X, then ...' },
+  { type: 'subflow', label: 'Subflow', icon: 'account_tree', category: 'Conversation Flow', defaultContent: '', meta: { [SUBFLOW_META_KEY]: SUBFLOW_UNLINKED } },
   { type: 'termination', label: 'Termination Node', icon: 'call_end', category: 'Conversation Flow', defaultContent: '## Termination\nEnd the conversation gracefully.' },
   { type: 'vector-db', label: 'Vector Database', icon: 'storage', category: 'Knowledge Base', defaultContent: '## Vector DB\nRetrieval context goes here.' },
   { type: 'static-context', label: 'Static Context', icon: 'article', category: 'Knowledge Base', defaultContent: '## Static Context\nBackground information ...' },
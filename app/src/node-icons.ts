@@ -15,6 +15,7 @@ export const DEFAULT_NODE_ICON_BY_TYPE: Readonly<Record<NodeType, string>> = {
   'llm-brain': 'psychology',
   'voice-synth': 'record_voice_over',
   'style-module': 'palette',
+  subflow: 'account_tree',
   custom: 'widgets',
 };
 
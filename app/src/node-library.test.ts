@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptNode } from './models';
+import {
+  findLinkedInstances,
+  libraryLinkStatus,
+  planLibraryUpdate,
+  readLibraryLink,
+  withLibraryLink,
+  withLibraryOverride,
+  withoutLibraryLink,
+} from './node-library';
+
+function node(id: string, meta: Record<string, string> = {}, content = 'v1'): PromptNode {
+  return {
+    id,
+    type: 'custom',
+    label: id,
+    icon: 'widgets',
+    x: 0,
+    y: 0,
+    content,
+    meta,
+  };
+}
+
+describe('node library', () => {
+  it('links meta at the template revision and keeps an override through relinking', () => {
+    const linked = withLibraryLink({ color: '#fff' }, { id: 't1', revision: 3, content: 'v3' });
+    expect(linked).toMatchObject({ color: '#fff', libraryLink: 't1', libraryRevision: '3' });
+    expect(readLibraryLink(linked)).toMatchObject({ templateId: 't1', revision: 3, override: false });
+
+    const overridden = withLibraryOverride(linked, true);
+    expect(readLibraryLink(withLibraryLink(overridden, { id: 't1', revision: 4, content: 'v4' }))?.override).toBe(true);
+    expect(withoutLibraryLink(overridden)).toEqual({ color: '#fff' });
+    expect(readLibraryLink({ libraryLink: 't1', libraryRevision: 'x' })?.revision).toBe(1);
+  });
+
+  it('reports outdated, modified, overridden and missing links', () => {
+    const link = readLibraryLink(withLibraryLink({}, { id: 't1', content: 'v1' }))!;
+    expect(libraryLinkStatus(link, { revision: undefined, content: 'v1' }, 'v1')).toBe('current');
+    expect(libraryLinkStatus(link, { revision: 2, content: 'v2' }, 'v1')).toBe('outdated');
+    expect(libraryLinkStatus(link, { revision: 2, content: 'v2' }, 'v1 edited')).toBe('modified');
+    expect(libraryLinkStatus({ ...link, override: true }, { revision: 2, content: 'v2' }, 'v1')).toBe('overridden');
+    expect(libraryLinkStatus({ ...link, override: true }, undefined, 'v1')).toBe('missing');
+  });
+
+  it('finds linked nodes of one template across projects', () => {
+    const template = { id: 't1', revision: 2, content: 'v2' };
+    const projects = [
+      { id: 'p1', nodes: [node('a', withLibraryLink({}, { id: 't1', revision: 1, content: 'v1' })), node('b')] },
+      { id: 'p2', nodes: [node('c', withLibraryLink({}, template), 'v2'), node('d', withLibraryLink({}, { id: 't2', content: 'v1' }))] },
+    ];
+
+    expect(findLinkedInstances(projects, template).map((instance) => [instance.projectId, instance.node.id, instance.status]))
+      .toEqual([['p1', 'a', 'outdated'], ['p2', 'c', 'current']]);
+  });
+
+  it('leaves hand-edited nodes out of update-all', () => {
+    const template = { id: 't1', revision: 2, content: 'v2' };
+    const synced = withLibraryLink({}, { id: 't1', revision: 1, content: 'v1' });
+    const projects = [{
+      id: 'p1',
+      nodes: [
+        node('untouched', synced),
+        node('edited', synced, 'v1 with a local fix'),
+        node('overridden', withLibraryOverride(synced, true)),
+      ],
+    }];
+
+    const plan = planLibraryUpdate(projects, template);
+    expect(plan.update.map((instance) => instance.node.id)).toEqual(['untouched']);
+    expect(plan.skipped.map((instance) => [instance.node.id, instance.status])).toEqual([['edited', 'modified'], ['overridden', 'overridden']]);
+  });
+});
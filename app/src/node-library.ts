@@ -0,0 +1,141 @@
+/**
+ * NodeLibrary — linked instances of custom node templates.
+ *
+ * A linked node records the template it came from and the template revision its
+ * content was last synced to. When the template's revision moves past that, the
+ * node is out of date until it is updated. A hash of the synced content shows
+ * when the node was edited by hand since; such nodes, like overrides, keep the
+ * project's own content through library-wide updates. Detaching drops the link
+ * altogether.
+ */
+import type { CustomNodeTemplate, Project, PromptNode } from './models';
+import { contentHash } from './token-chunks';
+
+export const LIBRARY_LINK_META_KEY = 'libraryLink';
+export const LIBRARY_REVISION_META_KEY = 'libraryRevision';
+export const LIBRARY_OVERRIDE_META_KEY = 'libraryOverride';
+export const LIBRARY_CONTENT_HASH_META_KEY = 'libraryContentHash';
+
+export interface LibraryLink {
+  templateId: string;
+  /** Template revision the node's content matches. */
+  revision: number;
+  override: boolean;
+  /** Hash of the content last synced from the template; null on links made before it was recorded. */
+  contentHash: string | null;
+}
+
+export type LibraryLinkStatus = 'current' | 'outdated' | 'modified' | 'overridden' | 'missing';
+
+export interface LinkedLibraryInstance {
+  projectId: string;
+  node: PromptNode;
+  status: LibraryLinkStatus;
+}
+
+export interface LibraryUpdatePlan {
+  /** Out-of-date instances that still hold the synced content. */
+  update: LinkedLibraryInstance[];
+  /** Instances behind the template that keep their content: edited by hand or overridden. */
+  skipped: LinkedLibraryInstance[];
+}
+
+/** Templates saved before revisions existed count as revision 1. */
+export function templateRevision(template: Pick<CustomNodeTemplate, 'revision'>): number {
+  return template.revision ?? 1;
+}
+
+export function readLibraryLink(meta: Record<string, string> | null | undefined): LibraryLink | null {
+  const templateId = meta?.[LIBRARY_LINK_META_KEY]?.trim();
+  if (!templateId) return null;
+  const revision = Number.parseInt(meta?.[LIBRARY_REVISION_META_KEY] ?? '', 10);
+  return {
+    templateId,
+    revision: Number.isInteger(revision) && revision > 0 ? revision : 1,
+    override: meta?.[LIBRARY_OVERRIDE_META_KEY] === 'true',
+    contentHash: meta?.[LIBRARY_CONTENT_HASH_META_KEY] || null,
+  };
+}
+
+/** Links the meta to the template's current revision and content; an existing override is kept. */
+export function withLibraryLink(
+  meta: Record<string, string> | null | undefined,
+  template: Pick<CustomNodeTemplate, 'id' | 'revision' | 'content'>,
+): Record<string, string> {
+  return {
+    ...(meta ?? {}),
+    [LIBRARY_LINK_META_KEY]: template.id,
+    [LIBRARY_REVISION_META_KEY]: String(templateRevision(template)),
+    [LIBRARY_CONTENT_HASH_META_KEY]: contentHash(template.content),
+  };
+}
+
+export function withLibraryOverride(meta: Record<string, string> | null | undefined, override: boolean): Record<string, string> {
+  const nextMeta = { ...(meta ?? {}) };
+  if (override) {
+    nextMeta[LIBRARY_OVERRIDE_META_KEY] = 'true';
+  } else {
+    delete nextMeta[LIBRARY_OVERRIDE_META_KEY];
+  }
+  return nextMeta;
+}
+
+export function withoutLibraryLink(meta: Record<string, string> | null | undefined): Record<string, string> {
+  const nextMeta = { ...(meta ?? {}) };
+  delete nextMeta[LIBRARY_LINK_META_KEY];
+  delete nextMeta[LIBRARY_REVISION_META_KEY];
+  delete nextMeta[LIBRARY_OVERRIDE_META_KEY];
+  delete nextMeta[LIBRARY_CONTENT_HASH_META_KEY];
+  return nextMeta;
+}
+
+/**
+ * Whether the node's content differs from what was last synced. Links without a
+ * recorded hash can only be checked at the template's current revision; older
+ * ones count as edited, since nothing proves otherwise.
+ */
+function isEditedSinceSync(
+  link: LibraryLink,
+  template: Pick<CustomNodeTemplate, 'revision' | 'content'>,
+  content: string,
+): boolean {
+  if (link.contentHash) return contentHash(content) !== link.contentHash;
+  return link.revision < templateRevision(template) || content !== template.content;
+}
+
+export function libraryLinkStatus(
+  link: LibraryLink,
+  template: Pick<CustomNodeTemplate, 'revision' | 'content'> | undefined,
+  content: string,
+): LibraryLinkStatus {
+  if (!template) return 'missing';
+  if (link.override) return 'overridden';
+  if (isEditedSinceSync(link, template, content)) return 'modified';
+  return link.revision < templateRevision(template) ? 'outdated' : 'current';
+}
+
+/** Every node across the projects linked to the template, in project then canvas order. */
+export function findLinkedInstances(
+  projects: Array<Pick<Project, 'id' | 'nodes'>>,
+  template: Pick<CustomNodeTemplate, 'id' | 'revision' | 'content'>,
+): LinkedLibraryInstance[] {
+  return projects.flatMap((project) => project.nodes.flatMap((node) => {
+    const link = readLibraryLink(node.meta);
+    if (link?.templateId !== template.id) return [];
+    return [{ projectId: project.id, node, status: libraryLinkStatus(link, template, node.content) }];
+  }));
+}
+
+/** Splits the template's linked nodes into those an update-all replaces and those it leaves alone. */
+export function planLibraryUpdate(
+  projects: Array<Pick<Project, 'id' | 'nodes'>>,
+  template: Pick<CustomNodeTemplate, 'id' | 'revision' | 'content'>,
+): LibraryUpdatePlan {
+  const instances = findLinkedInstances(projects, template);
+  const isBehind = (instance: LinkedLibraryInstance): boolean =>
+    (readLibraryLink(instance.node.meta)?.revision ?? 0) < templateRevision(template);
+  return {
+    update: instances.filter((instance) => instance.status === 'outdated'),
+    skipped: instances.filter((instance) => (instance.status === 'modified' || instance.status === 'overridden') && isBehind(instance)),
+  };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { CUSTOM_TEMPLATE_META_KEY, type CustomNodeTemplate, type Project, type PromptNode } from './models';
+import {
+  createPromptFlowBundle,
+  parsePromptFlowBundle,
+  prepareProjectImport,
+  serializePromptFlowBundle,
+} from './project-bundle';
+
+function node(id: string, meta: Record<string, string> = {}): PromptNode {
+  return { id, type: 'custom', label: `Node ${id}`, icon: 'widgets', x: 0, y: 0, content: `# ${id}`, meta };
+}
+
+const template: CustomNodeTemplate = {
+  id: 't1',
+  type: 'custom',
+  label: 'Escalation',
+  icon: 'support_agent',
+  content: '## Escalation',
+  meta: {},
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function sampleProject(): Project {
+  return {
+    id: 'p1',
+    name: 'Support Agent',
+    description: 'Handles tickets',
+    model: 'GPT-4o',
+    icon: 'schema',
+    lastEdited: '2 days ago',
+    nodes: [node('a'), node('b', { [CUSTOM_TEMPLATE_META_KEY]: 't1' })],
+    connections: [{ id: 'c1', from: 'a', to: 'b', label: 'next' }],
+    versions: [{
+      id: 'v1',
+      timestamp: 1,
+      content: '# a',
+      notes: 'Initial',
+      snapshot: { nodes: [node('a'), node('gone')], connections: [{ id: 'c0', from: 'a', to: 'gone' }] },
+    }],
+  };
+}
+
+describe('project bundles', () => {
+  it('round-trips a project with only the templates it uses', () => {
+    const unused: CustomNodeTemplate = { ...template, id: 't2', label: 'Unused' };
+    const bundle = createPromptFlowBundle(sampleProject(), [template, unused]);
+    const result = parsePromptFlowBundle(serializePromptFlowBundle(bundle));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.bundle.project).toEqual(sampleProject());
+    expect(result.bundle.customNodeTemplates.map((item) => item.id)).toEqual(['t1']);
+    expect(result.bundle.transcriptSet).toBeNull();
+  });
+
+  it('reports every invalid entry with its path', () => {
+    const bundle = createPromptFlowBundle(sampleProject(), []);
+    const raw = JSON.parse(serializePromptFlowBundle(bundle)) as Record<string, unknown>;
+    const project = raw.project as Record<string, unknown>;
+    project.nodes = [node('a'), { id: 'b', label: 42 }];
+    project.connections = [{ id: 'c1', from: 'a', to: 'missing' }];
+
+    const result = parsePromptFlowBundle(JSON.stringify(raw));
+
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        'project.nodes[1] is not a valid prompt node.',
+        'project.connections[0] references a node that is not in the project.',
+      ],
+    });
+    expect(parsePromptFlowBundle('{"format":"promptflow-bundle","version":99}')).toMatchObject({ ok: false });
+    expect(parsePromptFlowBundle('not json')).toEqual({ ok: false, errors: ['File is not valid JSON.'] });
+  });
+
+  it('assigns fresh ids and keeps references consistent', () => {
+    const bundle = createPromptFlowBundle(sampleProject(), [template]);
+    const { project, newCustomNodeTemplates } = prepareProjectImport(bundle, []);
+    const [a, b] = project.nodes;
+    const snapshot = project.versions[0].snapshot;
+
+    expect(project.id).not.toBe('p1');
+    expect([a.id, b.id]).not.toContain('a');
+    expect(project.connections[0]).toMatchObject({ from: a.id, to: b.id, label: 'next' });
+    expect(project.connections[0].id).not.toBe('c1');
+    expect(snapshot?.nodes[0].id).toBe(a.id);
+    expect(snapshot?.connections[0].to).toBe(snapshot?.nodes[1].id);
+    expect(newCustomNodeTemplates).toHaveLength(1);
+    expect(b.meta[CUSTOM_TEMPLATE_META_KEY]).toBe(newCustomNodeTemplates[0].id);
+  });
+
+  it('drops foreign lineage and tags on versions the bundle does not carry', () => {
+    const source: Project = {
+      ...sampleProject(),
+      forkedFrom: { projectId: 'parent', projectName: 'Parent', versionId: 'pv1', forkedAt: '2026-01-01T00:00:00.000Z' },
+      releaseTags: { production: 'v1', staging: 'elsewhere' },
+      head: { branch: 'main', versionId: 'elsewhere' },
+    };
+    const { project } = prepareProjectImport(createPromptFlowBundle(source, [template]), []);
+
+    expect(project.forkedFrom).toBeUndefined();
+    expect(project.releaseTags).toEqual({ production: project.versions[0].id });
+    expect(project.head).toEqual({ branch: 'main', versionId: null });
+  });
+
+  it('reuses an identical local template instead of duplicating it', () => {
+    const bundle = createPromptFlowBundle(sampleProject(), [template]);
+    const local: CustomNodeTemplate = { ...template, id: 'local-template' };
+    const { project, newCustomNodeTemplates } = prepareProjectImport(bundle, [local]);
+
+    expect(newCustomNodeTemplates).toEqual([]);
+    expect(project.nodes[1].meta[CUSTOM_TEMPLATE_META_KEY]).toBe('local-template');
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * ProjectBundle — portable `.promptflow` export of a single project.
+ *
+ * A bundle carries the project graph with its version history, the custom node
+ * templates its nodes were created from and, optionally, the transcript set it
+ * is linked to. Importing assigns fresh ids to everything so a bundle can be
+ * loaded any number of times next to the original.
+ */
+import { CUSTOM_TEMPLATE_META_KEY, uid, type CustomNodeTemplate, type Project } from './models';
+import { LIBRARY_LINK_META_KEY, readLibraryLink, withoutLibraryLink } from './node-library';
+import {
+  isConnection,
+  isCustomNodeTemplate,
+  isProject,
+  isPromptNode,
+  isPromptVersion,
+  isRecord,
+} from './model-guards';
+import { cloneProjectWithFreshIds } from './project-clone';
+import type { TranscriptFlowDraft } from './store';
+
+export const PROMPTFLOW_BUNDLE_FORMAT = 'promptflow-bundle';
+export const PROMPTFLOW_BUNDLE_VERSION = 1;
+export const PROMPTFLOW_FILE_EXTENSION = '.promptflow';
+
+export interface PromptFlowBundleTranscriptSet {
+  name: string;
+  description: string;
+  source: string;
+}
+
+export interface PromptFlowBundle {
+  format: typeof PROMPTFLOW_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: Project;
+  customNodeTemplates: CustomNodeTemplate[];
+  transcriptSet: PromptFlowBundleTranscriptSet | null;
+}
+
+export type PromptFlowBundleParseResult =
+  | { ok: true; bundle: PromptFlowBundle }
+  | { ok: false; errors: string[] };
+
+/** A bundle with fresh ids, ready to be added to the store. */
+export interface PreparedProjectImport {
+  project: Project;
+  /** Templates that do not exist locally yet and must be created. */
+  newCustomNodeTemplates: CustomNodeTemplate[];
+  transcriptSet: PromptFlowBundleTranscriptSet | null;
+}
+
+export function createPromptFlowBundle(
+  project: Project,
+  customNodeTemplates: CustomNodeTemplate[],
+  transcriptDraft: TranscriptFlowDraft | null = null,
+): PromptFlowBundle {
+  const usedTemplateIds = collectUsedTemplateIds(project, customNodeTemplates);
+  return {
+    format: PROMPTFLOW_BUNDLE_FORMAT,
+    version: PROMPTFLOW_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: cloneJson(project),
+    customNodeTemplates: cloneJson(customNodeTemplates.filter((template) => usedTemplateIds.has(template.id))),
+    transcriptSet: transcriptDraft
+      ? { name: transcriptDraft.name, description: transcriptDraft.description, source: transcriptDraft.source }
+      : null,
+  };
+}
+
+export function serializePromptFlowBundle(bundle: PromptFlowBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+export function promptFlowBundleFileName(projectName: string): string {
+  const slug = projectName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'project'}${PROMPTFLOW_FILE_EXTENSION}`;
+}
+
+/** Validates raw file contents; every problem found is reported, not just the first. */
+export function parsePromptFlowBundle(raw: string): PromptFlowBundleParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+
+  if (!isRecord(parsed)) {
+    return { ok: false, errors: ['Bundle must be a JSON object.'] };
+  }
+  if (parsed.format !== PROMPTFLOW_BUNDLE_FORMAT) {
+    return { ok: false, errors: ['File is not a .promptflow project bundle.'] };
+  }
+  if (typeof parsed.version !== 'number' || !Number.isInteger(parsed.version) || parsed.version < 1) {
+    return { ok: false, errors: ['Bundle version is missing or invalid.'] };
+  }
+  if (parsed.version > PROMPTFLOW_BUNDLE_VERSION) {
+    return {
+      ok: false,
+      errors: [`Bundle version ${parsed.version} is newer than this app supports (version ${PROMPTFLOW_BUNDLE_VERSION}).`],
+    };
+  }
+
+  const errors = [
+    ...validateBundleProject(parsed.project),
+    ...validateBundleTemplates(parsed.customNodeTemplates),
+    ...validateBundleTranscriptSet(parsed.transcriptSet),
+  ];
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    bundle: {
+      format: PROMPTFLOW_BUNDLE_FORMAT,
+      version: parsed.version,
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+      project: parsed.project as Project,
+      customNodeTemplates: parsed.customNodeTemplates as CustomNodeTemplate[],
+      transcriptSet: (parsed.transcriptSet ?? null) as PromptFlowBundleTranscriptSet | null,
+    },
+  };
+}
+
+/**
+ * Assigns fresh ids to the project, its nodes, connections and versions, and
+ * drops the fork lineage of the exporting account. Bundle templates identical
+ * to an existing one reuse it; the rest get new ids.
+ */
+export function prepareProjectImport(
+  bundle: PromptFlowBundle,
+  existingTemplates: CustomNodeTemplate[],
+): PreparedProjectImport {
+  const now = new Date().toISOString();
+  const templateIds = new Map<string, string>();
+  const newCustomNodeTemplates: CustomNodeTemplate[] = [];
+  for (const template of bundle.customNodeTemplates) {
+    const match = existingTemplates.find((existing) => isSameTemplate(existing, template));
+    if (match) {
+      templateIds.set(template.id, match.id);
+      continue;
+    }
+    const created: CustomNodeTemplate = { ...cloneJson(template), id: uid(), createdAt: now, updatedAt: now };
+    templateIds.set(template.id, created.id);
+    newCustomNodeTemplates.push(created);
+  }
+
+  // The fork parent, and tags on versions left out of the bundle, name ids that do not exist here.
+  const { forkedFrom: _forkedFrom, ...source } = bundle.project;
+  const versionIds = new Set(source.versions.map((version) => version.id));
+  const releaseTags = Object.entries(source.releaseTags ?? {}).filter(([, versionId]) => versionIds.has(versionId));
+  const headVersionId = source.head?.versionId;
+  const project = cloneProjectWithFreshIds({
+    ...source,
+    releaseTags: releaseTags.length > 0 ? Object.fromEntries(releaseTags) : undefined,
+    ...(source.head && headVersionId && !versionIds.has(headVersionId)
+      ? { head: { ...source.head, versionId: null } }
+      : {}),
+  }, (meta) => {
+    const next = { ...meta };
+    const templateId = next[CUSTOM_TEMPLATE_META_KEY];
+    if (templateId !== undefined) {
+      const mapped = templateIds.get(templateId);
+      if (mapped) next[CUSTOM_TEMPLATE_META_KEY] = mapped;
+      else delete next[CUSTOM_TEMPLATE_META_KEY];
+    }
+    const link = readLibraryLink(next);
+    if (link) {
+      const mapped = templateIds.get(link.templateId);
+      if (mapped) return { ...next, [LIBRARY_LINK_META_KEY]: mapped };
+      return withoutLibraryLink(next);
+    }
+    return next;
+  });
+
+  return {
+    project,
+    newCustomNodeTemplates,
+    transcriptSet: bundle.transcriptSet ? { ...bundle.transcriptSet } : null,
+  };
+}
+
+function collectUsedTemplateIds(project: Project, templates: CustomNodeTemplate[]): Set<string> {
+  const used = new Set<string>();
+  const nodes = [
+    ...project.nodes,
+    ...project.versions.flatMap((version) => version.snapshot?.nodes ?? []),
+  ];
+  for (const node of nodes) {
+    const templateId = node.meta[CUSTOM_TEMPLATE_META_KEY];
+    if (templateId) {
+      used.add(templateId);
+      continue;
+    }
+    // Nodes created before template ids were recorded are matched by type and label.
+    const match = templates.find((template) => template.type === node.type && template.label === node.label);
+    if (match) used.add(match.id);
+  }
+  return used;
+}
+
+function isSameTemplate(left: CustomNodeTemplate, right: CustomNodeTemplate): boolean {
+  return (
+    left.type === right.type &&
+    left.label === right.label &&
+    left.icon === right.icon &&
+    left.content === right.content &&
+    JSON.stringify(sortRecord(left.meta)) === JSON.stringify(sortRecord(right.meta))
+  );
+}
+
+function sortRecord(record: Record<string, string>): [string, string][] {
+  return Object.entries(record).sort(([left], [right]) => left.localeCompare(right));
+}
+
+function validateBundleProject(value: unknown): string[] {
+  if (!isRecord(value)) return ['Bundle has no project.'];
+  const errors: string[] = [];
+  for (const field of ['id', 'name', 'description', 'model', 'icon', 'lastEdited']) {
+    if (typeof value[field] !== 'string') errors.push(`project.${field} must be a string.`);
+  }
+
+  const nodes = validateList(value.nodes, 'project.nodes', isPromptNode, 'a valid prompt node', errors);
+  const connections = validateList(value.connections, 'project.connections', isConnection, 'a valid connection', errors);
+  validateList(value.versions, 'project.versions', isPromptVersion, 'a valid version', errors);
+
+  const nodeIds = new Set<string>();
+  nodes.forEach((node, index) => {
+    if (nodeIds.has(node.id)) errors.push(`project.nodes[${index}] reuses node id "${node.id}".`);
+    nodeIds.add(node.id);
+  });
+  connections.forEach((connection, index) => {
+    if (!nodeIds.has(connection.from) || !nodeIds.has(connection.to)) {
+      errors.push(`project.connections[${index}] references a node that is not in the project.`);
+    }
+  });
+
+  if (errors.length === 0 && !isProject(value)) errors.push('project is not a valid project.');
+  return errors;
+}
+
+function validateBundleTemplates(value: unknown): string[] {
+  const errors: string[] = [];
+  validateList(value, 'customNodeTemplates', isCustomNodeTemplate, 'a valid custom node template', errors);
+  return errors;
+}
+
+function validateBundleTranscriptSet(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (
+    isRecord(value) &&
+    typeof value.name === 'string' &&
+    typeof value.description === 'string' &&
+    typeof value.source === 'string'
+  ) {
+    return [];
+  }
+  return ['transcriptSet must have a name, description and source.'];
+}
+
+function validateList<T>(
+  value: unknown,
+  path: string,
+  guard: (item: unknown) => item is T,
+  expected: string,
+  errors: string[],
+): T[] {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array.`);
+    return [];
+  }
+  const valid: T[] = [];
+  value.forEach((item: unknown, index) => {
+    if (guard(item)) {
+      valid.push(item);
+    } else {
+      errors.push(`${path}[${index}] is not ${expected}.`);
+    }
+  });
+  return valid;
+}
+
+function cloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { Project, PromptNode } from './models';
+import { buildProjectFork } from './project-clone';
+
+function node(id: string, content = `# ${id}`): PromptNode {
+  return { id, type: 'custom', label: `Node ${id}`, icon: 'widgets', x: 0, y: 0, content, meta: {} };
+}
+
+function sampleProject(): Project {
+  return {
+    id: 'p1',
+    name: 'Support Agent',
+    description: 'Handles tickets',
+    model: 'GPT-4o',
+    icon: 'schema',
+    lastEdited: 'Yesterday',
+    nodes: [node('a', '# a edited'), node('b'), node('c')],
+    connections: [{ id: 'c1', from: 'a', to: 'b' }, { id: 'c2', from: 'b', to: 'c' }],
+    versions: [
+      { id: 'v1', timestamp: 1, content: '# a', notes: 'First', snapshot: { nodes: [node('a')], connections: [] } },
+      {
+        id: 'v2',
+        timestamp: 2,
+        content: '# a\n# b',
+        notes: 'Second',
+        snapshot: { nodes: [node('a'), node('b')], connections: [{ id: 'c1', from: 'a', to: 'b' }] },
+      },
+    ],
+  };
+}
+
+describe('buildProjectFork', () => {
+  it('copies the current graph with fresh ids and records lineage', () => {
+    const source = sampleProject();
+    const fork = buildProjectFork(source);
+
+    expect(fork).not.toBeNull();
+    if (!fork) return;
+    expect(fork.id).not.toBe(source.id);
+    expect(fork.name).toBe('Support Agent (fork)');
+    expect(fork.nodes.map((item) => item.content)).toEqual(['# a edited', '# b', '# c']);
+    expect(fork.nodes.some((item) => ['a', 'b', 'c'].includes(item.id))).toBe(false);
+    expect(fork.connections[1]).toMatchObject({ from: fork.nodes[1].id, to: fork.nodes[2].id });
+    expect(fork.versions).toEqual([]);
+    expect(fork.forkedFrom).toMatchObject({ projectId: 'p1', projectName: 'Support Agent', versionId: null });
+    expect(source.nodes[0].id).toBe('a');
+  });
+
+  it('forks an earlier version with the history up to it', () => {
+    const fork = buildProjectFork(sampleProject(), { versionId: 'v1', includeHistory: true, name: 'Variant' });
+
+    expect(fork?.name).toBe('Variant');
+    expect(fork?.nodes.map((item) => item.content)).toEqual(['# a']);
+    expect(fork?.versions.map((version) => version.notes)).toEqual(['First']);
+    expect(fork?.versions[0].snapshot?.nodes[0].id).toBe(fork?.nodes[0].id);
+    expect(fork?.forkedFrom?.versionId).toBe('v1');
+    expect(buildProjectFork(sampleProject(), { versionId: 'missing' })).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * ProjectClone — deep copies of a project graph under fresh ids.
+ *
+ * Shared by bundle import and project forks. Node, connection and version ids
+ * are replaced consistently across the live graph and every version snapshot.
+ */
+import {
+  uid,
+  type Connection,
+  type Project,
+  type PromptGraphSnapshot,
+  type PromptNode,
+  type PromptVersion,
+} from './models';
+import { DEFAULT_BRANCH, getVersionBranch, getVersionParentId } from './version-tree';
+
+export interface ForkProjectOptions {
+  name?: string;
+  /** Version to fork from; defaults to the current canvas. */
+  versionId?: string | null;
+  /** Copy the version history up to the fork point. */
+  includeHistory?: boolean;
+}
+
+/** Copies `project` with new ids; `remapMeta` may rewrite node meta on the way. */
+export function cloneProjectWithFreshIds(
+  project: Project,
+  remapMeta: (meta: Record<string, string>) => Record<string, string> = (meta) => ({ ...meta }),
+): Project {
+  // Snapshots may reference nodes deleted since, so ids are assigned on first sight.
+  const nodeIds = new Map<string, string>();
+  const connectionIds = new Map<string, string>();
+  const versionIds = new Map<string, string>();
+  const remapId = (ids: Map<string, string>, id: string): string => {
+    let next = ids.get(id);
+    if (!next) {
+      next = uid();
+      ids.set(id, next);
+    }
+    return next;
+  };
+  const remapNode = (node: PromptNode): PromptNode => ({
+    ...node,
+    id: remapId(nodeIds, node.id),
+    meta: remapMeta(node.meta),
+  });
+  const remapConnection = (connection: Connection): Connection => ({
+    ...connection,
+    id: remapId(connectionIds, connection.id),
+    from: remapId(nodeIds, connection.from),
+    to: remapId(nodeIds, connection.to),
+  });
+  const remapSnapshot = (snapshot: PromptGraphSnapshot): PromptGraphSnapshot => ({
+    nodes: snapshot.nodes.map(remapNode),
+    connections: snapshot.connections.map(remapConnection),
+  });
+
+  const source = JSON.parse(JSON.stringify(project)) as Project;
+  return {
+    ...source,
+    id: uid(),
+    lastEdited: 'Just now',
+    updatedAt: new Date().toISOString(),
+    nodes: source.nodes.map(remapNode),
+    connections: source.connections.map(remapConnection),
+    versions: source.versions.map((version): PromptVersion => ({
+      ...version,
+      id: remapId(versionIds, version.id),
+      snapshot: version.snapshot ? remapSnapshot(version.snapshot) : null,
+      ...(typeof version.parentId === 'string' ? { parentId: remapId(versionIds, version.parentId) } : {}),
+    })),
+    ...(source.releaseTags
+      ? {
+        releaseTags: Object.fromEntries(
+          Object.entries(source.releaseTags).map(([tag, versionId]) => [tag, remapId(versionIds, versionId)]),
+        ),
+      }
+      : {}),
+    ...(source.head
+      ? {
+        head: {
+          branch: source.head.branch,
+          versionId: source.head.versionId ? remapId(versionIds, source.head.versionId) : null,
+        },
+      }
+      : {}),
+  };
+}
+
+/**
+ * Builds a fork of `source`, optionally at an earlier version, recording its lineage.
+ * Returns null when `versionId` does not name a version with a graph snapshot.
+ */
+export function buildProjectFork(source: Project, options: ForkProjectOptions = {}): Project | null {
+  const versionIndex = options.versionId
+    ? source.versions.findIndex((version) => version.id === options.versionId)
+    : source.versions.length - 1;
+  const forkVersion = versionIndex >= 0 ? source.versions[versionIndex] : null;
+  if (options.versionId && !forkVersion?.snapshot) return null;
+
+  const graph = options.versionId && forkVersion?.snapshot ? forkVersion.snapshot : source;
+  const history = options.includeHistory && forkVersion ? listAncestorVersions(source.versions, versionIndex) : [];
+  // Release tags track deployments of the original, so a fork starts without them.
+  const fork = cloneProjectWithFreshIds({
+    ...source,
+    releaseTags: undefined,
+    name: options.name?.trim() || `${source.name} (fork)`,
+    nodes: graph.nodes,
+    connections: graph.connections,
+    versions: history,
+    head: {
+      branch: forkVersion ? getVersionBranch(forkVersion) : DEFAULT_BRANCH,
+      versionId: history.length > 0 && forkVersion ? forkVersion.id : null,
+    },
+  });
+
+  return {
+    ...fork,
+    forkedFrom: {
+      projectId: source.id,
+      projectName: source.name,
+      // The live canvas may have moved on from the latest version, so only an explicit version is an origin.
+      versionId: options.versionId && forkVersion ? forkVersion.id : null,
+      forkedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/** The version at `index` and its ancestors, in list order, with parent pointers made explicit. */
+function listAncestorVersions(versions: PromptVersion[], index: number): PromptVersion[] {
+  const indexById = new Map(versions.map((version, position) => [version.id, position]));
+  const included = new Set<number>();
+  let cursor: number | undefined = index;
+  while (cursor !== undefined && !included.has(cursor)) {
+    included.add(cursor);
+    const parentId = getVersionParentId(versions, cursor);
+    cursor = parentId ? indexById.get(parentId) : undefined;
+  }
+  return versions
+    .map((version, position) => ({ ...version, parentId: getVersionParentId(versions, position) }))
+    .filter((_version, position) => included.has(position));
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DASHBOARD_FILTERS,
+  filterOrganizedItems,
+  listFolders,
+  normalizeFolderName,
+  parseProjectTags,
+  sortOrganizedItems,
+  type OrganizedItem,
+} from './project-organization';
+
+function item(name: string, overrides: Partial<OrganizedItem> = {}): OrganizedItem {
+  return {
+    name,
+    model: 'gpt-4o',
+    folder: null,
+    tags: [],
+    updatedAt: '',
+    tokenSize: 0,
+    searchText: name.toLowerCase(),
+    ...overrides,
+  };
+}
+
+describe('project organization', () => {
+  it('normalizes folder names and parses tag lists', () => {
+    expect(normalizeFolderName('  Sales   Agents ')).toBe('Sales Agents');
+    expect(normalizeFolderName('   ')).toBeNull();
+    expect(normalizeFolderName('x'.repeat(49))).toBeNull();
+
+    expect(parseProjectTags('#Support, voice agent, support,, bad!tag')).toEqual({
+      tags: ['support', 'voice-agent'],
+      invalid: ['bad!tag'],
+    });
+  });
+
+  it('filters by folder, tag, model and every search term', () => {
+    const items = [
+      item('Receptionist', { folder: 'Clinics', tags: ['voice'], searchText: 'receptionist greet the caller by name' }),
+      item('Billing', { folder: 'Clinics', model: 'claude-sonnet', searchText: 'billing refund policy' }),
+      item('Scratch', { searchText: 'scratch greet test' }),
+    ];
+    const filter = (changes: Partial<typeof DEFAULT_DASHBOARD_FILTERS>) =>
+      filterOrganizedItems(items, { ...DEFAULT_DASHBOARD_FILTERS, ...changes }).map((entry) => entry.name);
+
+    expect(filter({ folder: 'Clinics' })).toEqual(['Receptionist', 'Billing']);
+    expect(filter({ folder: '' })).toEqual(['Scratch']);
+    expect(filter({ tag: 'voice' })).toEqual(['Receptionist']);
+    expect(filter({ model: 'claude-sonnet' })).toEqual(['Billing']);
+    expect(filter({ query: 'GREET caller' })).toEqual(['Receptionist']);
+    expect(listFolders(items)).toEqual([{ folder: 'Clinics', count: 2 }]);
+  });
+
+  it('sorts by last edit with unknown times last, by name and by token size', () => {
+    const items = [
+      item('beta', { updatedAt: '2026-10-01T00:00:00.000Z', tokenSize: 300 }),
+      item('Alpha', { updatedAt: '', tokenSize: 300 }),
+      item('gamma', { updatedAt: '2026-10-18T00:00:00.000Z', tokenSize: 900 }),
+    ];
+    const names = (sort: typeof DEFAULT_DASHBOARD_FILTERS.sort) => sortOrganizedItems(items, sort).map((entry) => entry.name);
+
+    expect(names('last-edited')).toEqual(['gamma', 'beta', 'Alpha']);
+    expect(names('name')).toEqual(['Alpha', 'beta', 'gamma']);
+    expect(names('token-size')).toEqual(['gamma', 'Alpha', 'beta']);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * ProjectOrganization — folders, tags, search and sort for the dashboard.
+ *
+ * Prompt flows and transcript flows are both reduced to an `OrganizedItem`, so one
+ * set of filters and sort orders applies to every card on the dashboard.
+ */
+import type { Project } from './models';
+
+export const MAX_FOLDER_NAME_LENGTH = 48;
+export const MAX_PROJECT_TAG_LENGTH = 24;
+
+const PROJECT_TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export type DashboardSort = 'last-edited' | 'name' | 'token-size';
+
+export const DASHBOARD_SORTS: ReadonlyArray<{ value: DashboardSort; label: string }> = [
+  { value: 'last-edited', label: 'Last edited' },
+  { value: 'name', label: 'Name' },
+  { value: 'token-size', label: 'Token size' },
+];
+
+/** Dashboard filter state; `null` means "any". `folder: ''` selects unfiled items. */
+export interface DashboardFilters {
+  query: string;
+  folder: string | null;
+  tag: string | null;
+  model: string | null;
+  sort: DashboardSort;
+}
+
+export const DEFAULT_DASHBOARD_FILTERS: DashboardFilters = {
+  query: '',
+  folder: null,
+  tag: null,
+  model: null,
+  sort: 'last-edited',
+};
+
+export interface OrganizedItem {
+  name: string;
+  model: string;
+  folder: string | null;
+  tags: string[];
+  /** ISO time, or '' when unknown; unknown sorts last. */
+  updatedAt: string;
+  tokenSize: number;
+  /** Lowercased text that search queries are matched against. */
+  searchText: string;
+}
+
+/** Trims and collapses whitespace; returns null for an empty or overlong name. */
+export function normalizeFolderName(raw: string): string | null {
+  const folder = raw.trim().replace(/\s+/g, ' ');
+  if (!folder || folder.length > MAX_FOLDER_NAME_LENGTH) return null;
+  return folder;
+}
+
+/** Lowercases, drops a leading `#` and dashes spaces; returns null when not a valid tag. */
+export function normalizeProjectTag(raw: string): string | null {
+  const tag = raw.trim().replace(/^#/, '').toLowerCase().replace(/\s+/g, '-');
+  if (!tag || tag.length > MAX_PROJECT_TAG_LENGTH || !PROJECT_TAG_PATTERN.test(tag)) return null;
+  return tag;
+}
+
+/** Parses a comma-separated tag list into unique valid tags, and the entries that were rejected. */
+export function parseProjectTags(raw: string): { tags: string[]; invalid: string[] } {
+  const tags: string[] = [];
+  const invalid: string[] = [];
+  for (const part of raw.split(',')) {
+    if (!part.trim()) continue;
+    const tag = normalizeProjectTag(part);
+    if (!tag) {
+      invalid.push(part.trim());
+    } else if (!tags.includes(tag)) {
+      tags.push(tag);
+    }
+  }
+  return { tags, invalid };
+}
+
+/** Name, description and every node's label and content, for full-text search. */
+export function projectSearchText(project: Pick<Project, 'name' | 'description' | 'nodes'>): string {
+  return [
+    project.name,
+    project.description,
+    ...project.nodes.flatMap((node) => [node.label, node.content]),
+  ].join('\n').toLowerCase();
+}
+
+/** Every whitespace-separated term of the query must appear in the item's text. */
+export function matchesSearchQuery(item: Pick<OrganizedItem, 'searchText'>, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return terms.every((term) => item.searchText.includes(term));
+}
+
+export function filterOrganizedItems<T extends OrganizedItem>(items: T[], filters: DashboardFilters): T[] {
+  return items.filter((item) => (
+    (filters.folder === null || (item.folder ?? '') === filters.folder) &&
+    (filters.tag === null || item.tags.includes(filters.tag)) &&
+    (filters.model === null || item.model === filters.model) &&
+    matchesSearchQuery(item, filters.query)
+  ));
+}
+
+export function sortOrganizedItems<T extends OrganizedItem>(items: T[], sort: DashboardSort): T[] {
+  const byName = (left: T, right: T): number => left.name.localeCompare(right.name, undefined, { sensitivity: 'base' });
+  return [...items].sort((left, right) => {
+    switch (sort) {
+      case 'name':
+        return byName(left, right);
+      case 'token-size':
+        return right.tokenSize - left.tokenSize || byName(left, right);
+      case 'last-edited':
+        if (left.updatedAt === right.updatedAt) return byName(left, right);
+        if (!left.updatedAt) return 1;
+        if (!right.updatedAt) return -1;
+        return right.updatedAt.localeCompare(left.updatedAt);
+    }
+  });
+}
+
+/** Folder names in use with their item counts, alphabetically; unfiled items are not counted. */
+export function listFolders(items: OrganizedItem[]): Array<{ folder: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    if (item.folder) counts.set(item.folder, (counts.get(item.folder) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([folder, count]) => ({ folder, count }))
+    .sort((left, right) => left.folder.localeCompare(right.folder, undefined, { sensitivity: 'base' }));
+}
+
+export function listTags(items: OrganizedItem[]): string[] {
+  return [...new Set(items.flatMap((item) => item.tags))].sort();
+}
+
+export function listModels(items: OrganizedItem[]): string[] {
+  return [...new Set(items.map((item) => item.model))].sort();
+}
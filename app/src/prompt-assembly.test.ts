@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Connection, PromptNode } from './models';
+import { attributeDiffToNodes, computeDiff } from './diff';
+import {
+  assembleFlowTemplate,
+  assembleRuntimePrompt,
+  assembleXmlPrompt,
+  buildGraphAssemblyPlan,
+  nodeSourceRange,
+  parseXmlSection,
+  sourcesAtLine,
+  traceExcerpt,
+  xmlTagForNode,
+} from './prompt-assembly';
+
+function node(id: string, label: string, content: string): PromptNode {
+  return { id, type: label as PromptNode['type'], label, icon: 'widgets', x: 0, y: 0, content, meta: {} };
+}
+
+function connection(id: string, from: string, to: string, label?: string): Connection {
+  return { id, from, to, label };
+}
+
+const project = {
+  nodes: [
+    node('triage', 'Call Triage', 'Ask why they are calling.'),
+    node('billing', 'Billing, Refunds', 'Look up the invoice.\n\n  Quote the "amount due".'),
+    node('support', 'Support', 'Open a ticket.'),
+    node('close', '3 Wrap-up', ''),
+  ],
+  connections: [
+    connection('c1', 'triage', 'billing', 'Money, refunds'),
+    connection('c2', 'triage', 'support', 'Broken'),
+    connection('c3', 'billing', 'close'),
+    connection('c4', 'support', 'close'),
+  ],
+};
+
+describe('prompt assembly', () => {
+  it('derives tag names from node labels', () => {
+    expect(xmlTagForNode(node('a', 'Core Persona', ''))).toBe('core_persona');
+    expect(xmlTagForNode(node('a', '3 Wrap-up', ''))).toBe('section_3_wrap_up');
+    expect(xmlTagForNode(node('a', '—', ''))).toBe('section');
+  });
+
+  it('writes branch and merge structure as attributes', () => {
+    const xml = assembleXmlPrompt(buildGraphAssemblyPlan(project)).text;
+
+    expect(xml.split('\n')[0]).toBe('<prompt>');
+    expect(xml).toContain('<call_triage step="1" label="Call Triage" next="3,2" when="Broken,Money&#44; refunds">');
+    expect(xml).toContain('<support step="3" label="Support" next="4">');
+    expect(xml).toContain('<section_3_wrap_up step="4" label="3 Wrap-up" merge-from="2,3">\n</section_3_wrap_up>');
+    expect(xml.endsWith('</prompt>')).toBe(true);
+  });
+
+  it('reads each section back with its label, content and edges', () => {
+    const xml = assembleXmlPrompt(buildGraphAssemblyPlan(project)).text;
+    const sections = xml.split('\n').slice(1, -1).join('\n').split(/\n\n(?=<[a-z])/).map(parseXmlSection);
+
+    expect(sections.map((section) => section?.label)).toEqual(['Call Triage', 'Billing, Refunds', 'Support', '3 Wrap-up']);
+    expect(sections[1]?.content).toBe(project.nodes[1].content);
+    expect(sections[0]?.next).toEqual([{ step: 3, label: 'Broken' }, { step: 2, label: 'Money, refunds' }]);
+    expect(sections[3]).toEqual({ label: '3 Wrap-up', content: '', step: 4, next: [] });
+    expect(parseXmlSection('<notes>\nplain\n</other>')).toBeNull();
+  });
+
+  describe('source map', () => {
+    it('maps each node and edge to the text it produced', () => {
+      const plan = buildGraphAssemblyPlan(project);
+      for (const assembled of [assembleRuntimePrompt(plan), assembleFlowTemplate(plan), assembleXmlPrompt(plan)]) {
+        for (const range of assembled.sourceMap.filter((item) => item.part === 'content')) {
+          expect(assembled.text.slice(range.start, range.end)).toBe(project.nodes.find((item) => item.id === range.nodeId)?.content);
+        }
+      }
+
+      const flow = assembleFlowTemplate(plan);
+      const edge = flow.sourceMap.find((range) => range.connectionId === 'c1')!;
+      expect(flow.text.slice(edge.start, edge.end)).toBe('[Money, refunds] -> Billing, Refunds');
+      expect(edge.nodeId).toBe('triage');
+      expect(flow.text.split('\n')[edge.startLine - 1]).toBe('- [Money, refunds] -> Billing, Refunds');
+    });
+
+    it('reports line spans per node and traces quoted text back to nodes', () => {
+      const runtime = assembleRuntimePrompt(buildGraphAssemblyPlan(project));
+
+      expect(runtime.text.split('\n')).toHaveLength(9);
+      expect(nodeSourceRange(runtime.sourceMap, 'billing')).toMatchObject({ startLine: 3, endLine: 5 });
+      expect(sourcesAtLine(runtime.sourceMap, 4).map((range) => range.nodeId)).toEqual(['billing']);
+      expect(sourcesAtLine(runtime.sourceMap, 6)).toEqual([]);
+      expect(traceExcerpt(runtime, 'Quote the  "amount due". Open a')).toEqual(['billing', 'support']);
+      expect(traceExcerpt(runtime, 'not in the prompt')).toEqual([]);
+    });
+
+    it('attributes changed prompt lines to the nodes that produced them', () => {
+      const edited = {
+        ...project,
+        nodes: project.nodes.map((item) => (item.id === 'support' ? { ...item, content: 'Open a ticket.\nTag it urgent.' } : item)),
+      };
+      const before = assembleRuntimePrompt(buildGraphAssemblyPlan(project));
+      const after = assembleRuntimePrompt(buildGraphAssemblyPlan(edited));
+      const stats = attributeDiffToNodes(computeDiff(before.text, after.text), before.sourceMap, after.sourceMap);
+
+      expect([...stats.entries()]).toEqual([['support', { added: 1, removed: 0, unchanged: 0 }]]);
+    });
+  });
+});
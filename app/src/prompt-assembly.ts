@@ -0,0 +1,402 @@
+/**
+ * PromptAssembly — orders a project graph and renders it as a prompt.
+ *
+ * Nodes are assembled in topological order, ties broken by canvas order. Runtime
+ * output is node content alone; the flow template and XML outputs also carry the
+ * branch and merge structure of the graph. Subflow nodes are expanded first.
+ *
+ * Every output comes with a source map: the ranges of text each node, and each
+ * edge the output spells out, produced.
+ */
+import type { Connection, Project, PromptNode } from './models';
+import { expandSubflows, type SkippedSubflow, type SubflowContext } from './subflows';
+
+export interface GraphAssemblyPlan {
+  orderedNodes: PromptNode[];
+  outgoingByFrom: Map<string, Connection[]>;
+  incomingByTo: Map<string, Connection[]>;
+  hasCycle: boolean;
+  /** Subflow nodes left in place because their project is unlinked, missing or already being expanded. */
+  skippedSubflows: SkippedSubflow[];
+}
+
+/** A stretch of assembled text and what produced it. Ranges of one node may overlap its edges' ranges. */
+export interface AssemblySourceRange {
+  /** Plan node id; nodes inlined from a subflow have `subflowNodeId/innerId` ids. */
+  nodeId: string;
+  /** Set when the text describes this edge rather than the node itself. */
+  connectionId: string | null;
+  /** `content` is the node's own text; `frame` is headings, tags and edge lines around it. */
+  part: 'content' | 'frame';
+  /** Character offsets, end exclusive. */
+  start: number;
+  end: number;
+  /** 1-based, inclusive. */
+  startLine: number;
+  endLine: number;
+}
+
+export interface AssembledPrompt {
+  text: string;
+  sourceMap: AssemblySourceRange[];
+}
+
+/** Without a subflow context, subflow nodes are assembled as plain nodes. */
+export function buildGraphAssemblyPlan(
+  graph: Pick<Project, 'nodes' | 'connections'>,
+  subflows?: SubflowContext,
+): GraphAssemblyPlan {
+  const { skipped: skippedSubflows, ...project } = subflows ? expandSubflows(graph, subflows) : { ...graph, skipped: [] };
+  const nodeById = new Map(project.nodes.map((node) => [node.id, node]));
+  const nodeOrder = new Map(project.nodes.map((node, index) => [node.id, index]));
+  const outgoingByFrom = new Map<string, Connection[]>();
+  const incomingByTo = new Map<string, Connection[]>();
+  const inDegree = new Map<string, number>();
+
+  for (const node of project.nodes) {
+    outgoingByFrom.set(node.id, []);
+    incomingByTo.set(node.id, []);
+    inDegree.set(node.id, 0);
+  }
+
+  for (const connection of project.connections) {
+    if (!nodeById.has(connection.from) || !nodeById.has(connection.to)) continue;
+    outgoingByFrom.get(connection.from)!.push(connection);
+    incomingByTo.get(connection.to)!.push(connection);
+    inDegree.set(connection.to, (inDegree.get(connection.to) ?? 0) + 1);
+  }
+
+  const compareNodeOrder = (leftNodeId: string, rightNodeId: string): number => {
+    return (nodeOrder.get(leftNodeId) ?? Number.MAX_SAFE_INTEGER) - (nodeOrder.get(rightNodeId) ?? Number.MAX_SAFE_INTEGER);
+  };
+
+  const compareOutgoingConnections = (left: Connection, right: Connection): number => {
+    const labelCompare = normalizeConnectionLabel(left.label).localeCompare(normalizeConnectionLabel(right.label));
+    if (labelCompare !== 0) return labelCompare;
+    const targetCompare = compareNodeOrder(left.to, right.to);
+    if (targetCompare !== 0) return targetCompare;
+    return left.id.localeCompare(right.id);
+  };
+
+  const compareIncomingConnections = (left: Connection, right: Connection): number => {
+    const sourceCompare = compareNodeOrder(left.from, right.from);
+    if (sourceCompare !== 0) return sourceCompare;
+    const labelCompare = normalizeConnectionLabel(left.label).localeCompare(normalizeConnectionLabel(right.label));
+    if (labelCompare !== 0) return labelCompare;
+    return left.id.localeCompare(right.id);
+  };
+
+  outgoingByFrom.forEach((connections) => connections.sort(compareOutgoingConnections));
+  incomingByTo.forEach((connections) => connections.sort(compareIncomingConnections));
+
+  const ready = project.nodes
+    .filter((node) => (inDegree.get(node.id) ?? 0) === 0)
+    .sort((left, right) => compareNodeOrder(left.id, right.id));
+
+  const orderedNodes: PromptNode[] = [];
+  while (ready.length > 0) {
+    const nextNode = ready.shift()!;
+    orderedNodes.push(nextNode);
+    const outgoingConnections = outgoingByFrom.get(nextNode.id) ?? [];
+    for (const connection of outgoingConnections) {
+      const nextDegree = (inDegree.get(connection.to) ?? 0) - 1;
+      inDegree.set(connection.to, nextDegree);
+      if (nextDegree === 0) {
+        const targetNode = nodeById.get(connection.to);
+        if (targetNode) {
+          ready.push(targetNode);
+        }
+      }
+    }
+    ready.sort((left, right) => compareNodeOrder(left.id, right.id));
+  }
+
+  let hasCycle = false;
+  if (orderedNodes.length !== project.nodes.length) {
+    hasCycle = true;
+    const orderedIds = new Set(orderedNodes.map((node) => node.id));
+    const remainingNodes = project.nodes
+      .filter((node) => !orderedIds.has(node.id))
+      .sort((left, right) => compareNodeOrder(left.id, right.id));
+    orderedNodes.push(...remainingNodes);
+  }
+
+  return { orderedNodes, outgoingByFrom, incomingByTo, hasCycle, skippedSubflows };
+}
+
+function formatConnectionTarget(connection: Connection, nodeById: Map<string, PromptNode>): string {
+  const targetNode = nodeById.get(connection.to);
+  const targetLabel = targetNode ? targetNode.label : connection.to;
+  const branchLabel = normalizeConnectionLabel(connection.label);
+  return branchLabel ? `[${branchLabel}] -> ${targetLabel}` : `-> ${targetLabel}`;
+}
+
+/** Node content joined by blank lines. */
+export function assembleRuntimePrompt(plan: GraphAssemblyPlan): AssembledPrompt {
+  const builder = createAssemblyBuilder();
+  plan.orderedNodes.forEach((node, index) => {
+    if (index > 0) builder.append('\n\n');
+    builder.append(node.content, { nodeId: node.id, part: 'content' });
+  });
+  return builder.finish();
+}
+
+export function assembleFlowTemplate(plan: GraphAssemblyPlan): AssembledPrompt {
+  const nodeById = new Map<string, PromptNode>(plan.orderedNodes.map((node) => [node.id, node]));
+  const headerLines = [
+    '# Prompt Flow Template',
+    'This assembled prompt preserves branch and merge structure from the node graph.',
+  ];
+  if (plan.hasCycle) {
+    headerLines.push('Warning: cycle detected. Nodes in cycle were appended using canvas order.');
+  }
+  const cyclicSubflows = plan.skippedSubflows.filter((skipped) => skipped.reason === 'cycle');
+  if (cyclicSubflows.length > 0) {
+    const labels = cyclicSubflows.map((skipped) => nodeById.get(skipped.nodeId)?.label ?? skipped.nodeId);
+    headerLines.push(`Warning: subflow reference cycle. Not expanded: ${labels.join(', ')}.`);
+  }
+
+  const builder = createAssemblyBuilder();
+  builder.append(`${headerLines.join('\n\n')}\n\n`);
+  plan.orderedNodes.forEach((node, index) => {
+    const frame = { nodeId: node.id, part: 'frame' } as const;
+    if (index > 0) builder.append('\n\n');
+    builder.append(`## ${index + 1}. ${node.label}\n`, frame);
+    if (node.content.trim()) {
+      builder.append(node.content, { nodeId: node.id, part: 'content' });
+    } else {
+      builder.append('(empty node content)', frame);
+    }
+
+    const incoming = plan.incomingByTo.get(node.id) ?? [];
+    if (incoming.length > 1) {
+      builder.append('\nMerge Inputs: ', frame);
+      incoming.forEach((edge, edgeIndex) => {
+        const sourceNode = nodeById.get(edge.from);
+        const sourceLabel = sourceNode ? sourceNode.label : edge.from;
+        const branchLabel = normalizeConnectionLabel(edge.label);
+        if (edgeIndex > 0) builder.append(', ', frame);
+        builder.append(branchLabel ? `${sourceLabel} [${branchLabel}]` : sourceLabel, { ...frame, connectionId: edge.id });
+      });
+    }
+
+    const outgoing = plan.outgoingByFrom.get(node.id) ?? [];
+    if (outgoing.length === 0) {
+      builder.append('\nNext: [end]', frame);
+    } else if (outgoing.length === 1) {
+      builder.append('\nNext: ', frame);
+      builder.append(formatConnectionTarget(outgoing[0], nodeById), { ...frame, connectionId: outgoing[0].id });
+    } else {
+      builder.append('\nBranches:', frame);
+      for (const edge of outgoing) {
+        builder.append('\n- ', frame);
+        builder.append(formatConnectionTarget(edge, nodeById), { ...frame, connectionId: edge.id });
+      }
+    }
+  });
+  return builder.finish();
+}
+
+export function normalizeConnectionLabel(value: string | null | undefined): string {
+  if (typeof value !== 'string') return '';
+  return value.trim().replace(/\s+/g, ' ').slice(0, 80);
+}
+
+/** One element of an XML-assembled prompt, as read back by the import view. */
+export interface XmlPromptSection {
+  label: string | null;
+  content: string;
+  /** Position in the assembled order, 1-based; null for tags not written by `assembleXmlPrompt`. */
+  step: number | null;
+  next: Array<{ step: number; label: string }>;
+}
+
+const XML_ROOT_TAG = 'prompt';
+
+/** The node's label as a lowercase tag name; `section` when nothing usable is left. */
+export function xmlTagForNode(node: Pick<PromptNode, 'label' | 'type'>): string {
+  const slug = (node.label || node.type).trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!slug) return 'section';
+  return /^[0-9]/.test(slug) ? `section_${slug}` : slug;
+}
+
+/**
+ * Wraps each node in a tag named after it. `step` numbers the assembled order;
+ * `next` and `when` list outgoing targets and their branch labels, and `merge-from`
+ * lists the sources of nodes with more than one input. Content is written as-is, so
+ * `parseXmlSection` reads it back unchanged.
+ */
+export function assembleXmlPrompt(plan: GraphAssemblyPlan): AssembledPrompt {
+  const stepById = new Map(plan.orderedNodes.map((node, index) => [node.id, index + 1]));
+  const listSteps = (nodeIds: string[]): string => nodeIds.map((nodeId) => stepById.get(nodeId)).join(',');
+  const builder = createAssemblyBuilder();
+  builder.append(`<${XML_ROOT_TAG}${plan.hasCycle ? ' cycle="true"' : ''}>\n`);
+
+  plan.orderedNodes.forEach((node, index) => {
+    const attributes = [`step="${stepById.get(node.id)}"`, `label="${escapeXmlAttribute(node.label)}"`];
+    const outgoing = plan.outgoingByFrom.get(node.id) ?? [];
+    if (outgoing.length > 0) {
+      attributes.push(`next="${listSteps(outgoing.map((edge) => edge.to))}"`);
+      const branchLabels = outgoing.map((edge) => normalizeConnectionLabel(edge.label));
+      if (branchLabels.some(Boolean)) {
+        attributes.push(`when="${branchLabels.map((label) => escapeXmlAttribute(label).replace(/,/g, '&#44;')).join(',')}"`);
+      }
+    }
+    const incoming = plan.incomingByTo.get(node.id) ?? [];
+    if (incoming.length > 1) {
+      attributes.push(`merge-from="${listSteps(incoming.map((edge) => edge.from))}"`);
+    }
+
+    const tag = xmlTagForNode(node);
+    const body = node.content.replace(/\r\n?/g, '\n');
+    const frame = { nodeId: node.id, part: 'frame' } as const;
+    if (index > 0) builder.append('\n\n');
+    // Edges are attributes of the opening tag, so each outgoing edge maps to that tag.
+    builder.append(`<${tag} ${attributes.join(' ')}>`, frame, outgoing.map((edge) => ({ ...frame, connectionId: edge.id })));
+    builder.append('\n');
+    if (body) {
+      builder.append(body, { nodeId: node.id, part: 'content' });
+      builder.append('\n');
+    }
+    builder.append(`</${tag}>`, frame);
+  });
+
+  builder.append(`\n</${XML_ROOT_TAG}>`);
+  return builder.finish();
+}
+
+/** Attribute values of a single opening tag line, entities decoded. */
+export function readXmlTagAttributes(tagLine: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const open = /^\s*<[A-Za-z_][\w.-]*((?:\s+[\w.-]+="[^"]*")*)\s*\/?>/.exec(tagLine);
+  if (!open) return attributes;
+  for (const match of open[1].matchAll(/([\w.-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+/** Reads one element back; null unless the text is a single tag wrapping its content. */
+export function parseXmlSection(text: string): XmlPromptSection | null {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  while (lines.length > 0 && !lines[0].trim()) lines.shift();
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  if (lines.length < 2) return null;
+
+  const open = /^<([A-Za-z_][\w.-]*)((?:\s+[\w.-]+="[^"]*")*)\s*>$/.exec(lines[0].trim());
+  if (!open || lines[lines.length - 1].trim() !== `</${open[1]}>`) return null;
+
+  const rawAttributes: Record<string, string> = {};
+  for (const match of open[2].matchAll(/([\w.-]+)="([^"]*)"/g)) rawAttributes[match[1]] = match[2];
+  const step = Number(rawAttributes.step);
+  const nextSteps = (rawAttributes.next ?? '').split(',').map(Number).filter((value) => Number.isInteger(value) && value > 0);
+  const branchLabels = (rawAttributes.when ?? '').split(',').map(decodeXmlEntities);
+
+  return {
+    label: rawAttributes.label !== undefined ? decodeXmlEntities(rawAttributes.label) : null,
+    content: lines.slice(1, -1).join('\n'),
+    step: Number.isInteger(step) && step > 0 ? step : null,
+    next: nextSteps.map((nextStep, index) => ({ step: nextStep, label: branchLabels[index] ?? '' })),
+  };
+}
+
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_entity, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Ranges that cover the 1-based line, content before frame. */
+export function sourcesAtLine(sourceMap: AssemblySourceRange[], line: number): AssemblySourceRange[] {
+  return sourceMap
+    .filter((range) => range.startLine <= line && line <= range.endLine)
+    .sort((left, right) => (left.part === right.part ? 0 : left.part === 'content' ? -1 : 1));
+}
+
+/**
+ * The span from the start of a node's first range to the end of its last; a subflow
+ * node spans the nodes inlined for it. Null when the node is not in the text.
+ */
+export function nodeSourceRange(
+  sourceMap: AssemblySourceRange[],
+  nodeId: string,
+): Pick<AssemblySourceRange, 'start' | 'end' | 'startLine' | 'endLine'> | null {
+  const ranges = sourceMap.filter((range) => range.nodeId === nodeId || range.nodeId.startsWith(`${nodeId}/`));
+  if (ranges.length === 0) return null;
+  return {
+    start: Math.min(...ranges.map((range) => range.start)),
+    end: Math.max(...ranges.map((range) => range.end)),
+    startLine: Math.min(...ranges.map((range) => range.startLine)),
+    endLine: Math.max(...ranges.map((range) => range.endLine)),
+  };
+}
+
+/**
+ * Node ids whose text overlaps the first occurrence of the excerpt, in text order.
+ * Error reports that quote the prompt are traced back this way; whitespace runs
+ * match any whitespace, since quoted text is often reflowed.
+ */
+export function traceExcerpt(assembled: AssembledPrompt, excerpt: string): string[] {
+  const words = excerpt.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const pattern = new RegExp(words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'));
+  const match = pattern.exec(assembled.text);
+  if (!match) return [];
+  const start = match.index;
+  const end = start + match[0].length;
+  const nodeIds: string[] = [];
+  for (const range of [...assembled.sourceMap].sort((left, right) => left.start - right.start)) {
+    if (range.start < end && start < range.end && !nodeIds.includes(range.nodeId)) nodeIds.push(range.nodeId);
+  }
+  return nodeIds;
+}
+
+type AssemblySource = Pick<AssemblySourceRange, 'nodeId' | 'part'> & { connectionId?: string };
+
+/** Appends text and records a range for each source it is attributed to. */
+function createAssemblyBuilder(): {
+  append: (text: string, source?: AssemblySource, extraSources?: AssemblySource[]) => void;
+  finish: () => AssembledPrompt;
+} {
+  const parts: string[] = [];
+  const sourceMap: AssemblySourceRange[] = [];
+  let offset = 0;
+  let line = 1;
+
+  return {
+    append(text, source, extraSources = []) {
+      const newlines = text.split('\n').length - 1;
+      // A trailing newline ends the range's last line rather than starting another.
+      const endLine = line + newlines - (text.endsWith('\n') ? 1 : 0);
+      for (const item of source ? [source, ...extraSources] : extraSources) {
+        sourceMap.push({
+          nodeId: item.nodeId,
+          connectionId: item.connectionId ?? null,
+          part: item.part,
+          start: offset,
+          end: offset + text.length,
+          startLine: line,
+          endLine: Math.max(line, endLine),
+        });
+      }
+      parts.push(text);
+      offset += text.length;
+      line += newlines;
+    },
+    finish() {
+      return { text: parts.join(''), sourceMap };
+    },
+  };
+}
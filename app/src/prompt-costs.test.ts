@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { estimatePromptCost, formatCost, formatCostDelta, modelPricingId } from './prompt-costs';
+
+describe('prompt costs', () => {
+  it('resolves model names to pricing ids', () => {
+    expect(modelPricingId('GPT-4o')).toBe('gpt-4o');
+    expect(modelPricingId('gpt-4o-mini')).toBe('gpt-4o-mini');
+    expect(modelPricingId('gpt-4o-2024-08-06')).toBe('gpt-4o');
+    expect(modelPricingId('Claude 3.5')).toBe('claude-3-5-sonnet');
+    expect(modelPricingId('claude-3.5-haiku')).toBe('claude-3-5-haiku');
+    expect(modelPricingId('GPT-4 Turbo')).toBe('gpt-4-turbo');
+    expect(modelPricingId('gpt-4')).toBeNull();
+    expect(modelPricingId('')).toBeNull();
+  });
+
+  it('adds the average conversation to the cost of each call', () => {
+    const estimate = estimatePromptCost(2000, 'GPT-4o', 6000);
+    expect(estimate).toMatchObject({ modelId: 'gpt-4o', promptTokens: 2000, conversationTokens: 6000 });
+    expect(estimate?.promptCost).toBeCloseTo(0.005);
+    expect(estimate?.callCost).toBeCloseTo(0.02);
+    expect(estimatePromptCost(2000, 'Mystery Model')).toBeNull();
+  });
+
+  it('formats costs and deltas between versions', () => {
+    expect(formatCost(0.02)).toBe('$0.0200');
+    expect(formatCost(12.5)).toBe('$12.50');
+    expect(formatCost(0.00001)).toBe('<$0.0001');
+    expect(formatCostDelta(0.01, 0.0125)).toBe('+$0.0025 (+25.0%)');
+    expect(formatCostDelta(0.01, 0.008)).toBe('-$0.0020 (-20.0%)');
+    expect(formatCostDelta(0.01, 0.01)).toBe('no change');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * PromptCosts — input cost of an assembled prompt per model call.
+ *
+ * Every call sends the assembled prompt plus the conversation so far; a project's
+ * average conversation length (in tokens) stands in for the latter. Prices are
+ * vendor list prices in USD per million input tokens and need updating when the
+ * vendors change them.
+ */
+export interface ModelPricing {
+  label: string;
+  /** USD per million input tokens. */
+  inputPerMillion: number;
+}
+
+export interface PromptCostEstimate {
+  modelId: string;
+  pricing: ModelPricing;
+  promptTokens: number;
+  conversationTokens: number;
+  /** Cost of the assembled prompt alone. */
+  promptCost: number;
+  /** Cost of the prompt plus the average conversation. */
+  callCost: number;
+}
+
+/** Keyed by model id: the lowercase, hyphenated model name. */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { label: 'GPT-4o', inputPerMillion: 2.5 },
+  'gpt-4o-mini': { label: 'GPT-4o mini', inputPerMillion: 0.15 },
+  'gpt-4.1': { label: 'GPT-4.1', inputPerMillion: 2 },
+  'gpt-4.1-mini': { label: 'GPT-4.1 mini', inputPerMillion: 0.4 },
+  'gpt-4.1-nano': { label: 'GPT-4.1 nano', inputPerMillion: 0.1 },
+  'gpt-4-turbo': { label: 'GPT-4 Turbo', inputPerMillion: 10 },
+  'gpt-3.5-turbo': { label: 'GPT-3.5 Turbo', inputPerMillion: 0.5 },
+  'o3-mini': { label: 'o3-mini', inputPerMillion: 1.1 },
+  'claude-3-5-sonnet': { label: 'Claude 3.5 Sonnet', inputPerMillion: 3 },
+  'claude-3-5-haiku': { label: 'Claude 3.5 Haiku', inputPerMillion: 0.8 },
+  'llama-3': { label: 'Llama 3 70B (hosted)', inputPerMillion: 0.59 },
+};
+
+/**
+ * The model id of a display name: lowercase and hyphenated. Claude ids also hyphenate
+ * the version and name the tier, Sonnet when the name leaves it out
+ * (`Claude 3.5` → `claude-3-5-sonnet`).
+ */
+function normalizeModelId(model: string): string {
+  const name = model.trim().toLowerCase().replace(/\s+/g, '-').replace(/^claude-(\d+)\.(\d+)/, 'claude-$1-$2');
+  return /^claude-\d+-\d+$/.test(name) ? `${name}-sonnet` : name;
+}
+
+/**
+ * The pricing key for a model name: an exact match, or the longest key the name
+ * extends with a dated or sized suffix (`gpt-4o-2024-08-06` → `gpt-4o`).
+ */
+export function modelPricingId(model: string | null | undefined): string | null {
+  const name = normalizeModelId(model ?? '');
+  if (!name) return null;
+  if (MODEL_PRICING[name]) return name;
+  let match: string | null = null;
+  for (const id of Object.keys(MODEL_PRICING)) {
+    if (name.startsWith(`${id}-`) && (!match || id.length > match.length)) match = id;
+  }
+  return match;
+}
+
+export function inputCost(tokens: number, pricing: ModelPricing): number {
+  return (tokens * pricing.inputPerMillion) / 1_000_000;
+}
+
+/** Null when the model has no pricing. */
+export function estimatePromptCost(
+  promptTokens: number,
+  model: string | null | undefined,
+  conversationTokens = 0,
+): PromptCostEstimate | null {
+  const modelId = modelPricingId(model);
+  if (!modelId) return null;
+  const pricing = MODEL_PRICING[modelId];
+  return {
+    modelId,
+    pricing,
+    promptTokens,
+    conversationTokens,
+    promptCost: inputCost(promptTokens, pricing),
+    callCost: inputCost(promptTokens + conversationTokens, pricing),
+  };
+}
+
+/** Dollars with four decimals below $1, since a single call rarely costs a cent. */
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  if (Math.abs(usd) < 0.0001) return usd < 0 ? '-<$0.0001' : '<$0.0001';
+  const digits = Math.abs(usd) >= 1 ? 2 : 4;
+  return `${usd < 0 ? '-' : ''}$${Math.abs(usd).toFixed(digits)}`;
+}
+
+/** Signed difference with the relative change, e.g. `+$0.0018 (+14.6%)`. */
+export function formatCostDelta(before: number, after: number): string {
+  const delta = after - before;
+  if (delta === 0) return 'no change';
+  const sign = delta > 0 ? '+' : '';
+  const percent = before > 0 ? ` (${sign}${((delta / before) * 100).toFixed(1)}%)` : '';
+  return `${sign}${formatCost(delta)}${percent}`;
+}
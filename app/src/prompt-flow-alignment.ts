@@ -199,6 +199,7 @@ async function loadPromptNodes(projectId: string): Promise<PromptNodeRecord[]> {
     .from('prompt_nodes')
     .select('id, type, label, content, sort_order')
     .eq('project_id', projectId)
+    .is('deleted_at', null)
     .order('sort_order', { ascending: true });
   if (res.error) {
     throw new Error(`Failed to load prompt nodes: ${res.error.message}`);
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { StoreEventEmitter, storeEventForOperation, type StoreEvent } from './store-events';
+
+describe('StoreEventEmitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('delivers events to listeners of their type until unsubscribed', () => {
+    const emitter = new StoreEventEmitter();
+    const graphEvents: string[] = [];
+    const allEvents: string[] = [];
+    const off = emitter.on(['node-added', 'connection-removed'], (event) => graphEvents.push(event.type));
+    emitter.onAny((event) => allEvents.push(event.type));
+
+    emitter.emit({ type: 'node-added', origin: 'local', projectId: 'p1', nodeId: 'n1' });
+    emitter.emit({ type: 'version-saved', origin: 'tab', projectId: 'p1', versionId: 'v1' });
+    off();
+    emitter.emit({ type: 'connection-removed', origin: 'remote', projectId: 'p1', connectionId: 'c1' });
+
+    expect(graphEvents).toEqual(['node-added']);
+    expect(allEvents).toEqual(['node-added', 'version-saved', 'connection-removed']);
+  });
+
+  it('keeps notifying other listeners when one throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const emitter = new StoreEventEmitter();
+    const received: StoreEvent[] = [];
+    emitter.on('node-removed', () => {
+      throw new Error('listener bug');
+    });
+    emitter.on('node-removed', (event) => received.push(event));
+
+    emitter.emit({ type: 'node-removed', origin: 'local', projectId: 'p1', nodeId: 'n1' });
+
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe('storeEventForOperation', () => {
+  it('maps queued writes to change events', () => {
+    expect(storeEventForOperation(
+      { type: 'delete-connection', payload: { projectId: 'p1', connectionId: 'c1' } },
+      'tab',
+    )).toEqual({ type: 'connection-removed', origin: 'tab', projectId: 'p1', connectionId: 'c1' });
+    expect(storeEventForOperation(
+      { type: 'set-version-tag', payload: { projectId: 'p1', tag: 'prod', versionId: 'v1' } },
+      'local',
+    )).toEqual({ type: 'project-updated', origin: 'local', projectId: 'p1', change: 'release-tags' });
+  });
+});
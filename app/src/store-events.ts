@@ -0,0 +1,166 @@
+/**
+ * StoreEvents — typed notifications for changes to the store's cache.
+ *
+ * Events carry ids rather than copies; subscribers read current state back from
+ * the store. `origin` says where the mutation was made: in this tab (`local`),
+ * in another tab (`tab`) or by another realtime client (`remote`).
+ */
+import type { StorePersistenceStatus } from './store';
+import type { RemoteWriteOperation } from './write-queue';
+
+export type StoreEventOrigin = 'local' | 'tab' | 'remote';
+
+interface ProjectEventBase {
+  origin: StoreEventOrigin;
+  projectId: string;
+}
+
+export type StoreEvent =
+  | ({ type: 'project-added' } & ProjectEventBase)
+  | ({ type: 'project-removed' } & ProjectEventBase)
+  | ({ type: 'project-updated'; change: 'head' | 'release-tags' | 'transcript-link' | 'organization' | 'variables' | 'environments' | 'token-budget' | 'conversation-tokens' | 'integrity' } & ProjectEventBase)
+  | ({ type: 'node-added'; nodeId: string } & ProjectEventBase)
+  | ({ type: 'node-updated'; nodeId: string } & ProjectEventBase)
+  | ({ type: 'node-removed'; nodeId: string } & ProjectEventBase)
+  | ({ type: 'connection-added'; connectionId: string } & ProjectEventBase)
+  | ({ type: 'connection-updated'; connectionId: string } & ProjectEventBase)
+  | ({ type: 'connection-removed'; connectionId: string } & ProjectEventBase)
+  | ({ type: 'version-saved'; versionId: string } & ProjectEventBase)
+  | { type: 'custom-templates-changed'; origin: StoreEventOrigin; templateId: string }
+  | { type: 'transcript-flow-added'; origin: StoreEventOrigin; transcriptSetId: string; projectId: string | null }
+  | { type: 'transcript-flow-removed'; origin: StoreEventOrigin; transcriptSetId: string; projectId: string | null }
+  | { type: 'persistence-changed'; status: StorePersistenceStatus; context: string | null };
+
+export type StoreEventType = StoreEvent['type'];
+export type StoreEventOfType<T extends StoreEventType> = Extract<StoreEvent, { type: T }>;
+export type StoreEventListener<T extends StoreEventType = StoreEventType> = (event: StoreEventOfType<T>) => void;
+
+/** Node and connection events: the ones a graph view re-renders for. */
+export const GRAPH_EVENT_TYPES = [
+  'node-added',
+  'node-updated',
+  'node-removed',
+  'connection-added',
+  'connection-updated',
+  'connection-removed',
+] as const satisfies readonly StoreEventType[];
+
+export class StoreEventEmitter {
+  private listeners = new Map<StoreEventType, Set<(event: StoreEvent) => void>>();
+  private anyListeners = new Set<(event: StoreEvent) => void>();
+
+  /** Subscribes to one or more event types; returns the unsubscribe function. */
+  on<T extends StoreEventType>(types: T | readonly T[], listener: StoreEventListener<T>): () => void {
+    const typeList: readonly T[] = typeof types === 'string' ? [types] : types;
+    const handler = listener as (event: StoreEvent) => void;
+    for (const type of typeList) {
+      const set = this.listeners.get(type) ?? new Set();
+      set.add(handler);
+      this.listeners.set(type, set);
+    }
+    return () => {
+      for (const type of typeList) this.listeners.get(type)?.delete(handler);
+    };
+  }
+
+  onAny(listener: (event: StoreEvent) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /** A throwing listener is logged and skipped so it cannot interrupt the mutation that emitted. */
+  emit(event: StoreEvent): void {
+    const handlers = [...(this.listeners.get(event.type) ?? []), ...this.anyListeners];
+    for (const handler of handlers) {
+      try {
+        handler(event);
+      } catch (err) {
+        console.error(`Store event listener for "${event.type}" failed:`, err);
+      }
+    }
+  }
+}
+
+export function storeEventForOperation(operation: RemoteWriteOperation, origin: StoreEventOrigin): StoreEvent {
+  switch (operation.type) {
+    case 'insert-project':
+      return { type: 'project-added', origin, projectId: operation.payload.project.id };
+    case 'delete-project':
+    case 'trash-project':
+      return { type: 'project-removed', origin, projectId: operation.payload.projectId };
+    case 'restore-project':
+      return { type: 'project-added', origin, projectId: operation.payload.projectId };
+    case 'link-transcript-set':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'transcript-link' };
+    case 'delete-transcript-flow':
+    case 'trash-transcript-flow':
+      return {
+        type: 'transcript-flow-removed',
+        origin,
+        transcriptSetId: operation.payload.transcriptSetId,
+        projectId: operation.payload.linkedProjectId,
+      };
+    case 'restore-transcript-flow':
+      return {
+        type: 'transcript-flow-added',
+        origin,
+        transcriptSetId: operation.payload.transcriptSetId,
+        projectId: operation.payload.linkedProjectId,
+      };
+    case 'insert-custom-node':
+    case 'update-custom-node':
+      return { type: 'custom-templates-changed', origin, templateId: operation.payload.template.id };
+    case 'delete-custom-node':
+      return { type: 'custom-templates-changed', origin, templateId: operation.payload.templateId };
+    case 'insert-node':
+    case 'restore-node':
+      return { type: 'node-added', origin, projectId: operation.payload.projectId, nodeId: operation.payload.node.id };
+    case 'update-node':
+      return { type: 'node-updated', origin, projectId: operation.payload.projectId, nodeId: operation.payload.nodeId };
+    case 'delete-node':
+    case 'trash-node':
+      return { type: 'node-removed', origin, projectId: operation.payload.projectId, nodeId: operation.payload.nodeId };
+    case 'insert-connection':
+      return {
+        type: 'connection-added',
+        origin,
+        projectId: operation.payload.projectId,
+        connectionId: operation.payload.connection.id,
+      };
+    case 'update-connection-label':
+      return {
+        type: 'connection-updated',
+        origin,
+        projectId: operation.payload.projectId,
+        connectionId: operation.payload.connectionId,
+      };
+    case 'delete-connection':
+      return {
+        type: 'connection-removed',
+        origin,
+        projectId: operation.payload.projectId,
+        connectionId: operation.payload.connectionId,
+      };
+    case 'insert-version':
+      return { type: 'version-saved', origin, projectId: operation.payload.projectId, versionId: operation.payload.version.id };
+    case 'update-project-head':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'head' };
+    case 'set-version-tag':
+    case 'delete-version-tag':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'release-tags' };
+    case 'update-project-organization':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'organization' };
+    case 'update-project-variables':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'variables' };
+    case 'update-project-environments':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'environments' };
+    case 'update-project-token-budget':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'token-budget' };
+    case 'update-project-conversation-tokens':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'conversation-tokens' };
+    case 'delete-node-sync-meta':
+      return { type: 'project-updated', origin, projectId: operation.payload.projectId, change: 'integrity' };
+  }
+}
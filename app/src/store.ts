@@ -5,17 +5,89 @@
  * All mutating calls update the in-memory cache immediately (keeping
  * the UI synchronous) and fire a background Supabase call.
  */
-import { Project, PromptNode, Connection, PromptGraphSnapshot, PromptVersion, NodeType, uid, CustomNodeTemplate } from './models';
+import { Project, ProjectHead, PromptNode, Connection, PromptGraphSnapshot, PromptVersion, NodeType, uid, CustomNodeTemplate, CUSTOM_TEMPLATE_META_KEY, TemplateVariable } from './models';
 import type { Database } from './database.types';
 import { supabase } from './supabase';
 import { resolveNodeIcon } from './node-icons';
 import type { TranscriptFlowResult } from './transcript-flow';
+import { CommandHistory, type HistoryCommand } from './history';
+import {
+  adoptableRemoteWriteQueueKeys,
+  MAX_REMOTE_WRITE_ATTEMPTS,
+  parseRemoteWriteEntries,
+  REMOTE_WRITE_LEASE_INTERVAL_MS,
+  remoteWriteLeaseKey,
+  RemoteWriteQueue,
+  type RemoteProjectRecord,
+  type RemoteWriteEntry,
+  type RemoteWriteOperation,
+} from './write-queue';
+import { TabSyncChannel, type TabSyncMessage } from './tab-sync';
+import { mergeText } from './text-merge';
+import type { PreparedProjectImport } from './project-bundle';
+import { buildProjectFork, type ForkProjectOptions } from './project-clone';
+import { DEFAULT_BRANCH, getProjectHead, getVersionBranch, listBranches } from './version-tree';
+import { MAX_RELEASE_TAG_LENGTH, normalizeReleaseTag, PRODUCTION_TAG, samePromptGraph } from './version-tags';
+import {
+  isConnection,
+  isCustomNodeTemplate,
+  isNodeType,
+  isProject,
+  isPromptGraphSnapshot,
+  isPromptNode,
+  isPromptVersion,
+  isRecord,
+  isStringRecord,
+  isTemplateVariable,
+} from './model-guards';
+import {
+  isLocalStoreRecovery,
+  LOCAL_STORE_SCHEMA_VERSION,
+  migrateLocalStorePayload,
+  type LocalStoreRecovery,
+} from './local-store-schema';
+import {
+  StoreEventEmitter,
+  storeEventForOperation,
+  type StoreEvent,
+  type StoreEventListener,
+  type StoreEventType,
+} from './store-events';
+import { isTrashExpired, restorableConnections, sortTrashEntries, takeTrashedNodes, type TrashEntry, type TrashEntryKind } from './trash';
+import {
+  findLinkedInstances,
+  planLibraryUpdate,
+  readLibraryLink,
+  templateRevision,
+  withLibraryLink,
+  withLibraryOverride,
+  withoutLibraryLink,
+  type LinkedLibraryInstance,
+} from './node-library';
+import { checkGraphIntegrity, planGraphRepair, type GraphIntegrityIssue } from './graph-integrity';
+import { buildChatMessages, type ChatMessage } from './chat-messages';
+import { buildVoiceAgentConfig, collectVoiceAgentSettings, type VoiceAgentExport, type VoicePlatform } from './voice-agent-export';
+import {
+  assembleFlowTemplate,
+  assembleRuntimePrompt,
+  assembleXmlPrompt,
+  buildGraphAssemblyPlan,
+  normalizeConnectionLabel,
+  type AssembledPrompt,
+  type GraphAssemblyPlan,
+} from './prompt-assembly';
+import { countTokens } from './tokenizer';
+import { budgetUsage, encodingForModel, normalizeTokenBudget, type BudgetUsage, type TokenEncoding } from './token-budgets';
+import { estimatePromptCost, type PromptCostEstimate } from './prompt-costs';
+import { projectForEnvironment, readNodeEnvironmentRule, renameEnvironmentInRule, withNodeEnvironmentRule } from './environments';
 
 type ProjectRow = Database['public']['Tables']['projects']['Row'];
 type PromptNodeRow = Database['public']['Tables']['prompt_nodes']['Row'];
 type PromptNodeUpdate = Database['public']['Tables']['prompt_nodes']['Update'];
 type ConnectionRow = Database['public']['Tables']['connections']['Row'];
+type ConnectionInsert = Database['public']['Tables']['connections']['Insert'];
 type PromptVersionRow = Database['public']['Tables']['prompt_versions']['Row'];
+type PromptVersionTagRow = Database['public']['Tables']['prompt_version_tags']['Row'];
 type CustomNodeRow = Database['public']['Tables']['custom_nodes']['Row'];
 type TranscriptSetRow = Database['public']['Tables']['transcript_sets']['Row'];
 type TranscriptRow = Database['public']['Tables']['transcripts']['Row'];
@@ -27,18 +99,42 @@ export interface StorePersistenceStatus {
   mode: PersistenceMode;
   error: string | null;
   hint: string | null;
+  /** Queued remote writes that have not reached Supabase yet. */
+  pendingWrites: number;
+  /** Queued remote writes parked after repeated failures. */
+  failedWrites: number;
 }
 
-export interface StoreRemoteErrorEventDetail extends StorePersistenceStatus {
-  context: string;
+type PersistenceState = Pick<StorePersistenceStatus, 'mode' | 'error' | 'hint'>;
+
+/** Dispatched as `store:sync-conflict` when a node this tab changed was also edited elsewhere. */
+export interface StoreSyncConflictEventDetail {
+  projectId: string;
+  nodeId: string;
+  nodeLabel: string;
+  /** Another tab of this browser, or another user through realtime. */
+  source: 'tab' | 'collaborator';
+  /** `merged`: both edits were kept with overlapping changes; `overwritten`: the latest save wins. */
+  resolution: 'merged' | 'overwritten';
 }
 
-export type PromptAssemblyMode = 'runtime' | 'flow-template';
+export type RemoteRowTable = 'prompt_nodes' | 'connections';
+export type RemoteRowEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/** Last node state known to be stored remotely; the base for merging concurrent edits. */
+interface RemoteNodeBase {
+  revision: number;
+  content: string;
+}
+
+export type PromptAssemblyMode = 'runtime' | 'flow-template' | 'xml';
 
 interface LocalStorePayload {
+  schemaVersion: number;
   projects: Project[];
   customNodeTemplates: CustomNodeTemplate[];
   transcriptFlowDrafts?: TranscriptFlowDraft[];
+  trash?: TrashEntry[];
 }
 
 export interface TranscriptFlowDraftDetail {
@@ -86,11 +182,24 @@ class Store {
   private projects: Project[] = [];
   private customNodeTemplates: CustomNodeTemplate[] = [];
   private transcriptFlowDrafts: TranscriptFlowDraft[] = [];
+  private trash: TrashEntry[] = [];
+  /** Node ids with a `prompt_node_sync_meta` row, per project, as of the last remote check. */
+  private syncMetaNodeIdsByProject = new Map<string, string[]>();
   private transcriptSetIdByProjectId = new Map<string, string>();
+  private historyByProject = new Map<string, CommandHistory>();
+  private replayingHistory = false;
   private _ready: Promise<void> | null = null;
   private remoteWriteChain: Promise<void> = Promise.resolve();
+  private writeQueue = new RemoteWriteQueue();
+  private remoteWriteReplay: Promise<boolean> | null = null;
+  private remoteNodeBase = new Map<string, RemoteNodeBase>();
+  private promptNodeRevisionSupported = true;
+  private readonly tabId = uid();
+  private remoteWriteLeaseTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly events = new StoreEventEmitter();
+  private tabSync: TabSyncChannel | null = null;
   private currentUserId: string | null = null;
-  private persistenceStatus: StorePersistenceStatus = {
+  private persistenceStatus: PersistenceState = {
     mode: 'database',
     error: null,
     hint: null,
@@ -104,17 +213,43 @@ class Store {
     return this._ready;
   }
 
+  /** Subscribes to one or more store event types; returns the unsubscribe function. */
+  on<T extends StoreEventType>(types: T | readonly T[], listener: StoreEventListener<T>): () => void {
+    return this.events.on(types, listener);
+  }
+
+  /** Subscribes to every store event; returns the unsubscribe function. */
+  subscribe(listener: (event: StoreEvent) => void): () => void {
+    return this.events.onAny(listener);
+  }
+
   getPersistenceStatus(): StorePersistenceStatus {
-    return { ...this.persistenceStatus };
+    const counts = this.writeQueue.counts();
+    return {
+      ...this.persistenceStatus,
+      pendingWrites: counts.pending,
+      failedWrites: counts.failed,
+    };
   }
 
   reset(): void {
     this.projects = [];
     this.customNodeTemplates = [];
     this.transcriptFlowDrafts = [];
+    this.trash = [];
+    this.syncMetaNodeIdsByProject.clear();
     this.transcriptSetIdByProjectId.clear();
+    this.historyByProject.clear();
+    this.replayingHistory = false;
     this._ready = null;
     this.remoteWriteChain = Promise.resolve();
+    this.writeQueue = new RemoteWriteQueue();
+    this.remoteWriteReplay = null;
+    this.remoteNodeBase.clear();
+    this.promptNodeRevisionSupported = true;
+    this.releaseRemoteWriteLease();
+    this.tabSync?.close();
+    this.tabSync = null;
     this.currentUserId = null;
     this.persistenceStatus = {
       mode: 'database',
@@ -129,6 +264,13 @@ class Store {
     try {
       const userId = await this.ensureSession();
 
+      // 0. Flush writes queued by an earlier session before reading remote state
+      this.loadRemoteWriteQueue();
+      if (this.writeQueue.nextPending()) {
+        await this.probeRemoteHealth();
+        await this.drainRemoteWriteQueue();
+      }
+
       // 1. Fetch top-level account data in parallel
       const [projectsRes, customNodesRes, transcriptSetsRes] = await Promise.all([
         supabase
@@ -177,26 +319,43 @@ class Store {
       let nodeRows: PromptNodeRow[] = [];
       let connectionRows: ConnectionRow[] = [];
       let versionRows: PromptVersionRow[] = [];
+      let versionTagRows: PromptVersionTagRow[] = [];
       if (projectIds.length > 0) {
-        const [nodesRes, connsRes, versRes] = await Promise.all([
+        const [nodesRes, connsRes, versRes, tagsRes] = await Promise.all([
           supabase.from('prompt_nodes').select('*').in('project_id', projectIds).order('sort_order'),
           supabase.from('connections').select('*').in('project_id', projectIds),
           supabase.from('prompt_versions').select('*').in('project_id', projectIds).order('timestamp'),
+          supabase.from('prompt_version_tags').select('*').in('project_id', projectIds),
         ]);
         this.assertNoError(nodesRes, 'fetch prompt_nodes');
         this.assertNoError(connsRes, 'fetch connections');
         this.assertNoError(versRes, 'fetch prompt_versions');
+        if (tagsRes.error && !isVersionTagsTableMissing(tagsRes.error.message)) {
+          this.assertNoError(tagsRes, 'fetch prompt_version_tags');
+        }
 
         nodeRows = toTypedRows(nodesRes.data, isPromptNodeRow, 'prompt_nodes');
         connectionRows = toTypedRows(connsRes.data, isConnectionRow, 'connections');
         versionRows = toTypedRows(versRes.data, isPromptVersionRow, 'prompt_versions');
+        versionTagRows = tagsRes.error ? [] : toTypedRows(tagsRes.data, isPromptVersionTagRow, 'prompt_version_tags');
       }
 
-      const nodesByProject = groupByProjectId(nodeRows);
-      const connsByProject = groupByProjectId(connectionRows);
+      this.remoteNodeBase.clear();
+      for (const row of nodeRows) {
+        this.remoteNodeBase.set(row.id, { revision: row.revision ?? 0, content: row.content });
+      }
+
+      // Trashed nodes stay out of the graph; their connections are kept for restore.
+      // Other unresolved connections are loaded as they are for the integrity check.
+      const trashedNodeIds = new Set(nodeRows.filter((row) => row.deleted_at).map((row) => row.id));
+      const nodesByProject = groupByProjectId(nodeRows.filter((row) => !trashedNodeIds.has(row.id)));
+      const connsByProject = groupByProjectId(connectionRows.filter((row) => (
+        !trashedNodeIds.has(row.from_node_id) && !trashedNodeIds.has(row.to_node_id)
+      )));
       const versByProject = groupByProjectId(versionRows);
+      const tagsByProject = groupByProjectId(versionTagRows);
 
-      this.projects = projectRows.map((row) => ({
+      const loadedProjects: Project[] = projectRows.map((row) => ({
         id: row.id,
         name: row.name,
         description: row.description,
@@ -206,13 +365,82 @@ class Store {
         nodes: (nodesByProject[row.id] ?? []).map(toPromptNode),
         connections: (connsByProject[row.id] ?? []).map(toConnection),
         versions: (versByProject[row.id] ?? []).map(toVersion),
+        ...toProjectLineage(row),
+        ...toProjectOrganization(row),
+        ...toProjectVariables(row),
+        ...(row.environments && row.environments.length > 0 ? { environments: [...row.environments] } : {}),
+        ...(typeof row.token_budget === 'number' && row.token_budget > 0 ? { tokenBudget: row.token_budget } : {}),
+        ...(typeof row.conversation_tokens === 'number' && row.conversation_tokens > 0 ? { conversationTokens: row.conversation_tokens } : {}),
+        ...(typeof row.head_branch === 'string'
+          ? { head: { branch: row.head_branch, versionId: row.head_version_id ?? null } }
+          : {}),
+        ...(tagsByProject[row.id]
+          ? { releaseTags: Object.fromEntries(tagsByProject[row.id].map((tag) => [tag.tag, tag.version_id])) }
+          : {}),
       }));
 
+      const projectDeletedAt = new Map(projectRows.flatMap((row) => (row.deleted_at ? [[row.id, row.deleted_at] as const] : [])));
+      this.projects = loadedProjects.filter((project) => !projectDeletedAt.has(project.id));
+      const trashedProjects = new Map(
+        loadedProjects.filter((project) => projectDeletedAt.has(project.id)).map((project) => [project.id, project]),
+      );
+      this.trash = nodeRows.flatMap((row): TrashEntry[] => (row.deleted_at
+        ? [{
+          kind: 'node',
+          id: row.id,
+          deletedAt: row.deleted_at,
+          projectId: row.project_id,
+          node: toPromptNode(row),
+          sortOrder: row.sort_order,
+          connections: connectionRows
+            .filter((connection) => connection.from_node_id === row.id || connection.to_node_id === row.id)
+            .map(toConnection),
+        }]
+        : []));
+
+      // A trashed transcript flow holds its linked project; a live one is unlinked from a trashed project.
       this.transcriptFlowDrafts = [];
       this.transcriptSetIdByProjectId.clear();
-      if (transcriptSetRows.length > 0) {
-        this.transcriptFlowDrafts = await this.loadTranscriptFlowDrafts(transcriptSetRows);
-        this.rebuildTranscriptProjectLinkIndex();
+      const drafts = transcriptSetRows.length > 0 ? await this.loadTranscriptFlowDrafts(transcriptSetRows) : [];
+      const setDeletedAt = new Map(transcriptSetRows.flatMap((row) => (row.deleted_at ? [[row.id, row.deleted_at] as const] : [])));
+      const trashedProjectSetIds = new Map<string, string>();
+      for (const draft of drafts) {
+        const deletedAt = setDeletedAt.get(draft.transcriptSetId);
+        const linkedTrashedProject = draft.projectId ? trashedProjects.get(draft.projectId) ?? null : null;
+        if (!deletedAt) {
+          if (linkedTrashedProject) {
+            trashedProjectSetIds.set(linkedTrashedProject.id, draft.transcriptSetId);
+            draft.projectId = null;
+          }
+          this.transcriptFlowDrafts.push(draft);
+          continue;
+        }
+        if (linkedTrashedProject) trashedProjects.delete(linkedTrashedProject.id);
+        this.trash.push({
+          kind: 'transcript-flow',
+          id: draft.transcriptSetId,
+          deletedAt,
+          draft: { ...draft, projectId: linkedTrashedProject?.id ?? null },
+          project: linkedTrashedProject,
+        });
+      }
+      for (const project of trashedProjects.values()) {
+        this.trash.push({
+          kind: 'project',
+          id: project.id,
+          deletedAt: projectDeletedAt.get(project.id) ?? new Date().toISOString(),
+          project,
+          transcriptSetId: trashedProjectSetIds.get(project.id) ?? null,
+        });
+      }
+      this.rebuildTranscriptProjectLinkIndex();
+
+      this.syncMetaNodeIdsByProject.clear();
+      const syncMetaNodeIds = await this.fetchSyncMetaNodeIds([...trashedNodeIds]);
+      const projectIdByNodeId = new Map(nodeRows.map((row) => [row.id, row.project_id]));
+      for (const nodeId of syncMetaNodeIds) {
+        const projectId = projectIdByNodeId.get(nodeId);
+        if (projectId) this.syncMetaNodeIdsByProject.set(projectId, [...this.syncMetaNodeIdsByProject.get(projectId) ?? [], nodeId]);
       }
     } catch (err) {
       this.setPersistenceFallback('initialization', err);
@@ -222,7 +450,10 @@ class Store {
         );
       }
       this.loadLocalStorage();
+      this.loadRemoteWriteQueue();
     }
+    this.purgeExpiredTrash();
+    this.openTabSync();
   }
 
   private async loadTranscriptFlowDrafts(transcriptSetRows: TranscriptSetRow[]): Promise<TranscriptFlowDraft[]> {
@@ -299,52 +530,146 @@ class Store {
 
   /* localStorage fallback */
 
+  /**
+   * Loads the offline cache, upgrading older schema versions. Anything that cannot
+   * be read is kept verbatim as a recovery record; readable projects are still loaded.
+   */
   private loadLocalStorage(): void {
+    this.projects = [];
+    this.customNodeTemplates = [];
+    this.transcriptFlowDrafts = [];
+    this.trash = [];
+    this.transcriptSetIdByProjectId.clear();
+
     const raw = localStorage.getItem(this.storageKey());
-    if (raw) {
-      try {
-        const parsed: unknown = JSON.parse(raw);
-        if (isProjectArray(parsed)) {
-          this.projects = parsed;
-          this.customNodeTemplates = [];
-          this.transcriptFlowDrafts = [];
-          this.transcriptSetIdByProjectId.clear();
-          return;
-        }
-        if (isLocalStorePayload(parsed)) {
-          this.projects = parsed.projects;
-          this.customNodeTemplates = parsed.customNodeTemplates;
-          this.transcriptFlowDrafts = parsed.transcriptFlowDrafts ?? [];
-          this.rebuildTranscriptProjectLinkIndex();
-          return;
-        }
-        this.projects = [];
-        this.customNodeTemplates = [];
-        this.transcriptFlowDrafts = [];
-        this.transcriptSetIdByProjectId.clear();
-      } catch {
-        this.projects = [];
-        this.customNodeTemplates = [];
-        this.transcriptFlowDrafts = [];
-        this.transcriptSetIdByProjectId.clear();
-      }
-    } else {
-      this.projects = [];
-      this.customNodeTemplates = [];
-      this.transcriptFlowDrafts = [];
-      this.transcriptSetIdByProjectId.clear();
+    if (!raw) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      this.keepLocalStoreRecovery(raw, 'The saved data is not valid JSON.');
+      return;
     }
+    const migrated = migrateLocalStorePayload(parsed);
+    if (!migrated.ok) {
+      this.keepLocalStoreRecovery(raw, migrated.error);
+      return;
+    }
+    const payload = migrated.payload;
+    if (isLocalStorePayload(payload)) {
+      this.projects = payload.projects;
+      this.customNodeTemplates = payload.customNodeTemplates;
+      this.transcriptFlowDrafts = payload.transcriptFlowDrafts ?? [];
+      this.trash = payload.trash ?? [];
+      this.rebuildTranscriptProjectLinkIndex();
+      return;
+    }
+
+    this.keepLocalStoreRecovery(raw, 'Some saved projects, templates, transcript flows or trash items could not be read.');
+    this.projects = Array.isArray(payload.projects) ? payload.projects.filter(isProject) : [];
+    this.customNodeTemplates = Array.isArray(payload.customNodeTemplates)
+      ? payload.customNodeTemplates.filter(isCustomNodeTemplate)
+      : [];
+    this.transcriptFlowDrafts = Array.isArray(payload.transcriptFlowDrafts)
+      ? payload.transcriptFlowDrafts.filter(isTranscriptFlowDraft)
+      : [];
+    this.trash = Array.isArray(payload.trash) ? payload.trash.filter(isTrashEntry) : [];
+    this.rebuildTranscriptProjectLinkIndex();
   }
 
   private saveLocalStorage(): void {
     const payload: LocalStorePayload = {
+      schemaVersion: LOCAL_STORE_SCHEMA_VERSION,
       projects: this.projects,
       customNodeTemplates: this.customNodeTemplates,
       transcriptFlowDrafts: this.transcriptFlowDrafts,
+      trash: this.trash,
     };
     localStorage.setItem(this.storageKey(), JSON.stringify(payload));
   }
 
+  /** Offline data that failed to load on this device, if it has not been discarded. */
+  getLocalStoreRecovery(): LocalStoreRecovery | null {
+    const raw = localStorage.getItem(this.localStoreRecoveryKey());
+    if (!raw) return null;
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return isLocalStoreRecovery(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  discardLocalStoreRecovery(): void {
+    localStorage.removeItem(this.localStoreRecoveryKey());
+  }
+
+  private keepLocalStoreRecovery(raw: string, reason: string): void {
+    const recovery: LocalStoreRecovery = { savedAt: new Date().toISOString(), reason, raw };
+    console.error(`Offline data could not be loaded and was kept for recovery: ${reason}`);
+    try {
+      localStorage.setItem(this.localStoreRecoveryKey(), JSON.stringify(recovery));
+    } catch (err) {
+      console.error(`Keeping offline data for recovery failed: ${getErrorMessage(err)}`);
+    }
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent<LocalStoreRecovery>('store:local-recovery', { detail: recovery }));
+    }
+  }
+
+  /**
+   * Each tab persists its queue under its own key and renews a lease on it while
+   * open. On load, queues left behind by closed tabs (expired leases) and by this
+   * tab are adopted and merged in enqueue order.
+   */
+  private loadRemoteWriteQueue(): void {
+    const prefix = this.remoteWriteQueueKeyPrefix();
+    const adopted: RemoteWriteEntry[] = [];
+    for (const key of adoptableRemoteWriteQueueKeys(localStorage, prefix, this.remoteWriteQueueKey(), Date.now())) {
+      adopted.push(...parseRemoteWriteEntries(localStorage.getItem(key)));
+      localStorage.removeItem(key);
+      localStorage.removeItem(remoteWriteLeaseKey(key));
+    }
+    const seen = new Set<string>();
+    const entries = adopted
+      .sort((left, right) => left.enqueuedAt - right.enqueuedAt)
+      .filter((entry) => {
+        if (seen.has(entry.id)) return false;
+        seen.add(entry.id);
+        return true;
+      });
+    this.writeQueue = new RemoteWriteQueue(entries);
+    this.saveRemoteWriteQueue();
+    this.renewRemoteWriteLease();
+    this.remoteWriteLeaseTimer ??= setInterval(() => this.renewRemoteWriteLease(), REMOTE_WRITE_LEASE_INTERVAL_MS);
+  }
+
+  private renewRemoteWriteLease(): void {
+    try {
+      localStorage.setItem(remoteWriteLeaseKey(this.remoteWriteQueueKey()), String(Date.now()));
+    } catch (err) {
+      console.error(`Renewing the write queue lease failed: ${getErrorMessage(err)}`);
+    }
+  }
+
+  /** Stops renewing this tab's lease and gives it up, so another tab may adopt what is left of the queue. */
+  private releaseRemoteWriteLease(): void {
+    if (this.remoteWriteLeaseTimer !== null) {
+      clearInterval(this.remoteWriteLeaseTimer);
+      this.remoteWriteLeaseTimer = null;
+    }
+    localStorage.removeItem(remoteWriteLeaseKey(this.remoteWriteQueueKey()));
+  }
+
+  private saveRemoteWriteQueue(): void {
+    if (this.writeQueue.isEmpty()) {
+      localStorage.removeItem(this.remoteWriteQueueKey());
+      return;
+    }
+    localStorage.setItem(this.remoteWriteQueueKey(), JSON.stringify(this.writeQueue));
+  }
+
   /* Remote helpers */
 
   private async ensureSession(): Promise<string> {
@@ -371,6 +696,24 @@ class Store {
       : 'promptblueprint_projects_guest';
   }
 
+  private activeEnvironmentsKey(): string {
+    return `${this.storageKey()}_active_environments`;
+  }
+
+  private localStoreRecoveryKey(): string {
+    return `${this.storageKey()}_recovery`;
+  }
+
+  private remoteWriteQueueKeyPrefix(): string {
+    return this.currentUserId
+      ? `promptblueprint_write_queue_${this.currentUserId}`
+      : 'promptblueprint_write_queue_guest';
+  }
+
+  private remoteWriteQueueKey(): string {
+    return `${this.remoteWriteQueueKeyPrefix()}:${this.tabId}`;
+  }
+
   private setPersistenceFallback(context: string, err: unknown): void {
     const error = getErrorMessage(err);
     const hint = getPersistenceHint(error);
@@ -385,13 +728,90 @@ class Store {
       console.error(hint);
     }
 
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent<StoreRemoteErrorEventDetail>('store:remote-error', {
-        detail: {
-          context,
-          ...this.persistenceStatus,
-        },
-      }));
+    this.notifyPersistenceStatus(context);
+  }
+
+  private notifyPersistenceStatus(context: string | null = null): void {
+    this.events.emit({ type: 'persistence-changed', status: this.getPersistenceStatus(), context });
+  }
+
+  /**
+   * Replays queued writes in order once the session and schema respond again.
+   * Resolves true when the queue has no pending entries and database mode is restored.
+   */
+  retryRemoteWrites(): Promise<boolean> {
+    if (!this.remoteWriteReplay) {
+      this.remoteWriteReplay = this.replayRemoteWrites().finally(() => {
+        this.remoteWriteReplay = null;
+      });
+    }
+    return this.remoteWriteReplay;
+  }
+
+  /** Gives writes that exhausted their retries a fresh set of attempts, then replays the queue. */
+  retryFailedRemoteWrites(): Promise<boolean> {
+    if (this.writeQueue.retryFailed() > 0) {
+      this.saveRemoteWriteQueue();
+      this.notifyPersistenceStatus();
+    }
+    return this.retryRemoteWrites();
+  }
+
+  /** Drops writes that exhausted their retries; their edits remain in the local cache only. */
+  discardFailedRemoteWrites(): number {
+    const discarded = this.writeQueue.discardFailed();
+    if (discarded > 0) {
+      this.saveRemoteWriteQueue();
+      this.notifyPersistenceStatus();
+    }
+    return discarded;
+  }
+
+  private async replayRemoteWrites(): Promise<boolean> {
+    await this.remoteWriteChain;
+    try {
+      await this.ensureSession();
+      await this.probeRemoteHealth();
+      await this.drainRemoteWriteQueue();
+    } catch (err) {
+      this.setPersistenceFallback('replay queued writes', err);
+      return false;
+    }
+
+    this.persistenceStatus = {
+      mode: 'database',
+      error: null,
+      hint: null,
+    };
+    this.saveLocalStorage();
+    this.notifyPersistenceStatus();
+    return true;
+  }
+
+  /** Cheap read that fails fast while the session or schema is still broken, without spending write attempts. */
+  private async probeRemoteHealth(): Promise<void> {
+    const probeRes = await supabase.from('projects').select('id').limit(1);
+    this.assertNoError(probeRes, 'probe projects');
+  }
+
+  private async drainRemoteWriteQueue(): Promise<void> {
+    let entry = this.writeQueue.nextPending();
+    while (entry) {
+      try {
+        await this.executeRemoteWrite(entry.operation);
+        this.writeQueue.complete(entry.id);
+      } catch (err) {
+        const status = this.writeQueue.recordFailure(entry.id, getErrorMessage(err));
+        if (status === 'pending') {
+          throw err;
+        }
+        console.error(
+          `Queued ${entry.operation.type} failed ${MAX_REMOTE_WRITE_ATTEMPTS} times and was parked: ${getErrorMessage(err)}`
+        );
+      } finally {
+        this.saveRemoteWriteQueue();
+      }
+      entry = this.writeQueue.nextPending();
     }
   }
 
@@ -400,8 +820,8 @@ class Store {
     return message.includes('schema cache') || message.includes("Could not find the '");
   }
 
-  private async insertProjectRemote(p: Project, ownerId: string): Promise<void> {
-    const res = await supabase.from('projects').insert({
+  private async insertProjectRemote(p: RemoteProjectRecord, ownerId: string): Promise<void> {
+    const projectInsertBase = {
       id: p.id,
       owner_id: ownerId,
       name: p.name,
@@ -409,26 +829,440 @@ class Store {
       model: p.model,
       icon: p.icon,
       last_edited: p.lastEdited,
-    });
+    };
+    let res = await supabase.from('projects').insert(p.forkedFrom
+      ? {
+        ...projectInsertBase,
+        forked_from_project_id: p.forkedFrom.projectId,
+        forked_from_project_name: p.forkedFrom.projectName,
+        forked_from_version_id: p.forkedFrom.versionId,
+        forked_at: p.forkedFrom.forkedAt,
+      }
+      : projectInsertBase);
+    if (res.error && p.forkedFrom && isProjectLineageColumnMissing(res.error.message)) {
+      res = await supabase.from('projects').insert(projectInsertBase);
+    }
+    if (res.error && isDuplicateKeyViolation(res.error.message)) return;
     this.assertNoError(res, 'insert project');
   }
 
-  private bg(fn: () => Promise<void>): void {
+  /**
+   * Queues a remote write and sends it behind earlier writes. The queue entry is
+   * persisted first, so the write survives fallback mode and page reloads.
+   */
+  private bg(operation: RemoteWriteOperation, baseSectionHash: string | null = null): void {
+    const entry = this.writeQueue.enqueue(operation);
+    this.saveRemoteWriteQueue();
+    this.saveLocalStorage(); // always keep localStorage in sync as fallback
+    this.tabSync?.publish(entry.operation, baseSectionHash);
+    this.events.emit(storeEventForOperation(entry.operation, 'local'));
+
     if (this.persistenceStatus.mode !== 'database') {
-      this.saveLocalStorage();
+      this.notifyPersistenceStatus();
       return;
     }
 
     this.remoteWriteChain = this.remoteWriteChain
       .then(async () => {
         if (this.persistenceStatus.mode !== 'database') return;
-        await fn();
+        if (!this.writeQueue.isNextPending(entry.id)) return;
+        await this.executeRemoteWrite(entry.operation);
+        this.writeQueue.complete(entry.id);
+        this.saveRemoteWriteQueue();
       })
       .catch((err: unknown) => {
+        this.writeQueue.recordFailure(entry.id, getErrorMessage(err));
+        this.saveRemoteWriteQueue();
         this.setPersistenceFallback('background write', err);
       });
+  }
 
-    this.saveLocalStorage(); // always keep localStorage in sync as fallback
+  /* Cross-tab sync */
+
+  private openTabSync(): void {
+    this.tabSync?.close();
+    const name = this.currentUserId
+      ? `promptblueprint_tab_sync_${this.currentUserId}`
+      : 'promptblueprint_tab_sync_guest';
+    this.tabSync = new TabSyncChannel(name, this.tabId, (message) => this.applyTabSyncMessage(message));
+  }
+
+  /**
+   * Mirrors a mutation made in another tab into this tab's cache. The sending tab
+   * owns the remote write, so nothing is queued or recorded in history here.
+   */
+  private applyTabSyncMessage(message: TabSyncMessage): void {
+    const { operation } = message;
+
+    switch (operation.type) {
+      case 'insert-project': {
+        const record = operation.payload.project;
+        if (!this.getProject(record.id)) {
+          this.projects.unshift({ ...record, nodes: [], connections: [], versions: [] });
+        }
+        break;
+      }
+      case 'delete-project': {
+        const { projectId } = operation.payload;
+        this.detachProjectLocally(projectId);
+        this.removeTrashEntry('project', projectId);
+        this.forgetTrashedNodes(projectId);
+        break;
+      }
+      case 'link-transcript-set': {
+        const { transcriptSetId, projectId, updatedAt } = operation.payload;
+        const draft = this.transcriptFlowDrafts.find((item) => item.transcriptSetId === transcriptSetId);
+        if (draft) {
+          draft.projectId = projectId;
+          draft.updatedAt = updatedAt;
+          this.rebuildTranscriptProjectLinkIndex();
+        }
+        break;
+      }
+      case 'delete-transcript-flow': {
+        const { transcriptSetId, linkedProjectId } = operation.payload;
+        this.transcriptFlowDrafts = this.transcriptFlowDrafts.filter((item) => item.transcriptSetId !== transcriptSetId);
+        this.removeTrashEntry('transcript-flow', transcriptSetId);
+        if (linkedProjectId) {
+          this.transcriptSetIdByProjectId.delete(linkedProjectId);
+          this.projects = this.projects.filter((project) => project.id !== linkedProjectId);
+          this.historyByProject.delete(linkedProjectId);
+          this.forgetTrashedNodes(linkedProjectId);
+        }
+        break;
+      }
+      case 'insert-custom-node': {
+        const { template } = operation.payload;
+        if (!this.customNodeTemplates.some((item) => item.id === template.id)) {
+          this.customNodeTemplates.unshift(template);
+        }
+        break;
+      }
+      case 'update-custom-node': {
+        const { template } = operation.payload;
+        this.customNodeTemplates = this.customNodeTemplates.map((item) => (item.id === template.id ? template : item));
+        break;
+      }
+      case 'delete-custom-node': {
+        const { templateId } = operation.payload;
+        this.customNodeTemplates = this.customNodeTemplates.filter((template) => template.id !== templateId);
+        break;
+      }
+      case 'insert-node': {
+        const { projectId, node, sortOrder, connections } = operation.payload;
+        const p = this.getProject(projectId);
+        if (!p || p.nodes.some((item) => item.id === node.id)) break;
+        p.nodes.splice(Math.max(0, Math.min(sortOrder, p.nodes.length)), 0, node);
+        const nodeIds = new Set(p.nodes.map((item) => item.id));
+        p.connections.push(...connections.filter((connection) => (
+          nodeIds.has(connection.from) &&
+          nodeIds.has(connection.to) &&
+          !p.connections.some((existing) => existing.id === connection.id)
+        )));
+        markProjectEdited(p);
+        this.syncTranscriptDraftCacheFromProject(p);
+        break;
+      }
+      case 'update-node': {
+        const { projectId, nodeId, updates } = operation.payload;
+        const p = this.getProject(projectId);
+        const n = p?.nodes.find((item) => item.id === nodeId);
+        if (!p || !n) break;
+        const diverged = message.baseSectionHash !== null && buildPromptNodeSectionHash(n) !== message.baseSectionHash;
+        Object.assign(n, updates);
+        markProjectEdited(p);
+        this.syncTranscriptDraftCacheFromProject(p);
+        if (diverged) {
+          this.dispatchSyncConflict({ projectId, nodeId, nodeLabel: n.label, source: 'tab', resolution: 'overwritten' });
+        }
+        break;
+      }
+      case 'delete-node': {
+        this.removeTrashEntry('node', operation.payload.nodeId);
+        const p = this.getProject(operation.payload.projectId);
+        if (!p) break;
+        const removedId = operation.payload.nodeId;
+        p.nodes = p.nodes.filter((item) => item.id !== removedId);
+        p.connections = p.connections.filter((c) => c.from !== removedId && c.to !== removedId);
+        markProjectEdited(p);
+        this.syncTranscriptDraftCacheFromProject(p);
+        break;
+      }
+      case 'insert-connection': {
+        const { projectId, connection } = operation.payload;
+        const p = this.getProject(projectId);
+        if (!p || p.connections.some((existing) => existing.id === connection.id)) break;
+        p.connections.push(connection);
+        this.syncTranscriptDraftCacheFromProject(p);
+        break;
+      }
+      case 'update-connection-label': {
+        const { connectionId, label } = operation.payload;
+        const p = this.projects.find((project) => project.connections.some((c) => c.id === connectionId));
+        const connection = p?.connections.find((c) => c.id === connectionId);
+        if (!p || !connection) break;
+        if (label) {
+          connection.label = label;
+        } else {
+          delete connection.label;
+        }
+        this.syncTranscriptDraftCacheFromProject(p);
+        break;
+      }
+      case 'delete-connection': {
+        const { connectionId } = operation.payload;
+        const p = this.projects.find((project) => project.connections.some((c) => c.id === connectionId));
+        if (!p) break;
+        p.connections = p.connections.filter((c) => c.id !== connectionId);
+        this.syncTranscriptDraftCacheFromProject(p);
+        break;
+      }
+      case 'insert-version': {
+        const { projectId, version } = operation.payload;
+        const p = this.getProject(projectId);
+        if (!p || p.versions.some((item) => item.id === version.id)) break;
+        p.versions.push(version);
+        this.syncTranscriptDraftCacheFromProject(p);
+        break;
+      }
+      case 'update-project-head': {
+        const p = this.getProject(operation.payload.projectId);
+        if (!p) break;
+        p.head = { ...operation.payload.head };
+        break;
+      }
+      case 'set-version-tag': {
+        const { projectId, tag, versionId } = operation.payload;
+        const p = this.getProject(projectId);
+        if (!p) break;
+        p.releaseTags = { ...p.releaseTags, [tag]: versionId };
+        break;
+      }
+      case 'delete-version-tag': {
+        const p = this.getProject(operation.payload.projectId);
+        if (!p?.releaseTags) break;
+        const rest = { ...p.releaseTags };
+        delete rest[operation.payload.tag];
+        p.releaseTags = rest;
+        break;
+      }
+      case 'update-project-organization': {
+        const { projectId, folder, tags } = operation.payload;
+        const p = this.getProject(projectId);
+        if (p) this.applyProjectOrganization(p, folder, tags);
+        break;
+      }
+      case 'update-project-variables': {
+        const { projectId, variables } = operation.payload;
+        const p = this.getProject(projectId);
+        if (!p) break;
+        this.applyProjectVariables(p, variables);
+        markProjectEdited(p);
+        break;
+      }
+      case 'update-project-environments': {
+        const p = this.getProject(operation.payload.projectId);
+        if (p) this.applyProjectEnvironments(p, operation.payload.environments);
+        break;
+      }
+      case 'update-project-token-budget': {
+        const p = this.getProject(operation.payload.projectId);
+        if (p) this.applyProjectTokenBudget(p, operation.payload.tokenBudget);
+        break;
+      }
+      case 'update-project-conversation-tokens': {
+        const p = this.getProject(operation.payload.projectId);
+        if (p) this.applyProjectConversationTokens(p, operation.payload.conversationTokens);
+        break;
+      }
+      case 'trash-project': {
+        this.trashProjectLocally(operation.payload.projectId, operation.payload.deletedAt);
+        break;
+      }
+      case 'restore-project': {
+        const entry = this.findTrashEntry('project', operation.payload.projectId);
+        if (entry) this.restoreProjectLocally(entry);
+        break;
+      }
+      case 'trash-node': {
+        const { projectId, nodeId, deletedAt } = operation.payload;
+        const p = this.getProject(projectId);
+        if (p) this.trashNodeLocally(p, nodeId, deletedAt);
+        break;
+      }
+      case 'restore-node': {
+        const { projectId, node, sortOrder, connections } = operation.payload;
+        this.removeTrashEntry('node', node.id);
+        const p = this.getProject(projectId);
+        if (!p || p.nodes.some((item) => item.id === node.id)) break;
+        this.restoreNodeLocally(p, node, sortOrder, connections);
+        break;
+      }
+      case 'trash-transcript-flow': {
+        this.trashTranscriptFlowLocally(operation.payload.transcriptSetId, operation.payload.deletedAt);
+        break;
+      }
+      case 'restore-transcript-flow': {
+        const entry = this.findTrashEntry('transcript-flow', operation.payload.transcriptSetId);
+        if (entry) this.restoreTranscriptFlowLocally(entry);
+        break;
+      }
+      case 'delete-node-sync-meta': {
+        this.forgetSyncMetaNodeIds(operation.payload.projectId, operation.payload.nodeIds);
+        break;
+      }
+    }
+
+    this.saveLocalStorage();
+    this.events.emit(storeEventForOperation(operation, 'tab'));
+  }
+
+  private dispatchSyncConflict(detail: StoreSyncConflictEventDetail): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent<StoreSyncConflictEventDetail>('store:sync-conflict', { detail }));
+    }
+  }
+
+  /* Realtime collaboration */
+
+  /**
+   * Merges a realtime row change made by another client into the cache. Echoes of
+   * this client's own writes are recognised by revision (nodes) or id (connections).
+   */
+  applyRemoteRowChange(table: RemoteRowTable, event: RemoteRowEvent, record: unknown): void {
+    if (table === 'prompt_nodes') {
+      if (event === 'DELETE') {
+        if (isRecord(record) && typeof record.id === 'string') this.applyRemoteNodeDelete(record.id);
+        return;
+      }
+      if (!isPromptNodeRow(record)) return;
+      if (record.deleted_at) {
+        this.applyRemoteNodeTrash(record, record.deleted_at);
+      } else {
+        this.applyRemoteNodeRow(record);
+      }
+      return;
+    }
+
+    if (event === 'DELETE') {
+      if (isRecord(record) && typeof record.id === 'string') this.applyRemoteConnectionDelete(record.id);
+      return;
+    }
+    if (isConnectionRow(record)) this.applyRemoteConnectionRow(record);
+  }
+
+  private applyRemoteNodeRow(row: PromptNodeRow): void {
+    const p = this.getProject(row.project_id);
+    if (!p) return;
+    const revision = row.revision ?? 0;
+    const known = this.remoteNodeBase.get(row.id);
+    const existing = p.nodes.find((node) => node.id === row.id);
+
+    if (!existing) {
+      this.remoteNodeBase.set(row.id, { revision, content: row.content });
+      this.removeTrashEntry('node', row.id);
+      const node = toPromptNode(row);
+      p.nodes.splice(Math.max(0, Math.min(row.sort_order, p.nodes.length)), 0, node);
+      markProjectEdited(p);
+      this.syncTranscriptDraftCacheFromProject(p);
+      this.saveLocalStorage();
+      this.events.emit({ type: 'node-added', origin: 'remote', projectId: p.id, nodeId: row.id });
+      return;
+    }
+
+    const incoming = toPromptNode(row);
+    // Without the revision column every row reads as revision 0, so an echo is a row the local node already matches.
+    const isEcho = typeof row.revision === 'number'
+      ? Boolean(known && revision <= known.revision)
+      : sameEditableNodeFields(pickEditableNodeFields(existing, incoming), pickEditableNodeFields(incoming, incoming));
+    if (isEcho) return;
+    existing.type = incoming.type;
+    existing.label = incoming.label;
+    existing.icon = incoming.icon;
+    existing.x = incoming.x;
+    existing.y = incoming.y;
+    existing.meta = incoming.meta;
+    this.mergeRemoteNodeContent(p, existing, known?.content ?? existing.content, { revision, content: row.content });
+    markProjectEdited(p);
+    this.syncTranscriptDraftCacheFromProject(p);
+    this.saveLocalStorage();
+    this.events.emit({ type: 'node-updated', origin: 'remote', projectId: p.id, nodeId: row.id });
+  }
+
+  /**
+   * Three-way merges remote content into a node. Local edits that are not stored
+   * remotely yet survive; the queued write then sends the merged text.
+   */
+  private mergeRemoteNodeContent(p: Project, node: PromptNode, baseContent: string, latest: RemoteNodeBase): void {
+    this.remoteNodeBase.set(node.id, latest);
+    const { merged, conflicted } = mergeText(baseContent, node.content, latest.content);
+    node.content = merged;
+    if (conflicted) {
+      this.dispatchSyncConflict({
+        projectId: p.id,
+        nodeId: node.id,
+        nodeLabel: node.label,
+        source: 'collaborator',
+        resolution: 'merged',
+      });
+    }
+  }
+
+  /** Another client moved a node to the trash; it goes to this client's trash as well. */
+  private applyRemoteNodeTrash(row: PromptNodeRow, deletedAt: string): void {
+    const p = this.getProject(row.project_id);
+    if (!p || !p.nodes.some((node) => node.id === row.id)) return;
+    this.trashNodeLocally(p, row.id, deletedAt);
+    this.saveLocalStorage();
+    this.events.emit({ type: 'node-removed', origin: 'remote', projectId: p.id, nodeId: row.id });
+  }
+
+  private applyRemoteNodeDelete(nodeId: string): void {
+    this.remoteNodeBase.delete(nodeId);
+    this.removeTrashEntry('node', nodeId);
+    const p = this.projects.find((project) => project.nodes.some((node) => node.id === nodeId));
+    if (!p) return;
+    p.nodes = p.nodes.filter((node) => node.id !== nodeId);
+    p.connections = p.connections.filter((c) => c.from !== nodeId && c.to !== nodeId);
+    markProjectEdited(p);
+    this.syncTranscriptDraftCacheFromProject(p);
+    this.saveLocalStorage();
+    this.events.emit({ type: 'node-removed', origin: 'remote', projectId: p.id, nodeId });
+  }
+
+  private applyRemoteConnectionRow(row: ConnectionRow): void {
+    const p = this.getProject(row.project_id);
+    if (!p) return;
+    const incoming = toConnection(row);
+    const existing = p.connections.find((connection) => connection.id === row.id);
+    if (existing) {
+      if (normalizeConnectionLabel(existing.label) === normalizeConnectionLabel(incoming.label)) return;
+      if (incoming.label) {
+        existing.label = incoming.label;
+      } else {
+        delete existing.label;
+      }
+      this.syncTranscriptDraftCacheFromProject(p);
+      this.saveLocalStorage();
+      this.events.emit({ type: 'connection-updated', origin: 'remote', projectId: p.id, connectionId: row.id });
+      return;
+    }
+
+    const nodeIds = new Set(p.nodes.map((node) => node.id));
+    if (!nodeIds.has(incoming.from) || !nodeIds.has(incoming.to)) return;
+    p.connections.push(incoming);
+    this.syncTranscriptDraftCacheFromProject(p);
+    this.saveLocalStorage();
+    this.events.emit({ type: 'connection-added', origin: 'remote', projectId: p.id, connectionId: row.id });
+  }
+
+  private applyRemoteConnectionDelete(connectionId: string): void {
+    const p = this.projects.find((project) => project.connections.some((c) => c.id === connectionId));
+    if (!p) return;
+    p.connections = p.connections.filter((c) => c.id !== connectionId);
+    this.syncTranscriptDraftCacheFromProject(p);
+    this.saveLocalStorage();
+    this.events.emit({ type: 'connection-removed', origin: 'remote', projectId: p.id, connectionId });
   }
 
   /* Read operations (sync, from cache) */
@@ -445,6 +1279,14 @@ class Store {
     return this.projects.filter((project) => !this.transcriptSetIdByProjectId.has(project.id));
   }
 
+  getLinkedTranscriptFlowDraft(projectId: string): TranscriptFlowDraft | null {
+    const transcriptSetId = this.transcriptSetIdByProjectId.get(projectId);
+    const draft = transcriptSetId
+      ? this.transcriptFlowDrafts.find((item) => item.transcriptSetId === transcriptSetId)
+      : undefined;
+    return draft ? cloneTranscriptFlowDraft(draft) : null;
+  }
+
   getTranscriptFlowDrafts(): TranscriptFlowDraft[] {
     return this.transcriptFlowDrafts
       .map((draft) => cloneTranscriptFlowDraft(draft))
@@ -511,15 +1353,9 @@ class Store {
     }
     this.rebuildTranscriptProjectLinkIndex();
 
-    this.bg(async () => {
-      const updateRes = await supabase
-        .from('transcript_sets')
-        .update({ project_id: projectId, updated_at: nowIso })
-        .eq('id', transcriptSetId);
-      if (updateRes.error && isTranscriptTableMissing(updateRes.error.message, 'transcript_sets')) {
-        return;
-      }
-      this.assertNoError(updateRes, 'link transcript_set project');
+    this.bg({
+      type: 'link-transcript-set',
+      payload: { transcriptSetId, projectId, updatedAt: nowIso },
     });
   }
 
@@ -606,66 +1442,379 @@ class Store {
       label: normalizeCustomNodeTemplateLabel(template.label),
       icon: template.icon.trim() || 'widgets',
       content: template.content,
-      meta: { ...template.meta },
+      meta: omitTemplateProvenance(template.meta),
       createdAt: now,
       updatedAt: now,
     };
     this.customNodeTemplates.unshift(savedTemplate);
-    this.bg(async () => {
-      await this.insertCustomNodeRemote(savedTemplate);
-    });
+    this.bg({ type: 'insert-custom-node', payload: { template: savedTemplate } });
     return savedTemplate;
   }
 
   removeCustomNodeTemplate(templateId: string): void {
     this.customNodeTemplates = this.customNodeTemplates.filter((template) => template.id !== templateId);
-    this.bg(async () => {
-      const customDeleteRes = await supabase.from('custom_nodes').delete().eq('id', templateId);
-      if (customDeleteRes.error && isCustomNodesTableMissing(customDeleteRes.error.message)) {
-        return;
-      }
-      this.assertNoError(customDeleteRes, 'delete custom_node');
-    });
+    this.bg({ type: 'delete-custom-node', payload: { templateId } });
   }
 
-  /* Project mutations */
-
-  createProject(name: string, description: string, model: string): Project {
-    const project: Project = {
-      id: uid(), name, description, model,
-      icon: 'schema', lastEdited: 'Just now',
-      nodes: [], connections: [], versions: [],
+  /** Saves an edit to a library entry and bumps its revision; linked nodes are left for the caller to update. */
+  updateCustomNodeTemplate(
+    templateId: string,
+    updates: Partial<Pick<CustomNodeTemplate, 'label' | 'icon' | 'content'>>,
+  ): CustomNodeTemplate | null {
+    const current = this.customNodeTemplates.find((template) => template.id === templateId);
+    if (!current) return null;
+    const updated: CustomNodeTemplate = {
+      ...current,
+      ...updates,
+      label: normalizeCustomNodeTemplateLabel(updates.label ?? current.label),
+      icon: (updates.icon ?? current.icon).trim() || 'widgets',
+      revision: templateRevision(current) + 1,
+      updatedAt: new Date().toISOString(),
     };
-    this.projects.unshift(project);
-    this.bg(async () => {
-      if (!this.currentUserId) {
-        throw new Error('No active user in store session.');
-      }
-      await this.insertProjectRemote(project, this.currentUserId);
-    });
-    return project;
+    this.customNodeTemplates = this.customNodeTemplates.map((template) => (template.id === templateId ? updated : template));
+    this.bg({ type: 'update-custom-node', payload: { template: updated } });
+    return updated;
   }
 
-  async createTranscriptFlowProject(name: string, description: string, model: string): Promise<Project> {
-    const normalizedName = name.trim() || 'Untitled Transcript Flow';
-    const normalizedDescription = description.trim() || 'Manual transcript flow workspace.';
-    const project = this.createProject(normalizedName, normalizedDescription, model);
-    const nowIso = new Date().toISOString();
+  getLinkedLibraryInstances(templateId: string): LinkedLibraryInstance[] {
+    const template = this.customNodeTemplates.find((item) => item.id === templateId);
+    return template ? findLinkedInstances(this.projects, template) : [];
+  }
 
-    if (this.persistenceStatus.mode !== 'database') {
-      const localTranscriptSetId = `local-${uid()}`;
+  /** Replaces a linked node's content with its library entry's; false when the node is not linked or the entry is gone. */
+  syncLibraryNode(projectId: string, nodeId: string): boolean {
+    const node = this.getProject(projectId)?.nodes.find((item) => item.id === nodeId);
+    const link = node ? readLibraryLink(node.meta) : null;
+    const template = link ? this.customNodeTemplates.find((item) => item.id === link.templateId) : undefined;
+    if (!node || !template) return false;
+    this.updateNode(projectId, nodeId, { content: template.content, meta: withLibraryLink(node.meta, template) });
+    return true;
+  }
+
+  /**
+   * Updates every out-of-date linked node of the entry, one undo step per project.
+   * Overridden nodes and nodes edited by hand since their last sync are skipped.
+   */
+  syncLibraryTemplateInstances(templateId: string): { updated: number; skipped: number } {
+    const template = this.customNodeTemplates.find((item) => item.id === templateId);
+    if (!template) return { updated: 0, skipped: 0 };
+    const plan = planLibraryUpdate(this.projects, template);
+    const projectIds = [...new Set(plan.update.map((instance) => instance.projectId))];
+    for (const projectId of projectIds) {
+      this.runHistoryGroup(projectId, `Update ${template.label} from library`, () => {
+        for (const instance of plan.update) {
+          if (instance.projectId === projectId) this.syncLibraryNode(projectId, instance.node.id);
+        }
+      });
+    }
+    return { updated: plan.update.length, skipped: plan.skipped.length };
+  }
+
+  detachLibraryNode(projectId: string, nodeId: string): void {
+    const node = this.getProject(projectId)?.nodes.find((item) => item.id === nodeId);
+    if (!node) return;
+    this.updateNode(projectId, nodeId, { meta: withoutLibraryLink(node.meta) });
+  }
+
+  setLibraryNodeOverride(projectId: string, nodeId: string, override: boolean): void {
+    const node = this.getProject(projectId)?.nodes.find((item) => item.id === nodeId);
+    if (!node) return;
+    this.updateNode(projectId, nodeId, { meta: withLibraryOverride(node.meta, override) });
+  }
+
+  /* Project mutations */
+
+  createProject(name: string, description: string, model: string): Project {
+    const project: Project = {
+      id: uid(), name, description, model,
+      icon: 'schema', lastEdited: 'Just now', updatedAt: new Date().toISOString(),
+      nodes: [], connections: [], versions: [],
+    };
+    this.projects.unshift(project);
+    this.bg({ type: 'insert-project', payload: { project: toRemoteProjectRecord(project) } });
+    return project;
+  }
+
+  async createTranscriptFlowProject(name: string, description: string, model: string): Promise<Project> {
+    const normalizedName = name.trim() || 'Untitled Transcript Flow';
+    const normalizedDescription = description.trim() || 'Manual transcript flow workspace.';
+    const project = this.createProject(normalizedName, normalizedDescription, model);
+    await this.attachTranscriptSet(project, {
+      name: `${normalizedName} Transcript Set`,
+      description: normalizedDescription,
+      source: 'manual-transcript-flow',
+    }, 'create transcript flow project');
+    return project;
+  }
+
+  /** Adds a project prepared from a `.promptflow` bundle and queues all of its rows for Supabase. */
+  async importProject(prepared: PreparedProjectImport): Promise<Project> {
+    for (const template of prepared.newCustomNodeTemplates) {
+      this.customNodeTemplates.unshift(template);
+      this.bg({ type: 'insert-custom-node', payload: { template } });
+    }
+
+    const project = prepared.project;
+    this.addProjectGraph(project);
+    if (prepared.transcriptSet) {
+      await this.attachTranscriptSet(project, prepared.transcriptSet, 'import project bundle');
+    }
+    return project;
+  }
+
+  /**
+   * Copies a project (or one of its versions) into a new project with fresh ids.
+   * The fork records its parent project and the version it was taken from.
+   */
+  forkProject(projectId: string, options: ForkProjectOptions = {}): Project | null {
+    const source = this.getProject(projectId);
+    if (!source) return null;
+    const fork = buildProjectFork(source, options);
+    if (!fork) return null;
+    this.addProjectGraph(fork);
+    return fork;
+  }
+
+  private addProjectGraph(project: Project): void {
+    this.projects.unshift(project);
+    this.bg({ type: 'insert-project', payload: { project: toRemoteProjectRecord(project) } });
+    project.nodes.forEach((node, sortOrder) => {
+      this.bg({ type: 'insert-node', payload: { projectId: project.id, node, sortOrder, connections: [] } });
+    });
+    for (const connection of project.connections) {
+      this.bg({ type: 'insert-connection', payload: { projectId: project.id, connection } });
+    }
+    for (const version of project.versions) {
+      this.bg({ type: 'insert-version', payload: { projectId: project.id, version } });
+    }
+    if (project.head) {
+      this.bg({ type: 'update-project-head', payload: { projectId: project.id, head: project.head } });
+    }
+    for (const [tag, versionId] of Object.entries(project.releaseTags ?? {})) {
+      this.bg({ type: 'set-version-tag', payload: { projectId: project.id, tag, versionId } });
+    }
+    if (project.folder || project.tags?.length) {
+      this.bg({
+        type: 'update-project-organization',
+        payload: { projectId: project.id, folder: project.folder ?? null, tags: project.tags ?? [] },
+      });
+    }
+    if (project.variables?.length) {
+      this.bg({ type: 'update-project-variables', payload: { projectId: project.id, variables: project.variables } });
+    }
+    if (project.environments?.length) {
+      this.bg({ type: 'update-project-environments', payload: { projectId: project.id, environments: project.environments } });
+    }
+    if (project.tokenBudget) {
+      this.bg({ type: 'update-project-token-budget', payload: { projectId: project.id, tokenBudget: project.tokenBudget } });
+    }
+    if (project.conversationTokens) {
+      this.bg({ type: 'update-project-conversation-tokens', payload: { projectId: project.id, conversationTokens: project.conversationTokens } });
+    }
+  }
+
+  /** Files a project into a folder (`null` for unfiled) and replaces its dashboard tags. */
+  setProjectOrganization(projectId: string, organization: { folder: string | null; tags: string[] }): void {
+    const p = this.getProject(projectId);
+    if (!p) return;
+    this.applyProjectOrganization(p, organization.folder, organization.tags);
+    this.bg({
+      type: 'update-project-organization',
+      payload: { projectId, folder: p.folder ?? null, tags: p.tags ?? [] },
+    });
+  }
+
+  /** Replaces the project's declared template variables. */
+  setProjectVariables(projectId: string, variables: TemplateVariable[]): void {
+    const p = this.getProject(projectId);
+    if (!p) return;
+    this.applyProjectVariables(p, variables);
+    markProjectEdited(p);
+    this.bg({ type: 'update-project-variables', payload: { projectId, variables: p.variables ?? [] } });
+  }
+
+  private applyProjectVariables(p: Project, variables: TemplateVariable[]): void {
+    if (variables.length > 0) {
+      p.variables = variables.map((variable) => ({ ...variable }));
+    } else {
+      delete p.variables;
+    }
+  }
+
+  /* Environments */
+
+  /** Replaces the project's environment list as one undoable step. */
+  setProjectEnvironments(projectId: string, environments: string[]): void {
+    const p = this.getProject(projectId);
+    if (!p) return;
+    const previous = [...p.environments ?? []];
+    const next = [...new Set(environments)];
+    if (previous.join('\u0000') === next.join('\u0000')) return;
+    this.applyProjectEnvironments(p, next);
+    this.recordHistory(projectId, {
+      label: 'Edit environments',
+      undo: () => this.setProjectEnvironments(projectId, previous),
+      redo: () => this.setProjectEnvironments(projectId, next),
+    });
+    this.bg({ type: 'update-project-environments', payload: { projectId, environments: next } });
+  }
+
+  /** Renames (or, with `to: null`, removes) an environment and rewrites the node rules that name it. */
+  renameEnvironment(projectId: string, from: string, to: string | null): void {
+    const p = this.getProject(projectId);
+    if (!p?.environments?.includes(from)) return;
+    const environments = p.environments.flatMap((name) => (name === from ? (to ? [to] : []) : [name]));
+    this.runHistoryGroup(projectId, to ? `Rename environment ${from}` : `Remove environment ${from}`, () => {
+      this.setProjectEnvironments(projectId, environments);
+      for (const node of p.nodes) {
+        const rule = readNodeEnvironmentRule(node.meta);
+        const nextRule = renameEnvironmentInRule(rule, from, to);
+        if (nextRule !== rule) {
+          this.updateNode(projectId, node.id, { meta: withNodeEnvironmentRule(node.meta, nextRule) });
+        }
+      }
+    });
+    if (this.getActiveEnvironment(projectId) === from) {
+      this.setActiveEnvironment(projectId, to);
+    }
+  }
+
+  /** The environment this device assembles and previews the project for; null means every node. */
+  getActiveEnvironment(projectId: string): string | null {
+    const name = this.readActiveEnvironments()[projectId];
+    return name && this.getProject(projectId)?.environments?.includes(name) ? name : null;
+  }
+
+  setActiveEnvironment(projectId: string, environment: string | null): void {
+    const { [projectId]: _previous, ...rest } = this.readActiveEnvironments();
+    const next = environment ? { ...rest, [projectId]: environment } : rest;
+    localStorage.setItem(this.activeEnvironmentsKey(), JSON.stringify(next));
+  }
+
+  private readActiveEnvironments(): Record<string, string> {
+    try {
+      const parsed: unknown = JSON.parse(localStorage.getItem(this.activeEnvironmentsKey()) ?? '{}');
+      return isStringRecord(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private applyProjectEnvironments(p: Project, environments: string[]): void {
+    if (environments.length > 0) {
+      p.environments = [...environments];
+    } else {
+      delete p.environments;
+    }
+  }
+
+  /* Token budgets */
+
+  /** Sets the assembled-prompt budget as one undoable step; null removes it. */
+  setProjectTokenBudget(projectId: string, tokenBudget: number | null): void {
+    const p = this.getProject(projectId);
+    if (!p) return;
+    const previous = p.tokenBudget ?? null;
+    const next = normalizeTokenBudget(tokenBudget);
+    if (previous === next) return;
+    this.applyProjectTokenBudget(p, next);
+    this.recordHistory(projectId, {
+      label: next === null ? 'Remove token budget' : 'Set token budget',
+      undo: () => this.setProjectTokenBudget(projectId, previous),
+      redo: () => this.setProjectTokenBudget(projectId, next),
+    });
+    this.bg({ type: 'update-project-token-budget', payload: { projectId, tokenBudget: next } });
+  }
+
+  /** The tokenizer encoding of the project's model. */
+  getTokenEncoding(projectId: string): TokenEncoding {
+    return encodingForModel(this.getProject(projectId)?.model);
+  }
+
+  /** Token count of assembled text against the project budget; null when the project has none. */
+  getPromptBudgetUsage(projectId: string, assembledText: string): BudgetUsage | null {
+    const p = this.getProject(projectId);
+    if (!p?.tokenBudget) return null;
+    return budgetUsage(countTokens(assembledText, encodingForModel(p.model)), p.tokenBudget);
+  }
+
+  private applyProjectTokenBudget(p: Project, tokenBudget: number | null): void {
+    if (tokenBudget !== null) {
+      p.tokenBudget = tokenBudget;
+    } else {
+      delete p.tokenBudget;
+    }
+  }
+
+  /* Cost estimates */
+
+  /** Sets the average conversation length added to each call's cost as one undoable step; null removes it. */
+  setProjectConversationTokens(projectId: string, conversationTokens: number | null): void {
+    const p = this.getProject(projectId);
+    if (!p) return;
+    const previous = p.conversationTokens ?? null;
+    const next = normalizeTokenBudget(conversationTokens);
+    if (previous === next) return;
+    this.applyProjectConversationTokens(p, next);
+    this.recordHistory(projectId, {
+      label: 'Set conversation length',
+      undo: () => this.setProjectConversationTokens(projectId, previous),
+      redo: () => this.setProjectConversationTokens(projectId, next),
+    });
+    this.bg({ type: 'update-project-conversation-tokens', payload: { projectId, conversationTokens: next } });
+  }
+
+  /** Input cost of assembled text per call with the project's model; null when the model has no pricing. */
+  getPromptCostEstimate(projectId: string, assembledText: string): PromptCostEstimate | null {
+    const p = this.getProject(projectId);
+    if (!p) return null;
+    return estimatePromptCost(countTokens(assembledText, encodingForModel(p.model)), p.model, p.conversationTokens ?? 0);
+  }
+
+  private applyProjectConversationTokens(p: Project, conversationTokens: number | null): void {
+    if (conversationTokens !== null) {
+      p.conversationTokens = conversationTokens;
+    } else {
+      delete p.conversationTokens;
+    }
+  }
+
+  private applyProjectOrganization(p: Project, folder: string | null, tags: string[]): void {
+    if (folder) {
+      p.folder = folder;
+    } else {
+      delete p.folder;
+    }
+    if (tags.length > 0) {
+      p.tags = [...tags];
+    } else {
+      delete p.tags;
+    }
+  }
+
+  private async attachTranscriptSet(
+    project: Project,
+    transcriptSet: { name: string; description: string; source: string },
+    context: string,
+  ): Promise<void> {
+    const nowIso = new Date().toISOString();
+    const addDraft = (transcriptSetId: string, updatedAt: string): void => {
       this.transcriptFlowDrafts.unshift({
-        transcriptSetId: localTranscriptSetId,
+        transcriptSetId,
         projectId: project.id,
-        name: `${normalizedName} Transcript Set`,
-        description: normalizedDescription,
-        source: 'manual-transcript-flow',
-        updatedAt: nowIso,
+        name: transcriptSet.name,
+        description: transcriptSet.description,
+        source: transcriptSet.source,
+        updatedAt,
         latestFlow: projectToTranscriptDraftDetail(project, nowIso),
       });
       this.rebuildTranscriptProjectLinkIndex();
       this.saveLocalStorage();
-      return project;
+    };
+
+    if (this.persistenceStatus.mode !== 'database') {
+      addDraft(`local-${uid()}`, nowIso);
+      return;
     }
 
     try {
@@ -675,9 +1824,9 @@ class Store {
         .insert({
           owner_id: ownerId,
           project_id: null,
-          name: `${normalizedName} Transcript Set`,
-          description: normalizedDescription,
-          source: 'manual-transcript-flow',
+          name: transcriptSet.name,
+          description: transcriptSet.description,
+          source: transcriptSet.source,
         })
         .select('*')
         .single();
@@ -686,68 +1835,56 @@ class Store {
         throw new Error(transcriptSetRes.error?.message ?? 'Failed to create transcript set.');
       }
 
-      const transcriptSet = transcriptSetRes.data;
-      this.transcriptFlowDrafts.unshift({
-        transcriptSetId: transcriptSet.id,
-        projectId: project.id,
-        name: transcriptSet.name,
-        description: transcriptSet.description,
-        source: transcriptSet.source,
-        updatedAt: transcriptSet.updated_at,
-        latestFlow: projectToTranscriptDraftDetail(project, nowIso),
-      });
-      this.rebuildTranscriptProjectLinkIndex();
-      this.saveLocalStorage();
-      this.linkTranscriptSetToProject(transcriptSet.id, project.id);
-      return project;
+      addDraft(transcriptSetRes.data.id, transcriptSetRes.data.updated_at);
+      this.linkTranscriptSetToProject(transcriptSetRes.data.id, project.id);
     } catch (err) {
-      this.setPersistenceFallback('create transcript flow project', err);
-      const localTranscriptSetId = `local-${uid()}`;
-      this.transcriptFlowDrafts.unshift({
-        transcriptSetId: localTranscriptSetId,
-        projectId: project.id,
-        name: `${normalizedName} Transcript Set`,
-        description: normalizedDescription,
-        source: 'manual-transcript-flow',
-        updatedAt: nowIso,
-        latestFlow: projectToTranscriptDraftDetail(project, nowIso),
-      });
-      this.rebuildTranscriptProjectLinkIndex();
-      this.saveLocalStorage();
-      return project;
+      this.setPersistenceFallback(context, err);
+      addDraft(`local-${uid()}`, nowIso);
     }
   }
 
+  /** Moves a transcript flow, together with its linked project, to the trash. */
   deleteTranscriptFlow(transcriptSetId: string): void {
     const draft = this.transcriptFlowDrafts.find((item) => item.transcriptSetId === transcriptSetId);
     if (!draft) return;
 
+    const deletedAt = new Date().toISOString();
+    const linkedProjectId = draft.projectId;
+    this.trashTranscriptFlowLocally(transcriptSetId, deletedAt);
+    this.bg({ type: 'trash-transcript-flow', payload: { transcriptSetId, linkedProjectId, deletedAt } });
+  }
+
+  /** Moves a project to the trash. Its transcript set stays unlinked until the project is restored. */
+  deleteProject(id: string): void {
+    if (!this.getProject(id)) return;
+    const deletedAt = new Date().toISOString();
+    this.trashProjectLocally(id, deletedAt);
+    this.bg({ type: 'trash-project', payload: { projectId: id, deletedAt } });
+  }
+
+  private trashProjectLocally(id: string, deletedAt: string): void {
+    const project = this.getProject(id);
+    if (!project) return;
+    const transcriptSetId = this.detachProjectLocally(id);
+    this.trash.unshift({ kind: 'project', id, deletedAt, project, transcriptSetId });
+  }
+
+  private trashTranscriptFlowLocally(transcriptSetId: string, deletedAt: string): void {
+    const draft = this.transcriptFlowDrafts.find((item) => item.transcriptSetId === transcriptSetId);
+    if (!draft) return;
     const linkedProjectId = draft.projectId;
+    const project = linkedProjectId ? this.getProject(linkedProjectId) ?? null : null;
     this.transcriptFlowDrafts = this.transcriptFlowDrafts.filter((item) => item.transcriptSetId !== transcriptSetId);
     if (linkedProjectId) {
       this.transcriptSetIdByProjectId.delete(linkedProjectId);
-      this.projects = this.projects.filter((project) => project.id !== linkedProjectId);
+      this.projects = this.projects.filter((item) => item.id !== linkedProjectId);
+      this.historyByProject.delete(linkedProjectId);
     }
-
-    this.bg(async () => {
-      const transcriptSetDeleteRes = await supabase
-        .from('transcript_sets')
-        .delete()
-        .eq('id', transcriptSetId);
-      if (transcriptSetDeleteRes.error && !isTranscriptTableMissing(transcriptSetDeleteRes.error.message, 'transcript_sets')) {
-        this.assertNoError(transcriptSetDeleteRes, 'delete transcript_set');
-      }
-
-      if (!linkedProjectId) return;
-      const projectDeleteRes = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', linkedProjectId);
-      this.assertNoError(projectDeleteRes, 'delete linked transcript project');
-    });
+    this.trash.unshift({ kind: 'transcript-flow', id: transcriptSetId, deletedAt, draft, project });
   }
 
-  deleteProject(id: string): void {
+  /** Drops a project from the cache and unlinks its transcript set; returns that set's id. */
+  private detachProjectLocally(id: string): string | null {
     const linkedTranscriptSetId = this.transcriptSetIdByProjectId.get(id) ?? null;
     if (linkedTranscriptSetId) {
       const linkedDraft = this.transcriptFlowDrafts.find((draft) => draft.transcriptSetId === linkedTranscriptSetId);
@@ -757,20 +1894,217 @@ class Store {
       this.transcriptSetIdByProjectId.delete(id);
     }
     this.projects = this.projects.filter(p => p.id !== id);
-    this.bg(async () => {
-      if (linkedTranscriptSetId) {
-        const unlinkRes = await supabase
-          .from('transcript_sets')
-          .update({ project_id: null, updated_at: new Date().toISOString() })
-          .eq('id', linkedTranscriptSetId);
-        if (unlinkRes.error && !isTranscriptTableMissing(unlinkRes.error.message, 'transcript_sets')) {
-          this.assertNoError(unlinkRes, 'unlink transcript_set project');
-        }
+    this.historyByProject.delete(id);
+    return linkedTranscriptSetId;
+  }
+
+  /* Trash */
+
+  /** Soft-deleted projects, nodes and transcript flows, newest first. */
+  getTrash(): TrashEntry[] {
+    return sortTrashEntries(this.trash);
+  }
+
+  /** Puts a trashed item back where it was; a node comes back with its connections. */
+  restoreFromTrash(entryId: string): { ok: true } | { ok: false; error: string } {
+    const entry = this.trash.find((item) => item.id === entryId);
+    if (!entry) return { ok: false, error: 'This item is no longer in the trash.' };
+
+    switch (entry.kind) {
+      case 'project': {
+        const transcriptSetId = this.restoreProjectLocally(entry);
+        this.bg({ type: 'restore-project', payload: { projectId: entry.id, transcriptSetId } });
+        return { ok: true };
       }
-      // Cascade delete handled by DB foreign keys
-      const res = await supabase.from('projects').delete().eq('id', id);
-      this.assertNoError(res, 'delete project');
-    });
+      case 'node': {
+        const p = this.getProject(entry.projectId);
+        if (!p) return { ok: false, error: 'Restore the project this node belongs to first.' };
+        this.removeTrashEntry('node', entry.id);
+        if (p.nodes.some((node) => node.id === entry.id)) return { ok: true };
+        const connections = this.restoreNodeLocally(p, entry.node, entry.sortOrder, entry.connections);
+        const sortOrder = p.nodes.findIndex((node) => node.id === entry.id);
+        this.bg({
+          type: 'restore-node',
+          payload: {
+            projectId: p.id,
+            node: entry.node,
+            sortOrder,
+            connections,
+            followingNodeIds: p.nodes.slice(sortOrder + 1).map((node) => node.id),
+          },
+        });
+        return { ok: true };
+      }
+      case 'transcript-flow': {
+        this.restoreTranscriptFlowLocally(entry);
+        this.bg({
+          type: 'restore-transcript-flow',
+          payload: { transcriptSetId: entry.id, linkedProjectId: entry.project?.id ?? null },
+        });
+        return { ok: true };
+      }
+    }
+  }
+
+  /** Permanently deletes a trashed item. This cannot be undone. */
+  purgeFromTrash(entryId: string): void {
+    const entry = this.trash.find((item) => item.id === entryId);
+    if (entry) this.purgeTrashEntry(entry);
+  }
+
+  /** Permanently deletes everything in the trash; returns how many items were purged. */
+  emptyTrash(): number {
+    let purged = 0;
+    for (const entry of [...this.trash]) {
+      if (!this.trash.includes(entry)) continue;
+      this.purgeTrashEntry(entry);
+      purged += 1;
+    }
+    return purged;
+  }
+
+  private purgeExpiredTrash(): void {
+    const now = Date.now();
+    for (const entry of this.trash.filter((item) => isTrashExpired(item, now))) {
+      if (this.trash.includes(entry)) this.purgeTrashEntry(entry);
+    }
+  }
+
+  /** Purging a project, directly or with its transcript flow, also drops its trashed nodes. */
+  private purgeTrashEntry(entry: TrashEntry): void {
+    this.removeTrashEntry(entry.kind, entry.id);
+    switch (entry.kind) {
+      case 'project':
+        this.forgetTrashedNodes(entry.id);
+        this.bg({ type: 'delete-project', payload: { projectId: entry.id, linkedTranscriptSetId: null } });
+        return;
+      case 'node':
+        this.bg({ type: 'delete-node', payload: { projectId: entry.projectId, nodeId: entry.id } });
+        return;
+      case 'transcript-flow':
+        if (entry.project) this.forgetTrashedNodes(entry.project.id);
+        this.bg({
+          type: 'delete-transcript-flow',
+          payload: { transcriptSetId: entry.id, linkedProjectId: entry.project?.id ?? null },
+        });
+        return;
+    }
+  }
+
+  private findTrashEntry<K extends TrashEntryKind>(kind: K, id: string): Extract<TrashEntry, { kind: K }> | undefined {
+    return this.trash.find((entry): entry is Extract<TrashEntry, { kind: K }> => entry.kind === kind && entry.id === id);
+  }
+
+  private removeTrashEntry(kind: TrashEntryKind, id: string): void {
+    this.trash = this.trash.filter((entry) => entry.kind !== kind || entry.id !== id);
+  }
+
+  private forgetTrashedNodes(projectId: string): void {
+    this.trash = this.trash.filter((entry) => entry.kind !== 'node' || entry.projectId !== projectId);
+  }
+
+  /** Returns the transcript set relinked to the project, if it is still unlinked. */
+  private restoreProjectLocally(entry: Extract<TrashEntry, { kind: 'project' }>): string | null {
+    this.removeTrashEntry('project', entry.id);
+    if (!this.getProject(entry.id)) {
+      this.projects.unshift(entry.project);
+    }
+    const draft = entry.transcriptSetId
+      ? this.transcriptFlowDrafts.find((item) => item.transcriptSetId === entry.transcriptSetId && !item.projectId)
+      : undefined;
+    if (!draft) return null;
+    draft.projectId = entry.id;
+    this.rebuildTranscriptProjectLinkIndex();
+    return draft.transcriptSetId;
+  }
+
+  private restoreTranscriptFlowLocally(entry: Extract<TrashEntry, { kind: 'transcript-flow' }>): void {
+    this.removeTrashEntry('transcript-flow', entry.id);
+    if (!this.transcriptFlowDrafts.some((item) => item.transcriptSetId === entry.id)) {
+      this.transcriptFlowDrafts.unshift(entry.draft);
+    }
+    if (entry.project && !this.getProject(entry.project.id)) {
+      this.projects.unshift(entry.project);
+    }
+    this.rebuildTranscriptProjectLinkIndex();
+  }
+
+  /** Reinserts a node and returns the connections that could be reattached. */
+  private restoreNodeLocally(p: Project, node: PromptNode, sortOrder: number, connections: Connection[]): Connection[] {
+    p.nodes.splice(Math.max(0, Math.min(sortOrder, p.nodes.length)), 0, node);
+    const restored = restorableConnections(p, connections);
+    p.connections.push(...restored);
+    markProjectEdited(p);
+    this.syncTranscriptDraftCacheFromProject(p);
+    return restored;
+  }
+
+  private trashNodeLocally(p: Project, nodeId: string, deletedAt: string): void {
+    const index = p.nodes.findIndex((node) => node.id === nodeId);
+    if (index < 0) return;
+    const node = p.nodes[index];
+    const connections = p.connections.filter((c) => c.from === nodeId || c.to === nodeId);
+    p.nodes = p.nodes.filter((item) => item.id !== nodeId);
+    p.connections = p.connections.filter((c) => c.from !== nodeId && c.to !== nodeId);
+    markProjectEdited(p);
+    this.syncTranscriptDraftCacheFromProject(p);
+    this.trash.unshift({ kind: 'node', id: nodeId, deletedAt, projectId: p.id, node, sortOrder: index, connections });
+  }
+
+  /* Undo / redo */
+
+  canUndo(projectId: string): boolean {
+    return this.historyByProject.get(projectId)?.canUndo() ?? false;
+  }
+
+  canRedo(projectId: string): boolean {
+    return this.historyByProject.get(projectId)?.canRedo() ?? false;
+  }
+
+  /** Reverts the latest recorded graph mutation. Remote rows are rewritten through `bg()`. */
+  undo(projectId: string): boolean {
+    return this.replayHistory(projectId, 'undo');
+  }
+
+  redo(projectId: string): boolean {
+    return this.replayHistory(projectId, 'redo');
+  }
+
+  /** Records every mutation made inside `fn` as a single undo step. */
+  runHistoryGroup(projectId: string, label: string, fn: () => void): void {
+    const history = this.historyFor(projectId);
+    history.beginGroup(label);
+    try {
+      fn();
+    } finally {
+      history.endGroup();
+    }
+  }
+
+  private historyFor(projectId: string): CommandHistory {
+    let history = this.historyByProject.get(projectId);
+    if (!history) {
+      history = new CommandHistory();
+      this.historyByProject.set(projectId, history);
+    }
+    return history;
+  }
+
+  private recordHistory(projectId: string, command: HistoryCommand): void {
+    if (this.replayingHistory) return;
+    this.historyFor(projectId).record(command);
+  }
+
+  private replayHistory(projectId: string, direction: 'undo' | 'redo'): boolean {
+    const history = this.historyByProject.get(projectId);
+    if (!history || !this.getProject(projectId)) return false;
+    this.replayingHistory = true;
+    try {
+      const command = direction === 'undo' ? history.undo() : history.redo();
+      return command !== null;
+    } finally {
+      this.replayingHistory = false;
+    }
   }
 
   /* Node operations */
@@ -782,26 +2116,38 @@ class Store {
     const normalizedLabel = normalizeNodeIdentityLabel(node.label, normalizedType);
     node.label = normalizedLabel;
     node.type = normalizedType;
-    p.nodes.push(node);
-    p.lastEdited = 'Just now';
+    const index = p.nodes.length;
+    this.insertNode(p, node, index, []);
+    const restorable = clonePromptNode(node);
+    this.recordHistory(projectId, {
+      label: `Add ${normalizedLabel}`,
+      undo: () => this.removeNode(projectId, node.id),
+      redo: () => this.insertNode(p, clonePromptNode(restorable), index, []),
+    });
+  }
+
+  private insertNode(p: Project, node: PromptNode, index: number, connections: Connection[]): void {
+    const projectId = p.id;
+    const insertAt = Math.max(0, Math.min(index, p.nodes.length));
+    p.nodes.splice(insertAt, 0, node);
+    const nodeIds = new Set(p.nodes.map((item) => item.id));
+    const restoredConnections = connections.filter((connection) => (
+      nodeIds.has(connection.from) &&
+      nodeIds.has(connection.to) &&
+      !p.connections.some((existing) => existing.id === connection.id)
+    ));
+    p.connections.push(...restoredConnections);
+    markProjectEdited(p);
     this.syncTranscriptDraftCacheFromProject(p);
-    this.bg(async () => {
-      const nodeInsertRes = await supabase.from('prompt_nodes').insert({
-        id: node.id,
-        project_id: projectId,
-        type: node.type,
-        label: node.label,
-        icon: node.icon,
-        x: node.x,
-        y: node.y,
-        content: node.content,
-        meta: node.meta,
-        sort_order: p.nodes.length - 1,
-      });
-      this.assertNoError(nodeInsertRes, 'insert prompt_node');
-      await this.upsertPromptNodeSyncMeta(node);
-      const projectUpdateRes = await supabase.from('projects').update({ last_edited: 'Just now' }).eq('id', projectId);
-      this.assertNoError(projectUpdateRes, 'touch project last_edited');
+    this.bg({
+      type: 'insert-node',
+      payload: {
+        projectId,
+        node,
+        sortOrder: insertAt,
+        connections: restoredConnections,
+        followingNodeIds: p.nodes.slice(insertAt + 1).map((item) => item.id),
+      },
     });
   }
 
@@ -818,44 +2164,48 @@ class Store {
       mergedUpdates.label = unifiedLabel;
       mergedUpdates.type = nextType;
     }
+    const previous = pickEditableNodeFields(n, mergedUpdates);
+    const next = pickEditableNodeFields({ ...n, ...mergedUpdates }, mergedUpdates);
+    const baseSectionHash = buildPromptNodeSectionHash(n);
     Object.assign(n, mergedUpdates);
-    p.lastEdited = 'Just now';
+    markProjectEdited(p);
     this.syncTranscriptDraftCacheFromProject(p);
-    this.bg(async () => {
-      // Map model field names to DB column names
-      const dbUpdates: PromptNodeUpdate = {};
-      if (mergedUpdates.type !== undefined) dbUpdates.type = mergedUpdates.type;
-      if (mergedUpdates.label !== undefined) dbUpdates.label = mergedUpdates.label;
-      if (mergedUpdates.icon !== undefined) dbUpdates.icon = mergedUpdates.icon;
-      if (mergedUpdates.x !== undefined) dbUpdates.x = mergedUpdates.x;
-      if (mergedUpdates.y !== undefined) dbUpdates.y = mergedUpdates.y;
-      if (mergedUpdates.content !== undefined) dbUpdates.content = mergedUpdates.content;
-      if (mergedUpdates.meta !== undefined) dbUpdates.meta = mergedUpdates.meta;
-      if (Object.keys(dbUpdates).length > 0) {
-        const nodeUpdateRes = await supabase.from('prompt_nodes').update(dbUpdates).eq('id', nodeId);
-        this.assertNoError(nodeUpdateRes, 'update prompt_node');
-      }
-      await this.upsertPromptNodeSyncMeta(n);
-      const projectUpdateRes = await supabase.from('projects').update({ last_edited: 'Just now' }).eq('id', projectId);
-      this.assertNoError(projectUpdateRes, 'touch project last_edited');
-    });
+    if (!sameEditableNodeFields(previous, next)) {
+      const isMove = Object.keys(next).every((key) => key === 'x' || key === 'y');
+      this.recordHistory(projectId, {
+        label: isMove ? `Move ${n.label}` : `Edit ${n.label}`,
+        undo: () => this.updateNode(projectId, nodeId, previous),
+        redo: () => this.updateNode(projectId, nodeId, next),
+      });
+    }
+    this.bg({
+      type: 'update-node',
+      payload: { projectId, nodeId, updates: pickEditableNodeFields(n, mergedUpdates), node: n },
+    }, baseSectionHash);
   }
 
   removeNode(projectId: string, nodeId: string): void {
     const p = this.getProject(projectId);
     if (!p) return;
-    p.nodes = p.nodes.filter(n => n.id !== nodeId);
-    p.connections = p.connections.filter(c => c.from !== nodeId && c.to !== nodeId);
-    p.lastEdited = 'Just now';
-    this.syncTranscriptDraftCacheFromProject(p);
-    this.bg(async () => {
-      await this.deletePromptNodeSyncMeta(nodeId);
-      // Connections cascade via FK on delete
-      const nodeDeleteRes = await supabase.from('prompt_nodes').delete().eq('id', nodeId);
-      this.assertNoError(nodeDeleteRes, 'delete prompt_node');
-      const projectUpdateRes = await supabase.from('projects').update({ last_edited: 'Just now' }).eq('id', projectId);
-      this.assertNoError(projectUpdateRes, 'touch project last_edited');
+    const index = p.nodes.findIndex((n) => n.id === nodeId);
+    if (index < 0) return;
+    const removedNode = clonePromptNode(p.nodes[index]);
+    const removedConnections = p.connections
+      .filter(c => c.from === nodeId || c.to === nodeId)
+      .map(cloneConnection);
+    const deletedAt = new Date().toISOString();
+    this.trashNodeLocally(p, nodeId, deletedAt);
+    this.recordHistory(projectId, {
+      label: `Delete ${removedNode.label}`,
+      undo: () => {
+        // The trash entry is gone if the node was purged in the meantime.
+        if (!this.restoreFromTrash(nodeId).ok) {
+          this.insertNode(p, clonePromptNode(removedNode), index, removedConnections.map(cloneConnection));
+        }
+      },
+      redo: () => this.removeNode(projectId, nodeId),
     });
+    this.bg({ type: 'trash-node', payload: { projectId, nodeId, deletedAt } });
   }
 
   /* Connection operations */
@@ -868,11 +2218,20 @@ class Store {
     const conn: Connection = normalizedLabel
       ? { id: uid(), from, to, label: normalizedLabel }
       : { id: uid(), from, to };
+    this.insertConnection(p, conn);
+    const restorable = cloneConnection(conn);
+    this.recordHistory(projectId, {
+      label: 'Add connection',
+      undo: () => this.removeConnection(projectId, conn.id),
+      redo: () => this.insertConnection(p, cloneConnection(restorable)),
+    });
+  }
+
+  private insertConnection(p: Project, conn: Connection): void {
+    if (p.connections.some((existing) => existing.id === conn.id)) return;
     p.connections.push(conn);
     this.syncTranscriptDraftCacheFromProject(p);
-    this.bg(async () => {
-      await this.insertConnectionRemote(projectId, conn);
-    });
+    this.bg({ type: 'insert-connection', payload: { projectId: p.id, connection: conn } });
   }
 
   updateConnectionLabel(projectId: string, connectionId: string, label: string): void {
@@ -881,6 +2240,7 @@ class Store {
     const connection = p.connections.find((item) => item.id === connectionId);
     if (!connection) return;
 
+    const previousLabel = normalizeConnectionLabel(connection.label);
     const normalizedLabel = normalizeConnectionLabel(label);
     if (normalizedLabel) {
       connection.label = normalizedLabel;
@@ -888,31 +2248,106 @@ class Store {
       delete connection.label;
     }
     this.syncTranscriptDraftCacheFromProject(p);
+    if (previousLabel !== normalizedLabel) {
+      this.recordHistory(projectId, {
+        label: 'Edit connection label',
+        undo: () => this.updateConnectionLabel(projectId, connectionId, previousLabel),
+        redo: () => this.updateConnectionLabel(projectId, connectionId, normalizedLabel),
+      });
+    }
 
-    this.bg(async () => {
-      const connectionUpdateRes = await supabase
-        .from('connections')
-        .update({ label: normalizedLabel })
-        .eq('id', connectionId);
-      if (!connectionUpdateRes.error) {
-        return;
-      }
-      if (isConnectionLabelColumnMissing(connectionUpdateRes.error.message)) {
-        return;
-      }
-      this.assertNoError(connectionUpdateRes, 'update connection');
-    });
+    this.bg({ type: 'update-connection-label', payload: { projectId, connectionId, label: normalizedLabel } });
   }
 
   removeConnection(projectId: string, connectionId: string): void {
     const p = this.getProject(projectId);
     if (!p) return;
+    const removed = p.connections.find(c => c.id === connectionId);
+    if (!removed) return;
+    const restorable = cloneConnection(removed);
     p.connections = p.connections.filter(c => c.id !== connectionId);
     this.syncTranscriptDraftCacheFromProject(p);
-    this.bg(async () => {
-      const connDeleteRes = await supabase.from('connections').delete().eq('id', connectionId);
-      this.assertNoError(connDeleteRes, 'delete connection');
+    this.recordHistory(projectId, {
+      label: 'Delete connection',
+      undo: () => this.insertConnection(p, cloneConnection(restorable)),
+      redo: () => this.removeConnection(projectId, connectionId),
     });
+    this.bg({ type: 'delete-connection', payload: { projectId, connectionId } });
+  }
+
+  /* Graph integrity */
+
+  /**
+   * Problems in the cached graph, plus orphaned sync rows found by the last remote
+   * check. Cheap enough to call on every render.
+   */
+  getIntegrityIssues(projectId: string): GraphIntegrityIssue[] {
+    const p = this.getProject(projectId);
+    if (!p) return [];
+    return checkGraphIntegrity(p, this.syncMetaNodeIds(projectId));
+  }
+
+  /** Re-reads the project's sync rows from the database, then checks the graph. */
+  async checkProjectIntegrity(projectId: string): Promise<GraphIntegrityIssue[]> {
+    const p = this.getProject(projectId);
+    if (!p) return [];
+    if (this.persistenceStatus.mode === 'database') {
+      const nodeIds = [...p.nodes.map((node) => node.id), ...this.trashedNodeIds(projectId)];
+      this.syncMetaNodeIdsByProject.set(projectId, await this.fetchSyncMetaNodeIds(nodeIds));
+    }
+    return this.getIntegrityIssues(projectId);
+  }
+
+  /**
+   * Fixes every problem the checker reports, in the cached graph and in the database.
+   * A repair is not recorded in undo history: undoing it would bring the problems back.
+   * Returns how many problems were fixed.
+   */
+  repairProjectIntegrity(projectId: string): number {
+    const p = this.getProject(projectId);
+    if (!p) return 0;
+    const issues = this.getIntegrityIssues(projectId);
+    if (issues.length === 0) return 0;
+
+    const plan = planGraphRepair(p, issues);
+    p.connections = plan.connections;
+    this.syncTranscriptDraftCacheFromProject(p);
+    for (const connectionId of plan.deletedConnectionIds) {
+      this.bg({ type: 'delete-connection', payload: { projectId, connectionId } });
+    }
+    for (const connection of plan.insertedConnections) {
+      this.bg({ type: 'insert-connection', payload: { projectId, connection } });
+    }
+    if (plan.orphanedSyncMetaNodeIds.length > 0) {
+      this.forgetSyncMetaNodeIds(projectId, plan.orphanedSyncMetaNodeIds);
+      this.bg({ type: 'delete-node-sync-meta', payload: { projectId, nodeIds: plan.orphanedSyncMetaNodeIds } });
+    }
+    this.saveLocalStorage();
+    return issues.length;
+  }
+
+  private syncMetaNodeIds(projectId: string): string[] {
+    return this.syncMetaNodeIdsByProject.get(projectId) ?? [];
+  }
+
+  private forgetSyncMetaNodeIds(projectId: string, nodeIds: string[]): void {
+    const remaining = this.syncMetaNodeIds(projectId).filter((nodeId) => !nodeIds.includes(nodeId));
+    this.syncMetaNodeIdsByProject.set(projectId, remaining);
+  }
+
+  private trashedNodeIds(projectId: string): string[] {
+    return this.trash.flatMap((entry) => (entry.kind === 'node' && entry.projectId === projectId ? [entry.id] : []));
+  }
+
+  /** Node ids among `nodeIds` that have a `prompt_node_sync_meta` row. */
+  private async fetchSyncMetaNodeIds(nodeIds: string[]): Promise<string[]> {
+    if (nodeIds.length === 0) return [];
+    const syncRes = await supabase.from('prompt_node_sync_meta').select('prompt_node_id').in('prompt_node_id', nodeIds);
+    if (syncRes.error && isPromptNodeSyncMetaTableMissing(syncRes.error.message)) {
+      return [];
+    }
+    this.assertNoError(syncRes, 'fetch prompt_node_sync_meta');
+    return (syncRes.data ?? []).map((row) => row.prompt_node_id);
   }
 
   /* Version / diff operations */
@@ -928,79 +2363,767 @@ class Store {
     const snapshotToPersist = snapshot === undefined
       ? (p ? createGraphSnapshot(p) : null)
       : snapshot;
+    const head = p ? getProjectHead(p) : null;
     const ver: PromptVersion = {
       id: uid(),
       timestamp: Date.now(),
       content,
       notes: normalizedNotes,
       snapshot: snapshotToPersist,
+      parentId: head?.versionId ?? null,
+      branch: head?.branch ?? DEFAULT_BRANCH,
     };
     if (p) {
       p.versions.push(ver);
       this.syncTranscriptDraftCacheFromProject(p);
-      this.bg(async () => {
-        const versionInsertRes = await supabase.from('prompt_versions').insert({
-          id: ver.id,
+      this.bg({ type: 'insert-version', payload: { projectId, version: ver } });
+      this.setProjectHead(p, { branch: ver.branch ?? DEFAULT_BRANCH, versionId: ver.id });
+    }
+    return ver;
+  }
+
+  /** The version the working graph was last saved as or checked out from. */
+  getHeadVersion(projectId: string): PromptVersion | null {
+    const p = this.getProject(projectId);
+    if (!p) return null;
+    const { versionId } = getProjectHead(p);
+    return p.versions.find((version) => version.id === versionId) ?? null;
+  }
+
+  getProjectHead(projectId: string): ProjectHead | null {
+    const p = this.getProject(projectId);
+    return p ? getProjectHead(p) : null;
+  }
+
+  /** True when the canvas graph differs from the snapshot of its head version. */
+  hasUnsavedGraphChanges(projectId: string): boolean {
+    const p = this.getProject(projectId);
+    if (!p) return false;
+    const headVersion = this.getHeadVersion(projectId);
+    if (!headVersion) return p.nodes.length > 0 || p.connections.length > 0;
+    return !sameGraphSnapshot(headVersion.snapshot, createGraphSnapshot(p));
+  }
+
+  /**
+   * Replaces the working graph with a version's snapshot and starts a new branch
+   * from it. Versions saved afterwards record that version as their parent.
+   */
+  checkoutVersion(projectId: string, versionId: string, branchName: string): { ok: true } | { ok: false; error: string } {
+    const p = this.getProject(projectId);
+    if (!p) return { ok: false, error: 'Project not found.' };
+    const version = p.versions.find((item) => item.id === versionId);
+    if (!version?.snapshot) return { ok: false, error: 'This version has no saved graph to check out.' };
+    const branch = branchName.trim();
+    if (!branch) return { ok: false, error: 'Branch name is required.' };
+    if (listBranches(p.versions, getProjectHead(p)).includes(branch)) {
+      return { ok: false, error: `Branch "${branch}" already exists.` };
+    }
+
+    this.replaceWorkingGraph(p, version.snapshot);
+    // Undo steps refer to the graph that was just replaced.
+    this.historyByProject.delete(projectId);
+    this.setProjectHead(p, { branch, versionId: version.id });
+    return { ok: true };
+  }
+
+  /**
+   * Puts a version's snapshot back on the canvas and saves the result as a new
+   * version on the current branch, so the versions in between stay in history.
+   */
+  restoreVersion(projectId: string, versionId: string): { ok: true; version: PromptVersion } | { ok: false; error: string } {
+    const p = this.getProject(projectId);
+    if (!p) return { ok: false, error: 'Project not found.' };
+    const version = p.versions.find((item) => item.id === versionId);
+    if (!version?.snapshot) return { ok: false, error: 'This version has no saved graph to restore.' };
+    if (sameGraphSnapshot(version.snapshot, createGraphSnapshot(p))) {
+      return { ok: false, error: 'The canvas already matches this version.' };
+    }
+
+    this.replaceWorkingGraph(p, version.snapshot);
+    this.historyByProject.delete(projectId);
+    const restored = this.saveVersion(projectId, this.assemblePrompt(projectId), `Restored "${version.notes}"`);
+    return { ok: true, version: restored };
+  }
+
+  getReleaseTags(projectId: string): Record<string, string> {
+    return { ...this.getProject(projectId)?.releaseTags };
+  }
+
+  getTaggedVersion(projectId: string, tag: string): PromptVersion | null {
+    const p = this.getProject(projectId);
+    const versionId = p?.releaseTags?.[tag];
+    return versionId ? p.versions.find((version) => version.id === versionId) ?? null : null;
+  }
+
+  /** Points `tag` at a version, moving it off whichever version held it before. */
+  tagVersion(projectId: string, versionId: string, rawTag: string): { ok: true; tag: string } | { ok: false; error: string } {
+    const p = this.getProject(projectId);
+    if (!p) return { ok: false, error: 'Project not found.' };
+    if (!p.versions.some((version) => version.id === versionId)) return { ok: false, error: 'Version not found.' };
+    const tag = normalizeReleaseTag(rawTag);
+    if (!tag) {
+      return {
+        ok: false,
+        error: `Tags use letters, numbers, ".", "-" or "_" and at most ${MAX_RELEASE_TAG_LENGTH} characters.`,
+      };
+    }
+    p.releaseTags = { ...p.releaseTags, [tag]: versionId };
+    this.bg({ type: 'set-version-tag', payload: { projectId, tag, versionId } });
+    return { ok: true, tag };
+  }
+
+  removeVersionTag(projectId: string, tag: string): void {
+    const p = this.getProject(projectId);
+    if (!p?.releaseTags || !(tag in p.releaseTags)) return;
+    const rest = { ...p.releaseTags };
+    delete rest[tag];
+    p.releaseTags = rest;
+    this.bg({ type: 'delete-version-tag', payload: { projectId, tag } });
+  }
+
+  /**
+   * True when the canvas would assemble a different prompt than the version
+   * tagged `tag`; false when nothing carries the tag.
+   */
+  divergesFromRelease(projectId: string, tag = PRODUCTION_TAG): boolean {
+    const p = this.getProject(projectId);
+    const snapshot = this.getTaggedVersion(projectId, tag)?.snapshot;
+    if (!p || !snapshot) return false;
+    return !samePromptGraph(snapshot, createGraphSnapshot(p));
+  }
+
+  private setProjectHead(p: Project, head: ProjectHead): void {
+    p.head = { ...head };
+    this.bg({ type: 'update-project-head', payload: { projectId: p.id, head: p.head } });
+  }
+
+  /**
+   * Makes the project's nodes and connections match `snapshot`, queueing only the
+   * row changes needed: nodes and connections are matched by id. Removed nodes go
+   * to the trash and trashed nodes the snapshot contains come back out of it.
+   */
+  private replaceWorkingGraph(p: Project, snapshot: PromptGraphSnapshot): void {
+    const projectId = p.id;
+    const target = JSON.parse(JSON.stringify(snapshot)) as PromptGraphSnapshot;
+    const targetNodeIds = new Set(target.nodes.map((node) => node.id));
+    const targetConnectionIds = new Set(target.connections.map((connection) => connection.id));
+    const currentNodes = new Map(p.nodes.map((node) => [node.id, node]));
+    const currentConnections = new Map(p.connections.map((connection) => [connection.id, connection]));
+
+    // Connections attached to removed nodes go to the trash with the node.
+    for (const connection of p.connections) {
+      if (targetConnectionIds.has(connection.id)) continue;
+      if (!targetNodeIds.has(connection.from) || !targetNodeIds.has(connection.to)) continue;
+      this.bg({ type: 'delete-connection', payload: { projectId, connectionId: connection.id } });
+    }
+    // Removed nodes are trashed like a canvas delete, so a restore stays reversible.
+    const deletedAt = new Date().toISOString();
+    for (const node of [...p.nodes]) {
+      if (targetNodeIds.has(node.id)) continue;
+      this.trashNodeLocally(p, node.id, deletedAt);
+      this.bg({ type: 'trash-node', payload: { projectId, nodeId: node.id, deletedAt } });
+    }
+    // Trashed nodes the snapshot brings back still have their rows, connections included.
+    const { taken: untrashed, remaining } = takeTrashedNodes(
+      this.trash,
+      projectId,
+      new Set(target.nodes.filter((node) => !currentNodes.has(node.id)).map((node) => node.id)),
+    );
+    this.trash = remaining;
+    const untrashedById = new Map(untrashed.map((entry) => [entry.id, entry]));
+    const keptConnectionIds = new Set(untrashed.flatMap((entry) => entry.connections.map((connection) => connection.id)));
+    for (const connectionId of keptConnectionIds) {
+      if (!targetConnectionIds.has(connectionId)) {
+        this.bg({ type: 'delete-connection', payload: { projectId, connectionId } });
+      }
+    }
+
+    p.nodes = target.nodes;
+    p.connections = target.connections;
+    markProjectEdited(p);
+    this.syncTranscriptDraftCacheFromProject(p);
+
+    target.nodes.forEach((node, sortOrder) => {
+      const current = currentNodes.get(node.id);
+      const trashed = untrashedById.get(node.id);
+      if (trashed) {
+        const connections = target.connections.filter((connection) => (
+          keptConnectionIds.has(connection.id) && (connection.from === node.id || connection.to === node.id)
+        ));
+        this.bg({ type: 'restore-node', payload: { projectId, node, sortOrder, connections } });
+        const updates = pickEditableNodeFields(node, node);
+        if (!sameEditableNodeFields(pickEditableNodeFields(trashed.node, node), updates)) {
+          this.bg({ type: 'update-node', payload: { projectId, nodeId: node.id, updates, node } }, buildPromptNodeSectionHash(trashed.node));
+        }
+        return;
+      }
+      if (!current) {
+        this.bg({ type: 'insert-node', payload: { projectId, node, sortOrder, connections: [] } });
+        return;
+      }
+      const updates = pickEditableNodeFields(node, node);
+      if (sameEditableNodeFields(pickEditableNodeFields(current, node), updates)) return;
+      this.bg({ type: 'update-node', payload: { projectId, nodeId: node.id, updates, node } }, buildPromptNodeSectionHash(current));
+    });
+    for (const connection of target.connections) {
+      if (keptConnectionIds.has(connection.id)) continue;
+      const current = currentConnections.get(connection.id);
+      if (!current) {
+        this.bg({ type: 'insert-connection', payload: { projectId, connection } });
+      } else if (normalizeConnectionLabel(current.label) !== normalizeConnectionLabel(connection.label)) {
+        this.bg({
+          type: 'update-connection-label',
+          payload: { projectId, connectionId: connection.id, label: normalizeConnectionLabel(connection.label) },
+        });
+      }
+    }
+  }
+
+  saveAssembledVersion(projectId: string, notes: string, mode: PromptAssemblyMode = 'runtime'): PromptVersion | null {
+    const p = this.getProject(projectId);
+    if (!p) return null;
+
+    const assembled = this.assemblePrompt(projectId, mode);
+    const snapshot = createGraphSnapshot(p);
+    const latest = this.getHeadVersion(projectId);
+    if (latest && latest.content === assembled && sameGraphSnapshot(latest.snapshot, snapshot)) {
+      return null;
+    }
+
+    return this.saveVersion(projectId, assembled, notes, snapshot);
+  }
+
+  saveCurrentState(projectId: string, mode: PromptAssemblyMode = 'runtime'): PromptVersion | null {
+    const p = this.getProject(projectId);
+    if (!p) return null;
+    const nextSnapshotNumber = p.versions.length + 1;
+    return this.saveAssembledVersion(projectId, `Snapshot ${nextSnapshotNumber}`, mode);
+  }
+
+  getVersions(projectId: string): PromptVersion[] {
+    return this.getProject(projectId)?.versions ?? [];
+  }
+
+  /* Assembled prompt */
+
+  /**
+   * The graph in assembly order, subflows expanded. With an environment, nodes its
+   * rules exclude are left out, in subflow projects too; without one, every node is included.
+   */
+  getAssemblyPlan(projectId: string, environment: string | null = null): GraphAssemblyPlan | null {
+    const p = this.getProject(projectId);
+    if (!p) return null;
+    return this.buildEnvironmentAssemblyPlan(projectId, p, environment);
+  }
+
+  /** Runtime prompt of a saved version's graph, assembled like the canvas; null when it has no snapshot. */
+  assembleVersionRuntimePrompt(projectId: string, version: PromptVersion, environment: string | null = null): string | null {
+    if (!version.snapshot) return null;
+    return assembleRuntimePrompt(this.buildEnvironmentAssemblyPlan(projectId, version.snapshot, environment)).text;
+  }
+
+  private buildEnvironmentAssemblyPlan(
+    projectId: string,
+    graph: Pick<Project, 'nodes' | 'connections'>,
+    environment: string | null,
+  ): GraphAssemblyPlan {
+    return buildGraphAssemblyPlan(projectForEnvironment(graph, environment), {
+      projectId,
+      resolveProject: (subflowProjectId) => {
+        const subflow = this.getProject(subflowProjectId);
+        return subflow ? projectForEnvironment(subflow, environment) : undefined;
+      },
+    });
+  }
+
+  assemblePrompt(projectId: string, mode: PromptAssemblyMode = 'runtime', environment: string | null = null): string {
+    return this.assemblePromptWithSourceMap(projectId, mode, environment)?.text ?? '';
+  }
+
+  /** The assembled text with the ranges each node and edge produced; node ids of inlined subflow nodes are prefixed. */
+  assemblePromptWithSourceMap(
+    projectId: string,
+    mode: PromptAssemblyMode = 'runtime',
+    environment: string | null = null,
+  ): AssembledPrompt | null {
+    const plan = this.getAssemblyPlan(projectId, environment);
+    if (!plan) return null;
+    if (mode === 'runtime') {
+      return assembleRuntimePrompt(plan);
+    }
+    if (mode === 'xml') {
+      return assembleXmlPrompt(plan);
+    }
+    return assembleFlowTemplate(plan);
+  }
+
+  assembleRuntimePrompt(projectId: string, environment: string | null = null): string {
+    return this.assemblePrompt(projectId, 'runtime', environment);
+  }
+
+  assembleFlowTemplate(projectId: string, environment: string | null = null): string {
+    return this.assemblePrompt(projectId, 'flow-template', environment);
+  }
+
+  assembleChatMessages(projectId: string, environment: string | null = null): ChatMessage[] {
+    const plan = this.getAssemblyPlan(projectId, environment);
+    return plan ? buildChatMessages(plan.orderedNodes) : [];
+  }
+
+  buildVoiceAgentExport(projectId: string, platform: VoicePlatform, environment: string | null = null): VoiceAgentExport | null {
+    const p = this.getProject(projectId);
+    const plan = this.getAssemblyPlan(projectId, environment);
+    if (!p || !plan) return null;
+    return buildVoiceAgentConfig(platform, p.name, collectVoiceAgentSettings(plan.orderedNodes, p.model));
+  }
+
+  persist(): void {
+    this.saveLocalStorage();
+  }
+
+  /* Remote write execution */
+
+  private async executeRemoteWrite(operation: RemoteWriteOperation): Promise<void> {
+    switch (operation.type) {
+      case 'insert-project': {
+        if (!this.currentUserId) {
+          throw new Error('No active user in store session.');
+        }
+        await this.insertProjectRemote(operation.payload.project, this.currentUserId);
+        return;
+      }
+      case 'delete-project': {
+        const { projectId, linkedTranscriptSetId } = operation.payload;
+        if (linkedTranscriptSetId) {
+          const unlinkRes = await supabase
+            .from('transcript_sets')
+            .update({ project_id: null, updated_at: new Date().toISOString() })
+            .eq('id', linkedTranscriptSetId);
+          if (unlinkRes.error && !isTranscriptTableMissing(unlinkRes.error.message, 'transcript_sets')) {
+            this.assertNoError(unlinkRes, 'unlink transcript_set project');
+          }
+        }
+        // Cascade delete handled by DB foreign keys
+        const res = await supabase.from('projects').delete().eq('id', projectId);
+        this.assertNoError(res, 'delete project');
+        return;
+      }
+      case 'link-transcript-set': {
+        const { transcriptSetId, projectId, updatedAt } = operation.payload;
+        const updateRes = await supabase
+          .from('transcript_sets')
+          .update({ project_id: projectId, updated_at: updatedAt })
+          .eq('id', transcriptSetId);
+        if (updateRes.error && isTranscriptTableMissing(updateRes.error.message, 'transcript_sets')) {
+          return;
+        }
+        this.assertNoError(updateRes, 'link transcript_set project');
+        return;
+      }
+      case 'delete-transcript-flow': {
+        const { transcriptSetId, linkedProjectId } = operation.payload;
+        const transcriptSetDeleteRes = await supabase
+          .from('transcript_sets')
+          .delete()
+          .eq('id', transcriptSetId);
+        if (transcriptSetDeleteRes.error && !isTranscriptTableMissing(transcriptSetDeleteRes.error.message, 'transcript_sets')) {
+          this.assertNoError(transcriptSetDeleteRes, 'delete transcript_set');
+        }
+
+        if (!linkedProjectId) return;
+        const projectDeleteRes = await supabase
+          .from('projects')
+          .delete()
+          .eq('id', linkedProjectId);
+        this.assertNoError(projectDeleteRes, 'delete linked transcript project');
+        return;
+      }
+      case 'insert-custom-node': {
+        await this.insertCustomNodeRemote(operation.payload.template);
+        return;
+      }
+      case 'update-custom-node': {
+        await this.updateCustomNodeRemote(operation.payload.template);
+        return;
+      }
+      case 'delete-custom-node': {
+        const customDeleteRes = await supabase.from('custom_nodes').delete().eq('id', operation.payload.templateId);
+        if (customDeleteRes.error && isCustomNodesTableMissing(customDeleteRes.error.message)) {
+          return;
+        }
+        this.assertNoError(customDeleteRes, 'delete custom_node');
+        return;
+      }
+      case 'insert-node': {
+        const { projectId, node, sortOrder, connections, followingNodeIds = [] } = operation.payload;
+        // Set before sending so the realtime echo of this insert is recognised as our own.
+        if (!this.remoteNodeBase.has(node.id)) {
+          this.remoteNodeBase.set(node.id, { revision: 0, content: node.content });
+        }
+        const nodeInsertRes = await supabase.from('prompt_nodes').insert({
+          id: node.id,
+          project_id: projectId,
+          type: node.type,
+          label: node.label,
+          icon: node.icon,
+          x: node.x,
+          y: node.y,
+          content: node.content,
+          meta: node.meta,
+          sort_order: sortOrder,
+        });
+        if (nodeInsertRes.error && !isDuplicateKeyViolation(nodeInsertRes.error.message)) {
+          this.assertNoError(nodeInsertRes, 'insert prompt_node');
+        }
+        await this.renumberNodesRemote(followingNodeIds, sortOrder + 1);
+        await this.upsertPromptNodeSyncMeta(node);
+        for (const connection of connections) {
+          await this.insertConnectionRemote(projectId, connection);
+        }
+        await this.touchProjectRemote(projectId);
+        return;
+      }
+      case 'update-node': {
+        const { projectId, nodeId, updates, node } = operation.payload;
+        // Map model field names to DB column names
+        const dbUpdates: PromptNodeUpdate = {};
+        if (updates.type !== undefined) dbUpdates.type = updates.type;
+        if (updates.label !== undefined) dbUpdates.label = updates.label;
+        if (updates.icon !== undefined) dbUpdates.icon = updates.icon;
+        if (updates.x !== undefined) dbUpdates.x = updates.x;
+        if (updates.y !== undefined) dbUpdates.y = updates.y;
+        if (updates.content !== undefined) dbUpdates.content = updates.content;
+        if (updates.meta !== undefined) dbUpdates.meta = updates.meta;
+        if (Object.keys(dbUpdates).length > 0) {
+          await this.updatePromptNodeRemote(projectId, nodeId, dbUpdates);
+        }
+        await this.upsertPromptNodeSyncMeta(this.findNode(projectId, nodeId) ?? node);
+        await this.touchProjectRemote(projectId);
+        return;
+      }
+      case 'delete-node': {
+        const { projectId, nodeId } = operation.payload;
+        await this.deletePromptNodeSyncMeta(nodeId);
+        // Connections cascade via FK on delete
+        const nodeDeleteRes = await supabase.from('prompt_nodes').delete().eq('id', nodeId);
+        this.assertNoError(nodeDeleteRes, 'delete prompt_node');
+        this.remoteNodeBase.delete(nodeId);
+        await this.touchProjectRemote(projectId);
+        return;
+      }
+      case 'insert-connection': {
+        await this.insertConnectionRemote(operation.payload.projectId, operation.payload.connection);
+        return;
+      }
+      case 'update-connection-label': {
+        const connectionUpdateRes = await supabase
+          .from('connections')
+          .update({ label: operation.payload.label })
+          .eq('id', operation.payload.connectionId);
+        if (!connectionUpdateRes.error) {
+          return;
+        }
+        if (isConnectionLabelColumnMissing(connectionUpdateRes.error.message)) {
+          return;
+        }
+        this.assertNoError(connectionUpdateRes, 'update connection');
+        return;
+      }
+      case 'delete-connection': {
+        const connDeleteRes = await supabase.from('connections').delete().eq('id', operation.payload.connectionId);
+        this.assertNoError(connDeleteRes, 'delete connection');
+        return;
+      }
+      case 'insert-version': {
+        const { projectId, version } = operation.payload;
+        const versionInsertBase = {
+          id: version.id,
           project_id: projectId,
-          timestamp: ver.timestamp,
-          content: ver.content,
-          notes: ver.notes,
-          snapshot_json: ver.snapshot,
+          timestamp: version.timestamp,
+          content: version.content,
+          notes: version.notes,
+          snapshot_json: version.snapshot,
+        };
+        let versionInsertRes = await supabase.from('prompt_versions').insert({
+          ...versionInsertBase,
+          parent_id: version.parentId ?? null,
+          branch: getVersionBranch(version),
         });
+        if (versionInsertRes.error && isVersionBranchColumnMissing(versionInsertRes.error.message)) {
+          versionInsertRes = await supabase.from('prompt_versions').insert(versionInsertBase);
+        }
+        if (versionInsertRes.error && isDuplicateKeyViolation(versionInsertRes.error.message)) {
+          return;
+        }
         this.assertNoError(versionInsertRes, 'insert prompt_version');
-        await this.persistTranscriptFlowSnapshot(projectId, p, ver.id);
-      });
+        const project = this.getProject(projectId);
+        if (project) {
+          await this.persistTranscriptFlowSnapshot(projectId, project, version.id);
+        }
+        return;
+      }
+      case 'update-project-head': {
+        const { projectId, head } = operation.payload;
+        const headUpdateRes = await supabase
+          .from('projects')
+          .update({ head_branch: head.branch, head_version_id: head.versionId })
+          .eq('id', projectId);
+        if (headUpdateRes.error && isVersionBranchColumnMissing(headUpdateRes.error.message)) {
+          return;
+        }
+        this.assertNoError(headUpdateRes, 'update project head');
+        return;
+      }
+      case 'set-version-tag': {
+        const { projectId, tag, versionId } = operation.payload;
+        const tagUpsertRes = await supabase
+          .from('prompt_version_tags')
+          .upsert(
+            { project_id: projectId, tag, version_id: versionId, updated_at: new Date().toISOString() },
+            { onConflict: 'project_id,tag' },
+          );
+        if (tagUpsertRes.error && isVersionTagsTableMissing(tagUpsertRes.error.message)) {
+          return;
+        }
+        this.assertNoError(tagUpsertRes, 'upsert prompt_version_tag');
+        return;
+      }
+      case 'delete-version-tag': {
+        const { projectId, tag } = operation.payload;
+        const tagDeleteRes = await supabase
+          .from('prompt_version_tags')
+          .delete()
+          .eq('project_id', projectId)
+          .eq('tag', tag);
+        if (tagDeleteRes.error && isVersionTagsTableMissing(tagDeleteRes.error.message)) {
+          return;
+        }
+        this.assertNoError(tagDeleteRes, 'delete prompt_version_tag');
+        return;
+      }
+      case 'update-project-organization': {
+        const { projectId, folder, tags } = operation.payload;
+        const organizationRes = await supabase.from('projects').update({ folder, tags }).eq('id', projectId);
+        if (organizationRes.error && isProjectOrganizationColumnMissing(organizationRes.error.message)) {
+          return;
+        }
+        this.assertNoError(organizationRes, 'update project organization');
+        return;
+      }
+      case 'trash-project': {
+        const { projectId, deletedAt } = operation.payload;
+        const trashRes = await supabase.from('projects').update({ deleted_at: deletedAt }).eq('id', projectId);
+        this.assertNoError(trashRes, 'trash project');
+        return;
+      }
+      case 'restore-project': {
+        const { projectId, transcriptSetId } = operation.payload;
+        const restoreRes = await supabase.from('projects').update({ deleted_at: null }).eq('id', projectId);
+        this.assertNoError(restoreRes, 'restore project');
+        if (!transcriptSetId) return;
+        const relinkRes = await supabase
+          .from('transcript_sets')
+          .update({ project_id: projectId, updated_at: new Date().toISOString() })
+          .eq('id', transcriptSetId);
+        if (relinkRes.error && !isTranscriptTableMissing(relinkRes.error.message, 'transcript_sets')) {
+          this.assertNoError(relinkRes, 'relink transcript_set project');
+        }
+        return;
+      }
+      case 'trash-node': {
+        const { projectId, nodeId, deletedAt } = operation.payload;
+        // The row and its connections stay until purge so a restore can reattach them.
+        await this.deletePromptNodeSyncMeta(nodeId);
+        const nodeTrashRes = await supabase.from('prompt_nodes').update({ deleted_at: deletedAt }).eq('id', nodeId);
+        this.assertNoError(nodeTrashRes, 'trash prompt_node');
+        await this.touchProjectRemote(projectId);
+        return;
+      }
+      case 'restore-node': {
+        const { projectId, node, sortOrder, connections, followingNodeIds = [] } = operation.payload;
+        const nodeRestoreRes = await supabase
+          .from('prompt_nodes')
+          .update({ deleted_at: null, sort_order: sortOrder })
+          .eq('id', node.id)
+          .select('id');
+        this.assertNoError(nodeRestoreRes, 'restore prompt_node');
+        if ((nodeRestoreRes.data ?? []).length === 0) {
+          // Purged by another client meanwhile: write it back as a new row.
+          await this.executeRemoteWrite({ type: 'insert-node', payload: operation.payload });
+          return;
+        }
+        await this.renumberNodesRemote(followingNodeIds, sortOrder + 1);
+        await this.upsertPromptNodeSyncMeta(node);
+        // The rows were kept while trashed; rewriting them emits a change other clients see.
+        for (const connection of connections) {
+          await this.insertConnectionRemote(projectId, connection, 'upsert');
+        }
+        await this.touchProjectRemote(projectId);
+        return;
+      }
+      case 'trash-transcript-flow': {
+        const { transcriptSetId, linkedProjectId, deletedAt } = operation.payload;
+        await this.setTranscriptFlowDeletedAtRemote(transcriptSetId, linkedProjectId, deletedAt);
+        return;
+      }
+      case 'restore-transcript-flow': {
+        const { transcriptSetId, linkedProjectId } = operation.payload;
+        await this.setTranscriptFlowDeletedAtRemote(transcriptSetId, linkedProjectId, null);
+        return;
+      }
+      case 'update-project-variables': {
+        const { projectId, variables } = operation.payload;
+        const variablesRes = await supabase.from('projects').update({ variables }).eq('id', projectId);
+        if (variablesRes.error && isProjectVariablesColumnMissing(variablesRes.error.message)) {
+          return;
+        }
+        this.assertNoError(variablesRes, 'update project variables');
+        await this.touchProjectRemote(projectId);
+        return;
+      }
+      case 'update-project-environments': {
+        const { projectId, environments } = operation.payload;
+        const environmentsRes = await supabase.from('projects').update({ environments }).eq('id', projectId);
+        if (environmentsRes.error && isProjectEnvironmentsColumnMissing(environmentsRes.error.message)) {
+          return;
+        }
+        this.assertNoError(environmentsRes, 'update project environments');
+        return;
+      }
+      case 'update-project-token-budget': {
+        const { projectId, tokenBudget } = operation.payload;
+        const budgetRes = await supabase.from('projects').update({ token_budget: tokenBudget }).eq('id', projectId);
+        if (budgetRes.error && isProjectTokenBudgetColumnMissing(budgetRes.error.message)) {
+          return;
+        }
+        this.assertNoError(budgetRes, 'update project token budget');
+        return;
+      }
+      case 'update-project-conversation-tokens': {
+        const { projectId, conversationTokens } = operation.payload;
+        const conversationRes = await supabase.from('projects').update({ conversation_tokens: conversationTokens }).eq('id', projectId);
+        if (conversationRes.error && isProjectConversationTokensColumnMissing(conversationRes.error.message)) {
+          return;
+        }
+        this.assertNoError(conversationRes, 'update project conversation tokens');
+        return;
+      }
+      case 'delete-node-sync-meta': {
+        for (const nodeId of operation.payload.nodeIds) {
+          await this.deletePromptNodeSyncMeta(nodeId);
+        }
+        return;
+      }
     }
-    return ver;
   }
 
-  saveAssembledVersion(projectId: string, notes: string, mode: PromptAssemblyMode = 'runtime'): PromptVersion | null {
-    const p = this.getProject(projectId);
-    if (!p) return null;
-
-    const assembled = this.assemblePrompt(projectId, mode);
-    const snapshot = createGraphSnapshot(p);
-    const latest = p.versions[p.versions.length - 1];
-    if (latest && latest.content === assembled && sameGraphSnapshot(latest.snapshot, snapshot)) {
-      return null;
+  /** Trashes (or restores, with `null`) a transcript set and the project linked to it. */
+  private async setTranscriptFlowDeletedAtRemote(
+    transcriptSetId: string,
+    linkedProjectId: string | null,
+    deletedAt: string | null,
+  ): Promise<void> {
+    const setRes = await supabase.from('transcript_sets').update({ deleted_at: deletedAt }).eq('id', transcriptSetId);
+    if (setRes.error && !isTranscriptTableMissing(setRes.error.message, 'transcript_sets')) {
+      this.assertNoError(setRes, 'update transcript_set deleted_at');
     }
-
-    return this.saveVersion(projectId, assembled, notes, snapshot);
+    if (!linkedProjectId) return;
+    const projectRes = await supabase.from('projects').update({ deleted_at: deletedAt }).eq('id', linkedProjectId);
+    this.assertNoError(projectRes, 'update linked transcript project deleted_at');
   }
 
-  saveCurrentState(projectId: string, mode: PromptAssemblyMode = 'runtime'): PromptVersion | null {
-    const p = this.getProject(projectId);
-    if (!p) return null;
-    const nextSnapshotNumber = p.versions.length + 1;
-    return this.saveAssembledVersion(projectId, `Snapshot ${nextSnapshotNumber}`, mode);
+  private findNode(projectId: string, nodeId: string): PromptNode | undefined {
+    return this.getProject(projectId)?.nodes.find((node) => node.id === nodeId);
   }
 
-  getVersions(projectId: string): PromptVersion[] {
-    return this.getProject(projectId)?.versions ?? [];
-  }
+  /**
+   * Updates a node row guarded by its `revision`. If another client wrote first,
+   * its content is merged into the local node and the write is retried on top.
+   * Content is read from the cache at send time so merged text is what lands.
+   */
+  private async updatePromptNodeRemote(projectId: string, nodeId: string, dbUpdates: PromptNodeUpdate): Promise<void> {
+    const withLocalContent = (): PromptNodeUpdate => {
+      if (dbUpdates.content === undefined) return dbUpdates;
+      return { ...dbUpdates, content: this.findNode(projectId, nodeId)?.content ?? dbUpdates.content };
+    };
 
-  /* Assembled prompt */
+    const maxAttempts = 3;
+    for (let attempt = 1; attempt <= maxAttempts && this.promptNodeRevisionSupported; attempt += 1) {
+      const base = this.remoteNodeBase.get(nodeId) ?? await this.fetchRemoteNodeBase(nodeId);
+      if (!base) return; // Deleted remotely; nothing left to update.
+
+      const updates = withLocalContent();
+      const nodeUpdateRes = await supabase
+        .from('prompt_nodes')
+        .update({ ...updates, revision: base.revision + 1 })
+        .eq('id', nodeId)
+        .eq('revision', base.revision)
+        .select('id');
+      if (nodeUpdateRes.error && isPromptNodeRevisionColumnMissing(nodeUpdateRes.error.message)) {
+        this.promptNodeRevisionSupported = false;
+        break;
+      }
+      this.assertNoError(nodeUpdateRes, 'update prompt_node');
+      if ((nodeUpdateRes.data ?? []).length > 0) {
+        this.remoteNodeBase.set(nodeId, {
+          revision: base.revision + 1,
+          content: updates.content ?? base.content,
+        });
+        return;
+      }
 
-  assemblePrompt(projectId: string, mode: PromptAssemblyMode = 'runtime'): string {
-    const p = this.getProject(projectId);
-    if (!p) return '';
-    const plan = buildGraphAssemblyPlan(p);
-    if (mode === 'runtime') {
-      return plan.orderedNodes.map((node) => node.content).join('\n\n');
+      // A realtime event may already have merged part (or all) of what another client wrote.
+      const known = this.remoteNodeBase.get(nodeId) ?? base;
+      const latest = await this.fetchRemoteNodeBase(nodeId);
+      const p = this.getProject(projectId);
+      const node = this.findNode(projectId, nodeId);
+      if (!latest) return;
+      if (!p || !node || known.revision >= latest.revision) continue;
+      this.mergeRemoteNodeContent(p, node, known.content, latest);
+      this.syncTranscriptDraftCacheFromProject(p);
+      this.saveLocalStorage();
+      this.events.emit({ type: 'node-updated', origin: 'remote', projectId, nodeId });
     }
-    return assembleFlowTemplate(p, plan);
-  }
 
-  assembleRuntimePrompt(projectId: string): string {
-    return this.assemblePrompt(projectId, 'runtime');
+    if (this.promptNodeRevisionSupported) {
+      throw new Error(`update prompt_node: revision conflict persisted after ${maxAttempts} attempts`);
+    }
+    const fallbackUpdates = withLocalContent();
+    const nodeUpdateRes = await supabase.from('prompt_nodes').update(fallbackUpdates).eq('id', nodeId);
+    this.assertNoError(nodeUpdateRes, 'update prompt_node');
+    if (fallbackUpdates.content !== undefined) {
+      // Base for merging the next remote change, which carries no revision either.
+      this.remoteNodeBase.set(nodeId, { revision: 0, content: fallbackUpdates.content });
+    }
   }
 
-  assembleFlowTemplate(projectId: string): string {
-    return this.assemblePrompt(projectId, 'flow-template');
+  private async fetchRemoteNodeBase(nodeId: string): Promise<RemoteNodeBase | null> {
+    const nodeRes = await supabase
+      .from('prompt_nodes')
+      .select('revision, content')
+      .eq('id', nodeId)
+      .maybeSingle();
+    if (nodeRes.error && isPromptNodeRevisionColumnMissing(nodeRes.error.message)) {
+      this.promptNodeRevisionSupported = false;
+      return null;
+    }
+    this.assertNoError(nodeRes, 'fetch prompt_node revision');
+    if (!nodeRes.data) return null;
+    const latest = { revision: nodeRes.data.revision ?? 0, content: nodeRes.data.content };
+    this.remoteNodeBase.set(nodeId, latest);
+    return latest;
   }
 
-  persist(): void {
-    this.saveLocalStorage();
+  private async touchProjectRemote(projectId: string): Promise<void> {
+    const updatedAt = this.getProject(projectId)?.updatedAt ?? new Date().toISOString();
+    let projectUpdateRes = await supabase
+      .from('projects')
+      .update({ last_edited: 'Just now', updated_at: updatedAt })
+      .eq('id', projectId);
+    if (projectUpdateRes.error && isProjectOrganizationColumnMissing(projectUpdateRes.error.message)) {
+      projectUpdateRes = await supabase.from('projects').update({ last_edited: 'Just now' }).eq('id', projectId);
+    }
+    this.assertNoError(projectUpdateRes, 'touch project last_edited');
   }
 
   private async persistTranscriptFlowSnapshot(projectId: string, project: Project, promptVersionId: string): Promise<void> {
@@ -1110,14 +3233,49 @@ class Store {
       created_at: template.createdAt,
       updated_at: template.updatedAt,
     });
-    if (insertRes.error && isCustomNodesTableMissing(insertRes.error.message)) {
+    if (insertRes.error && (isCustomNodesTableMissing(insertRes.error.message) || isDuplicateKeyViolation(insertRes.error.message))) {
       return;
     }
     this.assertNoError(insertRes, 'insert custom_node');
   }
 
-  private async insertConnectionRemote(projectId: string, connection: Connection): Promise<void> {
+  private async updateCustomNodeRemote(template: CustomNodeTemplate): Promise<void> {
+    const fields = {
+      label: template.label,
+      icon: template.icon,
+      content: template.content,
+      meta: template.meta,
+      updated_at: template.updatedAt,
+    };
+    let updateRes = await supabase
+      .from('custom_nodes')
+      .update({ ...fields, revision: templateRevision(template) })
+      .eq('id', template.id);
+    if (updateRes.error && isCustomNodeRevisionColumnMissing(updateRes.error.message)) {
+      updateRes = await supabase.from('custom_nodes').update(fields).eq('id', template.id);
+    }
+    if (updateRes.error && isCustomNodesTableMissing(updateRes.error.message)) {
+      return;
+    }
+    this.assertNoError(updateRes, 'update custom_node');
+  }
+
+  /** Shifts the nodes after an inserted one so remote order has no duplicate positions. */
+  private async renumberNodesRemote(nodeIds: string[], firstSortOrder: number): Promise<void> {
+    for (const [offset, nodeId] of nodeIds.entries()) {
+      const renumberRes = await supabase
+        .from('prompt_nodes')
+        .update({ sort_order: firstSortOrder + offset })
+        .eq('id', nodeId);
+      this.assertNoError(renumberRes, 'renumber prompt_node');
+    }
+  }
+
+  private async insertConnectionRemote(projectId: string, connection: Connection, mode: 'insert' | 'upsert' = 'insert'): Promise<void> {
     const maxAttempts = 3;
+    const write = (row: ConnectionInsert) => (mode === 'upsert'
+      ? supabase.from('connections').upsert(row, { onConflict: 'id' })
+      : supabase.from('connections').insert(row));
     for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
       const connectionInsertBase = {
         id: connection.id,
@@ -1130,12 +3288,12 @@ class Store {
         label: normalizeConnectionLabel(connection.label),
       };
 
-      let connInsertRes = await supabase.from('connections').insert(connectionInsertWithLabel);
+      let connInsertRes = await write(connectionInsertWithLabel);
       if (connInsertRes.error && isConnectionLabelColumnMissing(connInsertRes.error.message)) {
-        connInsertRes = await supabase.from('connections').insert(connectionInsertBase);
+        connInsertRes = await write(connectionInsertBase);
       }
 
-      if (!connInsertRes.error) {
+      if (!connInsertRes.error || isDuplicateKeyViolation(connInsertRes.error.message)) {
         return;
       }
 
@@ -1153,48 +3311,6 @@ class Store {
   }
 }
 
-function assembleFlowTemplate(project: Pick<Project, 'nodes' | 'connections'>, plan: GraphAssemblyPlan): string {
-  const nodeById = new Map<string, PromptNode>(project.nodes.map((node) => [node.id, node]));
-  const sections = plan.orderedNodes.map((node, index) => {
-    const sectionLines: string[] = [`## ${index + 1}. ${node.label}`];
-    sectionLines.push(node.content.trim() ? node.content : '(empty node content)');
-
-    const incoming = plan.incomingByTo.get(node.id) ?? [];
-    if (incoming.length > 1) {
-      const mergeSources = incoming.map((edge) => {
-        const sourceNode = nodeById.get(edge.from);
-        const sourceLabel = sourceNode ? sourceNode.label : edge.from;
-        const branchLabel = normalizeConnectionLabel(edge.label);
-        return branchLabel ? `${sourceLabel} [${branchLabel}]` : sourceLabel;
-      });
-      sectionLines.push(`Merge Inputs: ${mergeSources.join(', ')}`);
-    }
-
-    const outgoing = plan.outgoingByFrom.get(node.id) ?? [];
-    if (outgoing.length === 0) {
-      sectionLines.push('Next: [end]');
-    } else if (outgoing.length === 1) {
-      sectionLines.push(`Next: ${formatConnectionTarget(outgoing[0], nodeById)}`);
-    } else {
-      sectionLines.push('Branches:');
-      for (const edge of outgoing) {
-        sectionLines.push(`- ${formatConnectionTarget(edge, nodeById)}`);
-      }
-    }
-
-    return sectionLines.join('\n');
-  });
-
-  const headerLines = [
-    '# Prompt Flow Template',
-    'This assembled prompt preserves branch and merge structure from the node graph.',
-  ];
-  if (plan.hasCycle) {
-    headerLines.push('Warning: cycle detected. Nodes in cycle were appended using canvas order.');
-  }
-  return `${headerLines.join('\n\n')}\n\n${sections.join('\n\n')}`;
-}
-
 function toTypedRows<T>(
   rows: readonly unknown[] | null,
   isRow: (value: unknown) => value is T,
@@ -1235,6 +3351,7 @@ function toCustomNodeTemplate(row: CustomNodeRow): CustomNodeTemplate {
     meta: row.meta ?? {},
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    ...(typeof row.revision === 'number' ? { revision: row.revision } : {}),
   };
 }
 
@@ -1255,6 +3372,9 @@ function toVersion(row: PromptVersionRow): PromptVersion {
     content: row.content,
     notes: row.notes,
     snapshot: row.snapshot_json ? toPromptGraphSnapshot(row.snapshot_json) : null,
+    // A null parent is indistinguishable from a pre-branching row; list order decides.
+    ...(typeof row.parent_id === 'string' ? { parentId: row.parent_id } : {}),
+    ...(row.branch ? { branch: row.branch } : {}),
   };
 }
 
@@ -1309,6 +3429,35 @@ function createGraphSnapshot(project: Pick<Project, 'nodes' | 'connections'>): P
   };
 }
 
+type EditableNodeFields = Partial<Omit<PromptNode, 'id'>>;
+
+function clonePromptNode(node: PromptNode): PromptNode {
+  return { ...node, meta: { ...node.meta } };
+}
+
+function cloneConnection(connection: Connection): Connection {
+  return { ...connection };
+}
+
+function pickEditableNodeFields(node: PromptNode, keysFrom: Partial<PromptNode>): EditableNodeFields {
+  const picked: EditableNodeFields = {};
+  if (keysFrom.type !== undefined) picked.type = node.type;
+  if (keysFrom.label !== undefined) picked.label = node.label;
+  if (keysFrom.icon !== undefined) picked.icon = node.icon;
+  if (keysFrom.x !== undefined) picked.x = node.x;
+  if (keysFrom.y !== undefined) picked.y = node.y;
+  if (keysFrom.content !== undefined) picked.content = node.content;
+  if (keysFrom.meta !== undefined) picked.meta = { ...node.meta };
+  return picked;
+}
+
+function sameEditableNodeFields(left: EditableNodeFields, right: EditableNodeFields): boolean {
+  const sortMeta = (meta: Record<string, string> | undefined) => (
+    meta ? Object.entries(meta).sort(([a], [b]) => a.localeCompare(b)) : undefined
+  );
+  return JSON.stringify({ ...left, meta: sortMeta(left.meta) }) === JSON.stringify({ ...right, meta: sortMeta(right.meta) });
+}
+
 function sameGraphSnapshot(a: PromptGraphSnapshot | null, b: PromptGraphSnapshot | null): boolean {
   if (a === b) return true;
   if (!a || !b) return false;
@@ -1635,103 +3784,6 @@ function toStringRecord(value: unknown): Record<string, string> {
   );
 }
 
-interface GraphAssemblyPlan {
-  orderedNodes: PromptNode[];
-  outgoingByFrom: Map<string, Connection[]>;
-  incomingByTo: Map<string, Connection[]>;
-  hasCycle: boolean;
-}
-
-function buildGraphAssemblyPlan(project: Pick<Project, 'nodes' | 'connections'>): GraphAssemblyPlan {
-  const nodeById = new Map(project.nodes.map((node) => [node.id, node]));
-  const nodeOrder = new Map(project.nodes.map((node, index) => [node.id, index]));
-  const outgoingByFrom = new Map<string, Connection[]>();
-  const incomingByTo = new Map<string, Connection[]>();
-  const inDegree = new Map<string, number>();
-
-  for (const node of project.nodes) {
-    outgoingByFrom.set(node.id, []);
-    incomingByTo.set(node.id, []);
-    inDegree.set(node.id, 0);
-  }
-
-  for (const connection of project.connections) {
-    if (!nodeById.has(connection.from) || !nodeById.has(connection.to)) continue;
-    outgoingByFrom.get(connection.from)!.push(connection);
-    incomingByTo.get(connection.to)!.push(connection);
-    inDegree.set(connection.to, (inDegree.get(connection.to) ?? 0) + 1);
-  }
-
-  const compareNodeOrder = (leftNodeId: string, rightNodeId: string): number => {
-    return (nodeOrder.get(leftNodeId) ?? Number.MAX_SAFE_INTEGER) - (nodeOrder.get(rightNodeId) ?? Number.MAX_SAFE_INTEGER);
-  };
-
-  const compareOutgoingConnections = (left: Connection, right: Connection): number => {
-    const labelCompare = normalizeConnectionLabel(left.label).localeCompare(normalizeConnectionLabel(right.label));
-    if (labelCompare !== 0) return labelCompare;
-    const targetCompare = compareNodeOrder(left.to, right.to);
-    if (targetCompare !== 0) return targetCompare;
-    return left.id.localeCompare(right.id);
-  };
-
-  const compareIncomingConnections = (left: Connection, right: Connection): number => {
-    const sourceCompare = compareNodeOrder(left.from, right.from);
-    if (sourceCompare !== 0) return sourceCompare;
-    const labelCompare = normalizeConnectionLabel(left.label).localeCompare(normalizeConnectionLabel(right.label));
-    if (labelCompare !== 0) return labelCompare;
-    return left.id.localeCompare(right.id);
-  };
-
-  outgoingByFrom.forEach((connections) => connections.sort(compareOutgoingConnections));
-  incomingByTo.forEach((connections) => connections.sort(compareIncomingConnections));
-
-  const ready = project.nodes
-    .filter((node) => (inDegree.get(node.id) ?? 0) === 0)
-    .sort((left, right) => compareNodeOrder(left.id, right.id));
-
-  const orderedNodes: PromptNode[] = [];
-  while (ready.length > 0) {
-    const nextNode = ready.shift()!;
-    orderedNodes.push(nextNode);
-    const outgoingConnections = outgoingByFrom.get(nextNode.id) ?? [];
-    for (const connection of outgoingConnections) {
-      const nextDegree = (inDegree.get(connection.to) ?? 0) - 1;
-      inDegree.set(connection.to, nextDegree);
-      if (nextDegree === 0) {
-        const targetNode = nodeById.get(connection.to);
-        if (targetNode) {
-          ready.push(targetNode);
-        }
-      }
-    }
-    ready.sort((left, right) => compareNodeOrder(left.id, right.id));
-  }
-
-  let hasCycle = false;
-  if (orderedNodes.length !== project.nodes.length) {
-    hasCycle = true;
-    const orderedIds = new Set(orderedNodes.map((node) => node.id));
-    const remainingNodes = project.nodes
-      .filter((node) => !orderedIds.has(node.id))
-      .sort((left, right) => compareNodeOrder(left.id, right.id));
-    orderedNodes.push(...remainingNodes);
-  }
-
-  return { orderedNodes, outgoingByFrom, incomingByTo, hasCycle };
-}
-
-function formatConnectionTarget(connection: Connection, nodeById: Map<string, PromptNode>): string {
-  const targetNode = nodeById.get(connection.to);
-  const targetLabel = targetNode ? targetNode.label : connection.to;
-  const branchLabel = normalizeConnectionLabel(connection.label);
-  return branchLabel ? `[${branchLabel}] -> ${targetLabel}` : `-> ${targetLabel}`;
-}
-
-function normalizeConnectionLabel(value: string | null | undefined): string {
-  if (typeof value !== 'string') return '';
-  return value.trim().replace(/\s+/g, ' ').slice(0, 80);
-}
-
 function normalizeCustomNodeTemplateLabel(value: string): string {
   const normalized = value.trim().replace(/\s+/g, ' ');
   return normalized.slice(0, 80) || 'Custom Node';
@@ -1748,27 +3800,52 @@ function normalizeNodeIdentityLabel(
   return 'N/A';
 }
 
-function isNodeType(value: string): value is NodeType {
-  switch (value) {
-    case 'core-persona':
-    case 'mission-objective':
-    case 'tone-guidelines':
-    case 'language-model':
-    case 'logic-branch':
-    case 'termination':
-    case 'vector-db':
-    case 'static-context':
-    case 'memory-buffer':
-    case 'webhook':
-    case 'transcriber':
-    case 'llm-brain':
-    case 'voice-synth':
-    case 'style-module':
-    case 'custom':
-      return true;
-    default:
-      return false;
-  }
+function toRemoteProjectRecord(project: Project): RemoteProjectRecord {
+  return {
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    model: project.model,
+    icon: project.icon,
+    lastEdited: project.lastEdited,
+    ...(project.forkedFrom ? { forkedFrom: { ...project.forkedFrom } } : {}),
+  };
+}
+
+function markProjectEdited(p: Project): void {
+  p.lastEdited = 'Just now';
+  p.updatedAt = new Date().toISOString();
+}
+
+function toProjectOrganization(row: ProjectRow): Pick<Project, 'folder' | 'tags' | 'updatedAt'> {
+  return {
+    ...(row.folder ? { folder: row.folder } : {}),
+    ...(row.tags && row.tags.length > 0 ? { tags: [...row.tags] } : {}),
+    updatedAt: row.updated_at ?? row.created_at,
+  };
+}
+
+function toProjectVariables(row: ProjectRow): Pick<Project, 'variables'> {
+  const variables = (row.variables ?? []).filter(isTemplateVariable);
+  return variables.length > 0 ? { variables } : {};
+}
+
+function toProjectLineage(row: ProjectRow): Pick<Project, 'forkedFrom'> {
+  if (typeof row.forked_from_project_id !== 'string') return {};
+  return {
+    forkedFrom: {
+      projectId: row.forked_from_project_id,
+      projectName: row.forked_from_project_name ?? '',
+      versionId: row.forked_from_version_id ?? null,
+      forkedAt: row.forked_at ?? row.created_at,
+    },
+  };
+}
+
+function omitTemplateProvenance(meta: Record<string, string>): Record<string, string> {
+  const rest = withoutLibraryLink(meta);
+  delete rest[CUSTOM_TEMPLATE_META_KEY];
+  return rest;
 }
 
 function getErrorMessage(err: unknown): string {
@@ -1795,9 +3872,17 @@ function getPersistenceHint(errorMessage: string): string | null {
   if (message.includes('connections_from_node_id_fkey') || message.includes('connections_to_node_id_fkey')) {
     return 'A node was referenced before its insert completed. The app now retries and queues writes; reload and try again.';
   }
+  if (message.includes('deleted_at')) {
+    return 'Apply supabase/migrations/20261019160000_add_soft_delete.sql to enable the trash bin.';
+  }
   return null;
 }
 
+/** Replayed inserts may hit rows that an earlier, interrupted attempt already wrote. */
+function isDuplicateKeyViolation(message: string): boolean {
+  return message.toLowerCase().includes('duplicate key value violates unique constraint');
+}
+
 function isConnectionForeignKeyViolation(message: string): boolean {
   const normalized = message.toLowerCase();
   return normalized.includes('connections_from_node_id_fkey') || normalized.includes('connections_to_node_id_fkey');
@@ -1809,6 +3894,67 @@ function isConnectionLabelColumnMissing(message: string): boolean {
   return normalized.includes('connections') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
 }
 
+function isVersionTagsTableMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('prompt_version_tags')) return false;
+  return normalized.includes('does not exist') || normalized.includes('schema cache');
+}
+
+function isVersionBranchColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!['parent_id', 'branch'].some((column) => normalized.includes(column))) return false;
+  return (normalized.includes('prompt_versions') || normalized.includes('projects'))
+    && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isProjectLineageColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('forked_')) return false;
+  return normalized.includes('projects') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isProjectOrganizationColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!['folder', 'tags', 'updated_at'].some((column) => normalized.includes(column))) return false;
+  return normalized.includes('projects') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isProjectVariablesColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('variables')) return false;
+  return normalized.includes('projects') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isCustomNodeRevisionColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('revision')) return false;
+  return normalized.includes('custom_nodes') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isProjectEnvironmentsColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('environments')) return false;
+  return normalized.includes('projects') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isProjectTokenBudgetColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('token_budget')) return false;
+  return normalized.includes('projects') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isProjectConversationTokensColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('conversation_tokens')) return false;
+  return normalized.includes('projects') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
+function isPromptNodeRevisionColumnMissing(message: string): boolean {
+  const normalized = message.toLowerCase();
+  if (!normalized.includes('revision')) return false;
+  return normalized.includes('prompt_nodes') && (normalized.includes('does not exist') || normalized.includes('schema cache'));
+}
+
 function isCustomNodesTableMissing(message: string): boolean {
   const normalized = message.toLowerCase();
   if (!normalized.includes('custom_nodes')) return false;
@@ -1870,6 +4016,7 @@ function isPromptNodeRow(value: unknown): value is PromptNodeRow {
     typeof value.content === 'string' &&
     isStringRecord(value.meta) &&
     typeof value.sort_order === 'number' &&
+    (value.revision === undefined || typeof value.revision === 'number') &&
     typeof value.created_at === 'string'
   );
 }
@@ -1899,6 +4046,16 @@ function isPromptVersionRow(value: unknown): value is PromptVersionRow {
   );
 }
 
+function isPromptVersionTagRow(value: unknown): value is PromptVersionTagRow {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.project_id === 'string' &&
+    typeof value.tag === 'string' &&
+    typeof value.version_id === 'string' &&
+    typeof value.updated_at === 'string'
+  );
+}
+
 function isCustomNodeRow(value: unknown): value is CustomNodeRow {
   if (!isRecord(value)) return false;
   return (
@@ -1910,7 +4067,8 @@ function isCustomNodeRow(value: unknown): value is CustomNodeRow {
     typeof value.content === 'string' &&
     isStringRecord(value.meta) &&
     typeof value.created_at === 'string' &&
-    typeof value.updated_at === 'string'
+    typeof value.updated_at === 'string' &&
+    (value.revision === undefined || typeof value.revision === 'number')
   );
 }
 
@@ -1959,74 +4117,40 @@ function isTranscriptFlowRow(value: unknown): value is TranscriptFlowRow {
   );
 }
 
-function isProjectArray(value: unknown): value is Project[] {
-  return Array.isArray(value) && value.every(isProject);
-}
-
 function isLocalStorePayload(value: unknown): value is LocalStorePayload {
   if (!isRecord(value)) return false;
   const transcriptDrafts = Reflect.get(value, 'transcriptFlowDrafts');
+  const trash = Reflect.get(value, 'trash');
   return (
+    value.schemaVersion === LOCAL_STORE_SCHEMA_VERSION &&
     Array.isArray(value.projects) &&
     value.projects.every(isProject) &&
     Array.isArray(value.customNodeTemplates) &&
     value.customNodeTemplates.every(isCustomNodeTemplate) &&
     (transcriptDrafts === undefined ||
-      (Array.isArray(transcriptDrafts) && transcriptDrafts.every(isTranscriptFlowDraft)))
-  );
-}
-
-function isProject(value: unknown): value is Project {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.name === 'string' &&
-    typeof value.description === 'string' &&
-    typeof value.model === 'string' &&
-    typeof value.icon === 'string' &&
-    typeof value.lastEdited === 'string' &&
-    Array.isArray(value.nodes) &&
-    value.nodes.every(isPromptNode) &&
-    Array.isArray(value.connections) &&
-    value.connections.every(isConnection) &&
-    Array.isArray(value.versions) &&
-    value.versions.every(isPromptVersion)
-  );
-}
-
-function isPromptNode(value: unknown): value is PromptNode {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.type === 'string' &&
-    typeof value.label === 'string' &&
-    typeof value.icon === 'string' &&
-    typeof value.x === 'number' &&
-    typeof value.y === 'number' &&
-    typeof value.content === 'string' &&
-    isStringRecord(value.meta)
-  );
-}
-
-function isConnection(value: unknown): value is Connection {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.from === 'string' &&
-    typeof value.to === 'string' &&
-    (value.label === undefined || typeof value.label === 'string')
+      (Array.isArray(transcriptDrafts) && transcriptDrafts.every(isTranscriptFlowDraft))) &&
+    (trash === undefined || (Array.isArray(trash) && trash.every(isTrashEntry)))
   );
 }
 
-function isPromptVersion(value: unknown): value is PromptVersion {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.timestamp === 'number' &&
-    typeof value.content === 'string' &&
-    typeof value.notes === 'string' &&
-    (value.snapshot === undefined || value.snapshot === null || isPromptGraphSnapshot(value.snapshot))
-  );
+function isTrashEntry(value: unknown): value is TrashEntry {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.deletedAt !== 'string') return false;
+  switch (value.kind) {
+    case 'project':
+      return isProject(value.project) && (typeof value.transcriptSetId === 'string' || value.transcriptSetId === null);
+    case 'node':
+      return (
+        typeof value.projectId === 'string' &&
+        isPromptNode(value.node) &&
+        typeof value.sortOrder === 'number' &&
+        Array.isArray(value.connections) &&
+        value.connections.every(isConnection)
+      );
+    case 'transcript-flow':
+      return isTranscriptFlowDraft(value.draft) && (value.project === null || isProject(value.project));
+    default:
+      return false;
+  }
 }
 
 function isTranscriptFlowDraft(value: unknown): value is TranscriptFlowDraft {
@@ -2061,65 +4185,5 @@ function isTranscriptFlowDraftDetail(value: unknown): value is TranscriptFlowDra
   );
 }
 
-function isCustomNodeTemplate(value: unknown): value is CustomNodeTemplate {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.type === 'string' &&
-    isNodeType(value.type) &&
-    typeof value.label === 'string' &&
-    typeof value.icon === 'string' &&
-    typeof value.content === 'string' &&
-    isStringRecord(value.meta) &&
-    typeof value.createdAt === 'string' &&
-    typeof value.updatedAt === 'string'
-  );
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
-function isStringRecord(value: unknown): value is Record<string, string> {
-  if (!isRecord(value)) return false;
-  return Object.values(value).every((entry) => typeof entry === 'string');
-}
-
-function isPromptGraphSnapshot(value: unknown): value is PromptGraphSnapshot {
-  if (!isRecord(value)) return false;
-  return (
-    Array.isArray(value.nodes) &&
-    value.nodes.every(isPromptSnapshotNode) &&
-    Array.isArray(value.connections) &&
-    value.connections.every(isConnection)
-  );
-}
-
-function isPromptSnapshotNode(value: unknown): value is {
-  id: string;
-  type: string;
-  label: string;
-  icon: string;
-  x: number;
-  y: number;
-  content: string;
-  meta: Record<string, string>;
-} {
-  if (!isRecord(value)) return false;
-  return (
-    typeof value.id === 'string' &&
-    typeof value.type === 'string' &&
-    typeof value.label === 'string' &&
-    typeof value.icon === 'string' &&
-    typeof value.x === 'number' &&
-    typeof value.y === 'number' &&
-    typeof value.content === 'string' &&
-    isStringRecord(value.meta)
-  );
-}
-
 export const store = new Store();
 
-
-
-
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { Connection, PromptNode } from './models';
+import { buildGraphAssemblyPlan } from './prompt-assembly';
+import {
+  expandSubflows,
+  readSubflowNodeGroup,
+  readSubflowReference,
+  withSubflowNodeGroup,
+  withSubflowReference,
+  type SubflowGraph,
+} from './subflows';
+
+function node(id: string, meta: Record<string, string> = {}): PromptNode {
+  return { id, type: 'custom', label: id, icon: 'widgets', x: 0, y: 0, content: `content ${id}`, meta };
+}
+
+function connection(id: string, from: string, to: string, label?: string): Connection {
+  return { id, from, to, label };
+}
+
+function resolver(projects: Record<string, SubflowGraph>) {
+  return (projectId: string) => projects[projectId];
+}
+
+describe('subflows', () => {
+  it('stores the linked project in meta', () => {
+    expect(readSubflowReference(withSubflowReference({ nodeColor: '#fff' }, null))).toBeNull();
+    expect(readSubflowReference(withSubflowReference({}, 'verify'))).toBe('verify');
+    expect(readSubflowReference({ nodeColor: '#fff' })).toBeUndefined();
+
+    const grouped = withSubflowNodeGroup(withSubflowReference({}, 'verify'), ['ask', 'check-a']);
+    expect(readSubflowNodeGroup(grouped)).toEqual(['ask', 'check-a']);
+    expect(readSubflowNodeGroup(withSubflowReference(grouped, 'verify'))).toEqual(['ask', 'check-a']);
+    expect(readSubflowNodeGroup(withSubflowReference(grouped, 'escalate'))).toBeNull();
+  });
+
+  it('assembles a subflow inline between its neighbours', () => {
+    const verify = {
+      nodes: [node('ask'), node('check-a'), node('check-b')],
+      connections: [connection('v1', 'ask', 'check-a'), connection('v2', 'ask', 'check-b')],
+    };
+    const main = {
+      nodes: [node('greet'), node('sub', withSubflowReference({}, 'verify')), node('help')],
+      connections: [connection('m1', 'greet', 'sub', 'caller'), connection('m2', 'sub', 'help')],
+    };
+
+    const plan = buildGraphAssemblyPlan(main, { projectId: 'main', resolveProject: resolver({ verify }) });
+
+    expect(plan.orderedNodes.map((item) => item.id)).toEqual(['greet', 'sub/ask', 'sub/check-a', 'sub/check-b', 'help']);
+    expect(plan.incomingByTo.get('sub/ask')).toEqual([connection('m1', 'greet', 'sub/ask', 'caller')]);
+    expect(plan.incomingByTo.get('help')?.map((edge) => edge.from)).toEqual(['sub/check-a', 'sub/check-b']);
+    expect(plan.skippedSubflows).toEqual([]);
+  });
+
+  it('stops at references back to a project already being expanded', () => {
+    const projects: Record<string, SubflowGraph> = {
+      main: { nodes: [node('to-escalate', withSubflowReference({}, 'escalate'))], connections: [] },
+      escalate: {
+        nodes: [node('handoff'), node('back', withSubflowReference({}, 'main')), node('gone', withSubflowReference({}, 'deleted'))],
+        connections: [],
+      },
+    };
+
+    const expanded = expandSubflows(projects.main, { projectId: 'main', resolveProject: resolver(projects) });
+
+    expect(expanded.nodes.map((item) => item.id)).toEqual(['to-escalate/handoff', 'to-escalate/back', 'to-escalate/gone']);
+    expect(expanded.skipped).toEqual([
+      { nodeId: 'to-escalate/back', projectId: 'main', reason: 'cycle' },
+      { nodeId: 'to-escalate/gone', projectId: 'deleted', reason: 'missing' },
+    ]);
+  });
+
+  it('inserts only a saved group of nodes and reports empty references', () => {
+    const projects: Record<string, SubflowGraph> = {
+      verify: {
+        nodes: [node('ask'), node('check-a'), node('check-b')],
+        connections: [connection('v1', 'ask', 'check-a'), connection('v2', 'ask', 'check-b')],
+      },
+      draft: { nodes: [], connections: [] },
+    };
+    const main = {
+      nodes: [
+        node('group', withSubflowNodeGroup(withSubflowReference({}, 'verify'), ['ask', 'check-b'])),
+        node('none', withSubflowNodeGroup(withSubflowReference({}, 'verify'), [])),
+        node('blank', withSubflowReference({}, 'draft')),
+      ],
+      connections: [],
+    };
+
+    const expanded = expandSubflows(main, { projectId: 'main', resolveProject: resolver(projects) });
+
+    expect(expanded.nodes.map((item) => item.id)).toEqual(['group/ask', 'group/check-b', 'none', 'blank']);
+    expect(expanded.connections.map((item) => item.id)).toEqual(['group/v2']);
+    expect(expanded.skipped).toEqual([
+      { nodeId: 'none', projectId: 'verify', reason: 'empty' },
+      { nodeId: 'blank', projectId: 'draft', reason: 'empty' },
+    ]);
+  });
+});
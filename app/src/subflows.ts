@@ -0,0 +1,150 @@
+/**
+ * Subflows — nodes that stand for another project's graph, or a saved group of its nodes.
+ *
+ * A subflow node records the referenced project in its meta and, optionally, the
+ * ids of the nodes in the group it uses; without a group it uses the whole graph.
+ * Assembly replaces it with those nodes and the edges between them: edges into the
+ * subflow go to the group's entry nodes and edges out of it leave from its exit
+ * nodes. Nested subflows expand too; a reference back to a project already being
+ * expanded is skipped.
+ */
+import type { Connection, Project, PromptNode } from './models';
+
+export const SUBFLOW_META_KEY = 'subflow';
+/** Meta value of a subflow node that does not reference a project yet. */
+export const SUBFLOW_UNLINKED = 'unlinked';
+/** Comma-separated ids of the referenced project's nodes in the group. */
+export const SUBFLOW_NODES_META_KEY = 'subflowNodes';
+
+export type SubflowGraph = Pick<Project, 'nodes' | 'connections'>;
+
+export interface SubflowContext {
+  /** The project being assembled, so references back to it count as cycles. */
+  projectId: string;
+  resolveProject: (projectId: string) => SubflowGraph | undefined;
+}
+
+export interface SkippedSubflow {
+  nodeId: string;
+  projectId: string | null;
+  /** `empty` when the project, or the part of the group still in it, has no nodes. */
+  reason: 'unlinked' | 'missing' | 'empty' | 'cycle';
+}
+
+export interface ExpandedGraph extends SubflowGraph {
+  skipped: SkippedSubflow[];
+}
+
+/** The referenced project id, `null` for an unlinked subflow, `undefined` for other nodes. */
+export function readSubflowReference(meta: Record<string, string> | null | undefined): string | null | undefined {
+  const value = meta?.[SUBFLOW_META_KEY]?.trim();
+  if (!value) return undefined;
+  return value === SUBFLOW_UNLINKED ? null : value;
+}
+
+/** Linking another project drops the node group, whose ids belonged to the previous one. */
+export function withSubflowReference(
+  meta: Record<string, string> | null | undefined,
+  projectId: string | null,
+): Record<string, string> {
+  const nextMeta: Record<string, string> = { ...(meta ?? {}), [SUBFLOW_META_KEY]: projectId ?? SUBFLOW_UNLINKED };
+  if (readSubflowReference(meta) !== projectId) delete nextMeta[SUBFLOW_NODES_META_KEY];
+  return nextMeta;
+}
+
+/** Node ids of the group, `null` when the subflow uses the whole project. */
+export function readSubflowNodeGroup(meta: Record<string, string> | null | undefined): string[] | null {
+  const value = meta?.[SUBFLOW_NODES_META_KEY];
+  if (value === undefined) return null;
+  return value.split(',').map((id) => id.trim()).filter(Boolean);
+}
+
+export function withSubflowNodeGroup(
+  meta: Record<string, string> | null | undefined,
+  nodeIds: string[] | null,
+): Record<string, string> {
+  const nextMeta = { ...(meta ?? {}) };
+  if (nodeIds === null) {
+    delete nextMeta[SUBFLOW_NODES_META_KEY];
+  } else {
+    nextMeta[SUBFLOW_NODES_META_KEY] = nodeIds.join(',');
+  }
+  return nextMeta;
+}
+
+/** The part of a referenced graph a subflow node inserts: its group's nodes and the edges between them. */
+export function subflowGroupGraph(graph: SubflowGraph, nodeIds: string[] | null): SubflowGraph {
+  if (nodeIds === null) return graph;
+  const group = new Set(nodeIds);
+  return {
+    nodes: graph.nodes.filter((node) => group.has(node.id)),
+    connections: graph.connections.filter((connection) => group.has(connection.from) && group.has(connection.to)),
+  };
+}
+
+export function isSubflowNode(node: Pick<PromptNode, 'meta'>): boolean {
+  return readSubflowReference(node.meta) !== undefined;
+}
+
+/**
+ * Inlines every subflow that resolves. Inlined node ids are prefixed with the
+ * subflow node's id (`subflowId/innerId`) so repeated references stay distinct.
+ * Subflows that are unlinked, missing, empty or cyclic stay as plain nodes and are listed.
+ */
+export function expandSubflows(graph: SubflowGraph, context: SubflowContext): ExpandedGraph {
+  return expandGraph(graph, context, [context.projectId], '');
+}
+
+function expandGraph(graph: SubflowGraph, context: SubflowContext, trail: string[], prefix: string): ExpandedGraph {
+  const nodes: PromptNode[] = [];
+  const connections: Connection[] = [];
+  const skipped: SkippedSubflow[] = [];
+  const boundaries = new Map<string, { entries: string[]; exits: string[] }>();
+
+  for (const node of graph.nodes) {
+    const nodeId = `${prefix}${node.id}`;
+    const reference = readSubflowReference(node.meta);
+    const project = reference && !trail.includes(reference) ? context.resolveProject(reference) : undefined;
+    const inner = project ? subflowGroupGraph(project, readSubflowNodeGroup(node.meta)) : undefined;
+    if (reference === undefined || reference === null || !inner || inner.nodes.length === 0) {
+      if (reference !== undefined) {
+        const reason = reference === null ? 'unlinked' : trail.includes(reference) ? 'cycle' : inner ? 'empty' : 'missing';
+        skipped.push({ nodeId, projectId: reference, reason });
+      }
+      nodes.push(prefix ? { ...node, id: nodeId } : node);
+      continue;
+    }
+
+    const expanded = expandGraph(inner, context, [...trail, reference], `${nodeId}/`);
+    nodes.push(...expanded.nodes);
+    connections.push(...expanded.connections);
+    skipped.push(...expanded.skipped);
+    boundaries.set(node.id, graphBoundaries(expanded));
+  }
+
+  for (const connection of graph.connections) {
+    const sources = boundaries.get(connection.from)?.exits ?? [`${prefix}${connection.from}`];
+    const targets = boundaries.get(connection.to)?.entries ?? [`${prefix}${connection.to}`];
+    const id = `${prefix}${connection.id}`;
+    for (const from of sources) {
+      for (const to of targets) {
+        const single = sources.length === 1 && targets.length === 1;
+        connections.push({ ...connection, id: single ? id : `${id}:${from}>${to}`, from, to });
+      }
+    }
+  }
+
+  return { nodes, connections, skipped };
+}
+
+/** Nodes with no incoming edge, and nodes with no outgoing edge; the first/last node if a cycle leaves none. */
+function graphBoundaries(graph: SubflowGraph): { entries: string[]; exits: string[] } {
+  const targets = new Set(graph.connections.map((connection) => connection.to));
+  const sources = new Set(graph.connections.map((connection) => connection.from));
+  const entries = graph.nodes.filter((node) => !targets.has(node.id)).map((node) => node.id);
+  const exits = graph.nodes.filter((node) => !sources.has(node.id)).map((node) => node.id);
+  return {
+    entries: entries.length > 0 ? entries : [graph.nodes[0].id],
+    exits: exits.length > 0 ? exits : [graph.nodes[graph.nodes.length - 1].id],
+  };
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { TabSyncChannel, type TabSyncMessage } from './tab-sync';
+
+const openChannels: TabSyncChannel[] = [];
+
+function openChannel(tabId: string, received: TabSyncMessage[]): TabSyncChannel {
+  const channel = new TabSyncChannel('promptblueprint_tab_sync_test', tabId, (message) => received.push(message));
+  openChannels.push(channel);
+  return channel;
+}
+
+function waitForDelivery(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+afterEach(() => {
+  while (openChannels.length > 0) {
+    openChannels.pop()?.close();
+  }
+});
+
+describe('TabSyncChannel', () => {
+  it('delivers operations to other tabs but not back to the sender', async () => {
+    const senderInbox: TabSyncMessage[] = [];
+    const receiverInbox: TabSyncMessage[] = [];
+    const sender = openChannel('tab-a', senderInbox);
+    openChannel('tab-b', receiverInbox);
+
+    sender.publish({ type: 'delete-connection', payload: { projectId: 'p1', connectionId: 'c1' } }, null);
+    await waitForDelivery();
+
+    expect(senderInbox).toHaveLength(0);
+    expect(receiverInbox).toEqual([{
+      sourceTabId: 'tab-a',
+      operation: { type: 'delete-connection', payload: { projectId: 'p1', connectionId: 'c1' } },
+      baseSectionHash: null,
+    }]);
+  });
+});
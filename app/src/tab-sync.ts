@@ -0,0 +1,81 @@
+/**
+ * TabSyncChannel — relays store mutations between browser tabs of the same user.
+ *
+ * Uses BroadcastChannel where available and falls back to `storage` events on a
+ * dedicated localStorage key. Messages are never delivered back to the sending tab.
+ */
+import { uid } from './models';
+import { isRemoteWriteOperation, type RemoteWriteOperation } from './write-queue';
+
+export interface TabSyncMessage {
+  sourceTabId: string;
+  operation: RemoteWriteOperation;
+  /** Section hash of the edited node before the change, for update-node conflict checks. */
+  baseSectionHash: string | null;
+}
+
+export class TabSyncChannel {
+  private channel: BroadcastChannel | null = null;
+  private onStorage: ((event: StorageEvent) => void) | null = null;
+
+  constructor(
+    private readonly name: string,
+    private readonly tabId: string,
+    private readonly onMessage: (message: TabSyncMessage) => void,
+  ) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(name);
+      this.channel.onmessage = (event: MessageEvent<unknown>) => {
+        this.deliver(event.data);
+      };
+      return;
+    }
+
+    if (typeof window === 'undefined') return;
+    this.onStorage = (event: StorageEvent) => {
+      if (event.key !== this.name || !event.newValue) return;
+      try {
+        this.deliver(JSON.parse(event.newValue));
+      } catch {
+        // Ignore payloads written by other versions of the app.
+      }
+    };
+    window.addEventListener('storage', this.onStorage);
+  }
+
+  publish(operation: RemoteWriteOperation, baseSectionHash: string | null = null): void {
+    const message: TabSyncMessage = { sourceTabId: this.tabId, operation, baseSectionHash };
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+    if (this.onStorage) {
+      // A unique nonce keeps identical consecutive messages from being coalesced.
+      localStorage.setItem(this.name, JSON.stringify({ ...message, nonce: uid() }));
+    }
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    if (this.onStorage) {
+      window.removeEventListener('storage', this.onStorage);
+      this.onStorage = null;
+    }
+  }
+
+  private deliver(data: unknown): void {
+    if (!isTabSyncMessage(data) || data.sourceTabId === this.tabId) return;
+    this.onMessage(data);
+  }
+}
+
+function isTabSyncMessage(value: unknown): value is TabSyncMessage {
+  if (typeof value !== 'object' || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.sourceTabId === 'string' &&
+    isRemoteWriteOperation(candidate.operation) &&
+    (typeof candidate.baseSectionHash === 'string' || candidate.baseSectionHash === null)
+  );
+}
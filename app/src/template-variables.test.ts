@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { TemplateVariable } from './models';
+import {
+  extractTemplateVariables,
+  lintTemplateVariables,
+  missingRequiredVariables,
+  normalizeVariableName,
+  resolveVariableValues,
+  substituteTemplateVariables,
+} from './template-variables';
+
+function variable(name: string, overrides: Partial<TemplateVariable> = {}): TemplateVariable {
+  return { name, description: '', defaultValue: '', required: false, ...overrides };
+}
+
+describe('template variables', () => {
+  it('extracts placeholder names once each and validates declared names', () => {
+    expect(extractTemplateVariables('Hi {{ caller_name }}, {{conversation_history}} {{caller_name}} {{not valid}} {{9lives}}'))
+      .toEqual(['caller_name', 'conversation_history']);
+    expect(normalizeVariableName(' {{company}} ')).toBe('company');
+    expect(normalizeVariableName('first name')).toBeNull();
+  });
+
+  it('warns about undeclared and unused variables', () => {
+    const nodes = [
+      { id: 'n1', content: '## Memory Buffer\n{{conversation_history}}' },
+      { id: 'n2', content: 'Greet {{caller_name}} and recap {{conversation_history}}.' },
+    ];
+
+    expect(lintTemplateVariables(nodes, [variable('caller_name'), variable('company')])).toEqual([
+      { kind: 'undeclared', name: 'conversation_history', nodeIds: ['n1', 'n2'] },
+      { kind: 'unused', name: 'company' },
+    ]);
+  });
+
+  it('fills placeholders from test values, then defaults, and reports the gaps', () => {
+    const declared = [
+      variable('caller_name', { defaultValue: 'there' }),
+      variable('company', { required: true }),
+      variable('agent', { defaultValue: 'Ava' }),
+    ];
+    const values = resolveVariableValues(declared, { caller_name: 'Sam', agent: '' });
+
+    expect(values).toEqual({ caller_name: 'Sam', agent: 'Ava' });
+    expect(substituteTemplateVariables('Hi {{caller_name}}, this is {{ agent }} from {{company}}.', values)).toEqual({
+      text: 'Hi Sam, this is Ava from {{company}}.',
+      unresolved: ['company'],
+    });
+    expect(missingRequiredVariables(declared, values)).toEqual(['company']);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * TemplateVariables — `{{name}}` placeholders in node content.
+ *
+ * A project declares the variables its prompt expects. Content is scanned for
+ * placeholders so undeclared and unused names can be flagged, and the preview
+ * fills placeholders with test values, falling back to each declared default.
+ */
+import type { PromptNode, TemplateVariable } from './models';
+
+export const MAX_TEMPLATE_VARIABLE_NAME_LENGTH = 64;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export interface TemplateVariableUsage {
+  name: string;
+  /** Nodes whose content uses the variable, in graph order. */
+  nodeIds: string[];
+}
+
+export type TemplateVariableWarning =
+  | { kind: 'undeclared'; name: string; nodeIds: string[] }
+  | { kind: 'unused'; name: string };
+
+export function normalizeVariableName(raw: string): string | null {
+  const name = raw.trim().replace(/^\{\{\s*|\s*\}\}$/g, '');
+  if (name.length > MAX_TEMPLATE_VARIABLE_NAME_LENGTH || !VARIABLE_NAME_PATTERN.test(name)) return null;
+  return name;
+}
+
+/** Variable names used in the text, once each, in order of first use. */
+export function extractTemplateVariables(text: string): string[] {
+  return [...new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]))];
+}
+
+export function collectVariableUsages(nodes: Array<Pick<PromptNode, 'id' | 'content'>>): TemplateVariableUsage[] {
+  const usages = new Map<string, string[]>();
+  for (const node of nodes) {
+    for (const name of extractTemplateVariables(node.content)) {
+      usages.set(name, [...(usages.get(name) ?? []), node.id]);
+    }
+  }
+  return Array.from(usages, ([name, nodeIds]) => ({ name, nodeIds }));
+}
+
+/** Placeholders with no declaration, then declarations no node uses. */
+export function lintTemplateVariables(
+  nodes: Array<Pick<PromptNode, 'id' | 'content'>>,
+  declared: TemplateVariable[],
+): TemplateVariableWarning[] {
+  const usages = collectVariableUsages(nodes);
+  const usedNames = new Set(usages.map((usage) => usage.name));
+  const declaredNames = new Set(declared.map((variable) => variable.name));
+  return [
+    ...usages
+      .filter((usage) => !declaredNames.has(usage.name))
+      .map((usage): TemplateVariableWarning => ({ kind: 'undeclared', ...usage })),
+    ...declared
+      .filter((variable) => !usedNames.has(variable.name))
+      .map((variable): TemplateVariableWarning => ({ kind: 'unused', name: variable.name })),
+  ];
+}
+
+/** A non-empty test value wins over the declared default; names with neither are left out. */
+export function resolveVariableValues(
+  declared: TemplateVariable[],
+  testValues: Record<string, string>,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const variable of declared) {
+    if (variable.defaultValue) values[variable.name] = variable.defaultValue;
+  }
+  for (const [name, value] of Object.entries(testValues)) {
+    if (value) values[name] = value;
+  }
+  return values;
+}
+
+/** Fills known placeholders and leaves the rest in place; lists the names left unfilled. */
+export function substituteTemplateVariables(
+  text: string,
+  values: Record<string, string>,
+): { text: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+  const filled = text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(values, name)) return values[name];
+    unresolved.add(name);
+    return placeholder;
+  });
+  return { text: filled, unresolved: [...unresolved] };
+}
+
+export function missingRequiredVariables(declared: TemplateVariable[], values: Record<string, string>): string[] {
+  return declared.filter((variable) => variable.required && !values[variable.name]).map((variable) => variable.name);
+}
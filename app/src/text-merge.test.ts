@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { mergeText } from './text-merge';
+
+describe('mergeText', () => {
+  const base = ['# Role', 'You are a receptionist.', '', '# Tone', 'Be brief.'].join('\n');
+
+  it('combines edits to different regions', () => {
+    const local = base.replace('You are a receptionist.', 'You are a dental receptionist.');
+    const remote = base.replace('Be brief.', 'Be brief and warm.');
+
+    expect(mergeText(base, local, remote)).toEqual({
+      merged: ['# Role', 'You are a dental receptionist.', '', '# Tone', 'Be brief and warm.'].join('\n'),
+      conflicted: false,
+    });
+  });
+
+  it('takes the only changed side unchanged', () => {
+    const remote = `${base}\nNever quote prices.`;
+    expect(mergeText(base, base, remote)).toEqual({ merged: remote, conflicted: false });
+    expect(mergeText(base, remote, base)).toEqual({ merged: remote, conflicted: false });
+  });
+
+  it('keeps both versions of a region edited on both sides', () => {
+    const local = base.replace('Be brief.', 'Be concise.');
+    const remote = base.replace('Be brief.', 'Be friendly.');
+
+    const result = mergeText(base, local, remote);
+    expect(result.conflicted).toBe(true);
+    expect(result.merged).toBe(['# Role', 'You are a receptionist.', '', '# Tone', 'Be concise.', 'Be friendly.'].join('\n'));
+  });
+
+  it('does not flag identical edits as a conflict', () => {
+    const edited = base.replace('Be brief.', 'Be concise.');
+    expect(mergeText(base, edited, edited)).toEqual({ merged: edited, conflicted: false });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * TextMerge — line-level three-way merge for concurrent node content edits.
+ *
+ * Non-overlapping changes from both sides are combined. When both sides change
+ * the same region differently, both versions are kept (local first) and the
+ * result is flagged as conflicted so the UI can ask for a review.
+ */
+import { computeDiff, type DiffEntry } from './diff';
+
+export interface TextMergeResult {
+  merged: string;
+  conflicted: boolean;
+}
+
+interface DiffHunk {
+  side: 'local' | 'remote';
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+export function mergeText(base: string, local: string, remote: string): TextMergeResult {
+  if (local === remote || remote === base) return { merged: local, conflicted: false };
+  if (local === base) return { merged: remote, conflicted: false };
+
+  const baseLines = base.split('\n');
+  const hunks = [
+    ...toHunks(computeDiff(base, local), 'local'),
+    ...toHunks(computeDiff(base, remote), 'remote'),
+  ].sort((left, right) => left.baseStart - right.baseStart || left.baseEnd - right.baseEnd);
+
+  const output: string[] = [];
+  let conflicted = false;
+  let cursor = 0;
+  let index = 0;
+  while (index < hunks.length) {
+    const group = [hunks[index]];
+    const start = hunks[index].baseStart;
+    let end = hunks[index].baseEnd;
+    index += 1;
+    // Touching hunks are grouped too, so edits on adjacent lines never interleave silently.
+    while (index < hunks.length && hunks[index].baseStart <= end) {
+      end = Math.max(end, hunks[index].baseEnd);
+      group.push(hunks[index]);
+      index += 1;
+    }
+
+    output.push(...baseLines.slice(cursor, start));
+    const localHunks = group.filter((hunk) => hunk.side === 'local');
+    const remoteHunks = group.filter((hunk) => hunk.side === 'remote');
+    if (remoteHunks.length === 0) {
+      output.push(...applyHunks(baseLines, start, end, localHunks));
+    } else if (localHunks.length === 0) {
+      output.push(...applyHunks(baseLines, start, end, remoteHunks));
+    } else {
+      const localRegion = applyHunks(baseLines, start, end, localHunks);
+      const remoteRegion = applyHunks(baseLines, start, end, remoteHunks);
+      if (localRegion.join('\n') === remoteRegion.join('\n')) {
+        output.push(...localRegion);
+      } else {
+        output.push(...localRegion, ...remoteRegion);
+        conflicted = true;
+      }
+    }
+    cursor = end;
+  }
+  output.push(...baseLines.slice(cursor));
+
+  return { merged: output.join('\n'), conflicted };
+}
+
+function toHunks(diff: DiffEntry[], side: DiffHunk['side']): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let baseIndex = 0;
+  let current: DiffHunk | null = null;
+  for (const entry of diff) {
+    if (entry.type === 'equal') {
+      current = null;
+      baseIndex += 1;
+      continue;
+    }
+    if (!current) {
+      current = { side, baseStart: baseIndex, baseEnd: baseIndex, lines: [] };
+      hunks.push(current);
+    }
+    if (entry.type === 'remove') {
+      baseIndex += 1;
+      current.baseEnd = baseIndex;
+    } else {
+      current.lines.push(entry.line);
+    }
+  }
+  return hunks;
+}
+
+function applyHunks(baseLines: string[], start: number, end: number, hunks: DiffHunk[]): string[] {
+  const region: string[] = [];
+  let cursor = start;
+  for (const hunk of hunks) {
+    region.push(...baseLines.slice(cursor, hunk.baseStart), ...hunk.lines);
+    cursor = hunk.baseEnd;
+  }
+  region.push(...baseLines.slice(cursor, end));
+  return region;
+}
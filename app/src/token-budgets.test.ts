@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import {
+  budgetUsage,
+  encodingForModel,
+  normalizeTokenBudget,
+  promptBudgetWarning,
+  readNodeTokenBudget,
+  withNodeTokenBudget,
+} from './token-budgets';
+
+describe('token budgets', () => {
+  it('picks o200k_base for GPT-4o and later OpenAI models', () => {
+    expect(encodingForModel('GPT-4o')).toBe('o200k_base');
+    expect(encodingForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(encodingForModel('gpt-4.1')).toBe('o200k_base');
+    expect(encodingForModel('o3-mini')).toBe('o200k_base');
+    expect(encodingForModel('GPT-4 Turbo')).toBe('cl100k_base');
+    expect(encodingForModel('Claude 3.5')).toBe('cl100k_base');
+    expect(encodingForModel('o10-preview')).toBe('cl100k_base');
+    expect(encodingForModel(undefined)).toBe('cl100k_base');
+  });
+
+  it('stores node budgets in meta and drops invalid ones', () => {
+    const meta = withNodeTokenBudget({ color: '#fff' }, 1500);
+    expect(meta).toEqual({ color: '#fff', tokenBudget: '1500' });
+    expect(readNodeTokenBudget(meta)).toBe(1500);
+    expect(withNodeTokenBudget(meta, null)).toEqual({ color: '#fff' });
+    expect(readNodeTokenBudget({ tokenBudget: 'lots' })).toBeNull();
+    expect(normalizeTokenBudget('4,000')).toBe(4000);
+    expect(normalizeTokenBudget(0)).toBeNull();
+  });
+
+  it('grades usage and warns only past the budget', () => {
+    expect(budgetUsage(100, null)).toBeNull();
+    expect(budgetUsage(500, 1000)?.level).toBe('ok');
+    expect(budgetUsage(900, 1000)?.level).toBe('near');
+    expect(budgetUsage(1000, 1000)?.level).toBe('near');
+
+    const over = budgetUsage(4210, 4000);
+    expect(over).toMatchObject({ level: 'over', ratio: 1.0525 });
+    expect(promptBudgetWarning(over)).toBe('The assembled prompt is 4,210 tokens, 210 over the project budget of 4,000.');
+    expect(promptBudgetWarning(budgetUsage(900, 1000))).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * TokenBudgets — model-aware token encodings and budget limits.
+ *
+ * The encoding follows the project's model: `o200k_base` for GPT-4o and later
+ * OpenAI models, `cl100k_base` for GPT-4/3.5 and, as the closest available
+ * approximation, for models from other vendors. A project has an optional budget
+ * for the assembled prompt; a node has an optional budget for its own content.
+ */
+export type TokenEncoding = 'cl100k_base' | 'o200k_base';
+export type BudgetLevel = 'ok' | 'near' | 'over';
+
+export const DEFAULT_TOKEN_ENCODING: TokenEncoding = 'cl100k_base';
+export const NODE_TOKEN_BUDGET_META_KEY = 'tokenBudget';
+/** Share of the budget from which usage is shown as nearly spent. */
+export const BUDGET_NEAR_RATIO = 0.9;
+
+/** Bar and text color of each budget level. */
+export const BUDGET_LEVEL_COLORS: Record<BudgetLevel, string> = {
+  ok: '#10b981',
+  near: '#f59e0b',
+  over: '#ef4444',
+};
+
+export interface BudgetUsage {
+  tokens: number;
+  budget: number;
+  /** tokens / budget; above 1 when over. */
+  ratio: number;
+  level: BudgetLevel;
+}
+
+const O200K_MODEL_PATTERN = /^(gpt-?4o|gpt-?4\.[1-9]|gpt-?5|chatgpt-?4o|o[1-9](?![0-9]))/;
+
+export function encodingForModel(model: string | null | undefined): TokenEncoding {
+  const name = (model ?? '').trim().toLowerCase().replace(/\s+/g, '-');
+  return O200K_MODEL_PATTERN.test(name) ? 'o200k_base' : DEFAULT_TOKEN_ENCODING;
+}
+
+/** A positive whole number of tokens, or null for no budget. */
+export function normalizeTokenBudget(value: unknown): number | null {
+  const parsed = typeof value === 'string' ? Number(value.replace(/[\s,_]/g, '')) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed) || parsed < 1) return null;
+  return Math.floor(parsed);
+}
+
+export function readNodeTokenBudget(meta: Record<string, string> | null | undefined): number | null {
+  return normalizeTokenBudget(meta?.[NODE_TOKEN_BUDGET_META_KEY]);
+}
+
+export function withNodeTokenBudget(meta: Record<string, string> | null | undefined, budget: number | null): Record<string, string> {
+  const nextMeta = { ...(meta ?? {}) };
+  const normalized = normalizeTokenBudget(budget);
+  if (normalized === null) {
+    delete nextMeta[NODE_TOKEN_BUDGET_META_KEY];
+  } else {
+    nextMeta[NODE_TOKEN_BUDGET_META_KEY] = String(normalized);
+  }
+  return nextMeta;
+}
+
+/** Null when there is no budget. */
+export function budgetUsage(tokens: number, budget: number | null | undefined): BudgetUsage | null {
+  if (!budget || budget < 1) return null;
+  const ratio = tokens / budget;
+  return { tokens, budget, ratio, level: ratio > 1 ? 'over' : ratio >= BUDGET_NEAR_RATIO ? 'near' : 'ok' };
+}
+
+/** Warning for an assembled prompt over its budget; null otherwise. */
+export function promptBudgetWarning(usage: BudgetUsage | null): string | null {
+  if (usage?.level !== 'over') return null;
+  const excess = usage.tokens - usage.budget;
+  return `The assembled prompt is ${usage.tokens.toLocaleString('en-US')} tokens, ${excess.toLocaleString('en-US')} over the project budget of ${usage.budget.toLocaleString('en-US')}.`;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { contentHash, createTokenChunkCache, splitTokenChunks, tokenChunkKey } from './token-chunks';
+
+describe('token chunks', () => {
+  it('splits before lines that start a new piece and joins back to the text', () => {
+    const text = 'Role: agent\n\n  indented\nNext line\n// comment\n/path\nEnd';
+    const chunks = splitTokenChunks(text);
+    expect(chunks).toEqual(['Role: agent\n\n  indented\n', 'Next line\n// comment\n/path\n', 'End']);
+    expect(chunks.join('')).toBe(text);
+    expect(splitTokenChunks('')).toEqual([]);
+    expect(splitTokenChunks('trailing\n\n')).toEqual(['trailing\n\n']);
+  });
+
+  it('keys chunks by encoding, content hash and length', () => {
+    expect(contentHash('hello')).toBe(contentHash('hello'));
+    expect(contentHash('hello')).not.toBe(contentHash('hellp'));
+    expect(tokenChunkKey('cl100k_base', 'hello')).toBe(`cl100k_base:${contentHash('hello')}:5`);
+    expect(tokenChunkKey('cl100k_base', 'hello')).not.toBe(tokenChunkKey('o200k_base', 'hello'));
+  });
+
+  it('drops the least recently used entries past the limit', () => {
+    const cache = createTokenChunkCache(2);
+    cache.set('a', ['a']);
+    cache.set('b', ['b']);
+    expect(cache.get('a')).toEqual(['a']);
+    cache.set('c', ['c']);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual(['a']);
+    expect(cache.get('c')).toEqual(['c']);
+    expect(cache.size).toBe(2);
+  });
+});
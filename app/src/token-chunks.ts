@@ -0,0 +1,77 @@
+/**
+ * TokenChunks — text split where BPE tokens cannot straddle, and a cache of
+ * chunk tokens keyed by content hash.
+ *
+ * cl100k_base and o200k_base both pre-tokenize so that a newline followed by a
+ * character other than whitespace or `/` always ends a piece, and merges never
+ * cross pieces. Encoding the chunks between such points one by one gives exactly
+ * the tokens of encoding the whole text, so an edit only re-encodes the chunks it
+ * touched.
+ */
+import type { TokenEncoding } from './token-budgets';
+
+/** After a newline, before the first character of a line that is not whitespace or `/`. */
+const CHUNK_BOUNDARY_PATTERN = /\n(?=[^\s/])/g;
+
+export interface TokenChunkCache {
+  get(key: string): string[] | undefined;
+  set(key: string, tokens: string[]): void;
+  readonly size: number;
+}
+
+/** Chunks that join back to the text; none for empty text. */
+export function splitTokenChunks(text: string): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  for (const match of text.matchAll(CHUNK_BOUNDARY_PATTERN)) {
+    const end = match.index + 1;
+    chunks.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) chunks.push(text.slice(start));
+  return chunks;
+}
+
+/** 53-bit string hash (cyrb53) as hex. */
+export function contentHash(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/** The length is part of the key so a hash collision also needs equal lengths. */
+export function tokenChunkKey(encoding: TokenEncoding, chunk: string): string {
+  return `${encoding}:${contentHash(chunk)}:${chunk.length}`;
+}
+
+/** Least recently used entries are dropped past `maxEntries`. */
+export function createTokenChunkCache(maxEntries = 20000): TokenChunkCache {
+  const entries = new Map<string, string[]>();
+  return {
+    get(key) {
+      const tokens = entries.get(key);
+      if (tokens) {
+        entries.delete(key);
+        entries.set(key, tokens);
+      }
+      return tokens;
+    },
+    set(key, tokens) {
+      entries.delete(key);
+      entries.set(key, tokens);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
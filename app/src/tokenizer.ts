@@ -1,40 +1,114 @@
 /**
- * Tokenizer — Real OpenAI BPE tokenization via tiktoken (cl100k_base / GPT-4).
- * Falls back to regex approximation while WASM loads.
+ * Tokenizer — Real OpenAI BPE tokenization via tiktoken (cl100k_base or o200k_base,
+ * see `encodingForModel`), encoded in a Web Worker.
+ *
+ * Text is encoded in chunks whose tokens are cached by content hash (see
+ * token-chunks.ts), so an edit re-encodes only the chunks it touched and returning
+ * to a node re-encodes nothing. The synchronous helpers read the cache, fill gaps
+ * with a regex approximation and queue the missing chunks; `prepareTokens` resolves
+ * once the worker has encoded them, and `onTokensReady` listeners are told.
  */
-import { init, get_encoding, type Tiktoken } from 'tiktoken/init';
+import { DEFAULT_TOKEN_ENCODING, type TokenEncoding } from './token-budgets';
+import { createTokenChunkCache, splitTokenChunks, tokenChunkKey } from './token-chunks';
+import type { TokenizeRequest, TokenizeResponse } from './tokenizer.worker';
 
-// ── WASM lazy initialization ──────────────────────────────
-let encoder: Tiktoken | null = null;
-let initStarted = false;
+// ── Worker and chunk cache ────────────────────────────────
+const chunkCache = createTokenChunkCache();
+/** Chunk keys sent to the worker and not answered yet. */
+const inFlight = new Map<string, Promise<void>>();
+const pendingRequests = new Map<number, { chunks: string[]; encoding: TokenEncoding; resolve: () => void }>();
+const readyListeners = new Set<() => void>();
+let worker: Worker | null = null;
+let workerFailed = false;
+let workerAnswered = false;
+let nextRequestId = 1;
 let onReady: (() => void) | null = null;
 
-/** Promise that resolves once tiktoken WASM is ready. */
+/** Promise that resolves once the worker has answered, or failed to load tiktoken. */
 export const tiktokenReady: Promise<void> = new Promise((resolve) => {
   onReady = resolve;
 });
 
-async function ensureEncoder(): Promise<void> {
-  if (encoder || initStarted) return;
-  initStarted = true;
+function ensureWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
   try {
-    // Fetch the WASM binary from node_modules via Vite
-    const wasmModule = await import('tiktoken/tiktoken_bg.wasm?url');
-    const wasmUrl: string = wasmModule.default;
-    await init(async (imports: WebAssembly.Imports) => {
-      const res = await fetch(wasmUrl);
-      return WebAssembly.instantiate(await res.arrayBuffer(), imports);
-    });
-    encoder = get_encoding('cl100k_base');
-    onReady?.();
+    worker = new Worker(new URL('./tokenizer.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<TokenizeResponse>) => handleResponse(event.data));
+    worker.addEventListener('error', (event) => failWorker(event.message));
   } catch (e) {
-    console.warn('tiktoken WASM init failed, using regex fallback:', e);
-    onReady?.();
+    failWorker(e instanceof Error ? e.message : String(e));
+  }
+  return worker;
+}
+
+function handleResponse(response: TokenizeResponse): void {
+  const request = pendingRequests.get(response.id);
+  pendingRequests.delete(response.id);
+  if ('error' in response) {
+    failWorker(response.error);
+    return;
   }
+  workerAnswered = true;
+  onReady?.();
+  if (!request) return;
+  request.chunks.forEach((chunk, index) => {
+    const key = tokenChunkKey(request.encoding, chunk);
+    chunkCache.set(key, response.tokens[index] ?? []);
+    inFlight.delete(key);
+  });
+  request.resolve();
+  readyListeners.forEach((listener) => listener());
 }
 
-// Start loading immediately on module load
-ensureEncoder();
+/** Settles everything outstanding; from here on the regex fallback is used. */
+function failWorker(reason: string): void {
+  if (workerFailed) return;
+  console.warn('tiktoken worker failed, using regex fallback:', reason);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  pendingRequests.forEach((request) => request.resolve());
+  pendingRequests.clear();
+  inFlight.clear();
+  onReady?.();
+}
+
+// Start loading tiktoken in the worker immediately on module load
+ensureWorker()?.postMessage({ id: 0, encoding: DEFAULT_TOKEN_ENCODING, chunks: [] } satisfies TokenizeRequest);
+
+/**
+ * Resolves once every chunk of the text is encoded (or the worker is unavailable).
+ * Chunks already queued by an earlier call are not sent again.
+ */
+export function prepareTokens(text: string, encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING): Promise<void> {
+  const waits: Promise<void>[] = [];
+  const missing: string[] = [];
+  for (const chunk of new Set(splitTokenChunks(text))) {
+    const key = tokenChunkKey(encoding, chunk);
+    if (chunkCache.get(key)) continue;
+    const queued = inFlight.get(key);
+    if (queued) waits.push(queued);
+    else missing.push(chunk);
+  }
+
+  const target = missing.length > 0 ? ensureWorker() : null;
+  if (target) {
+    const id = nextRequestId++;
+    const request = new Promise<void>((resolve) => {
+      pendingRequests.set(id, { chunks: missing, encoding, resolve });
+    });
+    missing.forEach((chunk) => inFlight.set(tokenChunkKey(encoding, chunk), request));
+    target.postMessage({ id, encoding, chunks: missing } satisfies TokenizeRequest);
+    waits.push(request);
+  }
+  return Promise.all(waits).then(() => undefined);
+}
+
+/** Called after each batch of chunks the worker encodes; returns an unsubscribe function. */
+export function onTokensReady(listener: () => void): () => void {
+  readyListeners.add(listener);
+  return () => readyListeners.delete(listener);
+}
 
 // ── Fallback regex (GPT-2 BPE pre-tokenization pattern) ──
 const GPT2_PATTERN =
@@ -48,33 +122,30 @@ export interface Token {
 
 const COLOR_CLASSES = ['token-1', 'token-2', 'token-3', 'token-4', 'token-5', 'token-6'];
 
+/** Token texts from the cache, regex pieces for chunks not encoded yet (which are then queued). */
+function tokenTexts(text: string, encoding: TokenEncoding): string[] {
+  const texts: string[] = [];
+  let missing = false;
+  for (const chunk of splitTokenChunks(text)) {
+    const cached = chunkCache.get(tokenChunkKey(encoding, chunk));
+    if (cached) {
+      texts.push(...cached);
+    } else {
+      missing = true;
+      texts.push(...(chunk.match(GPT2_PATTERN) ?? []));
+    }
+  }
+  if (missing && !workerFailed) void prepareTokens(text, encoding);
+  return texts;
+}
+
 /**
  * Tokenize text into displayable tokens.
- * Uses real tiktoken if WASM is loaded, regex fallback otherwise.
+ * Uses cached tiktoken chunks, regex fallback for the rest.
  */
-export function tokenize(text: string): Token[] {
+export function tokenize(text: string, encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING): Token[] {
   if (!text) return [];
-
-  if (encoder) {
-    // Real tiktoken tokenization
-    const ids = encoder.encode(text);
-    const tokens: Token[] = [];
-    for (let i = 0; i < ids.length; i++) {
-      const bytes = encoder.decode_single_token_bytes(ids[i]);
-      const decoded = new TextDecoder('utf-8', { fatal: false }).decode(bytes);
-      tokens.push({
-        text: decoded,
-        index: i,
-        colorClass: COLOR_CLASSES[i % COLOR_CLASSES.length],
-      });
-    }
-    return tokens;
-  }
-
-  // Regex fallback
-  const matches = text.match(GPT2_PATTERN);
-  if (!matches) return [];
-  return matches.map((tok, i) => ({
+  return tokenTexts(text, encoding).map((tok, i) => ({
     text: tok,
     index: i,
     colorClass: COLOR_CLASSES[i % COLOR_CLASSES.length],
@@ -84,18 +155,25 @@ export function tokenize(text: string): Token[] {
 /**
  * Count tokens in text.
  */
-export function countTokens(text: string): number {
+export function countTokens(text: string, encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING): number {
   if (!text) return 0;
-  if (encoder) {
-    return encoder.encode(text).length;
-  }
-  const matches = text.match(GPT2_PATTERN);
-  return matches ? matches.length : 0;
+  return tokenTexts(text, encoding).length;
+}
+
+/** Exact tokens once the worker has encoded the text. */
+export async function tokenizeAsync(text: string, encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING): Promise<Token[]> {
+  await prepareTokens(text, encoding);
+  return tokenize(text, encoding);
+}
+
+export async function countTokensAsync(text: string, encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING): Promise<number> {
+  await prepareTokens(text, encoding);
+  return countTokens(text, encoding);
 }
 
-/** Whether real tiktoken is active (WASM loaded). */
+/** Whether real tiktoken is active (the worker has answered). */
 export function isRealTokenizer(): boolean {
-  return encoder !== null;
+  return workerAnswered && !workerFailed;
 }
 
 function escapeHTML(str: string): string {
@@ -107,11 +185,11 @@ function escapeHTML(str: string): string {
 /**
  * Render text as highlighted token spans. Newlines become <br/>.
  */
-export function toHighlightedHTML(text: string, active: boolean): string {
+export function toHighlightedHTML(text: string, active: boolean, encoding: TokenEncoding = DEFAULT_TOKEN_ENCODING): string {
   if (!text) return '';
   const normalized = text.replace(/\r\n?/g, '\n');
   if (!active) return escapeHTML(normalized).replace(/\n/g, '<br/>');
-  const tokens = tokenize(normalized);
+  const tokens = tokenize(normalized, encoding);
   return tokens
     .map((t) => {
       const escaped = escapeHTML(t.text);
@@ -0,0 +1,72 @@
+/**
+ * Tokenizer worker — encodes text chunks with tiktoken off the main thread.
+ *
+ * Replies with the text of every token, in order, for each chunk of a request.
+ * Special-token markers in the text are encoded as plain text.
+ */
+import { init, get_encoding, type Tiktoken } from 'tiktoken/init';
+import type { TokenEncoding } from './token-budgets';
+
+export interface TokenizeRequest {
+  id: number;
+  encoding: TokenEncoding;
+  chunks: string[];
+}
+
+export type TokenizeResponse =
+  | { id: number; tokens: string[][] }
+  | { id: number; error: string };
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<TokenizeRequest>) => void) | null;
+  postMessage(message: TokenizeResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const encoders = new Map<TokenEncoding, Tiktoken>();
+// One streaming decoder: bytes of a character split across tokens are shown with the token that completes it.
+const decoder = new TextDecoder('utf-8', { fatal: false });
+let wasmReady: Promise<void> | null = null;
+
+function loadWasm(): Promise<void> {
+  wasmReady ??= (async () => {
+    const wasmModule = await import('tiktoken/tiktoken_bg.wasm?url');
+    const wasmUrl: string = wasmModule.default;
+    await init(async (imports: WebAssembly.Imports) => {
+      const res = await fetch(wasmUrl);
+      return WebAssembly.instantiate(await res.arrayBuffer(), imports);
+    });
+  })();
+  return wasmReady;
+}
+
+function encoderFor(encoding: TokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = get_encoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+function tokenTexts(encoder: Tiktoken, chunk: string): string[] {
+  const texts: string[] = [];
+  for (const id of encoder.encode(chunk, [], [])) {
+    texts.push(decoder.decode(encoder.decode_single_token_bytes(id), { stream: true }));
+  }
+  const rest = decoder.decode();
+  if (rest && texts.length > 0) texts[texts.length - 1] += rest;
+  return texts;
+}
+
+scope.onmessage = (event) => {
+  const { id, encoding, chunks } = event.data;
+  loadWasm()
+    .then(() => {
+      const encoder = encoderFor(encoding);
+      scope.postMessage({ id, tokens: chunks.map((chunk) => tokenTexts(encoder, chunk)) });
+    })
+    .catch((error: unknown) => {
+      scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    });
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptNode } from './models';
+import {
+  daysUntilPurge,
+  isTrashExpired,
+  restorableConnections,
+  sortTrashEntries,
+  takeTrashedNodes,
+  TRASH_RETENTION_DAYS,
+  type TrashEntry,
+} from './trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function node(id: string): PromptNode {
+  return { id, type: 'custom', label: `Node ${id}`, icon: 'widgets', x: 0, y: 0, content: '', meta: {} };
+}
+
+function nodeEntry(id: string, deletedAt: string): TrashEntry {
+  return { kind: 'node', id, deletedAt, projectId: 'p1', node: node(id), sortOrder: 0, connections: [] };
+}
+
+describe('trash', () => {
+  it('expires entries after the retention window', () => {
+    const deletedAt = '2026-10-01T00:00:00.000Z';
+    const deletedMs = Date.parse(deletedAt);
+
+    expect(daysUntilPurge({ deletedAt }, deletedMs)).toBe(TRASH_RETENTION_DAYS);
+    expect(daysUntilPurge({ deletedAt }, deletedMs + 1.5 * DAY_MS)).toBe(TRASH_RETENTION_DAYS - 1);
+    expect(isTrashExpired({ deletedAt }, deletedMs + TRASH_RETENTION_DAYS * DAY_MS)).toBe(true);
+    expect(isTrashExpired({ deletedAt: 'not a date' })).toBe(true);
+  });
+
+  it('reattaches only connections whose endpoints still exist', () => {
+    const project = {
+      nodes: [node('a'), node('b'), node('c')],
+      connections: [{ id: 'c-existing', from: 'a', to: 'c' }],
+    };
+
+    const restored = restorableConnections(project, [
+      { id: 'c1', from: 'a', to: 'b' },
+      { id: 'c2', from: 'b', to: 'gone' },
+      { id: 'c3', from: 'a', to: 'c' },
+      { id: 'c-existing', from: 'b', to: 'c' },
+    ]);
+
+    expect(restored.map((connection) => connection.id)).toEqual(['c1']);
+  });
+
+  it('lists the most recent deletions first', () => {
+    const entries = [
+      nodeEntry('old', '2026-10-01T00:00:00.000Z'),
+      nodeEntry('new', '2026-10-18T00:00:00.000Z'),
+      nodeEntry('mid', '2026-10-10T00:00:00.000Z'),
+    ];
+
+    expect(sortTrashEntries(entries).map((entry) => entry.id)).toEqual(['new', 'mid', 'old']);
+  });
+
+  it('keeps nodes a restored version brings back out of a later purge', () => {
+    const deletedAt = '2026-09-01T00:00:00.000Z';
+    const trash = [
+      nodeEntry('restored', deletedAt),
+      nodeEntry('still-trashed', deletedAt),
+      { ...nodeEntry('restored', deletedAt), projectId: 'p2' },
+    ];
+
+    const { taken, remaining } = takeTrashedNodes(trash, 'p1', new Set(['restored', 'new']));
+    const purged = remaining.filter((entry) => isTrashExpired(entry, Date.parse('2026-10-19T00:00:00.000Z')));
+
+    expect(taken.map((entry) => entry.id)).toEqual(['restored']);
+    expect(purged.map((entry) => [entry.id, entry.kind === 'node' ? entry.projectId : null])).toEqual([
+      ['still-trashed', 'p1'],
+      ['restored', 'p2'],
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Trash — soft-deleted projects, nodes and transcript flows awaiting restore or purge.
+ *
+ * An entry keeps everything needed to put the item back: a trashed node keeps its
+ * position and connections, a trashed transcript flow keeps its linked project.
+ * Entries older than the retention window are purged permanently.
+ */
+import type { Connection, Project, PromptNode } from './models';
+import type { TranscriptFlowDraft } from './store';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TrashEntry =
+  | { kind: 'project'; id: string; deletedAt: string; project: Project; transcriptSetId: string | null }
+  | {
+    kind: 'node';
+    id: string;
+    deletedAt: string;
+    projectId: string;
+    node: PromptNode;
+    sortOrder: number;
+    connections: Connection[];
+  }
+  | { kind: 'transcript-flow'; id: string; deletedAt: string; draft: TranscriptFlowDraft; project: Project | null };
+
+export type TrashEntryKind = TrashEntry['kind'];
+
+export type NodeTrashEntry = Extract<TrashEntry, { kind: 'node' }>;
+
+export function trashExpiresAt(entry: Pick<TrashEntry, 'deletedAt'>): number {
+  return Date.parse(entry.deletedAt) + TRASH_RETENTION_DAYS * DAY_MS;
+}
+
+/** Entries with an unreadable timestamp count as expired so they cannot linger forever. */
+export function isTrashExpired(entry: Pick<TrashEntry, 'deletedAt'>, now = Date.now()): boolean {
+  const expiresAt = trashExpiresAt(entry);
+  return Number.isNaN(expiresAt) || expiresAt <= now;
+}
+
+/** Whole days left before the entry is purged, rounded up; 0 once it has expired. */
+export function daysUntilPurge(entry: Pick<TrashEntry, 'deletedAt'>, now = Date.now()): number {
+  if (isTrashExpired(entry, now)) return 0;
+  return Math.ceil((trashExpiresAt(entry) - now) / DAY_MS);
+}
+
+export function trashEntryLabel(entry: TrashEntry): string {
+  switch (entry.kind) {
+    case 'project':
+      return entry.project.name;
+    case 'node':
+      return entry.node.label;
+    case 'transcript-flow':
+      return entry.draft.name;
+  }
+}
+
+/** Newest deletions first. */
+export function sortTrashEntries(entries: TrashEntry[]): TrashEntry[] {
+  return [...entries].sort((left, right) => right.deletedAt.localeCompare(left.deletedAt));
+}
+
+/**
+ * Connections of a trashed node that can be reattached: both ends must exist in the
+ * project and the edge must not already be there under another id.
+ */
+export function restorableConnections(
+  project: Pick<Project, 'nodes' | 'connections'>,
+  connections: Connection[],
+): Connection[] {
+  const nodeIds = new Set(project.nodes.map((node) => node.id));
+  const existingIds = new Set(project.connections.map((connection) => connection.id));
+  const existingEdges = new Set(project.connections.map((connection) => `${connection.from}\u0000${connection.to}`));
+  return connections.filter((connection) => {
+    const edge = `${connection.from}\u0000${connection.to}`;
+    if (!nodeIds.has(connection.from) || !nodeIds.has(connection.to)) return false;
+    if (existingIds.has(connection.id) || existingEdges.has(edge)) return false;
+    existingEdges.add(edge);
+    return true;
+  });
+}
+
+/**
+ * Takes the project's trashed nodes that a restored graph brings back out of the
+ * trash, so a later purge cannot delete nodes that are live again.
+ */
+export function takeTrashedNodes(
+  entries: TrashEntry[],
+  projectId: string,
+  nodeIds: ReadonlySet<string>,
+): { taken: NodeTrashEntry[]; remaining: TrashEntry[] } {
+  const taken: NodeTrashEntry[] = [];
+  const remaining: TrashEntry[] = [];
+  for (const entry of entries) {
+    if (entry.kind === 'node' && entry.projectId === projectId && nodeIds.has(entry.id)) {
+      taken.push(entry);
+    } else {
+      remaining.push(entry);
+    }
+  }
+  return { taken, remaining };
+}
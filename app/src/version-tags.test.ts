@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptNode } from './models';
+import { listVersionTags, normalizeReleaseTag, samePromptGraph } from './version-tags';
+
+function node(id: string, x = 0): PromptNode {
+  return { id, type: 'custom', label: `Node ${id}`, icon: 'widgets', x, y: 0, content: `# ${id}`, meta: {} };
+}
+
+describe('release tags', () => {
+  it('normalizes tag names and rejects invalid ones', () => {
+    expect(normalizeReleaseTag('  Prod ')).toBe('prod');
+    expect(normalizeReleaseTag('Release Candidate')).toBe('release-candidate');
+    expect(normalizeReleaseTag('v1.4')).toBe('v1.4');
+    expect(normalizeReleaseTag('-draft')).toBeNull();
+    expect(normalizeReleaseTag('')).toBeNull();
+    expect(normalizeReleaseTag('x'.repeat(33))).toBeNull();
+  });
+
+  it('lists the production tag first', () => {
+    const tags = { staging: 'v2', prod: 'v2', 'v1.4': 'v2', beta: 'v1' };
+
+    expect(listVersionTags(tags, 'v2')).toEqual(['prod', 'staging', 'v1.4']);
+    expect(listVersionTags(undefined, 'v2')).toEqual([]);
+  });
+
+  it('ignores canvas layout when comparing graphs', () => {
+    const released = { nodes: [node('a'), node('b')], connections: [{ id: 'c1', from: 'a', to: 'b' }] };
+    const moved = { nodes: [node('b', 40), node('a', 120)], connections: [{ id: 'c9', from: 'a', to: 'b' }] };
+    const edited = { ...moved, nodes: [{ ...node('a'), content: '# changed' }, node('b')] };
+
+    expect(samePromptGraph(released, moved)).toBe(true);
+    expect(samePromptGraph(released, edited)).toBe(false);
+  });
+});
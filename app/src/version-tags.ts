@@ -0,0 +1,52 @@
+/**
+ * VersionTags — named release pointers (e.g. `prod`, `staging`, `v1.4`) on prompt versions.
+ *
+ * Each tag names at most one version of a project. `prod` marks the version
+ * deployed to live agents; the canvas is checked against it for drift.
+ */
+import type { PromptGraphSnapshot } from './models';
+
+export const PRODUCTION_TAG = 'prod';
+export const MAX_RELEASE_TAG_LENGTH = 32;
+
+const RELEASE_TAG_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/** Lowercases and dashes a tag name; returns null when it is not a valid tag. */
+export function normalizeReleaseTag(raw: string): string | null {
+  const tag = raw.trim().toLowerCase().replace(/\s+/g, '-');
+  if (!tag || tag.length > MAX_RELEASE_TAG_LENGTH || !RELEASE_TAG_PATTERN.test(tag)) return null;
+  return tag;
+}
+
+/** Tags pointing at `versionId`, production first. */
+export function listVersionTags(tags: Record<string, string> | undefined, versionId: string): string[] {
+  return Object.entries(tags ?? {})
+    .filter(([, taggedVersionId]) => taggedVersionId === versionId)
+    .map(([tag]) => tag)
+    .sort((left, right) => {
+      if (left === PRODUCTION_TAG) return -1;
+      if (right === PRODUCTION_TAG) return 1;
+      return left.localeCompare(right);
+    });
+}
+
+/** Compares what a graph sends to the model; node positions on the canvas are ignored. */
+export function samePromptGraph(left: PromptGraphSnapshot, right: PromptGraphSnapshot): boolean {
+  return promptGraphKey(left) === promptGraphKey(right);
+}
+
+function promptGraphKey(snapshot: PromptGraphSnapshot): string {
+  const nodes = snapshot.nodes
+    .map((node) => [
+      node.id,
+      node.type,
+      node.label,
+      node.content,
+      Object.entries(node.meta).sort(([left], [right]) => left.localeCompare(right)),
+    ] as const)
+    .sort(([left], [right]) => left.localeCompare(right));
+  const connections = snapshot.connections
+    .map((connection) => [connection.from, connection.to, connection.label?.trim() ?? ''] as const)
+    .sort((left, right) => left.join('\u0000').localeCompare(right.join('\u0000')));
+  return JSON.stringify({ nodes, connections });
+}
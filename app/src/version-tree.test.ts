@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptVersion } from './models';
+import { buildVersionTree, getProjectHead, getVersionParentId } from './version-tree';
+
+function version(id: string, extra: Partial<PromptVersion> = {}): PromptVersion {
+  return { id, timestamp: 0, content: '', notes: id, snapshot: null, ...extra };
+}
+
+describe('version tree', () => {
+  it('chains versions saved before branching in list order', () => {
+    const versions = [version('v1'), version('v2'), version('v3')];
+
+    expect(versions.map((_item, index) => getVersionParentId(versions, index))).toEqual([null, 'v1', 'v2']);
+    expect(getProjectHead({ versions })).toEqual({ branch: 'main', versionId: 'v3' });
+  });
+
+  it('lays branches out in lanes with the head marked', () => {
+    const versions = [
+      version('v1'),
+      version('v2', { parentId: 'v1', branch: 'main' }),
+      version('v3', { parentId: 'v1', branch: 'experiment' }),
+      version('v4', { parentId: 'v2', branch: 'main' }),
+    ];
+    const tree = buildVersionTree({ versions, head: { branch: 'experiment', versionId: 'v3' } });
+
+    expect(tree.branches).toEqual(['main', 'experiment']);
+    expect(tree.rows.map((row) => [row.version.id, row.lane, row.parentId, row.isHead])).toEqual([
+      ['v4', 0, 'v2', false],
+      ['v3', 1, 'v1', true],
+      ['v2', 0, 'v1', false],
+      ['v1', 0, null, false],
+    ]);
+  });
+
+  it('lists a freshly checked-out branch before it has versions', () => {
+    const tree = buildVersionTree({ versions: [version('v1')], head: { branch: 'hotfix', versionId: 'v1' } });
+
+    expect(tree.branches).toEqual(['main', 'hotfix']);
+    expect(tree.rows[0].isHead).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * VersionTree — branch structure of a project's saved versions.
+ *
+ * Versions saved before branching existed have no parent pointer; each of them
+ * is treated as a child of the version saved before it on the default branch.
+ */
+import type { Project, ProjectHead, PromptVersion } from './models';
+
+export const DEFAULT_BRANCH = 'main';
+
+export interface VersionTreeRow {
+  version: PromptVersion;
+  /** Position in the project's version list. */
+  index: number;
+  branch: string;
+  lane: number;
+  parentId: string | null;
+  isHead: boolean;
+}
+
+export interface VersionTree {
+  /** Newest first. */
+  rows: VersionTreeRow[];
+  branches: string[];
+}
+
+export function getVersionBranch(version: PromptVersion): string {
+  return version.branch?.trim() || DEFAULT_BRANCH;
+}
+
+export function getVersionParentId(versions: PromptVersion[], index: number): string | null {
+  const version = versions[index];
+  if (!version) return null;
+  if (version.parentId !== undefined) return version.parentId;
+  return index > 0 ? versions[index - 1].id : null;
+}
+
+/** The branch and version the working graph is based on. */
+export function getProjectHead(project: Pick<Project, 'head' | 'versions'>): ProjectHead {
+  if (project.head) return project.head;
+  const latest = project.versions[project.versions.length - 1];
+  return {
+    branch: latest ? getVersionBranch(latest) : DEFAULT_BRANCH,
+    versionId: latest?.id ?? null,
+  };
+}
+
+export function listBranches(versions: PromptVersion[], head: ProjectHead | null = null): string[] {
+  const branches = [DEFAULT_BRANCH];
+  for (const version of versions) {
+    const branch = getVersionBranch(version);
+    if (!branches.includes(branch)) branches.push(branch);
+  }
+  if (head && !branches.includes(head.branch)) branches.push(head.branch);
+  return branches;
+}
+
+export function buildVersionTree(project: Pick<Project, 'head' | 'versions'>): VersionTree {
+  const head = getProjectHead(project);
+  const branches = listBranches(project.versions, head);
+  const rows = project.versions.map((version, index): VersionTreeRow => {
+    const branch = getVersionBranch(version);
+    return {
+      version,
+      index,
+      branch,
+      lane: branches.indexOf(branch),
+      parentId: getVersionParentId(project.versions, index),
+      isHead: version.id === head.versionId,
+    };
+  });
+  return { rows: rows.reverse(), branches };
+}
@@ -1,13 +1,31 @@
 /**
  * Canvas View — Node graph editor with drag/drop (matches page2.html mockup)
  */
-import { store } from '../store';
+import { store, type PromptAssemblyMode } from '../store';
+import { GRAPH_EVENT_TYPES } from '../store-events';
+import { joinProjectCollaboration, type CollaboratorPresence } from '../collaboration';
 import { router } from '../router';
-import { BLOCK_PALETTE, PromptNode, uid, CustomNodeTemplate } from '../models';
+import { BLOCK_PALETTE, CUSTOM_TEMPLATE_META_KEY, PromptNode, uid, CustomNodeTemplate } from '../models';
 import { themeToggleHTML, wireThemeToggle } from '../theme';
 import { clearProjectEscapeToCanvas, projectViewTabsHTML, wireProjectViewTabs } from './project-nav';
-import { customPrompt, customConfirm } from '../dialogs';
+import { customAlert, customPrompt, customConfirm } from '../dialogs';
 import { buildNodeColorStyles, readNodeColorMeta } from '../node-colors';
+import { readHistoryShortcut } from '../history';
+import { PRODUCTION_TAG } from '../version-tags';
+import { openIntegrityPanel } from './integrity-panel';
+import { readSubflowNodeGroup, readSubflowReference, subflowGroupGraph, type SkippedSubflow } from '../subflows';
+import { libraryLinkStatus, readLibraryLink, withLibraryLink } from '../node-library';
+import { countTokens, onTokensReady } from '../tokenizer';
+import {
+  BUDGET_LEVEL_COLORS,
+  budgetUsage,
+  normalizeTokenBudget,
+  promptBudgetWarning,
+  readNodeTokenBudget,
+} from '../token-budgets';
+import { formatCost } from '../prompt-costs';
+import { traceExcerpt } from '../prompt-assembly';
+import { describeEnvironmentRule, isNodeIncluded, normalizeEnvironmentName, readNodeEnvironmentRule } from '../environments';
 
 interface CanvasViewportState {
   zoom: number;
@@ -33,6 +51,8 @@ interface SidebarBlock {
   meta: Record<string, string>;
   templateId?: string;
   isCustomTemplate: boolean;
+  /** Linked nodes across projects that are behind the template's revision. */
+  outdatedInstances?: number;
 }
 
 interface McpRelayConfig {
@@ -48,6 +68,7 @@ const canvasSidebarWidthByProject = new Map<string, number>();
 const canvasSidebarCategoryCollapsed = new Set<string>();
 const MIN_CANVAS_SIDEBAR_WIDTH = 200;
 const MAX_CANVAS_SIDEBAR_WIDTH = 560;
+const NEW_ENVIRONMENT_OPTION = '__new_environment__';
 const sidebarLabelMeasureCanvas = document.createElement('canvas');
 const sidebarLabelMeasureCtx = sidebarLabelMeasureCanvas.getContext('2d');
 
@@ -187,7 +208,7 @@ function buildSidebarCategories(customTemplates: CustomNodeTemplate[]): Map<stri
       icon: block.icon,
       category: block.category,
       defaultContent: block.defaultContent,
-      meta: {},
+      meta: { ...block.meta },
       isCustomTemplate: false,
     });
   }
@@ -199,9 +220,10 @@ function buildSidebarCategories(customTemplates: CustomNodeTemplate[]): Map<stri
     icon: template.icon,
     category: customCategory,
     defaultContent: template.content,
-    meta: { ...template.meta },
+    meta: withLibraryLink({ ...template.meta, [CUSTOM_TEMPLATE_META_KEY]: template.id }, template),
     templateId: template.id,
     isCustomTemplate: true,
+    outdatedInstances: store.getLinkedLibraryInstances(template.id).filter((instance) => instance.status === 'outdated').length,
   })));
 
   return categories;
@@ -239,8 +261,13 @@ function renderSidebarBlocksHTML(categories: Map<string, SidebarBlock[]>): strin
               >
                 <span class="material-icons text-sm text-primary">${escapeHTML(block.icon)}</span>
                 <span class="text-xs font-medium truncate">${escapeHTML(block.label)}</span>
+                ${block.outdatedInstances
+          ? `<button type="button" class="sidebar-custom-sync ml-auto shrink-0 rounded px-1.5 py-0.5 text-[10px] text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/30 transition-colors" data-template-id="${block.templateId ?? ''}" title="Update linked nodes in every project to the latest template">
+                      Update ${block.outdatedInstances}
+                    </button>`
+          : ''}
                 ${block.isCustomTemplate
-          ? `<button type="button" class="sidebar-custom-delete ml-auto p-1 rounded text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors" data-template-id="${block.templateId ?? ''}" title="Delete custom node template">
+          ? `<button type="button" class="sidebar-custom-delete ${block.outdatedInstances ? '' : 'ml-auto'} p-1 rounded text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors" data-template-id="${block.templateId ?? ''}" title="Delete custom node template">
                       <span class="material-icons text-sm">delete_outline</span>
                     </button>`
           : ''}
@@ -294,12 +321,52 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
           <span class="material-icons text-sm">cloud_done</span>
           <span>Saved</span>
         </div>
+        <div id="release-status" class="hidden items-center gap-1 rounded-full border border-amber-300 bg-amber-50 px-2 py-0.5 text-[11px] font-medium text-amber-800 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-200" title="The canvas differs from the version tagged ${PRODUCTION_TAG}. Tag a new version before shipping.">
+          <span class="material-icons text-sm">warning_amber</span>
+          <span>Differs from ${PRODUCTION_TAG}</span>
+        </div>
+        <button id="integrity-status" type="button" class="hidden items-center gap-1 rounded-full border border-red-300 bg-red-50 px-2 py-0.5 text-[11px] font-medium text-red-800 hover:bg-red-100 dark:border-red-800 dark:bg-red-950 dark:text-red-200" title="Some connections or sync records are broken. Click to review and repair.">
+          <span class="material-icons text-sm">report_problem</span>
+          <span id="integrity-status-label"></span>
+        </button>
+        <div class="hidden sm:flex items-center gap-1" title="Environment the canvas and copy buttons assemble for">
+          <span class="material-icons text-sm text-slate-400">layers</span>
+          <select id="environment-select" class="rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-1.5 py-0.5 text-[11px] focus:outline-none focus:ring-1 focus:ring-primary" aria-label="Active environment"></select>
+          <button id="btn-rename-environment" type="button" class="hidden text-slate-400 hover:text-primary p-0.5" title="Rename environment" aria-label="Rename environment">
+            <span class="material-icons text-sm">edit</span>
+          </button>
+          <button id="btn-remove-environment" type="button" class="hidden text-slate-400 hover:text-red-500 p-0.5" title="Remove environment" aria-label="Remove environment">
+            <span class="material-icons text-sm">delete_outline</span>
+          </button>
+        </div>
+        <button id="btn-token-budget" type="button" class="hidden sm:flex items-center gap-1.5 rounded border border-slate-200 dark:border-slate-700 px-1.5 py-0.5 text-[11px] text-slate-500 hover:border-primary/40" title="Runtime prompt tokens against the project budget. Click to set the budget.">
+          <span class="material-icons text-sm text-slate-400">data_usage</span>
+          <span id="token-budget-label"></span>
+          <span id="token-budget-bar" class="hidden w-12 h-1 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden"><span class="block h-full"></span></span>
+        </button>
+        <button id="btn-prompt-cost" type="button" class="hidden items-center gap-1 rounded border border-slate-200 dark:border-slate-700 px-1.5 py-0.5 text-[11px] text-slate-500 hover:border-primary/40">
+          <span class="material-icons text-sm text-slate-400">payments</span>
+          <span id="prompt-cost-label"></span>
+        </button>
       </div>
       <div class="ui-header-center">
         ${projectViewTabsHTML('canvas')}
       </div>
       <div class="ui-header-right ui-toolbar">
+        <div id="collaborators" class="flex items-center -space-x-2" aria-label="People on this canvas"></div>
         ${themeToggleHTML()}
+        <button id="btn-undo" class="ui-btn ui-btn-ghost !p-2" title="Undo (Ctrl+Z)" aria-label="Undo">
+          <span class="material-icons text-sm">undo</span>
+        </button>
+        <button id="btn-redo" class="ui-btn ui-btn-ghost !p-2" title="Redo (Ctrl+Shift+Z)" aria-label="Redo">
+          <span class="material-icons text-sm">redo</span>
+        </button>
+        <button id="btn-check-graph" class="ui-btn ui-btn-ghost !p-2" title="Check graph integrity" aria-label="Check graph integrity">
+          <span class="material-icons text-sm">rule</span>
+        </button>
+        <button id="btn-trace-excerpt" class="ui-btn ui-btn-ghost !p-2" title="Find the nodes behind quoted prompt text" aria-label="Find the nodes behind quoted prompt text">
+          <span class="material-icons text-sm">manage_search</span>
+        </button>
         <button id="btn-save-snapshot" class="ui-btn ui-btn-outline">
           <span class="material-icons text-sm">save</span> Save Current State
         </button>
@@ -309,6 +376,9 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
         <button id="btn-copy-flow" class="ui-btn ui-btn-outline">
           <span class="material-icons text-sm">account_tree</span> Copy Flow Template
         </button>
+        <button id="btn-copy-xml" class="ui-btn ui-btn-outline" title="Copy the prompt as XML with one tag per node">
+          <span class="material-icons text-sm">code</span> Copy XML
+        </button>
       </div>
     </header>
 
@@ -532,6 +602,49 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
   };
   addManagedListener(window, 'hashchange', onHashChange, { once: true });
 
+  // Re-render for graph changes from any source: this view, other tabs, realtime
+  // collaborators or agents on the relay. Renders coalesce into one frame, and a
+  // direct renderNodes() call cancels the pending one.
+  let storeRenderFrame: number | null = null;
+  const scheduleStoreRender = (): void => {
+    if (storeRenderFrame !== null) return;
+    storeRenderFrame = window.requestAnimationFrame(() => {
+      storeRenderFrame = null;
+      if (!store.getProject(projectId)) {
+        router.navigate('/');
+        return;
+      }
+      renderNodes();
+    });
+  };
+  registerTeardown(store.on(GRAPH_EVENT_TYPES, (event) => {
+    if (event.projectId === projectId) scheduleStoreRender();
+  }));
+  registerTeardown(store.on(['project-removed', 'transcript-flow-removed'], (event) => {
+    if (event.projectId === projectId) scheduleStoreRender();
+  }));
+  registerTeardown(store.on('custom-templates-changed', (event) => {
+    if (event.origin === 'local') return;
+    refreshSidebarBlocks();
+    // Library badges on linked nodes depend on the template's revision.
+    scheduleStoreRender();
+  }));
+  // Node token counts start as estimates until the worker has encoded their chunks.
+  registerTeardown(onTokensReady(scheduleStoreRender));
+  registerTeardown(() => {
+    if (storeRenderFrame !== null) window.cancelAnimationFrame(storeRenderFrame);
+  });
+
+  // -- Realtime collaboration (database mode only) ------
+  let collaborators: CollaboratorPresence[] = [];
+  const collaboration = store.getPersistenceStatus().mode === 'database'
+    ? joinProjectCollaboration(projectId, (next) => {
+      collaborators = next;
+      renderCollaboratorPresence();
+    })
+    : null;
+  registerTeardown(() => collaboration?.close());
+
   // Viewport (world -> screen): screen = world * zoom + pan
   const MIN_ZOOM = 0.4;
   const MAX_ZOOM = 2.5;
@@ -765,6 +878,7 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
     if (!exists) {
       store.addConnection(projectId, resolved.from, resolved.to);
       drawConnections();
+      refreshHistoryButtons();
     }
     return true;
   }
@@ -927,7 +1041,6 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
           } else if (msg.action === 'create_connection') {
             store.addConnection(projectId, payload.fromId, payload.toId, payload.label || '');
           }
-          renderNodes();
         }
       } catch (e) {
         console.error('Canvas sync message error:', e);
@@ -964,16 +1077,34 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
   });
 
   function renderNodes(): void {
+    if (storeRenderFrame !== null) {
+      window.cancelAnimationFrame(storeRenderFrame);
+      storeRenderFrame = null;
+    }
     clearConnectionDraft();
     nodesContainer.querySelectorAll('.canvas-node').forEach(el => el.remove());
     const hint = nodesContainer.querySelector('#empty-hint');
     if (project!.nodes.length > 0 && hint) hint.remove();
 
+    const activeEnvironment = store.getActiveEnvironment(projectId);
+    const tokenEncoding = store.getTokenEncoding(projectId);
+    const skippedSubflowReasons = new Map(
+      (store.getAssemblyPlan(projectId)?.skippedSubflows ?? []).map((skipped) => [skipped.nodeId, skipped.reason]),
+    );
     for (const node of project!.nodes) {
       const size = getNodeVisualSize(node);
       const colorStyles = buildNodeColorStyles(readNodeColorMeta(node.meta));
+      const environmentRule = readNodeEnvironmentRule(node.meta);
+      const subflowReference = readSubflowReference(node.meta);
+      const libraryLink = readLibraryLink(node.meta);
+      const nodeTokens = countTokens(node.content, tokenEncoding);
+      const nodeBudget = budgetUsage(nodeTokens, readNodeTokenBudget(node.meta));
       const el = document.createElement('div');
       el.className = 'canvas-node pointer-events-auto bg-white dark:bg-slate-900 border rounded-lg shadow-xl node-glow';
+      if (!isNodeIncluded(node, activeEnvironment)) {
+        el.classList.add('opacity-40', 'grayscale');
+        el.title = `Not included in ${activeEnvironment}`;
+      }
       el.dataset.nodeId = node.id;
       el.style.left = `${node.x}px`;
       el.style.top = `${node.y}px`;
@@ -997,15 +1128,26 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
         <div class="relative">
           <!-- Input port (left side) -->
           <div class="port-in port absolute -left-[7px] top-1/2 -translate-y-1/2 z-10" data-node-id="${node.id}" title="Connect here (drag or click)"></div>
-          <!-- Content preview -->
+          ${subflowReference === undefined
+            ? `<!-- Content preview -->
           <div class="p-3 text-[11px] text-slate-500 dark:text-slate-400 font-mono leading-relaxed max-h-24 overflow-hidden">
             ${escapeHTML(node.content).substring(0, 120)}${node.content.length > 120 ? '…' : ''}
-          </div>
+          </div>`
+            : renderSubflowSummaryHTML(subflowReference, readSubflowNodeGroup(node.meta), skippedSubflowReasons.get(node.id))}
           <!-- Output port (right side) -->
           <div class="port-out port absolute -right-[7px] top-1/2 -translate-y-1/2 z-10" data-node-id="${node.id}" title="Connect here (drag or click)"></div>
         </div>
-        <div class="bg-slate-50 dark:bg-slate-800/50 px-3 py-1.5 flex justify-end items-center rounded-b-lg border-t" style="border-top-color:${colorStyles.footerBorder};">
-          <span class="text-[9px] font-mono" style="color:${colorStyles.tokenText};">${node.content.length > 0 ? Math.ceil(node.content.length / 4) + ' tok' : 'empty'}</span>
+        <div class="bg-slate-50 dark:bg-slate-800/50 px-3 py-1.5 flex justify-end items-center gap-2 rounded-b-lg border-t" style="border-top-color:${colorStyles.footerBorder};">
+          <div class="mr-auto flex items-center gap-2 min-w-0">
+            ${libraryLink ? renderLibraryBadgeHTML(libraryLink, node.content) : ''}
+            ${environmentRule.mode === 'all'
+              ? ''
+              : `<span class="flex items-center gap-0.5 text-[9px] text-slate-500 dark:text-slate-400 truncate"><span class="material-icons text-[11px]">layers</span>${escapeHTML(describeEnvironmentRule(environmentRule))}</span>`}
+          </div>
+          ${nodeBudget
+            ? `<span class="w-10 h-1 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden" title="${nodeTokens} of ${nodeBudget.budget} tokens"><span class="block h-full" style="width:${Math.min(nodeBudget.ratio, 1) * 100}%; background:${BUDGET_LEVEL_COLORS[nodeBudget.level]};"></span></span>
+          <span class="text-[9px] font-mono" style="color:${nodeBudget.level === 'ok' ? colorStyles.tokenText : BUDGET_LEVEL_COLORS[nodeBudget.level]};">${nodeTokens}/${nodeBudget.budget} tok</span>`
+            : `<span class="text-[9px] font-mono" style="color:${colorStyles.tokenText};">${node.content.length > 0 ? `${nodeTokens} tok` : 'empty'}</span>`}
         </div>
       `;
       nodesContainer.appendChild(el);
@@ -1043,31 +1185,39 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
         isDragging = false;
         el.classList.remove('dragging');
         // Snap to 20px grid
-        node.x = Math.round(node.x / 20) * 20;
-        node.y = Math.round(node.y / 20) * 20;
-        el.style.left = `${node.x}px`;
-        el.style.top = `${node.y}px`;
-        store.updateNode(projectId, node.id, { x: node.x, y: node.y });
-
-        // Shift+drop on an existing connection to reinsert this existing node elsewhere in the graph.
-        if (e.shiftKey) {
-          const connectionToSplit = findConnectionNearPoint(e.clientX, e.clientY);
-          if (connectionToSplit && connectionToSplit.from !== node.id && connectionToSplit.to !== node.id) {
-            const linkedConnections = project!.connections.filter(c => c.from === node.id || c.to === node.id);
-            for (const conn of linkedConnections) {
-              store.removeConnection(projectId, conn.id);
+        const snappedX = Math.round(node.x / 20) * 20;
+        const snappedY = Math.round(node.y / 20) * 20;
+        el.style.left = `${snappedX}px`;
+        el.style.top = `${snappedY}px`;
+        // Restore the drag origin so the store records the move as one undoable step.
+        node.x = origX;
+        node.y = origY;
+
+        store.runHistoryGroup(projectId, `Move ${node.label}`, () => {
+          store.updateNode(projectId, node.id, { x: snappedX, y: snappedY });
+
+          // Shift+drop on an existing connection to reinsert this existing node elsewhere in the graph.
+          if (e.shiftKey) {
+            const connectionToSplit = findConnectionNearPoint(e.clientX, e.clientY);
+            if (connectionToSplit && connectionToSplit.from !== node.id && connectionToSplit.to !== node.id) {
+              const linkedConnections = project!.connections.filter(c => c.from === node.id || c.to === node.id);
+              for (const conn of linkedConnections) {
+                store.removeConnection(projectId, conn.id);
+              }
+              store.removeConnection(projectId, connectionToSplit.id);
+              store.addConnection(projectId, connectionToSplit.from, node.id, connectionToSplit.label ?? '');
+              store.addConnection(projectId, node.id, connectionToSplit.to);
             }
-            store.removeConnection(projectId, connectionToSplit.id);
-            store.addConnection(projectId, connectionToSplit.from, node.id, connectionToSplit.label ?? '');
-            store.addConnection(projectId, node.id, connectionToSplit.to);
           }
-        }
+        });
         drawConnections();
+        refreshHistoryButtons();
         disposeNodeDragListeners();
       };
       header.addEventListener('mousedown', (e: MouseEvent) => {
         if (e.button !== 0) return;
         if ((e.target as HTMLElement).closest('.node-delete, .node-save-template')) return;
+        collaboration?.setSelectedNode(node.id);
         isDragging = true;
         didDrag = false;
         startX = e.clientX; startY = e.clientY;
@@ -1130,9 +1280,22 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
       wirePortConnection(inPort, 'in');
       wirePortConnection(outPort, 'out');
 
+      el.querySelector<HTMLButtonElement>('.node-open-subflow')?.addEventListener('click', (e) => {
+        e.stopPropagation();
+        if (!subflowReference) return;
+        clearCanvasViewCleanup(container);
+        router.navigate(`/project/${subflowReference}`);
+      });
+
+      el.querySelector<HTMLButtonElement>('.node-library-sync')?.addEventListener('click', (e) => {
+        e.stopPropagation();
+        store.syncLibraryNode(projectId, node.id);
+        refreshSidebarBlocks();
+      });
+
       // Single click node body -> open editor
       el.addEventListener('click', (e: MouseEvent) => {
-        if ((e.target as HTMLElement).closest('.node-delete, .node-save-template, .port')) return;
+        if ((e.target as HTMLElement).closest('.node-delete, .node-save-template, .node-open-subflow, .node-library-sync, .port')) return;
         if (didDrag) {
           didDrag = false;
           return;
@@ -1165,6 +1328,8 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
     }
 
     drawConnections();
+    refreshHistoryButtons();
+    renderCollaboratorPresence();
     if (typeof pushCanvasState === 'function') pushCanvasState();
   }
 
@@ -1226,6 +1391,7 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
     const normalized = normalizeConnectionLabel(nextLabel);
     store.updateConnectionLabel(projectId, connectionId, normalized);
     drawConnections();
+    refreshHistoryButtons();
   }
 
   addManagedListener(document, 'keydown', (e: KeyboardEvent) => {
@@ -1255,7 +1421,198 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
     store.removeConnection(projectId, selectedConnection.id);
     selectedConnectionId = null;
     drawConnections();
+    refreshHistoryButtons();
+    e.preventDefault();
+  });
+
+  function renderCollaboratorPresence(): void {
+    const avatars = container.querySelector<HTMLElement>('#collaborators');
+    if (avatars) {
+      avatars.innerHTML = collaborators.map((collaborator) => `
+        <span class="w-7 h-7 rounded-full border-2 border-white dark:border-slate-900 text-[10px] font-bold text-white flex items-center justify-center select-none" style="background:${collaborator.color};" title="${escapeHTML(collaborator.name)}">
+          ${escapeHTML(collaborator.name.trim().charAt(0).toUpperCase() || '?')}
+        </span>
+      `).join('');
+    }
+
+    nodesContainer.querySelectorAll<HTMLElement>('.canvas-node').forEach((el) => {
+      el.querySelector('.collab-tag')?.remove();
+      el.style.boxShadow = '';
+      const viewers = collaborators.filter((collaborator) => collaborator.selectedNodeId === el.dataset.nodeId);
+      if (viewers.length === 0) return;
+      el.style.boxShadow = `0 0 0 2px ${viewers[0].color}`;
+      const tag = document.createElement('div');
+      tag.className = 'collab-tag absolute -top-5 left-0 px-1.5 py-0.5 rounded text-[9px] font-semibold text-white whitespace-nowrap pointer-events-none';
+      tag.style.background = viewers[0].color;
+      tag.textContent = viewers.map((viewer) => viewer.name).join(', ');
+      el.appendChild(tag);
+    });
+  }
+
+  function refreshHistoryButtons(): void {
+    const undoBtn = container.querySelector<HTMLButtonElement>('#btn-undo');
+    const redoBtn = container.querySelector<HTMLButtonElement>('#btn-redo');
+    if (undoBtn) undoBtn.disabled = !store.canUndo(projectId);
+    if (redoBtn) redoBtn.disabled = !store.canRedo(projectId);
+    refreshReleaseStatus();
+    refreshIntegrityStatus();
+    refreshEnvironmentPicker();
+    refreshTokenBudget();
+    refreshPromptCost();
+  }
+
+  /** Header count of runtime prompt tokens for the active environment, with a bar when there is a budget. */
+  function refreshTokenBudget(): void {
+    const label = container.querySelector<HTMLElement>('#token-budget-label');
+    const bar = container.querySelector<HTMLElement>('#token-budget-bar');
+    if (!label || !bar) return;
+    const assembled = store.assemblePrompt(projectId, 'runtime', store.getActiveEnvironment(projectId));
+    const tokens = countTokens(assembled, store.getTokenEncoding(projectId));
+    const usage = store.getPromptBudgetUsage(projectId, assembled);
+    label.textContent = usage
+      ? `${tokens.toLocaleString('en-US')} / ${usage.budget.toLocaleString('en-US')} tok`
+      : `${tokens.toLocaleString('en-US')} tok`;
+    label.style.color = usage && usage.level !== 'ok' ? BUDGET_LEVEL_COLORS[usage.level] : '';
+    bar.classList.toggle('hidden', !usage);
+    const fill = bar.firstElementChild as HTMLElement | null;
+    if (usage && fill) {
+      fill.style.width = `${Math.min(usage.ratio, 1) * 100}%`;
+      fill.style.background = BUDGET_LEVEL_COLORS[usage.level];
+    }
+  }
+
+  /** Header input cost per call of the runtime prompt; hidden when the model has no pricing. */
+  function refreshPromptCost(): void {
+    const button = container.querySelector<HTMLElement>('#btn-prompt-cost');
+    const label = container.querySelector<HTMLElement>('#prompt-cost-label');
+    if (!button || !label) return;
+    const assembled = store.assemblePrompt(projectId, 'runtime', store.getActiveEnvironment(projectId));
+    const estimate = store.getPromptCostEstimate(projectId, assembled);
+    button.classList.toggle('sm:flex', Boolean(estimate));
+    if (!estimate) return;
+    label.textContent = `${formatCost(estimate.callCost)}/call`;
+    button.title = [
+      `Input cost per call with ${estimate.pricing.label} ($${estimate.pricing.inputPerMillion} per 1M tokens).`,
+      `Prompt: ${estimate.promptTokens.toLocaleString('en-US')} tokens, ${formatCost(estimate.promptCost)}.`,
+      `Conversation: ${estimate.conversationTokens.toLocaleString('en-US')} tokens on average.`,
+      'Click to set the average conversation length.',
+    ].join('\n');
+  }
+
+  /** Footer badge of a node linked to a library template; an outdated node gets an update button. */
+  function renderLibraryBadgeHTML(link: NonNullable<ReturnType<typeof readLibraryLink>>, content: string): string {
+    const template = store.getCustomNodeTemplates().find((item) => item.id === link.templateId);
+    const status = libraryLinkStatus(link, template, content);
+    if (status === 'modified') {
+      return `<span class="flex items-center gap-0.5 text-[9px] text-amber-600 dark:text-amber-400 truncate" title="Edited here since the last library update. Library-wide updates skip this node; update it from the node editor."><span class="material-icons text-[11px]">edit</span>Modified</span>`;
+    }
+    if (status === 'outdated') {
+      return `<button type="button" class="node-library-sync flex items-center gap-0.5 text-[9px] text-amber-600 dark:text-amber-400 hover:underline" title="${escapeHTML(template?.label ?? '')} changed in the library. Click to update this node.">
+              <span class="material-icons text-[11px]">sync</span>Library update
+            </button>`;
+    }
+    const label = status === 'overridden' ? 'Overridden' : status === 'missing' ? 'Template deleted' : template?.label ?? '';
+    const icon = status === 'missing' ? 'link_off' : 'link';
+    return `<span class="flex items-center gap-0.5 text-[9px] text-slate-500 dark:text-slate-400 truncate" title="Linked to a library template"><span class="material-icons text-[11px]">${icon}</span>${escapeHTML(label)}</span>`;
+  }
+
+  /** Collapsed body of a subflow node: the linked project and a button to drill into it. */
+  function renderSubflowSummaryHTML(
+    reference: string | null,
+    group: string[] | null,
+    skippedReason: SkippedSubflow['reason'] | undefined,
+  ): string {
+    const linked = reference ? store.getProject(reference) : undefined;
+    const nodeCount = linked ? subflowGroupGraph(linked, group).nodes.length : 0;
+    const scope = group === null ? '' : ' (group)';
+    const status = !reference
+      ? 'No project linked. Open the node to choose one.'
+      : !linked
+        ? 'The linked project is missing.'
+        : skippedReason === 'cycle'
+          ? `${linked.name} already contains this flow, so it is not expanded.`
+          : skippedReason === 'empty'
+            ? `${linked.name}${scope} has no nodes to insert.`
+            : `${linked.name}${scope} · ${nodeCount} node${nodeCount === 1 ? '' : 's'}`;
+    const isExpanded = linked && skippedReason === undefined;
+    return `
+          <div class="p-3 flex items-center gap-2 text-[11px] ${isExpanded ? 'text-slate-600 dark:text-slate-300' : 'text-amber-600 dark:text-amber-400'}">
+            <span class="material-icons text-sm">subdirectory_arrow_right</span>
+            <span class="min-w-0 flex-1 truncate" title="${escapeHTML(status)}">${escapeHTML(status)}</span>
+            ${linked
+              ? `<button type="button" class="node-open-subflow shrink-0 flex items-center gap-0.5 rounded border border-slate-200 dark:border-slate-700 px-1.5 py-0.5 text-[10px] text-slate-500 hover:text-primary hover:border-primary/40" title="Open ${escapeHTML(linked.name)}">
+                  Open <span class="material-icons text-[11px]">open_in_new</span>
+                </button>`
+              : ''}
+          </div>`;
+  }
+
+  function refreshEnvironmentPicker(): void {
+    const select = container.querySelector<HTMLSelectElement>('#environment-select');
+    if (!select) return;
+    const active = store.getActiveEnvironment(projectId);
+    select.innerHTML = [
+      `<option value="" ${active === null ? 'selected' : ''}>All nodes</option>`,
+      ...(project!.environments ?? []).map((name) => (
+        `<option value="${escapeHTML(name)}" ${name === active ? 'selected' : ''}>${escapeHTML(name)}</option>`
+      )),
+      `<option value="${NEW_ENVIRONMENT_OPTION}">+ New environment…</option>`,
+    ].join('');
+    container.querySelector('#btn-rename-environment')?.classList.toggle('hidden', active === null);
+    container.querySelector('#btn-remove-environment')?.classList.toggle('hidden', active === null);
+  }
+
+  /** Prompts for an environment name; returns null when cancelled, invalid or taken. */
+  async function promptEnvironmentName(message: string, defaultValue = ''): Promise<string | null> {
+    const raw = await customPrompt(message, defaultValue);
+    if (raw === null || !raw.trim()) return null;
+    const name = normalizeEnvironmentName(raw);
+    if (!name) {
+      await customAlert('Environment names use letters, numbers, "-" and "_", up to 32 characters.');
+      return null;
+    }
+    if (name !== defaultValue && project!.environments?.includes(name)) {
+      await customAlert(`An environment named "${name}" already exists.`);
+      return null;
+    }
+    return name;
+  }
+
+  function refreshIntegrityStatus(): void {
+    const status = container.querySelector<HTMLElement>('#integrity-status');
+    const label = container.querySelector<HTMLElement>('#integrity-status-label');
+    if (!status || !label) return;
+    const issueCount = store.getIntegrityIssues(projectId).length;
+    label.textContent = issueCount === 1 ? '1 graph problem' : `${issueCount} graph problems`;
+    status.classList.toggle('hidden', issueCount === 0);
+    status.classList.toggle('flex', issueCount > 0);
+  }
+
+  function refreshReleaseStatus(): void {
+    const status = container.querySelector<HTMLElement>('#release-status');
+    if (!status) return;
+    const diverged = store.divergesFromRelease(projectId);
+    status.classList.toggle('hidden', !diverged);
+    status.classList.toggle('flex', diverged);
+  }
+
+  function replayHistory(direction: 'undo' | 'redo'): void {
+    const applied = direction === 'undo' ? store.undo(projectId) : store.redo(projectId);
+    if (!applied) return;
+    selectedConnectionId = null;
+    renderNodes();
+  }
+
+  addManagedListener(document, 'keydown', (e: KeyboardEvent) => {
+    const direction = readHistoryShortcut(e);
+    if (!direction) return;
+    const target = e.target as HTMLElement | null;
+    const isTypingTarget = target
+      ? target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable
+      : false;
+    if (isTypingTarget) return;
     e.preventDefault();
+    replayHistory(direction);
   });
 
   function drawConnections(): void {
@@ -1406,6 +1763,9 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
   });
 
   canvasArea.addEventListener('mousedown', (e: MouseEvent) => {
+    if (e.button === 0 && !(e.target as HTMLElement).closest('.canvas-node')) {
+      collaboration?.setSelectedNode(null);
+    }
     if (e.button !== 2) return;
     isPanning = true;
     panStartMouseX = e.clientX;
@@ -1705,7 +2065,7 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
       });
 
       block.addEventListener('click', (event: MouseEvent) => {
-        if ((event.target as HTMLElement).closest('.sidebar-custom-delete')) return;
+        if ((event.target as HTMLElement).closest('.sidebar-custom-delete, .sidebar-custom-sync')) return;
         createNodeFromBlockData(parseSidebarBlockData(block));
       });
     });
@@ -1721,6 +2081,21 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
         refreshSidebarBlocks();
       });
     });
+
+    container.querySelectorAll<HTMLButtonElement>('.sidebar-custom-sync').forEach((button) => {
+      button.addEventListener('click', (event: MouseEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        const templateId = button.dataset.templateId;
+        if (!templateId) return;
+        const { updated, skipped } = store.syncLibraryTemplateInstances(templateId);
+        refreshSidebarBlocks();
+        const skippedNote = skipped > 0
+          ? ` ${skipped} overridden or hand-edited node${skipped === 1 ? ' was' : 's were'} left as ${skipped === 1 ? 'it is' : 'they are'}; update ${skipped === 1 ? 'it' : 'them'} from the node editor.`
+          : '';
+        void customAlert(`Updated ${updated} linked node${updated === 1 ? '' : 's'}.${skippedNote}`);
+      });
+    });
   }
 
   function refreshSidebarBlocks(): void {
@@ -1770,14 +2145,16 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
         content: blockData.defaultContent,
         meta: { ...blockData.meta },
       };
-      store.addNode(projectId, node);
-
-      // If dropped on an existing connection, split it and insert the new node between.
-      if (connectionToSplit) {
-        store.removeConnection(projectId, connectionToSplit.id);
-        store.addConnection(projectId, connectionToSplit.from, node.id, connectionToSplit.label ?? '');
-        store.addConnection(projectId, node.id, connectionToSplit.to);
-      }
+      store.runHistoryGroup(projectId, `Add ${node.label}`, () => {
+        store.addNode(projectId, node);
+
+        // If dropped on an existing connection, split it and insert the new node between.
+        if (connectionToSplit) {
+          store.removeConnection(projectId, connectionToSplit.id);
+          store.addConnection(projectId, connectionToSplit.from, node.id, connectionToSplit.label ?? '');
+          store.addConnection(projectId, node.id, connectionToSplit.to);
+        }
+      });
 
       renderNodes();
     } catch { /* ignore bad data */ }
@@ -1799,6 +2176,9 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
   });
   wireProjectViewTabs(container, projectId, { beforeNavigate: () => clearCanvasViewCleanup(container) });
 
+  container.querySelector('#btn-undo')?.addEventListener('click', () => replayHistory('undo'));
+  container.querySelector('#btn-redo')?.addEventListener('click', () => replayHistory('redo'));
+
   // -- Save prompt snapshot for diff/history --
   container.querySelector('#btn-save-snapshot')?.addEventListener('click', () => {
     const version = store.saveCurrentState(projectId);
@@ -1812,14 +2192,99 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
     }, 2000);
   });
 
-  // -- Copy prompt output (runtime and flow template) --
+  const openGraphCheck = (): void => {
+    void openIntegrityPanel(projectId, () => {
+      selectedConnectionId = null;
+      renderNodes();
+    });
+  };
+  container.querySelector('#btn-check-graph')?.addEventListener('click', openGraphCheck);
+  container.querySelector('#integrity-status')?.addEventListener('click', openGraphCheck);
+
+  // Error reports quote the runtime prompt; inlined subflow nodes trace to their subflow node.
+  container.querySelector('#btn-trace-excerpt')?.addEventListener('click', async () => {
+    const excerpt = await customPrompt('Paste text quoted from the runtime prompt:');
+    if (!excerpt?.trim()) return;
+    const activeEnvironment = store.getActiveEnvironment(projectId);
+    const assembled = store.assemblePromptWithSourceMap(projectId, 'runtime', activeEnvironment);
+    const nodeIds = assembled ? traceExcerpt(assembled, excerpt) : [];
+    const canvasNodeIds = [...new Set(nodeIds.map((nodeId) => nodeId.split('/')[0]))];
+    const nodes = project.nodes.filter((node) => canvasNodeIds.includes(node.id));
+    nodes.sort((left, right) => canvasNodeIds.indexOf(left.id) - canvasNodeIds.indexOf(right.id));
+    if (nodes.length === 0) {
+      await customAlert(`That text is not in the runtime prompt${activeEnvironment ? ` for ${activeEnvironment}` : ''}.`);
+      return;
+    }
+    nodes.forEach((node) => {
+      nodesContainer.querySelector<HTMLElement>(`.canvas-node[data-node-id="${node.id}"]`)?.classList.add('ring-2', 'ring-amber-400');
+    });
+    await customAlert(`Found in ${nodes.map((node) => `"${node.label}"`).join(', ')}.`);
+  });
+
+  // -- Environments --
+  container.querySelector<HTMLSelectElement>('#environment-select')?.addEventListener('change', async (event) => {
+    const value = (event.currentTarget as HTMLSelectElement).value;
+    if (value === NEW_ENVIRONMENT_OPTION) {
+      const name = await promptEnvironmentName('Name for the new environment (e.g. staging):');
+      if (name) {
+        store.setProjectEnvironments(projectId, [...project!.environments ?? [], name]);
+        store.setActiveEnvironment(projectId, name);
+      }
+    } else {
+      store.setActiveEnvironment(projectId, value || null);
+    }
+    renderNodes();
+  });
+  container.querySelector('#btn-rename-environment')?.addEventListener('click', async () => {
+    const active = store.getActiveEnvironment(projectId);
+    if (!active) return;
+    const name = await promptEnvironmentName(`Rename environment "${active}" to:`, active);
+    if (!name || name === active) return;
+    store.renameEnvironment(projectId, active, name);
+    renderNodes();
+  });
+  container.querySelector('#btn-remove-environment')?.addEventListener('click', async () => {
+    const active = store.getActiveEnvironment(projectId);
+    if (!active) return;
+    if (!(await customConfirm(`Remove environment "${active}"? Node rules that name it are updated.`))) return;
+    store.renameEnvironment(projectId, active, null);
+    renderNodes();
+  });
+
+  container.querySelector('#btn-token-budget')?.addEventListener('click', async () => {
+    const current = project!.tokenBudget;
+    const input = await customPrompt('Token budget for the assembled prompt (leave empty for none):', current ? String(current) : '');
+    if (input === null) return;
+    const budget = normalizeTokenBudget(input);
+    if (input.trim() && budget === null) {
+      await customAlert('Enter a whole number of tokens, e.g. 4000.');
+      return;
+    }
+    store.setProjectTokenBudget(projectId, budget);
+    refreshHistoryButtons();
+  });
+
+  container.querySelector('#btn-prompt-cost')?.addEventListener('click', async () => {
+    const current = project!.conversationTokens;
+    const input = await customPrompt('Average conversation tokens sent with the prompt on each call (leave empty for none):', current ? String(current) : '');
+    if (input === null) return;
+    const conversationTokens = normalizeTokenBudget(input);
+    if (input.trim() && conversationTokens === null) {
+      await customAlert('Enter a whole number of tokens, e.g. 1500.');
+      return;
+    }
+    store.setProjectConversationTokens(projectId, conversationTokens);
+    refreshHistoryButtons();
+  });
+
+  // -- Copy prompt output (runtime, flow template and XML) --
   const wireCopyButton = (
     selector: string,
-    mode: 'runtime' | 'flow-template',
+    mode: PromptAssemblyMode,
     idleHTML: string,
   ): void => {
     container.querySelector(selector)?.addEventListener('click', () => {
-      const assembled = store.assemblePrompt(projectId, mode);
+      const assembled = store.assemblePrompt(projectId, mode, store.getActiveEnvironment(projectId));
       navigator.clipboard.writeText(assembled).then(() => {
         const btn = container.querySelector<HTMLElement>(selector);
         if (!btn) return;
@@ -1827,6 +2292,8 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
         setTimeout(() => {
           btn.innerHTML = idleHTML;
         }, 2000);
+        const warning = promptBudgetWarning(store.getPromptBudgetUsage(projectId, assembled));
+        if (warning) void customAlert(warning);
       });
     });
   };
@@ -1841,6 +2308,11 @@ export function renderCanvas(container: HTMLElement, projectId: string): void {
     'flow-template',
     '<span class="material-icons text-sm">account_tree</span> Copy Flow Template',
   );
+  wireCopyButton(
+    '#btn-copy-xml',
+    'xml',
+    '<span class="material-icons text-sm">code</span> Copy XML',
+  );
 
   // Handle UI opening manually if needed, but the click listener handles it.
 
@@ -16,11 +16,55 @@ import {
 } from '../auth';
 import { themeToggleHTML, wireThemeToggle } from '../theme';
 import { clearProjectEscapeToCanvas } from './project-nav';
-import { customAlert, customConfirm } from '../dialogs';
+import { customAlert, customConfirm, customPrompt } from '../dialogs';
 import { preserveScrollDuringRender } from '../view-state';
+import { listVersionTags, PRODUCTION_TAG } from '../version-tags';
+import { TRASH_RETENTION_DAYS } from '../trash';
+import { openIntegrityPanel } from './integrity-panel';
+import { countTokens, onTokensReady } from '../tokenizer';
+import { BUDGET_LEVEL_COLORS, encodingForModel } from '../token-budgets';
+import {
+  DASHBOARD_SORTS,
+  DEFAULT_DASHBOARD_FILTERS,
+  filterOrganizedItems,
+  listFolders,
+  listModels,
+  listTags,
+  matchesSearchQuery,
+  MAX_FOLDER_NAME_LENGTH,
+  normalizeFolderName,
+  parseProjectTags,
+  projectSearchText,
+  sortOrganizedItems,
+  type DashboardFilters,
+  type OrganizedItem,
+} from '../project-organization';
+import {
+  PROMPTFLOW_FILE_EXTENSION,
+  createPromptFlowBundle,
+  parsePromptFlowBundle,
+  prepareProjectImport,
+  promptFlowBundleFileName,
+  serializePromptFlowBundle,
+} from '../project-bundle';
 
 type DashboardLayout = 'grid' | 'list';
 const DASHBOARD_LAYOUT_KEY = 'promptblueprint_dashboard_layout';
+const DASHBOARD_FILTERS_KEY = 'promptblueprint_dashboard_filters';
+
+interface PromptFlowItem extends OrganizedItem {
+  key: string;
+  project: Project;
+}
+
+interface TranscriptFlowItem extends OrganizedItem {
+  key: string;
+  flow: TranscriptFlowDraft;
+}
+
+/** The search query lives for the session only; the other filters are remembered. */
+let dashboardQuery = '';
+let unsubscribeTokensReady: (() => void) | null = null;
 
 const ROLE_OPTIONS = ['Founder', 'Product Manager', 'Engineer', 'Designer', 'Marketer', 'Operations', 'Other'] as const;
 const HEARD_ABOUT_OPTIONS = [
@@ -50,10 +94,26 @@ interface DashboardAccountState {
 type MessageKind = 'success' | 'error';
 
 export function renderDashboard(container: HTMLElement): void {
+  // Token sizes start as estimates; re-render once the worker has encoded them,
+  // unless the user is typing in a dashboard field.
+  unsubscribeTokensReady?.();
+  const dashboardHash = window.location.hash;
+  unsubscribeTokensReady = onTokensReady(() => {
+    unsubscribeTokensReady?.();
+    unsubscribeTokensReady = null;
+    if (window.location.hash !== dashboardHash || container.contains(document.activeElement)) return;
+    renderDashboard(container);
+  });
   preserveScrollDuringRender(container, () => {
     clearProjectEscapeToCanvas(container);
-    const promptProjects = store.getPromptFlowProjects();
-    const transcriptFlows = store.getTranscriptFlowDrafts();
+    const filters: DashboardFilters = { ...loadDashboardFilters(), query: dashboardQuery };
+    const promptItems = store.getPromptFlowProjects().map(toPromptFlowItem);
+    const transcriptItems = store.getTranscriptFlowDrafts().map(toTranscriptFlowItem);
+    const allItems: OrganizedItem[] = [...promptItems, ...transcriptItems];
+    const filteredPrompts = sortOrganizedItems(filterOrganizedItems(promptItems, { ...filters, query: '' }), filters.sort);
+    const filteredTranscripts = sortOrganizedItems(filterOrganizedItems(transcriptItems, { ...filters, query: '' }), filters.sort);
+    const itemsByKey = new Map<string, OrganizedItem>([...promptItems, ...transcriptItems].map((item) => [item.key, item]));
+    const trashCount = store.getTrash().length;
 
     container.innerHTML = `
       <!-- Top Navigation Bar -->
@@ -68,7 +128,7 @@ export function renderDashboard(container: HTMLElement): void {
               <div class="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
                 <span class="material-icons-outlined text-slate-400 text-sm">search</span>
               </div>
-              <input id="search-input" class="block w-full pl-10 pr-3 py-2 border border-card-border dark:border-primary/20 rounded-lg bg-background-light dark:bg-background-dark/50 text-sm placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary" placeholder="Search projects by name or model..." type="text" />
+              <input id="search-input" class="block w-full pl-10 pr-3 py-2 border border-card-border dark:border-primary/20 rounded-lg bg-background-light dark:bg-background-dark/50 text-sm placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary" placeholder="Search names, descriptions and node content..." type="text" value="${escapeHtml(dashboardQuery)}" />
             </div>
           </div>
           <div class="flex items-center gap-2 sm:gap-4 flex-wrap justify-end">
@@ -131,10 +191,19 @@ export function renderDashboard(container: HTMLElement): void {
             <span class="material-icons-outlined text-sm">file_upload</span>
             <span>Import Prompt</span>
           </button>
+          <button id="btn-import-bundle" class="ui-btn ui-btn-outline !text-sm !py-2" title="Import a ${PROMPTFLOW_FILE_EXTENSION} project bundle">
+            <span class="material-icons-outlined text-sm">unarchive</span>
+            <span>Import Bundle</span>
+          </button>
+          <input id="input-import-bundle" type="file" accept="${PROMPTFLOW_FILE_EXTENSION},application/json" class="hidden" />
           <button id="btn-import-transcript" class="ui-btn ui-btn-outline !text-sm !py-2">
             <span class="material-icons-outlined text-sm">smart_toy</span>
             <span>Import Transcript</span>
           </button>
+          <button id="btn-open-trash" class="ui-btn ui-btn-outline !text-sm !py-2" title="Deleted items are kept for ${TRASH_RETENTION_DAYS} days">
+            <span class="material-icons-outlined text-sm">delete</span>
+            <span>Trash${trashCount > 0 ? ` (${trashCount})` : ''}</span>
+          </button>
           <button id="btn-new-project" class="ui-btn ui-btn-primary !text-sm !py-2">
             <span class="material-icons-outlined text-sm">add</span>
             <span>New Project</span>
@@ -142,13 +211,18 @@ export function renderDashboard(container: HTMLElement): void {
         </div>
       </div>
 
+      ${renderDashboardFilters(allItems, filters)}
+      <div id="dashboard-filter-empty" class="hidden mb-6 rounded-xl border border-dashed border-card-border dark:border-primary/20 bg-white/70 dark:bg-slate-900/50 px-5 py-6 text-center text-sm text-slate-500 dark:text-slate-300">
+        No projects match the current search and filters.
+      </div>
+
       <section class="space-y-3">
         <div class="flex items-center justify-between gap-3">
           <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100 uppercase tracking-wide">Prompt Flows</h2>
-          <span class="text-[11px] text-slate-400">${promptProjects.length} projects</span>
+          <span id="prompt-flow-count" class="text-[11px] text-slate-400">${promptItems.length} projects</span>
         </div>
         <div id="prompt-flow-grid" class="dashboard-project-grid grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          ${promptProjects.map((project) => renderPromptFlowCard(project)).join('')}
+          ${filteredPrompts.map((item) => renderPromptFlowCard(item)).join('')}
 
           <div id="new-project-card" class="new-project-card group border-2 border-dashed border-card-border dark:border-primary/20 rounded-xl transition-all duration-200 cursor-pointer hover:border-primary/50 hover:bg-primary/5 flex flex-col items-center justify-center min-h-[280px]">
             <div class="w-12 h-12 bg-slate-100 dark:bg-slate-800 group-hover:bg-primary group-hover:text-white rounded-full flex items-center justify-center text-slate-400 transition-colors mb-3">
@@ -168,10 +242,10 @@ export function renderDashboard(container: HTMLElement): void {
             <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100 uppercase tracking-wide">Transcript Flows</h2>
             <p class="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5">Stored transcript mappings that can be opened or converted into editable canvas projects.</p>
           </div>
-          <span class="text-[11px] text-slate-400">${transcriptFlows.length} transcript sets</span>
+          <span id="transcript-flow-count" class="text-[11px] text-slate-400">${transcriptItems.length} transcript sets</span>
         </div>
         <div id="transcript-flow-grid" class="dashboard-project-grid grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          ${transcriptFlows.map((flow) => renderTranscriptFlowCard(flow)).join('')}
+          ${filteredTranscripts.map((item) => renderTranscriptFlowCard(item)).join('')}
 
           <div id="new-transcript-flow-card" class="new-project-card group border-2 border-dashed border-card-border dark:border-primary/20 rounded-xl transition-all duration-200 cursor-pointer hover:border-primary/50 hover:bg-primary/5 flex flex-col items-center justify-center min-h-[280px]">
             <div class="w-12 h-12 bg-slate-100 dark:bg-slate-800 group-hover:bg-primary group-hover:text-white rounded-full flex items-center justify-center text-slate-400 transition-colors mb-3">
@@ -183,7 +257,7 @@ export function renderDashboard(container: HTMLElement): void {
             </div>
           </div>
 
-          ${transcriptFlows.length === 0
+          ${transcriptItems.length === 0
         ? `
               <div class="col-span-full rounded-xl border border-dashed border-card-border dark:border-primary/20 bg-white/70 dark:bg-slate-900/50 px-5 py-6 text-sm text-slate-500 dark:text-slate-300">
                 No transcript flows yet. Use <strong>Import Transcript</strong> to auto-generate one.
@@ -366,7 +440,7 @@ export function renderDashboard(container: HTMLElement): void {
     // Click on project card → open canvas
     container.querySelectorAll<HTMLElement>('.prompt-project-card, .transcript-project-card').forEach((card) => {
       card.addEventListener('click', (event) => {
-        if ((event.target as HTMLElement).closest('.delete-project,.create-transcript-project,.open-transcript-project')) return;
+        if ((event.target as HTMLElement).closest('.delete-project,.export-project,.fork-project,.open-parent-project,.check-project-integrity,.create-transcript-project,.open-transcript-project')) return;
         const projectId = card.dataset.projectId;
         if (projectId) router.navigate(`/project/${projectId}`);
       });
@@ -397,11 +471,55 @@ export function renderDashboard(container: HTMLElement): void {
       });
     });
 
+    container.querySelectorAll<HTMLElement>('.fork-project').forEach((button) => {
+      button.addEventListener('click', async (event) => {
+        event.stopPropagation();
+        const projectId = button.dataset.id;
+        if (!projectId) return;
+        const fork = await forkProjectFromDashboard(projectId);
+        if (fork) router.navigate(`/project/${fork.id}`);
+      });
+    });
+
+    container.querySelectorAll<HTMLElement>('.open-parent-project').forEach((button) => {
+      button.addEventListener('click', (event) => {
+        event.stopPropagation();
+        const projectId = button.dataset.projectId;
+        if (projectId) router.navigate(`/project/${projectId}`);
+      });
+    });
+
+    container.querySelectorAll<HTMLElement>('.check-project-integrity').forEach((button) => {
+      button.addEventListener('click', (event) => {
+        event.stopPropagation();
+        const projectId = button.dataset.projectId;
+        if (projectId) void openIntegrityPanel(projectId, () => renderDashboard(container));
+      });
+    });
+
+    container.querySelectorAll<HTMLElement>('.organize-project').forEach((button) => {
+      button.addEventListener('click', async (event) => {
+        event.stopPropagation();
+        const projectId = button.dataset.id;
+        if (projectId && await organizeProjectFromDashboard(projectId)) {
+          renderDashboard(container);
+        }
+      });
+    });
+
+    container.querySelectorAll<HTMLElement>('.export-project').forEach((button) => {
+      button.addEventListener('click', (event) => {
+        event.stopPropagation();
+        const projectId = button.dataset.id;
+        if (projectId) void exportProjectBundle(projectId);
+      });
+    });
+
     container.querySelectorAll<HTMLElement>('.delete-project').forEach((button) => {
       button.addEventListener('click', async (event) => {
         event.stopPropagation();
         const projectId = button.dataset.id;
-        if (projectId && await customConfirm('Delete this project?')) {
+        if (projectId && await customConfirm('Move this project to the trash?')) {
           store.deleteProject(projectId);
           renderDashboard(container);
         }
@@ -415,8 +533,8 @@ export function renderDashboard(container: HTMLElement): void {
         if (!transcriptSetId) return;
         const linkedProjectId = button.dataset.projectId;
         const confirmText = linkedProjectId
-          ? 'Delete this transcript flow and its linked project?'
-          : 'Delete this transcript flow?';
+          ? 'Move this transcript flow and its linked project to the trash?'
+          : 'Move this transcript flow to the trash?';
         if (!(await customConfirm(confirmText))) return;
         store.deleteTranscriptFlow(transcriptSetId);
         renderDashboard(container);
@@ -509,6 +627,16 @@ export function renderDashboard(container: HTMLElement): void {
 
     container.querySelector('#btn-import-prompt')?.addEventListener('click', () => router.navigate('/import'));
     container.querySelector('#btn-import-transcript')?.addEventListener('click', () => router.navigate('/import/transcript'));
+    container.querySelector('#btn-open-trash')?.addEventListener('click', () => router.navigate('/trash'));
+    const bundleInput = container.querySelector<HTMLInputElement>('#input-import-bundle');
+    container.querySelector('#btn-import-bundle')?.addEventListener('click', () => bundleInput?.click());
+    bundleInput?.addEventListener('change', async () => {
+      const file = bundleInput.files?.[0];
+      bundleInput.value = '';
+      if (!file) return;
+      const project = await importProjectBundle(file);
+      if (project) router.navigate(`/project/${project.id}`);
+    });
     container.querySelector('#btn-new-project')?.addEventListener('click', openNewProjectModal);
     container.querySelector('#new-project-card')?.addEventListener('click', openPromptModal);
     container.querySelector('#new-transcript-flow-card')?.addEventListener('click', openTranscriptModal);
@@ -575,15 +703,63 @@ export function renderDashboard(container: HTMLElement): void {
       applyLayout(initialLayout);
     }
 
-    // Search filter
+    // Search is applied in place so typing does not re-render the page
+    const applySearch = (): void => {
+      const sections = [
+        { gridId: 'prompt-flow-grid', countId: 'prompt-flow-count', total: promptItems.length, noun: 'projects' },
+        { gridId: 'transcript-flow-grid', countId: 'transcript-flow-count', total: transcriptItems.length, noun: 'transcript sets' },
+      ];
+      let visibleTotal = 0;
+      for (const section of sections) {
+        let visible = 0;
+        container.querySelectorAll<HTMLElement>(`#${section.gridId} .dashboard-search-card`).forEach((card) => {
+          const item = itemsByKey.get(card.dataset.itemKey ?? '');
+          const matches = !item || matchesSearchQuery(item, dashboardQuery);
+          card.style.display = matches ? '' : 'none';
+          if (matches) visible += 1;
+        });
+        const countEl = container.querySelector<HTMLElement>(`#${section.countId}`);
+        if (countEl) {
+          countEl.textContent = visible === section.total ? `${section.total} ${section.noun}` : `${visible} of ${section.total} ${section.noun}`;
+        }
+        visibleTotal += visible;
+      }
+      container.querySelector('#dashboard-filter-empty')?.classList.toggle('hidden', visibleTotal > 0 || allItems.length === 0);
+    };
     const searchInput = container.querySelector<HTMLInputElement>('#search-input');
     searchInput?.addEventListener('input', () => {
-      const q = searchInput.value.toLowerCase();
-      container.querySelectorAll<HTMLElement>('.dashboard-search-card').forEach(card => {
-        const text = card.textContent?.toLowerCase() ?? '';
-        card.style.display = text.includes(q) ? '' : 'none';
+      dashboardQuery = searchInput.value;
+      applySearch();
+    });
+    applySearch();
+
+    // Folder, tag, model and sort filters
+    const updateFilters = (changes: Partial<DashboardFilters>): void => {
+      saveDashboardFilters({ ...filters, ...changes });
+      renderDashboard(container);
+    };
+    container.querySelectorAll<HTMLElement>('.folder-filter').forEach((button) => {
+      button.addEventListener('click', () => {
+        updateFilters({ folder: button.dataset.folder === undefined ? null : button.dataset.folder });
       });
     });
+    container.querySelector<HTMLSelectElement>('#filter-tag')?.addEventListener('change', (event) => {
+      const value = (event.currentTarget as HTMLSelectElement).value;
+      updateFilters({ tag: value || null });
+    });
+    container.querySelector<HTMLSelectElement>('#filter-model')?.addEventListener('change', (event) => {
+      const value = (event.currentTarget as HTMLSelectElement).value;
+      updateFilters({ model: value || null });
+    });
+    container.querySelector<HTMLSelectElement>('#sort-projects')?.addEventListener('change', (event) => {
+      const value = (event.currentTarget as HTMLSelectElement).value;
+      const sort = DASHBOARD_SORTS.find((option) => option.value === value)?.value ?? DEFAULT_DASHBOARD_FILTERS.sort;
+      updateFilters({ sort });
+    });
+    container.querySelector('#btn-clear-filters')?.addEventListener('click', () => {
+      dashboardQuery = '';
+      updateFilters({ folder: null, tag: null, model: null });
+    });
 
     // Theme toggle
     wireThemeToggle(container);
@@ -592,11 +768,12 @@ export function renderDashboard(container: HTMLElement): void {
   });
 }
 
-function renderPromptFlowCard(project: Project): string {
+function renderPromptFlowCard(item: PromptFlowItem): string {
+  const { project } = item;
   const thumbnailHtml = generateGraphThumbnailSVG(project.nodes, project.connections, project.icon);
 
   return `
-    <div class="dashboard-search-card prompt-project-card project-card group bg-white dark:bg-slate-800/50 border border-card-border dark:border-primary/10 rounded-xl transition-all duration-200 cursor-pointer overflow-hidden flex flex-col" data-project-id="${escapeHtml(project.id)}">
+    <div class="dashboard-search-card prompt-project-card project-card group bg-white dark:bg-slate-800/50 border border-card-border dark:border-primary/10 rounded-xl transition-all duration-200 cursor-pointer overflow-hidden flex flex-col" data-project-id="${escapeHtml(project.id)}" data-item-key="${escapeHtml(item.key)}">
       <div class="project-card-hero h-32 bg-slate-50 dark:bg-slate-900/50 relative overflow-hidden flex items-center justify-center border-b border-card-border dark:border-primary/5">
         <div class="absolute inset-0 opacity-10 group-hover:opacity-20 transition-opacity" style="background-image: radial-gradient(#23956F 1.5px, transparent 1.5px); background-size: 12px 12px;"></div>
         ${thumbnailHtml}
@@ -604,26 +781,312 @@ function renderPromptFlowCard(project: Project): string {
       <div class="project-card-body p-5 flex-1 flex flex-col">
         <div class="flex justify-between items-start mb-2 gap-2">
           <h3 class="font-semibold text-slate-800 dark:text-slate-100 group-hover:text-primary transition-colors">${escapeHtml(project.name)}</h3>
-          <button class="delete-project text-slate-400 hover:text-red-500 dark:hover:text-red-400 shrink-0" data-id="${escapeHtml(project.id)}" title="Delete project">
-            <span class="material-icons-outlined text-lg">delete_outline</span>
-          </button>
+          <div class="flex items-center gap-1 shrink-0">
+            <button class="organize-project text-slate-400 hover:text-primary" data-id="${escapeHtml(project.id)}" title="Folder and tags">
+              <span class="material-icons-outlined text-lg">drive_file_move</span>
+            </button>
+            <button class="fork-project text-slate-400 hover:text-primary" data-id="${escapeHtml(project.id)}" title="Fork project">
+              <span class="material-icons-outlined text-lg">call_split</span>
+            </button>
+            <button class="export-project text-slate-400 hover:text-primary" data-id="${escapeHtml(project.id)}" title="Export ${PROMPTFLOW_FILE_EXTENSION} bundle">
+              <span class="material-icons-outlined text-lg">file_download</span>
+            </button>
+            <button class="delete-project text-slate-400 hover:text-red-500 dark:hover:text-red-400" data-id="${escapeHtml(project.id)}" title="Delete project">
+              <span class="material-icons-outlined text-lg">delete_outline</span>
+            </button>
+          </div>
         </div>
+        ${renderProjectLineage(project)}
+        ${renderProjectOrganization(project)}
         <p class="project-description text-sm text-neutral-gray dark:text-neutral-gray/80 line-clamp-2 mb-4">${escapeHtml(project.description)}</p>
         <div class="mt-auto">
-          <div class="flex items-center gap-2 mb-3">
+          <div class="flex flex-wrap items-center gap-2 mb-3">
             <span class="px-2 py-0.5 bg-primary/10 text-primary text-[10px] font-bold uppercase tracking-wider rounded border border-primary/20">${escapeHtml(project.model)}</span>
+            ${renderReleaseTags(project)}
+            ${renderIntegrityStatus(project)}
+            <span class="text-[11px] text-slate-400 flex items-center gap-1" title="${item.tokenSize} tokens">
+              <span class="material-icons-outlined text-[14px]">data_usage</span>
+              ${formatTokenSize(item.tokenSize)}
+            </span>
             <span class="text-[11px] text-slate-400 flex items-center gap-1">
               <span class="material-icons-outlined text-[14px]">history</span>
               ${escapeHtml(project.lastEdited)}
             </span>
           </div>
+          ${renderTokenBudgetBar(project)}
         </div>
       </div>
     </div>
   `;
 }
 
-function renderTranscriptFlowCard(flow: TranscriptFlowDraft): string {
+function renderReleaseTags(project: Project): string {
+  const tags = project.versions
+    .flatMap((version, index) => listVersionTags(project.releaseTags, version.id).map((tag) => ({ tag, index })))
+    .sort((left, right) => (left.tag === PRODUCTION_TAG ? -1 : right.tag === PRODUCTION_TAG ? 1 : 0));
+  if (tags.length === 0) return '';
+
+  const chips = tags.map(({ tag, index }) => `
+    <span class="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold ${tag === PRODUCTION_TAG ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300' : 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300'}" title="${escapeHtml(tag)} is version ${index + 1}">
+      <span class="material-icons-outlined text-[11px]">sell</span>${escapeHtml(tag)} · v${index + 1}
+    </span>
+  `).join('');
+  const drift = store.divergesFromRelease(project.id)
+    ? `<span class="inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200" title="The canvas differs from the ${PRODUCTION_TAG} version">
+        <span class="material-icons-outlined text-[11px]">warning_amber</span>unreleased changes
+      </span>`
+    : '';
+  return chips + drift;
+}
+
+/** Problems found in the loaded graph; the chip opens the panel that lists and repairs them. */
+function renderIntegrityStatus(project: Project): string {
+  const issueCount = store.getIntegrityIssues(project.id).length;
+  if (issueCount === 0) return '';
+  return `
+    <button type="button" class="check-project-integrity inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[10px] font-semibold bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/40 dark:text-red-200" data-project-id="${escapeHtml(project.id)}" title="Some connections or sync records are broken. Click to review and repair.">
+      <span class="material-icons-outlined text-[11px]">report_problem</span>${issueCount === 1 ? '1 graph problem' : `${issueCount} graph problems`}
+    </button>
+  `;
+}
+
+function renderProjectLineage(project: Project): string {
+  const lineage = project.forkedFrom;
+  if (!lineage) return '';
+  const parent = store.getProject(lineage.projectId);
+  const parentName = parent?.name ?? lineage.projectName;
+  const versionIndex = parent && lineage.versionId
+    ? parent.versions.findIndex((version) => version.id === lineage.versionId)
+    : -1;
+  const versionLabel = versionIndex >= 0 ? ` · v${versionIndex + 1}` : '';
+  const label = `Forked from ${escapeHtml(parentName || 'another project')}${versionLabel}`;
+
+  return parent
+    ? `<button class="open-parent-project mb-2 inline-flex items-center gap-1 text-[11px] text-slate-400 hover:text-primary transition-colors" data-project-id="${escapeHtml(parent.id)}" title="Open original project">
+        <span class="material-icons-outlined text-[14px]">call_split</span>${label}
+      </button>`
+    : `<p class="mb-2 inline-flex items-center gap-1 text-[11px] text-slate-400" title="The original project no longer exists">
+        <span class="material-icons-outlined text-[14px]">call_split</span>${label} (deleted)
+      </p>`;
+}
+
+function renderProjectOrganization(project: Project): string {
+  if (!project.folder && !project.tags?.length) return '';
+  const folder = project.folder
+    ? `<span class="inline-flex items-center gap-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+        <span class="material-icons-outlined text-[14px]">folder</span>${escapeHtml(project.folder)}
+      </span>`
+    : '';
+  const tags = (project.tags ?? []).map((tag) => `
+    <span class="px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-slate-100 text-slate-600 dark:bg-slate-700/60 dark:text-slate-300">#${escapeHtml(tag)}</span>
+  `).join('');
+  return `<div class="mb-2 flex flex-wrap items-center gap-1.5">${folder}${tags}</div>`;
+}
+
+function renderDashboardFilters(items: OrganizedItem[], filters: DashboardFilters): string {
+  const folders = listFolders(items);
+  const tags = listTags(items);
+  const models = listModels(items);
+  const unfiledCount = items.filter((item) => !item.folder).length;
+  const chipClass = (active: boolean): string => active
+    ? 'bg-primary/10 text-primary border-primary/30'
+    : 'text-slate-500 dark:text-slate-400 border-card-border dark:border-primary/20 hover:border-primary/40 hover:text-primary';
+  const folderChips = [
+    `<button type="button" class="folder-filter px-2.5 py-1 rounded-full border text-xs transition-colors ${chipClass(filters.folder === null)}">All</button>`,
+    ...folders.map(({ folder, count }) => `
+      <button type="button" class="folder-filter inline-flex items-center gap-1 px-2.5 py-1 rounded-full border text-xs transition-colors ${chipClass(filters.folder === folder)}" data-folder="${escapeHtml(folder)}">
+        <span class="material-icons-outlined text-[14px]">folder</span>${escapeHtml(folder)} <span class="opacity-60">${count}</span>
+      </button>
+    `),
+    ...(folders.length > 0
+      ? [`<button type="button" class="folder-filter px-2.5 py-1 rounded-full border text-xs transition-colors ${chipClass(filters.folder === '')}" data-folder="">Unfiled <span class="opacity-60">${unfiledCount}</span></button>`]
+      : []),
+  ].join('');
+  const selectClass = 'rounded-lg border border-card-border dark:border-primary/20 bg-white dark:bg-slate-800 px-2 py-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-primary';
+  const option = (value: string, label: string, selected: boolean): string =>
+    `<option value="${escapeHtml(value)}" ${selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+  const hasFilters = filters.folder !== null || filters.tag !== null || filters.model !== null || filters.query.trim() !== '';
+
+  return `
+    <div id="dashboard-filters" class="flex flex-wrap items-center gap-2 mb-6">
+      <div class="flex flex-wrap items-center gap-1.5">${folderChips}</div>
+      <div class="flex flex-wrap items-center gap-2 sm:ml-auto">
+        <select id="filter-tag" class="${selectClass}" aria-label="Filter by tag">
+          ${option('', 'All tags', filters.tag === null)}
+          ${tags.map((tag) => option(tag, `#${tag}`, filters.tag === tag)).join('')}
+        </select>
+        <select id="filter-model" class="${selectClass}" aria-label="Filter by model">
+          ${option('', 'All models', filters.model === null)}
+          ${models.map((model) => option(model, model, filters.model === model)).join('')}
+        </select>
+        <select id="sort-projects" class="${selectClass}" aria-label="Sort projects">
+          ${DASHBOARD_SORTS.map(({ value, label }) => option(value, `Sort: ${label}`, filters.sort === value)).join('')}
+        </select>
+        ${hasFilters
+          ? `<button id="btn-clear-filters" type="button" class="text-xs text-slate-500 hover:text-primary transition-colors">Clear filters</button>`
+          : ''}
+      </div>
+    </div>
+  `;
+}
+
+function toPromptFlowItem(project: Project): PromptFlowItem {
+  return {
+    key: `project:${project.id}`,
+    project,
+    name: project.name,
+    model: project.model,
+    folder: project.folder ?? null,
+    tags: project.tags ?? [],
+    updatedAt: project.updatedAt ?? '',
+    tokenSize: projectTokenSize(project),
+    searchText: projectSearchText(project),
+  };
+}
+
+/** A transcript flow is organized through its linked project, when it has one. */
+function toTranscriptFlowItem(flow: TranscriptFlowDraft): TranscriptFlowItem {
+  const linkedProject = flow.projectId ? store.getProject(flow.projectId) ?? null : null;
+  const latestFlow = flow.latestFlow;
+  return {
+    key: `transcript:${flow.transcriptSetId}`,
+    flow,
+    name: linkedProject?.name || latestFlow?.flowTitle || flow.name,
+    model: linkedProject?.model || latestFlow?.model || 'unknown',
+    folder: linkedProject?.folder ?? null,
+    tags: linkedProject?.tags ?? [],
+    updatedAt: linkedProject?.updatedAt || latestFlow?.createdAt || flow.updatedAt,
+    tokenSize: linkedProject ? projectTokenSize(linkedProject) : 0,
+    searchText: linkedProject
+      ? projectSearchText(linkedProject)
+      : [flow.name, flow.description, latestFlow?.flowTitle ?? '', latestFlow?.flowSummary ?? ''].join('\n').toLowerCase(),
+  };
+}
+
+/** The runtime prompt the canvas shows for the project's active environment. */
+function projectRuntimePrompt(project: Project): string {
+  return store.assemblePrompt(project.id, 'runtime', store.getActiveEnvironment(project.id));
+}
+
+function projectTokenSize(project: Project): number {
+  return countTokens(projectRuntimePrompt(project), encodingForModel(project.model));
+}
+
+function renderTokenBudgetBar(project: Project): string {
+  if (!project.tokenBudget) return '';
+  const usage = store.getPromptBudgetUsage(project.id, projectRuntimePrompt(project));
+  if (!usage) return '';
+  const color = BUDGET_LEVEL_COLORS[usage.level];
+  return `
+    <div class="flex items-center gap-2" title="${usage.tokens} of ${usage.budget} budgeted tokens">
+      <div class="flex-1 h-1 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+        <div class="h-full" style="width:${Math.min(usage.ratio, 1) * 100}%; background:${color};"></div>
+      </div>
+      <span class="text-[10px] font-medium" style="color:${usage.level === 'ok' ? '' : color};">${Math.round(usage.ratio * 100)}% of budget</span>
+    </div>
+  `;
+}
+
+function formatTokenSize(tokens: number): string {
+  if (tokens < 1000) return `${tokens} tokens`;
+  return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k tokens`;
+}
+
+function loadDashboardFilters(): Omit<DashboardFilters, 'query'> {
+  const { query: _query, ...defaults } = DEFAULT_DASHBOARD_FILTERS;
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(DASHBOARD_FILTERS_KEY) ?? 'null');
+    if (!isRecord(parsed)) return defaults;
+    const optionalString = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+    const sort = DASHBOARD_SORTS.find((option) => option.value === parsed.sort)?.value;
+    return {
+      folder: optionalString(parsed.folder),
+      tag: optionalString(parsed.tag),
+      model: optionalString(parsed.model),
+      sort: sort ?? defaults.sort,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+function saveDashboardFilters(filters: DashboardFilters): void {
+  const { query: _query, ...persisted } = filters;
+  localStorage.setItem(DASHBOARD_FILTERS_KEY, JSON.stringify(persisted));
+}
+
+/** Prompts for a folder and tags; returns true when the project was changed. */
+async function organizeProjectFromDashboard(projectId: string): Promise<boolean> {
+  const project = store.getProject(projectId);
+  if (!project) return false;
+
+  const rawFolder = await customPrompt('Folder (leave empty for unfiled):', project.folder ?? '');
+  if (rawFolder === null) return false;
+  const folder = rawFolder.trim() ? normalizeFolderName(rawFolder) : null;
+  if (rawFolder.trim() && !folder) {
+    await customAlert(`Folder names can be at most ${MAX_FOLDER_NAME_LENGTH} characters.`);
+    return false;
+  }
+
+  const rawTags = await customPrompt('Tags, separated by commas:', (project.tags ?? []).join(', '));
+  if (rawTags === null) return false;
+  const { tags, invalid } = parseProjectTags(rawTags);
+  if (invalid.length > 0) {
+    await customAlert(`Tags may only use letters, numbers, "-" and "_": ${invalid.join(', ')}`);
+    return false;
+  }
+
+  store.setProjectOrganization(projectId, { folder, tags });
+  return true;
+}
+
+async function forkProjectFromDashboard(projectId: string): Promise<Project | null> {
+  const source = store.getProject(projectId);
+  if (!source) return null;
+  const name = await customPrompt('Name for the forked project:', `${source.name} (fork)`);
+  if (name === null) return null;
+  const includeHistory = source.versions.length > 0
+    && await customConfirm(`Copy the ${source.versions.length} saved version${source.versions.length === 1 ? '' : 's'} into the fork?`);
+  return store.forkProject(projectId, { name, includeHistory });
+}
+
+async function exportProjectBundle(projectId: string): Promise<void> {
+  const project = store.getProject(projectId);
+  if (!project) return;
+  const transcriptDraft = store.getLinkedTranscriptFlowDraft(projectId);
+  const includeTranscriptSet = transcriptDraft !== null
+    && await customConfirm(`Include the linked transcript set "${transcriptDraft.name}" in the bundle?`);
+  const bundle = createPromptFlowBundle(
+    project,
+    store.getCustomNodeTemplates(),
+    includeTranscriptSet ? transcriptDraft : null,
+  );
+  const blob = new Blob([serializePromptFlowBundle(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = promptFlowBundleFileName(project.name);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function importProjectBundle(file: File): Promise<Project | null> {
+  const result = parsePromptFlowBundle(await file.text());
+  if (!result.ok) {
+    const shown = result.errors.slice(0, 8);
+    const more = result.errors.length - shown.length;
+    await customAlert([
+      `Could not import "${file.name}":`,
+      ...shown.map((error) => `• ${error}`),
+      ...(more > 0 ? [`…and ${more} more.`] : []),
+    ].join('\n'));
+    return null;
+  }
+  return store.importProject(prepareProjectImport(result.bundle, store.getCustomNodeTemplates()));
+}
+
+function renderTranscriptFlowCard(item: TranscriptFlowItem): string {
+  const { flow } = item;
   const linkedProject = flow.projectId ? store.getProject(flow.projectId) ?? null : null;
   const linkedProjectId = linkedProject?.id ?? null;
   const latestFlow = flow.latestFlow;
@@ -639,7 +1102,7 @@ function renderTranscriptFlowCard(flow: TranscriptFlowDraft): string {
 
   return `
     <div class="dashboard-search-card ${linkedProjectId ? 'transcript-project-card cursor-pointer' : ''} project-card group bg-white dark:bg-slate-800/50 border border-card-border dark:border-primary/10 rounded-xl transition-all duration-200 overflow-hidden flex flex-col"
-      data-project-id="${linkedProjectId ? escapeHtml(linkedProjectId) : ''}">
+      data-project-id="${linkedProjectId ? escapeHtml(linkedProjectId) : ''}" data-item-key="${escapeHtml(item.key)}">
       <div class="project-card-hero h-32 bg-slate-50 dark:bg-slate-900/50 relative overflow-hidden flex items-center justify-center border-b border-card-border dark:border-primary/5">
         <div class="absolute inset-0 opacity-10 group-hover:opacity-20 transition-opacity" style="background-image: radial-gradient(#23956F 1.5px, transparent 1.5px); background-size: 12px 12px;"></div>
         ${thumbnailHtml}
@@ -647,10 +1110,21 @@ function renderTranscriptFlowCard(flow: TranscriptFlowDraft): string {
       <div class="project-card-body p-5 flex-1 flex flex-col">
         <div class="flex items-start justify-between gap-2 mb-2">
           <h3 class="font-semibold text-slate-800 dark:text-slate-100 group-hover:text-primary transition-colors">${escapeHtml(flowTitle)}</h3>
-          <button class="delete-transcript-flow text-slate-400 hover:text-red-500 dark:hover:text-red-400 shrink-0" data-transcript-set-id="${escapeHtml(flow.transcriptSetId)}" data-project-id="${linkedProjectId ? escapeHtml(linkedProjectId) : ''}" title="Delete transcript flow">
-            <span class="material-icons-outlined text-lg">delete_outline</span>
-          </button>
+          <div class="flex items-center gap-1 shrink-0">
+            ${linkedProjectId
+      ? `<button class="organize-project text-slate-400 hover:text-primary" data-id="${escapeHtml(linkedProjectId)}" title="Folder and tags">
+              <span class="material-icons-outlined text-lg">drive_file_move</span>
+            </button>
+            <button class="export-project text-slate-400 hover:text-primary" data-id="${escapeHtml(linkedProjectId)}" title="Export ${PROMPTFLOW_FILE_EXTENSION} bundle">
+              <span class="material-icons-outlined text-lg">file_download</span>
+            </button>`
+      : ''}
+            <button class="delete-transcript-flow text-slate-400 hover:text-red-500 dark:hover:text-red-400" data-transcript-set-id="${escapeHtml(flow.transcriptSetId)}" data-project-id="${linkedProjectId ? escapeHtml(linkedProjectId) : ''}" title="Delete transcript flow">
+              <span class="material-icons-outlined text-lg">delete_outline</span>
+            </button>
+          </div>
         </div>
+        ${linkedProject ? renderProjectOrganization(linkedProject) : ''}
         <p class="project-description text-sm text-neutral-gray dark:text-neutral-gray/80 line-clamp-2 mb-4">${escapeHtml(flowSummary)}</p>
         <div class="mt-auto space-y-3">
           <div class="flex flex-wrap items-center gap-2">
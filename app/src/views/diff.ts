@@ -1,8 +1,26 @@
 
-import { computeDiff, toSideBySideHTML } from '../diff';
-import type { Connection, PromptGraphSnapshot, PromptNode } from '../models';
+import { attributeDiffToNodes, computeDiff, toSideBySideHTML, type DiffStats } from '../diff';
+import type { Project, PromptGraphSnapshot, PromptNode, PromptVersion } from '../models';
 import { router } from '../router';
 import { store } from '../store';
+import { customConfirm, customPrompt } from '../dialogs';
+import { buildVersionTree, DEFAULT_BRANCH, getProjectHead, getVersionBranch, type VersionTreeRow } from '../version-tree';
+import { listVersionTags, PRODUCTION_TAG } from '../version-tags';
+import {
+  diffGraphSnapshots,
+  EMPTY_GRAPH_DIFF,
+  summarizeGraphRestore,
+  type NodeDiffStatus,
+} from '../graph-diff';
+import {
+  assembleFlowTemplate,
+  assembleRuntimePrompt,
+  assembleXmlPrompt,
+  buildGraphAssemblyPlan,
+  type AssemblySourceRange,
+} from '../prompt-assembly';
+import { formatCost, formatCostDelta } from '../prompt-costs';
+import { prepareTokens } from '../tokenizer';
 import { themeToggleHTML, wireThemeToggle } from '../theme';
 import { preserveScrollDuringRender } from '../view-state';
 import { projectViewTabsHTML, wireEscapeToCanvas, wireProjectViewTabs } from './project-nav';
@@ -21,45 +39,18 @@ import {
 } from '../prompt-repair';
 
 type BannerTone = 'success' | 'error' | 'info';
-type NodeDiffStatus = 'unchanged' | 'modified' | 'added' | 'removed';
 
 interface BannerMessage {
   tone: BannerTone;
   text: string;
 }
 
-interface GraphDiffResult {
-  oldStatusById: Map<string, NodeDiffStatus>;
-  newStatusById: Map<string, NodeDiffStatus>;
-  changedNodeIds: string[];
-  changedNodeIdSet: Set<string>;
-  stats: {
-    added: number;
-    removed: number;
-    modified: number;
-    unchanged: number;
-  };
-}
-
 interface GraphViewportState {
   panX: number;
   panY: number;
   zoom: number;
 }
 
-const EMPTY_GRAPH_DIFF: GraphDiffResult = {
-  oldStatusById: new Map(),
-  newStatusById: new Map(),
-  changedNodeIds: [],
-  changedNodeIdSet: new Set(),
-  stats: {
-    added: 0,
-    removed: 0,
-    modified: 0,
-    unchanged: 0,
-  },
-};
-
 const NODE_WIDTH = 240;
 const NODE_HEIGHT = 170;
 const GRID_COLS = 3;
@@ -81,6 +72,7 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
   let pendingNodeSync = false;
 
   let snapshotMessage: BannerMessage | null = null;
+  let restorePreviewVersionId: string | null = null;
   let transcriptSetOptions: TranscriptSetOption[] = [];
   let transcriptSetsLoaded = false;
   let transcriptSetsBusy = false;
@@ -175,11 +167,11 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
       : { leftHTML: '', rightHTML: '', stats: { added: 0, removed: 0, unchanged: 0 } };
 
     const hasLegacySnapshotGap = hasComparableVersions && (!oldSnapshot || !newSnapshot);
-
-    const recentVersions = versions
-      .map((version, index) => ({ version, index }))
-      .slice(Math.max(versions.length - 10, 0))
-      .reverse();
+    const selectedPromptStats = selectedNodeId && oldVersion && newVersion
+      ? promptLineStatsForNode(oldVersion, newVersion, selectedNodeId)
+      : null;
+    const oldCallCost = oldVersion ? versionCallCost(projectId, oldVersion) : null;
+    const newCallCost = newVersion ? versionCallCost(projectId, newVersion) : null;
 
     const graphPaneHeightClass = nodeDiffCollapsed ? 'min-h-[clamp(24rem,52vh,45rem)]' : 'min-h-[clamp(20rem,42vh,35rem)]';
     const selectedTranscriptSet = transcriptSetOptions.find((option) => option.id === selectedTranscriptSetId) ?? null;
@@ -230,6 +222,10 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
             <button id="btn-compare-latest" class="px-3 py-1.5 text-xs font-medium border border-slate-200 dark:border-slate-700 rounded hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
               Compare Latest
             </button>
+            ${newVersion?.snapshot ? `
+            <button id="btn-fork-version" class="px-3 py-1.5 text-xs font-medium border border-slate-200 dark:border-slate-700 rounded hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors" title="Create a new project from the right-hand version">
+              Fork This Version
+            </button>` : ''}
             <div class="ml-auto flex items-center gap-2">
               <button id="btn-toggle-node-diff" class="px-3 py-1.5 text-xs font-medium border border-slate-200 dark:border-slate-700 rounded hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
                 ${nodeDiffCollapsed ? 'Show Text Diff' : 'Hide Text Diff'}
@@ -241,6 +237,7 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
           </div>
 
           ${renderBanner(snapshotMessage)}
+          ${renderRestorePreview(project, versions, restorePreviewVersionId, store.hasUnsavedGraphChanges(projectId))}
 
           ${hasComparableVersions ? `
             <div class="px-4 py-3 border-b border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 flex flex-wrap items-center justify-between gap-3">
@@ -250,7 +247,7 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
                   <select id="select-left" class="text-xs bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none">
                     ${versions.map((version, index) => `
                       <option value="${index}" ${index === leftIdx ? 'selected' : ''}>
-                        ${escapeHtml(formatVersionLabel(index, versions.length, version.timestamp))}
+                        ${escapeHtml(formatVersionLabel(index, versions.length, version))}
                       </option>
                     `).join('')}
                   </select>
@@ -261,7 +258,7 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
                   <select id="select-right" class="text-xs bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded px-2 py-1.5 focus:ring-1 focus:ring-primary outline-none">
                     ${versions.map((version, index) => `
                       <option value="${index}" ${index === rightIdx ? 'selected' : ''}>
-                        ${escapeHtml(formatVersionLabel(index, versions.length, version.timestamp))}
+                        ${escapeHtml(formatVersionLabel(index, versions.length, version))}
                       </option>
                     `).join('')}
                   </select>
@@ -273,6 +270,11 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
                 <span class="text-red-600 font-bold">-${graphDiff.stats.removed} removed</span>
                 <span class="text-amber-600 font-bold">~${graphDiff.stats.modified} modified</span>
                 <span class="text-slate-500">=${graphDiff.stats.unchanged} unchanged</span>
+                ${oldCallCost !== null && newCallCost !== null ? `
+                  <span class="text-slate-500" title="Input cost per call of each version's runtime prompt, with the project's model, active environment and average conversation length">
+                    ${formatCost(oldCallCost)} → ${formatCost(newCallCost)}/call ${renderCostDelta(oldCallCost, newCallCost)}
+                  </span>
+                ` : ''}
               </div>
             </div>
 
@@ -306,6 +308,9 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
                     ${selectedNodeId ? `
                     <div class="text-[11px] text-slate-500 dark:text-slate-400">
                       Old: ${escapeHtml(selectedOldStatus ?? 'n/a')} | New: ${escapeHtml(selectedNewStatus ?? 'n/a')}
+                      ${selectedPromptStats
+              ? ` | Prompt text: <span class="text-emerald-600">+${selectedPromptStats.added}</span> <span class="text-red-600">-${selectedPromptStats.removed}</span> lines`
+              : ''}
                     </div>
                     ` : ''}
                   </div>
@@ -364,24 +369,7 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
             </button>
           </div>
           <div class="p-4 space-y-6 ui-scroll custom-scrollbar" data-scroll-preserve="diff-sidebar">
-              <section class="space-y-3">
-                <div>
-                  <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100">Snapshot History</h2>
-                  <p class="text-xs text-slate-500 dark:text-slate-400">Quickly pick versions for Old/New comparison.</p>
-                </div>
-                <div class="space-y-2 max-h-56 overflow-y-auto custom-scrollbar pr-1">
-                  ${recentVersions.length > 0 ? recentVersions.map(({ version, index }) => `
-                    <div class="rounded-lg border border-slate-200 dark:border-slate-700 p-2">
-                      <p class="text-[11px] font-medium text-slate-700 dark:text-slate-200">${escapeHtml(formatSnapshotId(index, versions.length))}</p>
-                      <p class="text-[11px] text-slate-500 dark:text-slate-400 mt-0.5 line-clamp-2">${escapeHtml(formatDate(version.timestamp))}</p>
-                      <div class="mt-2 flex gap-2">
-                        <button class="version-select px-2 py-1 text-[11px] rounded border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800" data-role="left" data-index="${index}">Use as Old</button>
-                        <button class="version-select px-2 py-1 text-[11px] rounded border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800" data-role="right" data-index="${index}">Use as New</button>
-                      </div>
-                    </div>
-                  `).join('') : '<p class="text-xs text-slate-400">No snapshots yet.</p>'}
-                </div>
-              </section>
+              ${renderVersionTreeSection(project, versions.length, leftIdx, rightIdx, hasComparableVersions)}
 
               ${graphDiff.changedNodeIds.length > 0 ? `
                 <section class="space-y-3 pt-2 border-t border-slate-200 dark:border-slate-800">
@@ -503,6 +491,14 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
       render();
     });
 
+    container.querySelector('#btn-fork-version')?.addEventListener('click', async () => {
+      if (!newVersion) return;
+      const name = await customPrompt('Name for the forked project:', `${project.name} (fork)`);
+      if (name === null) return;
+      const fork = store.forkProject(projectId, { name, versionId: newVersion.id, includeHistory: true });
+      if (fork) router.navigate(`/project/${fork.id}`);
+    });
+
     container.querySelector('#btn-compare-latest')?.addEventListener('click', () => {
       selectLatestPair();
       selectedNodeId = null;
@@ -552,6 +548,83 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
       });
     });
 
+    container.querySelectorAll<HTMLButtonElement>('.version-tag').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const versionId = button.dataset.versionId;
+        if (!versionId) return;
+        const rawTag = await customPrompt('Tag this version (e.g. prod, staging, v1.4):', PRODUCTION_TAG);
+        if (rawTag === null) return;
+        const result = store.tagVersion(projectId, versionId, rawTag);
+        snapshotMessage = result.ok
+          ? { tone: 'success', text: `Tagged version as "${result.tag}".` }
+          : { tone: 'error', text: result.error };
+        render();
+      });
+    });
+
+    container.querySelectorAll<HTMLButtonElement>('.version-tag-remove').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const tag = button.dataset.tag;
+        if (!tag || !(await customConfirm(`Remove the "${tag}" tag?`))) return;
+        store.removeVersionTag(projectId, tag);
+        snapshotMessage = null;
+        render();
+      });
+    });
+
+    container.querySelectorAll<HTMLButtonElement>('.version-restore').forEach((button) => {
+      button.addEventListener('click', () => {
+        restorePreviewVersionId = button.dataset.versionId ?? null;
+        snapshotMessage = null;
+        render();
+      });
+    });
+
+    container.querySelector('#btn-cancel-restore')?.addEventListener('click', () => {
+      restorePreviewVersionId = null;
+      render();
+    });
+
+    container.querySelector('#btn-confirm-restore')?.addEventListener('click', () => {
+      if (!restorePreviewVersionId) return;
+      const versionIndex = versions.findIndex((version) => version.id === restorePreviewVersionId);
+      const result = store.restoreVersion(projectId, restorePreviewVersionId);
+      restorePreviewVersionId = null;
+      if (result.ok) {
+        selectLatestPair();
+        selectedNodeId = null;
+        snapshotMessage = {
+          tone: 'success',
+          text: `Restored ${formatSnapshotId(versionIndex, versions.length)} into the canvas and saved it as a new version.`,
+        };
+      } else {
+        snapshotMessage = { tone: 'error', text: result.error };
+      }
+      render();
+    });
+
+    container.querySelectorAll<HTMLButtonElement>('.version-checkout').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const versionId = button.dataset.versionId;
+        const versionIndex = versions.findIndex((version) => version.id === versionId);
+        if (!versionId || versionIndex < 0) return;
+        if (store.hasUnsavedGraphChanges(projectId)
+          && !(await customConfirm('The canvas has changes that are not saved as a version. Check out anyway and discard them?'))) {
+          return;
+        }
+        const branchName = await customPrompt('Name for the new branch:', `branch-${versionIndex + 1}`);
+        if (branchName === null) return;
+        const result = store.checkoutVersion(projectId, versionId, branchName);
+        snapshotMessage = result.ok
+          ? {
+            tone: 'success',
+            text: `Checked out ${formatSnapshotId(versionIndex, versions.length)} on branch "${branchName.trim()}". The canvas now shows this version.`,
+          }
+          : { tone: 'error', text: result.error };
+        render();
+      });
+    });
+
     container.querySelector('#alignment-transcript-set')?.addEventListener('change', (event) => {
       selectedTranscriptSetId = (event.target as HTMLSelectElement).value;
       alignmentResult = null;
@@ -682,6 +755,15 @@ export function renderDiff(container: HTMLElement, projectId: string): void {
 
   render();
   void refreshTranscriptSets();
+
+  // Costs start from estimated token counts; re-render once every version is encoded.
+  const diffHash = window.location.hash;
+  const encoding = store.getTokenEncoding(projectId);
+  const environment = store.getActiveEnvironment(projectId);
+  const runtimePrompts = store.getVersions(projectId).flatMap((version) => store.assembleVersionRuntimePrompt(projectId, version, environment) ?? []);
+  void Promise.all(runtimePrompts.map((prompt) => prepareTokens(prompt, encoding))).then(() => {
+    if (window.location.hash === diffHash) render();
+  });
 }
 
 function renderGraphPaneMarkup(
@@ -962,110 +1044,43 @@ function buildGraphLayout(snapshot: PromptGraphSnapshot): {
   };
 }
 
-function diffGraphSnapshots(oldSnapshot: PromptGraphSnapshot, newSnapshot: PromptGraphSnapshot): GraphDiffResult {
-  const oldMap = new Map(oldSnapshot.nodes.map((node) => [node.id, node] as const));
-  const newMap = new Map(newSnapshot.nodes.map((node) => [node.id, node] as const));
-
-  const oldAdj = adjacencyByNode(oldSnapshot.connections);
-  const newAdj = adjacencyByNode(newSnapshot.connections);
-
-  const allNodeIds = Array.from(new Set([...oldMap.keys(), ...newMap.keys()])).sort((left, right) => left.localeCompare(right));
-
-  const oldStatusById = new Map<string, NodeDiffStatus>();
-  const newStatusById = new Map<string, NodeDiffStatus>();
-  const changedNodeIds: string[] = [];
-
-  let added = 0;
-  let removed = 0;
-  let modified = 0;
-  let unchanged = 0;
-
-  for (const id of allNodeIds) {
-    const oldNode = oldMap.get(id);
-    const newNode = newMap.get(id);
-
-    if (!oldNode && newNode) {
-      newStatusById.set(id, 'added');
-      changedNodeIds.push(id);
-      added += 1;
-      continue;
-    }
-
-    if (oldNode && !newNode) {
-      oldStatusById.set(id, 'removed');
-      changedNodeIds.push(id);
-      removed += 1;
-      continue;
-    }
-
-    if (!oldNode || !newNode) {
-      continue;
-    }
-
-    const oldSig = nodeSignature(oldNode, oldAdj.incoming.get(id) ?? [], oldAdj.outgoing.get(id) ?? []);
-    const newSig = nodeSignature(newNode, newAdj.incoming.get(id) ?? [], newAdj.outgoing.get(id) ?? []);
-
-    if (oldSig === newSig) {
-      oldStatusById.set(id, 'unchanged');
-      newStatusById.set(id, 'unchanged');
-      unchanged += 1;
-      continue;
-    }
-
-    oldStatusById.set(id, 'modified');
-    newStatusById.set(id, 'modified');
-    changedNodeIds.push(id);
-    modified += 1;
+/**
+ * Source map of a version's saved prompt, rebuilt from its snapshot. Null when no
+ * assembly mode reproduces the saved text, e.g. for versions whose subflows expanded.
+ */
+function versionSourceMap(version: PromptVersion): AssemblySourceRange[] | null {
+  if (!version.snapshot) return null;
+  const plan = buildGraphAssemblyPlan(version.snapshot);
+  for (const assemble of [assembleRuntimePrompt, assembleFlowTemplate, assembleXmlPrompt]) {
+    const assembled = assemble(plan);
+    if (assembled.text === version.content) return assembled.sourceMap;
   }
-
-  return {
-    oldStatusById,
-    newStatusById,
-    changedNodeIds,
-    changedNodeIdSet: new Set(changedNodeIds),
-    stats: { added, removed, modified, unchanged },
-  };
+  return null;
 }
 
-function adjacencyByNode(connections: Connection[]): {
-  incoming: Map<string, string[]>;
-  outgoing: Map<string, string[]>;
-} {
-  const incoming = new Map<string, string[]>();
-  const outgoing = new Map<string, string[]>();
-
-  for (const connection of connections) {
-    const outgoingList = outgoing.get(connection.from) ?? [];
-    outgoingList.push(connection.to);
-    outgoing.set(connection.from, outgoingList);
-
-    const incomingList = incoming.get(connection.to) ?? [];
-    incomingList.push(connection.from);
-    incoming.set(connection.to, incomingList);
-  }
-
-  for (const [nodeId, list] of incoming.entries()) {
-    incoming.set(nodeId, [...list].sort());
-  }
-  for (const [nodeId, list] of outgoing.entries()) {
-    outgoing.set(nodeId, [...list].sort());
-  }
+/** Changed lines of the saved prompt text that the node produced, when both versions can be mapped. */
+function promptLineStatsForNode(oldVersion: PromptVersion, newVersion: PromptVersion, nodeId: string): DiffStats | null {
+  const oldSourceMap = versionSourceMap(oldVersion);
+  const newSourceMap = versionSourceMap(newVersion);
+  if (!oldSourceMap || !newSourceMap) return null;
+  const diff = computeDiff(oldVersion.content, newVersion.content);
+  return attributeDiffToNodes(diff, oldSourceMap, newSourceMap).get(nodeId) ?? { added: 0, removed: 0, unchanged: 0 };
+}
 
-  return { incoming, outgoing };
+/**
+ * Input cost per call of a version's runtime prompt for the active environment, as the
+ * canvas prices it. Null for versions without a graph snapshot, whose saved text may
+ * be in another assembly mode.
+ */
+function versionCallCost(projectId: string, version: PromptVersion): number | null {
+  const runtimePrompt = store.assembleVersionRuntimePrompt(projectId, version, store.getActiveEnvironment(projectId));
+  if (runtimePrompt === null) return null;
+  return store.getPromptCostEstimate(projectId, runtimePrompt)?.callCost ?? null;
 }
 
-function nodeSignature(node: PromptNode, incoming: string[], outgoing: string[]): string {
-  const sortedMeta = Object.entries(node.meta).sort(([left], [right]) => left.localeCompare(right));
-  return JSON.stringify({
-    id: node.id,
-    type: node.type,
-    label: node.label,
-    icon: node.icon,
-    content: node.content,
-    meta: sortedMeta,
-    incoming,
-    outgoing,
-  });
+function renderCostDelta(before: number, after: number): string {
+  const tone = after > before ? 'text-red-600' : after < before ? 'text-emerald-600' : 'text-slate-500';
+  return `<span class="${tone}">${escapeHtml(formatCostDelta(before, after))}</span>`;
 }
 
 function findNode(snapshot: PromptGraphSnapshot, nodeId: string): PromptNode | null {
@@ -1351,6 +1366,58 @@ function renderBanner(message: BannerMessage | null): string {
   return `<p class="mx-4 mt-3 rounded border border-red-300 bg-red-50 text-red-900 dark:border-red-700 dark:bg-red-950 dark:text-red-100 px-3 py-2 text-xs">${escapeHtml(message.text)}</p>`;
 }
 
+function renderRestorePreview(
+  project: Project,
+  versions: PromptVersion[],
+  versionId: string | null,
+  hasUnsavedChanges: boolean,
+): string {
+  const index = versions.findIndex((version) => version.id === versionId);
+  const snapshot = versions[index]?.snapshot;
+  if (!snapshot) return '';
+
+  const summary = summarizeGraphRestore(
+    { nodes: project.nodes, connections: project.connections },
+    snapshot,
+  );
+  const hasChanges = summary.removedNodes.length + summary.addedNodes.length + summary.modifiedNodes.length
+    + summary.addedConnections + summary.removedConnections > 0;
+  const nodeList = (title: string, nodes: PromptNode[], classes: string): string => (nodes.length === 0 ? '' : `
+    <div>
+      <p class="text-[11px] font-semibold ${classes}">${title} (${nodes.length})</p>
+      <p class="text-[11px] text-slate-600 dark:text-slate-300">${nodes.map((node) => escapeHtml(node.label || node.id)).join(', ')}</p>
+    </div>
+  `);
+
+  return `
+    <section class="mx-4 mt-3 rounded border border-primary/30 bg-primary/5 px-3 py-3 space-y-2">
+      <div>
+        <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100">Restore ${escapeHtml(formatSnapshotId(index, versions.length))}?</h2>
+        <p class="text-xs text-slate-500 dark:text-slate-400">
+          The canvas will be replaced with this version and saved as a new version. Existing versions are kept.
+        </p>
+      </div>
+      ${hasChanges ? `
+        <div class="grid gap-2 sm:grid-cols-3">
+          ${nodeList('Removed from canvas', summary.removedNodes, 'text-red-600 dark:text-red-400')}
+          ${nodeList('Added back', summary.addedNodes, 'text-emerald-600 dark:text-emerald-400')}
+          ${nodeList('Changed', summary.modifiedNodes, 'text-amber-600 dark:text-amber-400')}
+        </div>
+        ${summary.addedConnections + summary.removedConnections > 0 ? `
+          <p class="text-[11px] text-slate-600 dark:text-slate-300">
+            Connections: ${summary.addedConnections} added, ${summary.removedConnections} removed.
+          </p>
+        ` : ''}
+      ` : '<p class="text-[11px] text-slate-600 dark:text-slate-300">Only node positions differ from the canvas.</p>'}
+      ${hasUnsavedChanges ? '<p class="text-[11px] text-amber-700 dark:text-amber-300">The canvas has changes that are not saved as a version; restoring discards them.</p>' : ''}
+      <div class="flex gap-2">
+        <button id="btn-confirm-restore" class="px-3 py-1.5 text-xs font-medium rounded bg-primary text-white hover:bg-primary/90 transition-colors">Restore Version</button>
+        <button id="btn-cancel-restore" class="px-3 py-1.5 text-xs font-medium border border-slate-200 dark:border-slate-700 rounded hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">Cancel</button>
+      </div>
+    </section>
+  `;
+}
+
 function formatDate(timestamp: number): string {
   return new Date(timestamp).toLocaleString('en-US', {
     month: 'short',
@@ -1366,8 +1433,111 @@ function formatSnapshotId(index: number, totalVersions: number): string {
   return `Snapshot ${padded}`;
 }
 
-function formatVersionLabel(index: number, totalVersions: number, timestamp: number): string {
-  return `${formatSnapshotId(index, totalVersions)} - ${formatDate(timestamp)}`;
+function formatVersionLabel(index: number, totalVersions: number, version: PromptVersion): string {
+  const branch = getVersionBranch(version);
+  const branchSuffix = branch === DEFAULT_BRANCH ? '' : ` [${branch}]`;
+  return `${formatSnapshotId(index, totalVersions)} - ${formatDate(version.timestamp)}${branchSuffix}`;
+}
+
+const VERSION_TREE_ROW_HEIGHT = 76;
+const VERSION_TREE_LANE_WIDTH = 16;
+
+function renderVersionTreeSection(
+  project: Project,
+  totalVersions: number,
+  leftIdx: number,
+  rightIdx: number,
+  hasComparableVersions: boolean,
+): string {
+  const tree = buildVersionTree(project);
+  const head = getProjectHead(project);
+  const graphWidth = Math.max(tree.branches.length, 1) * VERSION_TREE_LANE_WIDTH + 8;
+  const rowById = new Map(tree.rows.map((row, position) => [row.version.id, { row, position }]));
+  const laneX = (lane: number): number => lane * VERSION_TREE_LANE_WIDTH + 10;
+  const rowY = (position: number): number => position * VERSION_TREE_ROW_HEIGHT + 18;
+  const versionById = new Map(project.versions.map((version) => [version.id, version]));
+  const callCosts = new Map<string, number | null>();
+  const callCostOf = (version: PromptVersion): number | null => {
+    if (!callCosts.has(version.id)) callCosts.set(version.id, versionCallCost(project.id, version));
+    return callCosts.get(version.id) ?? null;
+  };
+  const costChangeHTML = (row: VersionTreeRow): string => {
+    const parent = row.parentId ? versionById.get(row.parentId) : undefined;
+    const cost = callCostOf(row.version);
+    const parentCost = parent ? callCostOf(parent) : null;
+    if (cost === null || parentCost === null || cost === parentCost) return '';
+    const tone = cost > parentCost ? 'text-red-600' : 'text-emerald-600';
+    const title = `Input cost per call ${formatCost(parentCost)} → ${formatCost(cost)}, ${formatCostDelta(parentCost, cost)} against the parent version`;
+    return `<span class="ml-auto shrink-0 text-[9px] font-mono ${tone}" title="${escapeHtml(title)}">${cost > parentCost ? '+' : ''}${escapeHtml(formatCost(cost - parentCost))}/call</span>`;
+  };
+
+  const edges = tree.rows.map((row, position) => {
+    const parent = row.parentId ? rowById.get(row.parentId) : undefined;
+    if (!parent) return '';
+    const x1 = laneX(row.lane);
+    const y1 = rowY(position);
+    const x2 = laneX(parent.row.lane);
+    const y2 = rowY(parent.position);
+    const midY = (y1 + y2) / 2;
+    return `<path d="M ${x1} ${y1} C ${x1} ${midY}, ${x2} ${midY}, ${x2} ${y2}" fill="none" stroke="currentColor" stroke-width="1.5" />`;
+  }).join('');
+  const dots = tree.rows.map((row, position) => `
+    <circle cx="${laneX(row.lane)}" cy="${rowY(position)}" r="${row.isHead ? 5 : 4}"
+      class="${row.isHead ? 'fill-primary' : 'fill-white dark:fill-slate-900'}" stroke="#23956F" stroke-width="2" />
+  `).join('');
+
+  return `
+    <section class="space-y-3">
+      <div>
+        <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100">Version Tree</h2>
+        <p class="text-xs text-slate-500 dark:text-slate-400">
+          Working on <span class="font-medium text-primary">${escapeHtml(head.branch)}</span>. Pick versions to compare or check one out as a new branch.
+        </p>
+        ${store.divergesFromRelease(project.id) ? `
+          <p class="mt-2 rounded border border-amber-300 bg-amber-50 px-2 py-1.5 text-[11px] text-amber-900 dark:border-amber-700 dark:bg-amber-950 dark:text-amber-100">
+            The canvas differs from the version tagged <span class="font-semibold">${PRODUCTION_TAG}</span>. Tag a new version before shipping these changes.
+          </p>
+        ` : ''}
+      </div>
+      ${tree.rows.length > 0 ? `
+        <div class="relative max-h-96 overflow-y-auto custom-scrollbar pr-1">
+          <div class="relative" style="height: ${tree.rows.length * VERSION_TREE_ROW_HEIGHT}px;">
+            <svg class="absolute left-0 top-0 text-slate-300 dark:text-slate-600" width="${graphWidth}" height="${tree.rows.length * VERSION_TREE_ROW_HEIGHT}" aria-hidden="true">
+              ${edges}
+              ${dots}
+            </svg>
+            ${tree.rows.map((row) => {
+    const isOld = hasComparableVersions && row.index === leftIdx;
+    const isNew = hasComparableVersions && row.index === rightIdx;
+    return `
+              <div class="flex flex-col justify-start" style="height: ${VERSION_TREE_ROW_HEIGHT}px; padding-left: ${graphWidth + 4}px;">
+                <div class="flex items-center gap-1.5 min-w-0">
+                  <span class="text-[11px] font-medium text-slate-700 dark:text-slate-200">${escapeHtml(formatSnapshotId(row.index, totalVersions))}</span>
+                  <span class="px-1.5 py-0.5 rounded text-[9px] font-semibold uppercase tracking-wider ${row.branch === DEFAULT_BRANCH ? 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400' : 'bg-primary/10 text-primary'}">${escapeHtml(row.branch)}</span>
+                  ${row.isHead ? '<span class="text-[9px] font-bold text-primary">HEAD</span>' : ''}
+                  ${listVersionTags(project.releaseTags, row.version.id).map((tag) => `
+                    <button class="version-tag-remove inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded-full text-[9px] font-semibold ${tag === PRODUCTION_TAG ? 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300' : 'bg-sky-100 text-sky-700 dark:bg-sky-900/40 dark:text-sky-300'}" data-tag="${escapeHtml(tag)}" title="Remove tag ${escapeHtml(tag)}">
+                      <span class="material-icons text-[10px]">sell</span>${escapeHtml(tag)}
+                    </button>
+                  `).join('')}
+                  ${costChangeHTML(row)}
+                </div>
+                <p class="text-[10px] text-slate-500 dark:text-slate-400 truncate" title="${escapeHtml(row.version.notes)}">${escapeHtml(formatDate(row.version.timestamp))} · ${escapeHtml(row.version.notes)}</p>
+                <div class="mt-1 flex gap-1.5">
+                  <button class="version-select px-1.5 py-0.5 text-[10px] rounded border ${isOld ? 'border-primary text-primary' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'}" data-role="left" data-index="${row.index}">Old</button>
+                  <button class="version-select px-1.5 py-0.5 text-[10px] rounded border ${isNew ? 'border-primary text-primary' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'}" data-role="right" data-index="${row.index}">New</button>
+                  <button class="version-tag px-1.5 py-0.5 text-[10px] rounded border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800" data-version-id="${escapeHtml(row.version.id)}" title="Tag this version, e.g. prod or v1.4">Tag</button>
+                  ${row.version.snapshot ? `<button class="version-restore px-1.5 py-0.5 text-[10px] rounded border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800" data-version-id="${escapeHtml(row.version.id)}" title="Preview restoring this version into the canvas">Restore</button>` : ''}
+                  ${row.version.snapshot ? `<button class="version-checkout px-1.5 py-0.5 text-[10px] rounded border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800" data-version-id="${escapeHtml(row.version.id)}" title="Load this version into the canvas on a new branch">Check Out</button>` : ''}
+                </div>
+              </div>
+            `;
+  }).join('')}
+          </div>
+        </div>
+      ` : '<p class="text-xs text-slate-400">No snapshots yet.</p>'}
+    </section>
+  `;
 }
 
 function loadSidebarCollapsedState(): boolean {
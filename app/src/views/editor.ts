@@ -1,14 +1,16 @@
 /**
  * Editor View - Prompt editor modal with tokenizer visualization.
  */
-import { store } from '../store';
+import { store, type PromptAssemblyMode, type StoreSyncConflictEventDetail } from '../store';
+import { GRAPH_EVENT_TYPES, type StoreEventOfType } from '../store-events';
 import { router } from '../router';
-import { countTokens, toHighlightedHTML } from '../tokenizer';
+import { countTokens, prepareTokens, toHighlightedHTML } from '../tokenizer';
 import type { EditorFormat } from '../models';
 import { themeToggleHTML, wireThemeToggle } from '../theme';
 import { preserveScrollDuringRender } from '../view-state';
 import { projectViewTabsHTML, wireEscapeToCanvas, wireProjectViewTabs } from './project-nav';
-import { customPrompt } from '../dialogs';
+import { customAlert, customConfirm, customPrompt } from '../dialogs';
+import { readHistoryShortcut } from '../history';
 import {
   buildNodeColorStyles,
   DEFAULT_NODE_COLOR,
@@ -18,6 +20,20 @@ import {
   readNodeColorMeta,
   withNodeColorMeta,
 } from '../node-colors';
+import { readNodeEnvironmentRule, withNodeEnvironmentRule, type EnvironmentRule } from '../environments';
+import { chatMessagesFileName, isExampleNode, withExampleMeta } from '../chat-messages';
+import { readSubflowNodeGroup, readSubflowReference, withSubflowNodeGroup, withSubflowReference } from '../subflows';
+import { libraryLinkStatus, readLibraryLink } from '../node-library';
+import { nodeSourceRange } from '../prompt-assembly';
+import {
+  BUDGET_LEVEL_COLORS,
+  budgetUsage,
+  normalizeTokenBudget,
+  promptBudgetWarning,
+  readNodeTokenBudget,
+  withNodeTokenBudget,
+} from '../token-budgets';
+import { VOICE_PLATFORMS, voiceAgentFileName, type VoicePlatform } from '../voice-agent-export';
 
 const NODE_ICON_SUGGESTIONS = [
   'psychology',
@@ -76,6 +92,9 @@ const NODE_ICON_SUGGESTIONS = [
 // Create icon options for the dropdown
 const ICON_OPTIONS = NODE_ICON_SUGGESTIONS.map(icon => ({ value: icon, label: icon }));
 
+const EXTERNAL_CHANGE_EVENT_TYPES = [...GRAPH_EVENT_TYPES, 'project-removed', 'transcript-flow-removed'] as const;
+type ExternalChangeEventType = (typeof EXTERNAL_CHANGE_EVENT_TYPES)[number];
+
 export function renderEditor(container: HTMLElement, projectId: string, nodeId: string): void {
   const projectOrUndef = store.getProject(projectId);
   if (!projectOrUndef) { router.navigate('/'); return; }
@@ -88,9 +107,12 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
   const normalizeIconName = (value: string): string =>
     value.trim().toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
 
+  const tokenEncoding = store.getTokenEncoding(projectId);
   let tokenizerActive = true;
   let editorFormat: EditorFormat = 'markdown';
   let currentContent = normalizeLineEndings(node.content);
+  // Content last written to or read from the store; differs from currentContent while typing.
+  let syncedContent = currentContent;
   let currentIcon = normalizeIconName(node.icon) || 'widgets';
   let currentNodeColor = readNodeColorMeta(node.meta) ?? DEFAULT_NODE_COLOR;
 
@@ -109,6 +131,7 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
       meta: nextMeta,
     });
     node.content = currentContent;
+    syncedContent = currentContent;
     node.label = nextLabel;
     node.icon = nextIcon;
     node.meta = nextMeta;
@@ -127,11 +150,104 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
     router.navigate(`/project/${projectId}`);
   };
 
+  const replayHistory = (direction: 'undo' | 'redo'): void => {
+    persistDraft();
+    const applied = direction === 'undo' ? store.undo(projectId) : store.redo(projectId);
+    if (!applied) return;
+    if (!project.nodes.some((item) => item.id === nodeId)) {
+      router.navigate(`/project/${projectId}`);
+      return;
+    }
+    adoptStoredNode();
+    render();
+  };
+
+  const adoptStoredNode = (): void => {
+    currentContent = normalizeLineEndings(node.content);
+    syncedContent = currentContent;
+    currentIcon = normalizeIconName(node.icon) || 'widgets';
+    currentNodeColor = readNodeColorMeta(node.meta) ?? DEFAULT_NODE_COLOR;
+  };
+
+  // Another tab or client changed this node: keep an unsaved draft and flag the conflict, otherwise refresh.
+  const onExternalChange = (event: StoreEventOfType<ExternalChangeEventType>): void => {
+    if (event.origin === 'local' || event.projectId !== projectId) return;
+    if (!project.nodes.some((item) => item.id === nodeId)) {
+      router.navigate(store.getProject(projectId) ? `/project/${projectId}` : '/');
+      return;
+    }
+    if (event.type !== 'node-updated' || event.nodeId !== nodeId) return;
+    const hasUnsavedDraft = currentContent !== syncedContent;
+    if (hasUnsavedDraft && normalizeLineEndings(node.content) !== syncedContent) {
+      window.dispatchEvent(new CustomEvent<StoreSyncConflictEventDetail>('store:sync-conflict', {
+        detail: {
+          projectId,
+          nodeId,
+          nodeLabel: node.label,
+          source: event.origin === 'remote' ? 'collaborator' : 'tab',
+          resolution: 'overwritten',
+        },
+      }));
+      syncedContent = normalizeLineEndings(node.content);
+      return;
+    }
+    const draft = currentContent;
+    adoptStoredNode();
+    if (hasUnsavedDraft) {
+      currentContent = draft;
+    }
+    render();
+  };
+  const unsubscribeStore = store.on(EXTERNAL_CHANGE_EVENT_TYPES, onExternalChange);
+
+  // Text fields keep their native undo; store history applies everywhere else.
+  const onHistoryKeyDown = (event: KeyboardEvent): void => {
+    const direction = readHistoryShortcut(event);
+    if (!direction) return;
+    const target = event.target as HTMLElement | null;
+    const isTypingTarget = target
+      ? target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable
+      : false;
+    if (isTypingTarget) return;
+    event.preventDefault();
+    replayHistory(direction);
+  };
+  document.addEventListener('keydown', onHistoryKeyDown);
+  window.addEventListener('hashchange', () => {
+    document.removeEventListener('keydown', onHistoryKeyDown);
+    unsubscribeStore();
+  }, { once: true });
+
   function render(): void {
-    const tokenCount = countTokens(currentContent);
+    const tokenCount = countTokens(currentContent, tokenEncoding);
+    const nodeTokenBudget = readNodeTokenBudget(node.meta);
+    const nodeBudgetUsage = budgetUsage(tokenCount, nodeTokenBudget);
     const previewColor = normalizeNodeColor(currentNodeColor) ?? DEFAULT_NODE_COLOR;
     const previewStyles = buildNodeColorStyles(previewColor);
     const colorPalette = [previewColor, ...NODE_AUTO_COLORS.filter((value) => value !== previewColor)];
+    const environmentRule = readNodeEnvironmentRule(node.meta);
+    const ruleEnvironments = environmentRule.mode === 'all' ? [] : environmentRule.environments;
+    const environmentChoices = [...new Set([...(project.environments ?? []), ...ruleEnvironments])];
+    const subflowReference = readSubflowReference(node.meta);
+    const subflowChoices = store.getPromptFlowProjects().filter((candidate) => candidate.id !== projectId);
+    const subflowProject = subflowReference ? store.getProject(subflowReference) : undefined;
+    const subflowGroup = readSubflowNodeGroup(node.meta);
+    const libraryLink = readLibraryLink(node.meta);
+    const libraryTemplate = libraryLink
+      ? store.getCustomNodeTemplates().find((template) => template.id === libraryLink.templateId)
+      : undefined;
+    const libraryStatus = libraryLink ? libraryLinkStatus(libraryLink, libraryTemplate, node.content) : null;
+    const activeEnvironment = store.getActiveEnvironment(projectId);
+    const assembledPrompt = store.assemblePromptWithSourceMap(projectId, 'runtime', activeEnvironment);
+    const promptRange = assembledPrompt ? nodeSourceRange(assembledPrompt.sourceMap, nodeId) : null;
+    const promptLineCount = assembledPrompt ? assembledPrompt.text.split('\n').length : 0;
+    const libraryStatusText = {
+      current: 'Up to date with the library.',
+      outdated: 'The library template has changed since this node was updated.',
+      modified: 'Edited here since the last library update: library-wide updates skip this node.',
+      overridden: 'Overridden: library updates skip this node.',
+      missing: 'The library template was deleted.',
+    };
 
     preserveScrollDuringRender(container, () => {
       container.innerHTML = `
@@ -159,6 +275,12 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
             </div>
             <div class="ui-header-right ui-toolbar">
               ${themeToggleHTML()}
+              <button id="btn-undo" class="ui-btn ui-btn-ghost !p-2" title="Undo (Ctrl+Z)" aria-label="Undo" ${store.canUndo(projectId) ? '' : 'disabled'}>
+                <span class="material-icons text-sm">undo</span>
+              </button>
+              <button id="btn-redo" class="ui-btn ui-btn-ghost !p-2" title="Redo (Ctrl+Shift+Z)" aria-label="Redo" ${store.canRedo(projectId) ? '' : 'disabled'}>
+                <span class="material-icons text-sm">redo</span>
+              </button>
               <button id="btn-save-version" class="ui-btn ui-btn-outline">
                 <span class="material-icons text-sm">save</span>
                 Save Current State
@@ -171,10 +293,22 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
                 <span class="material-icons text-sm">content_copy</span>
                 Copy Runtime
               </button>
+              <button id="btn-export-messages" class="ui-btn ui-btn-outline" title="Download the prompt as a chat messages JSON array">
+                <span class="material-icons text-sm">download</span>
+                Messages JSON
+              </button>
+              <select id="export-voice-platform" class="ui-btn ui-btn-outline cursor-pointer" aria-label="Export voice agent config" title="Download assistant config built from the model-tier and webhook nodes">
+                <option value="" selected>Voice Config…</option>
+                ${VOICE_PLATFORMS.map((platform) => `<option value="${platform.id}">${platform.label}</option>`).join('')}
+              </select>
               <button id="btn-export-flow" class="ui-btn ui-btn-outline">
                 <span class="material-icons text-sm">account_tree</span>
                 Copy Flow
               </button>
+              <button id="btn-export-xml" class="ui-btn ui-btn-outline">
+                <span class="material-icons text-sm">code</span>
+                Copy XML
+              </button>
               <button id="btn-close-editor" class="ui-btn ui-btn-ghost !p-2" aria-label="Close editor">
                 <span class="material-icons text-sm">close</span>
               </button>
@@ -212,14 +346,14 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
 
                 <!-- Content Area with Tokenizer Highlights -->
                 <div class="flex-1 editor-overlay min-h-[18rem]">
-                  <div class="highlight-layer" id="highlight-layer">${toHighlightedHTML(currentContent, tokenizerActive)}</div>
+                  <div class="highlight-layer" id="highlight-layer">${toHighlightedHTML(currentContent, tokenizerActive, tokenEncoding)}</div>
                   <textarea id="editor-textarea" spellcheck="false"></textarea>
                 </div>
 
                 <!-- Footer Stats -->
                 <div class="px-6 py-3 border-t border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50 flex items-center justify-between text-xs text-slate-500 font-medium">
                   <div class="flex gap-4">
-                    <span class="flex items-center gap-1"><span class="material-icons text-[14px]">short_text</span> <span id="token-count">${tokenCount}</span> Tokens</span>
+                    <span class="flex items-center gap-1" title="Counted with ${tokenEncoding}, the encoding of ${escapeHtml(project.model)}"><span class="material-icons text-[14px]">short_text</span> <span id="token-count" style="color:${nodeBudgetUsage && nodeBudgetUsage.level !== 'ok' ? BUDGET_LEVEL_COLORS[nodeBudgetUsage.level] : ''};">${tokenCount}</span>${nodeTokenBudget ? ` / ${nodeTokenBudget}` : ''} Tokens</span>
                     <span class="flex items-center gap-1"><span class="material-icons text-[14px]">history</span> Editing now</span>
                   </div>
                   <div class="flex items-center gap-1 text-primary">
@@ -282,6 +416,68 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
                   </div>
                 </div>
 
+                ${subflowReference === undefined ? '' : `
+                <!-- Subflow -->
+                <div class="space-y-2">
+                  <label for="prop-subflow-project" class="block text-xs font-medium text-slate-500 mb-1.5">Subflow Project</label>
+                  <div class="flex items-center gap-2">
+                    <select id="prop-subflow-project" class="ui-select">
+                      <option value="" ${subflowReference === null ? 'selected' : ''}>Choose a project…</option>
+                      ${subflowChoices.map((candidate) => `
+                        <option value="${candidate.id}" ${candidate.id === subflowReference ? 'selected' : ''}>${escapeHtml(candidate.name)}</option>
+                      `).join('')}
+                    </select>
+                    <button id="btn-open-subflow" type="button" class="ui-btn ui-btn-outline shrink-0 ${subflowReference ? '' : 'hidden'}" title="Open the linked project">
+                      <span class="material-icons text-sm">open_in_new</span>
+                    </button>
+                  </div>
+                  ${subflowProject ? `
+                  <details class="rounded border border-slate-200 dark:border-slate-700" ${subflowGroup === null ? '' : 'open'}>
+                    <summary class="px-2 py-1.5 text-[11px] text-slate-500 cursor-pointer">
+                      Nodes: ${subflowGroup === null ? 'whole project' : `group of ${subflowProject.nodes.filter((item) => subflowGroup.includes(item.id)).length} of ${subflowProject.nodes.length}`}
+                    </summary>
+                    <div class="px-2 pb-2 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                      ${subflowProject.nodes.length === 0 ? '<p class="text-[11px] text-slate-400">The linked project has no nodes yet.</p>' : ''}
+                      ${subflowProject.nodes.map((item) => `
+                        <label class="flex items-center gap-2 text-[11px] text-slate-600 dark:text-slate-300">
+                          <input type="checkbox" class="prop-subflow-node" value="${escapeHtml(item.id)}" ${subflowGroup === null || subflowGroup.includes(item.id) ? 'checked' : ''} />
+                          <span class="truncate">${escapeHtml(item.label)}</span>
+                        </label>
+                      `).join('')}
+                    </div>
+                  </details>` : ''}
+                  <p class="text-[10px] text-slate-400">Assembly inserts the linked project's graph, or the group of its nodes checked above, in place of this node.</p>
+                </div>
+                `}
+
+                ${libraryLink === null || libraryStatus === null ? '' : `
+                <!-- Library -->
+                <div class="space-y-2">
+                  <label class="block text-xs font-medium text-slate-500 mb-1.5">Library${libraryTemplate ? ` · ${escapeHtml(libraryTemplate.label)}` : ''}</label>
+                  <p class="text-[11px] ${libraryStatus === 'outdated' || libraryStatus === 'modified' || libraryStatus === 'missing' ? 'text-amber-600 dark:text-amber-400' : 'text-slate-500'}">${libraryStatusText[libraryStatus]}</p>
+                  <div class="flex flex-wrap items-center gap-2">
+                    ${libraryTemplate ? `
+                    <button id="btn-library-sync" type="button" class="ui-btn ui-btn-outline" ${libraryStatus === 'current' ? 'disabled' : ''} title="Replace this node's content with the library template">
+                      <span class="material-icons text-sm">sync</span>
+                      Update from library
+                    </button>
+                    <button id="btn-library-publish" type="button" class="ui-btn ui-btn-outline" title="Save this node's content as the library template">
+                      <span class="material-icons text-sm">publish</span>
+                      Publish to library
+                    </button>` : ''}
+                    <button id="btn-library-detach" type="button" class="ui-btn ui-btn-ghost" title="Keep the content and stop tracking the library template">
+                      <span class="material-icons text-sm">link_off</span>
+                      Detach
+                    </button>
+                  </div>
+                  ${libraryTemplate ? `
+                  <label class="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300">
+                    <input id="prop-library-override" type="checkbox" class="accent-primary" ${libraryLink.override ? 'checked' : ''} />
+                    Keep this project's content when the library updates
+                  </label>` : ''}
+                </div>
+                `}
+
                 <!-- Node Color -->
                 <div class="space-y-3">
                   <label class="block text-xs font-medium text-slate-500 mb-1.5">Node Color</label>
@@ -297,6 +493,61 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
                   <p class="text-[10px] text-slate-400">Color persists with this node and controls its canvas card styling.</p>
                 </div>
 
+                <!-- Token Budget -->
+                <div class="space-y-1.5">
+                  <label for="prop-token-budget" class="block text-xs font-medium text-slate-500 mb-1.5">Token Budget</label>
+                  <input id="prop-token-budget" type="number" min="1" step="1" class="ui-input" placeholder="No budget" value="${nodeTokenBudget ?? ''}" />
+                  <p class="text-[10px] text-slate-400">Limit for this node's content. The canvas shows a bar that turns amber near it and red past it.</p>
+                </div>
+
+                <!-- Few-shot Example -->
+                <div class="space-y-1.5">
+                  <label class="flex items-center gap-2 text-xs font-medium text-slate-500">
+                    <input id="prop-example" type="checkbox" class="accent-primary" ${isExampleNode(node) ? 'checked' : ''} />
+                    Few-shot example
+                  </label>
+                  <p class="text-[10px] text-slate-400">In the messages export, <code>User:</code> and <code>Assistant:</code> lines become example turns after the system message.</p>
+                </div>
+
+                <!-- Environments -->
+                <div class="space-y-2">
+                  <label for="prop-environment-mode" class="block text-xs font-medium text-slate-500 mb-1.5">Environments</label>
+                  <select id="prop-environment-mode" class="ui-select">
+                    <option value="all" ${environmentRule.mode === 'all' ? 'selected' : ''}>All environments</option>
+                    <option value="only" ${environmentRule.mode === 'only' ? 'selected' : ''}>Only in…</option>
+                    <option value="except" ${environmentRule.mode === 'except' ? 'selected' : ''}>All except…</option>
+                  </select>
+                  <div id="prop-environment-list" class="flex flex-wrap gap-x-3 gap-y-1.5 ${environmentRule.mode === 'all' ? 'hidden' : ''}">
+                    ${environmentChoices.map((name) => `
+                      <label class="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+                        <input type="checkbox" class="prop-environment-option accent-primary" value="${name}" ${ruleEnvironments.includes(name) ? 'checked' : ''} />
+                        ${name}
+                      </label>
+                    `).join('')}
+                  </div>
+                  <p class="text-[10px] text-slate-400">
+                    ${environmentChoices.length === 0
+                      ? 'Add environments from the canvas header to include this node in only some of them.'
+                      : 'Prompts assembled for an environment leave this node out when the rule excludes it.'}
+                  </p>
+                </div>
+
+                <!-- Position in Prompt -->
+                <div class="space-y-2">
+                  <label class="block text-xs font-medium text-slate-500 mb-1.5">In Runtime Prompt</label>
+                  ${assembledPrompt && promptRange ? `
+                  <p class="text-[11px] text-slate-500">
+                    Lines ${promptRange.startLine}${promptRange.endLine > promptRange.startLine ? `–${promptRange.endLine}` : ''} of ${promptLineCount}${activeEnvironment ? ` in ${escapeHtml(activeEnvironment)}` : ''}.
+                  </p>
+                  <details id="prop-prompt-position" class="group">
+                    <summary class="cursor-pointer text-[11px] text-primary select-none">Show in full prompt</summary>
+                    <pre class="mt-2 max-h-64 overflow-auto custom-scrollbar rounded border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 p-2 text-[10px] leading-relaxed whitespace-pre-wrap text-slate-400">${escapeHtml(assembledPrompt.text.slice(0, promptRange.start))}<mark id="prop-prompt-mark" class="bg-primary/15 text-slate-800 dark:text-slate-100 rounded-sm">${escapeHtml(assembledPrompt.text.slice(promptRange.start, promptRange.end))}</mark>${escapeHtml(assembledPrompt.text.slice(promptRange.end))}</pre>
+                  </details>
+                  ` : `
+                  <p class="text-[11px] text-slate-400">${activeEnvironment ? `Not part of the ${escapeHtml(activeEnvironment)} prompt.` : 'Not part of the assembled prompt.'}</p>
+                  `}
+                </div>
+
                 <!-- Model Override -->
                 <div class="pt-4 border-t border-slate-100 dark:border-slate-800">
                   <h3 class="font-bold text-sm uppercase tracking-widest text-slate-400 mb-4">Meta Information</h3>
@@ -372,10 +623,26 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
     textarea.value = currentContent;
     textarea.focus();
 
+    const refreshTokenDisplay = (): void => {
+      highlightLayer.innerHTML = toHighlightedHTML(currentContent, tokenizerActive, tokenEncoding);
+      const tokens = countTokens(currentContent, tokenEncoding);
+      const usage = budgetUsage(tokens, readNodeTokenBudget(node.meta));
+      tokenCountEl.textContent = String(tokens);
+      tokenCountEl.style.color = usage && usage.level !== 'ok' ? BUDGET_LEVEL_COLORS[usage.level] : '';
+    };
+    // Edited chunks show approximate tokens until the worker has encoded them.
+    const refreshWhenEncoded = (): void => {
+      const content = currentContent;
+      void prepareTokens(content, tokenEncoding).then(() => {
+        if (content === currentContent && highlightLayer.isConnected) refreshTokenDisplay();
+      });
+    };
+    refreshWhenEncoded();
+
     textarea.addEventListener('input', () => {
       currentContent = normalizeLineEndings(textarea.value);
-      highlightLayer.innerHTML = toHighlightedHTML(currentContent, tokenizerActive);
-      tokenCountEl.textContent = String(countTokens(currentContent));
+      refreshTokenDisplay();
+      refreshWhenEncoded();
     });
 
     textarea.addEventListener('scroll', () => {
@@ -399,6 +666,9 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
       container.querySelector('#token-legend')?.remove();
     });
 
+    container.querySelector('#btn-undo')?.addEventListener('click', () => replayHistory('undo'));
+    container.querySelector('#btn-redo')?.addEventListener('click', () => replayHistory('redo'));
+
     container.querySelector('#btn-save-version')?.addEventListener('click', () => {
       persistDraft();
       const version = store.saveCurrentState(projectId);
@@ -435,20 +705,42 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
       closeToCanvas();
     });
 
-    container.querySelector('#btn-export-runtime')?.addEventListener('click', () => {
+    const copyAssembledPrompt = (mode: PromptAssemblyMode): void => {
+      persistDraft();
+      const assembled = store.assemblePrompt(projectId, mode, store.getActiveEnvironment(projectId));
+      navigator.clipboard.writeText(assembled);
+      const warning = promptBudgetWarning(store.getPromptBudgetUsage(projectId, assembled));
+      if (warning) void customAlert(warning);
+    };
+
+    container.querySelector('#btn-export-runtime')?.addEventListener('click', () => copyAssembledPrompt('runtime'));
+
+    container.querySelector('#btn-export-messages')?.addEventListener('click', () => {
       persistDraft();
-      navigator.clipboard.writeText(store.assemblePrompt(projectId, 'runtime'));
+      const messages = store.assembleChatMessages(projectId, store.getActiveEnvironment(projectId));
+      downloadJson(messages, chatMessagesFileName(project.name));
     });
 
-    container.querySelector('#btn-export-flow')?.addEventListener('click', () => {
+    container.querySelector<HTMLSelectElement>('#export-voice-platform')?.addEventListener('change', async (event) => {
+      const select = event.currentTarget as HTMLSelectElement;
+      const platform = select.value as VoicePlatform | '';
+      select.value = '';
+      if (!platform) return;
       persistDraft();
-      navigator.clipboard.writeText(store.assemblePrompt(projectId, 'flow-template'));
+      const exported = store.buildVoiceAgentExport(projectId, platform, store.getActiveEnvironment(projectId));
+      if (!exported) return;
+      downloadJson(exported.config, voiceAgentFileName(project.name, platform));
+      if (exported.warnings.length > 0) {
+        await customAlert(`Config downloaded with notes:\n\n${exported.warnings.map((warning) => `• ${warning}`).join('\n')}`);
+      }
     });
 
+    container.querySelector('#btn-export-flow')?.addEventListener('click', () => copyAssembledPrompt('flow-template'));
+    container.querySelector('#btn-export-xml')?.addEventListener('click', () => copyAssembledPrompt('xml'));
+
     container.querySelector('#prop-label')?.addEventListener('change', (event) => {
       const value = (event.target as HTMLInputElement).value.trim();
       if (value) {
-        node.label = value;
         store.updateNode(projectId, nodeId, { label: value });
       }
     });
@@ -516,7 +808,6 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
       btn.addEventListener('click', () => {
         const selectedIcon = btn.getAttribute('data-icon') || 'widgets';
         currentIcon = selectedIcon;
-        node.icon = selectedIcon;
         syncIconPreview(selectedIcon);
         store.updateNode(projectId, nodeId, { icon: selectedIcon });
         iconGridDropdown?.classList.add('hidden');
@@ -526,7 +817,6 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
     iconInput?.addEventListener('change', () => {
       const nextIcon = normalizeIconName(iconInput.value) || 'widgets';
       currentIcon = nextIcon;
-      node.icon = nextIcon;
       syncIconPreview(nextIcon);
       store.updateNode(projectId, nodeId, { icon: nextIcon });
     });
@@ -535,7 +825,6 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
       const nextColor = normalizeNodeColor(colorInput.value) ?? DEFAULT_NODE_COLOR;
       syncColorPreview(nextColor);
       const nextMeta = withNodeColorMeta(node.meta, nextColor);
-      node.meta = nextMeta;
       store.updateNode(projectId, nodeId, { meta: nextMeta });
     });
 
@@ -544,7 +833,6 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
         const nextColor = normalizeNodeColor(button.dataset.color) ?? DEFAULT_NODE_COLOR;
         syncColorPreview(nextColor);
         const nextMeta = withNodeColorMeta(node.meta, nextColor);
-        node.meta = nextMeta;
         store.updateNode(projectId, nodeId, { meta: nextMeta });
       });
     });
@@ -553,8 +841,98 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
       const nextColor = getAutoNodeColor(0);
       syncColorPreview(nextColor);
       const nextMeta = withNodeColorMeta(node.meta, nextColor);
+      store.updateNode(projectId, nodeId, { meta: nextMeta });
+    });
+
+    container.querySelector<HTMLSelectElement>('#prop-subflow-project')?.addEventListener('change', (event) => {
+      const linkedProjectId = (event.currentTarget as HTMLSelectElement).value || null;
+      persistDraft();
+      store.updateNode(projectId, nodeId, { meta: withSubflowReference(node.meta, linkedProjectId) });
+      adoptStoredNode();
+      render();
+    });
+    container.querySelectorAll<HTMLInputElement>('.prop-subflow-node').forEach((checkbox) => {
+      checkbox.addEventListener('change', () => {
+        const boxes = [...container.querySelectorAll<HTMLInputElement>('.prop-subflow-node')];
+        const checked = boxes.filter((box) => box.checked).map((box) => box.value);
+        persistDraft();
+        store.updateNode(projectId, nodeId, { meta: withSubflowNodeGroup(node.meta, checked.length === boxes.length ? null : checked) });
+        adoptStoredNode();
+        render();
+      });
+    });
+    container.querySelector('#btn-open-subflow')?.addEventListener('click', () => {
+      const linkedProjectId = readSubflowReference(node.meta);
+      if (!linkedProjectId) return;
+      persistDraft();
+      router.navigate(`/project/${linkedProjectId}`);
+    });
+
+    container.querySelector<HTMLDetailsElement>('#prop-prompt-position')?.addEventListener('toggle', (event) => {
+      if (!(event.currentTarget as HTMLDetailsElement).open) return;
+      container.querySelector('#prop-prompt-mark')?.scrollIntoView({ block: 'nearest' });
+    });
+    container.querySelector('#btn-library-sync')?.addEventListener('click', async () => {
+      persistDraft();
+      const link = readLibraryLink(node.meta);
+      const template = link ? store.getCustomNodeTemplates().find((item) => item.id === link.templateId) : undefined;
+      if (link && libraryLinkStatus(link, template, currentContent) === 'modified'
+        && !(await customConfirm('Replace your edits to this node with the library template?'))) return;
+      if (!store.syncLibraryNode(projectId, nodeId)) return;
+      adoptStoredNode();
+      render();
+    });
+    container.querySelector('#btn-library-publish')?.addEventListener('click', async () => {
+      const link = readLibraryLink(node.meta);
+      if (!link) return;
+      persistDraft();
+      if (!store.updateCustomNodeTemplate(link.templateId, { content: currentContent })) return;
+      store.syncLibraryNode(projectId, nodeId);
+      const outdated = store.getLinkedLibraryInstances(link.templateId).filter((instance) => instance.status === 'outdated');
+      if (outdated.length > 0) {
+        const question = `Update ${outdated.length} other linked node${outdated.length === 1 ? '' : 's'} to this content now?`;
+        if (await customConfirm(question)) store.syncLibraryTemplateInstances(link.templateId);
+      }
+      render();
+    });
+    container.querySelector('#btn-library-detach')?.addEventListener('click', () => {
+      persistDraft();
+      store.detachLibraryNode(projectId, nodeId);
+      render();
+    });
+    container.querySelector<HTMLInputElement>('#prop-library-override')?.addEventListener('change', (event) => {
+      store.setLibraryNodeOverride(projectId, nodeId, (event.currentTarget as HTMLInputElement).checked);
+      render();
+    });
+
+    const environmentModeSelect = container.querySelector<HTMLSelectElement>('#prop-environment-mode');
+    const saveEnvironmentRule = (): void => {
+      const mode = environmentModeSelect?.value ?? 'all';
+      const environments = Array.from(
+        container.querySelectorAll<HTMLInputElement>('.prop-environment-option:checked'),
+        (input) => input.value,
+      );
+      const rule: EnvironmentRule = mode === 'only' || mode === 'except' ? { mode, environments } : { mode: 'all' };
+      container.querySelector('#prop-environment-list')?.classList.toggle('hidden', rule.mode === 'all');
+      const nextMeta = withNodeEnvironmentRule(node.meta, rule);
+      store.updateNode(projectId, nodeId, { meta: nextMeta });
       node.meta = nextMeta;
+    };
+    container.querySelector<HTMLInputElement>('#prop-token-budget')?.addEventListener('change', (event) => {
+      persistDraft();
+      const nextMeta = withNodeTokenBudget(node.meta, normalizeTokenBudget((event.currentTarget as HTMLInputElement).value));
+      store.updateNode(projectId, nodeId, { meta: nextMeta });
+      node.meta = nextMeta;
+      render();
+    });
+    container.querySelector<HTMLInputElement>('#prop-example')?.addEventListener('change', (event) => {
+      const nextMeta = withExampleMeta(node.meta, (event.currentTarget as HTMLInputElement).checked);
       store.updateNode(projectId, nodeId, { meta: nextMeta });
+      node.meta = nextMeta;
+    });
+    environmentModeSelect?.addEventListener('change', saveEnvironmentRule);
+    container.querySelectorAll<HTMLInputElement>('.prop-environment-option').forEach((input) => {
+      input.addEventListener('change', saveEnvironmentRule);
     });
 
     container.querySelector('#btn-back-canvas')?.addEventListener('click', () => closeToCanvas());
@@ -588,3 +966,22 @@ export function renderEditor(container: HTMLElement, projectId: string, nodeId:
 
   render();
 }
+
+function downloadJson(value: unknown, fileName: string): void {
+  const blob = new Blob([`${JSON.stringify(value, null, 2)}\n`], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -12,6 +12,7 @@ import { BLOCK_PALETTE, PromptNode, uid, type EditorFormat } from '../models';
 import { themeToggleHTML, wireThemeToggle } from '../theme';
 import { preserveScrollDuringRender } from '../view-state';
 import { getAutoNodeColor, rgbaFromHex, withNodeColorMeta } from '../node-colors';
+import { parseXmlSection, readXmlTagAttributes, type XmlPromptSection } from '../prompt-assembly';
 
 /* ── Types ────────────────────────────────────── */
 
@@ -27,6 +28,8 @@ interface SectionSeed {
   startLine: number;
   endLine: number;
   label?: string;
+  /** Structural lines (a wrapper tag around child sections) that belong to no section. */
+  skip?: boolean;
 }
 
 const DEFAULT_SECTION_LABEL = 'N/A';
@@ -181,7 +184,14 @@ function extractXmlSectionSeeds(lines: string[]): SectionSeed[] {
   const closeTagRegex = /^<\/([A-Za-z_][\w.-]*)>\s*$/;
   const selfClosingTagRegex = /^<([A-Za-z_][\w.-]*)(?:\s+[^<>]*)?\/>\s*$/;
   const inlineTagRegex = /^<([A-Za-z_][\w.-]*)(?:\s+[^<>]*)?>[\s\S]*<\/\1>\s*$/;
-  const stack: Array<{ name: string; startLine: number }> = [];
+  const wrapperSeeds: SectionSeed[] = [];
+  const stack: Array<{ name: string; label: string; startLine: number; hasChildren: boolean }> = [];
+  // A `label` attribute (as written by XML assembly) names the section better than the tag.
+  const seedLabel = (tagLine: string, tagName: string): string => readXmlTagAttributes(tagLine).label?.trim() || tagName;
+  const pushChildSeed = (seed: SectionSeed): void => {
+    childSeeds.push(seed);
+    stack[0].hasChildren = true;
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const trimmed = lines[i].trim();
@@ -190,32 +200,32 @@ function extractXmlSectionSeeds(lines: string[]): SectionSeed[] {
     if (stack.length === 0) {
       const inlineMatch = trimmed.match(inlineTagRegex);
       if (inlineMatch) {
-        topLevelSeeds.push({ startLine: i, endLine: i, label: inlineMatch[1] });
+        topLevelSeeds.push({ startLine: i, endLine: i, label: seedLabel(trimmed, inlineMatch[1]) });
         continue;
       }
 
       const selfClosingMatch = trimmed.match(selfClosingTagRegex);
       if (selfClosingMatch) {
-        topLevelSeeds.push({ startLine: i, endLine: i, label: selfClosingMatch[1] });
+        topLevelSeeds.push({ startLine: i, endLine: i, label: seedLabel(trimmed, selfClosingMatch[1]) });
         continue;
       }
     } else if (stack.length === 1) {
       const inlineMatch = trimmed.match(inlineTagRegex);
       if (inlineMatch) {
-        childSeeds.push({ startLine: i, endLine: i, label: inlineMatch[1] });
+        pushChildSeed({ startLine: i, endLine: i, label: seedLabel(trimmed, inlineMatch[1]) });
         continue;
       }
 
       const selfClosingMatch = trimmed.match(selfClosingTagRegex);
       if (selfClosingMatch) {
-        childSeeds.push({ startLine: i, endLine: i, label: selfClosingMatch[1] });
+        pushChildSeed({ startLine: i, endLine: i, label: seedLabel(trimmed, selfClosingMatch[1]) });
         continue;
       }
     }
 
     const openMatch = trimmed.match(openTagRegex);
     if (openMatch && !trimmed.startsWith('</') && !trimmed.endsWith('/>')) {
-      stack.push({ name: openMatch[1], startLine: i });
+      stack.push({ name: openMatch[1], label: seedLabel(trimmed, openMatch[1]), startLine: i, hasChildren: false });
       continue;
     }
 
@@ -226,13 +236,17 @@ function extractXmlSectionSeeds(lines: string[]): SectionSeed[] {
     if (top.name !== closeMatch[1]) continue;
     stack.pop();
     if (stack.length === 0) {
-      topLevelSeeds.push({ startLine: top.startLine, endLine: i, label: top.name });
+      topLevelSeeds.push({ startLine: top.startLine, endLine: i, label: top.label });
+      if (top.hasChildren) {
+        wrapperSeeds.push({ startLine: top.startLine, endLine: top.startLine, skip: true });
+        wrapperSeeds.push({ startLine: i, endLine: i, skip: true });
+      }
     } else if (stack.length === 1) {
-      childSeeds.push({ startLine: top.startLine, endLine: i, label: top.name });
+      pushChildSeed({ startLine: top.startLine, endLine: i, label: top.label });
     }
   }
 
-  return childSeeds.length > 0 ? childSeeds : topLevelSeeds;
+  return childSeeds.length > 0 ? [...childSeeds, ...wrapperSeeds] : topLevelSeeds;
 }
 
 function buildSectionsFromSeeds(lines: string[], seeds: SectionSeed[]): Section[] {
@@ -243,6 +257,7 @@ function buildSectionsFromSeeds(lines: string[], seeds: SectionSeed[]): Section[
       startLine: Math.max(0, Math.min(lastLine, seed.startLine)),
       endLine: Math.max(0, Math.min(lastLine, seed.endLine)),
       label: seed.label,
+      skip: seed.skip === true,
     }))
     .filter(seed => seed.endLine >= seed.startLine)
     .sort((a, b) => a.startLine - b.startLine || a.endLine - b.endLine);
@@ -266,7 +281,9 @@ function buildSectionsFromSeeds(lines: string[], seeds: SectionSeed[]): Section[
     }
 
     const endLine = Math.max(startLine, seed.endLine);
-    pushSection(startLine, endLine, seed.label);
+    if (!seed.skip) {
+      pushSection(startLine, endLine, seed.label);
+    }
     cursor = endLine + 1;
   }
 
@@ -475,7 +492,7 @@ export function renderImport(container: HTMLElement): void {
 
   function renderStep2(): string {
     const formatHint = importFormat === 'xml'
-      ? 'XML mode: top-level tags are auto-grouped and labeled from tag names.'
+      ? 'XML mode: top-level tags are auto-grouped and labeled from tag names (or their label attribute).'
       : 'Markdown mode: heading lines are auto-grouped and labeled from heading text.';
     const autoSplitTitle = importFormat === 'xml'
       ? 'Auto-detect sections from XML-style tags'
@@ -884,10 +901,17 @@ export function renderImport(container: HTMLElement): void {
     const NODES_PER_ROW = 3;
 
     const createdNodes: PromptNode[] = [];
+    // Sections copied from an XML assembly keep their step numbers; those rebuild the graph.
+    const xmlSections = importFormat === 'xml'
+      ? sections.map((sec) => parseXmlSection(lines.slice(sec.startLine, sec.endLine + 1).join('\n')))
+      : [];
+    const assembled = xmlSections.length > 0 && xmlSections.every((section) => section?.step != null)
+      ? xmlSections as XmlPromptSection[]
+      : null;
 
     for (let i = 0; i < sections.length; i++) {
       const sec = sections[i];
-      const content = lines.slice(sec.startLine, sec.endLine + 1).join('\n');
+      const content = assembled ? assembled[i].content : lines.slice(sec.startLine, sec.endLine + 1).join('\n');
       const row = Math.floor(i / NODES_PER_ROW);
       const col = i % NODES_PER_ROW;
       const normalizedLabel = sec.label.trim() || DEFAULT_SECTION_LABEL;
@@ -908,9 +932,19 @@ export function renderImport(container: HTMLElement): void {
       createdNodes.push(node);
     }
 
-    // Connect nodes sequentially
-    for (let i = 0; i < createdNodes.length - 1; i++) {
-      store.addConnection(project.id, createdNodes[i].id, createdNodes[i + 1].id);
+    if (assembled) {
+      const nodeByStep = new Map(assembled.map((section, index) => [section.step, createdNodes[index]]));
+      assembled.forEach((section, index) => {
+        for (const next of section.next) {
+          const target = nodeByStep.get(next.step);
+          if (target) store.addConnection(project.id, createdNodes[index].id, target.id, next.label);
+        }
+      });
+    } else {
+      // Connect nodes sequentially
+      for (let i = 0; i < createdNodes.length - 1; i++) {
+        store.addConnection(project.id, createdNodes[i].id, createdNodes[i + 1].id);
+      }
     }
 
     // Navigate to the new project canvas
@@ -0,0 +1,70 @@
+/**
+ * Integrity Panel — lists graph integrity problems for a project and repairs them in one click.
+ */
+import { store } from '../store';
+import { describeIntegrityIssue, type GraphIntegrityIssue } from '../graph-integrity';
+import { esc } from './transcript-import/format';
+
+/** Runs a fresh check and opens the panel; `onRepaired` runs after a repair is applied. */
+export async function openIntegrityPanel(projectId: string, onRepaired: () => void): Promise<void> {
+  let issues: GraphIntegrityIssue[];
+  try {
+    issues = await store.checkProjectIntegrity(projectId);
+  } catch (err) {
+    console.error('Graph integrity check failed:', err);
+    issues = store.getIntegrityIssues(projectId);
+  }
+  const project = store.getProject(projectId);
+  if (!project) return;
+
+  const overlay = document.createElement('div');
+  overlay.className = 'fixed inset-0 z-[100] flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200';
+  overlay.innerHTML = `
+    <div class="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-xl shadow-xl max-w-lg w-full p-6 animate-in zoom-in-95 duration-200" role="dialog" aria-labelledby="integrity-panel-title">
+      <h2 id="integrity-panel-title" class="text-base font-semibold text-zinc-900 dark:text-zinc-100 mb-1">Graph check</h2>
+      <p class="text-xs text-zinc-500 dark:text-zinc-400 mb-4">
+        ${issues.length === 0
+          ? 'No problems found in this project.'
+          : `${issues.length} problem${issues.length === 1 ? '' : 's'} found. Assembly skips these, so the prompt may be missing parts of the flow.`}
+      </p>
+      ${issues.length > 0
+        ? `<ul class="max-h-72 overflow-y-auto custom-scrollbar space-y-2 mb-6">${issues.map((issue) => {
+          const { title, location } = describeIntegrityIssue(issue, project);
+          return `
+            <li class="rounded-lg border border-amber-200 dark:border-amber-800/60 bg-amber-50 dark:bg-amber-950/40 px-3 py-2">
+              <p class="text-sm font-medium text-amber-900 dark:text-amber-100">${esc(title)}</p>
+              <p class="text-[11px] text-amber-800/80 dark:text-amber-200/80 break-words">${esc(location)}</p>
+            </li>
+          `;
+        }).join('')}</ul>`
+        : ''}
+      <div class="flex justify-end gap-3">
+        <button type="button" data-action="close" class="px-4 py-2 bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 rounded-lg font-medium hover:bg-zinc-200 dark:hover:bg-zinc-700 transition-colors">Close</button>
+        ${issues.length > 0
+          ? '<button type="button" data-action="repair" class="px-4 py-2 bg-black dark:bg-white text-white dark:text-black rounded-lg font-medium hover:bg-zinc-800 dark:hover:bg-zinc-200 transition-colors">Repair All</button>'
+          : ''}
+      </div>
+    </div>
+  `;
+
+  const close = (): void => {
+    overlay.remove();
+    document.removeEventListener('keydown', handleKeyDown);
+  };
+  const handleKeyDown = (e: KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  overlay.querySelector('[data-action="close"]')?.addEventListener('click', close);
+  overlay.querySelector('[data-action="repair"]')?.addEventListener('click', () => {
+    store.repairProjectIntegrity(projectId);
+    close();
+    onRepaired();
+  });
+  document.addEventListener('keydown', handleKeyDown);
+  document.body.appendChild(overlay);
+  overlay.querySelector<HTMLButtonElement>('[data-action="close"]')?.focus({ preventScroll: true });
+}
@@ -1,8 +1,8 @@
 import { router } from '../router';
 
-export type ProjectView = 'canvas' | 'editor' | 'diff';
+export type ProjectView = 'canvas' | 'editor' | 'diff' | 'variables';
 
-type ProjectSubView = 'canvas' | 'diff';
+type ProjectSubView = 'canvas' | 'diff' | 'variables';
 
 interface ProjectNavContainer extends HTMLElement {
   __pbEscCleanup?: () => void;
@@ -11,11 +11,12 @@ interface ProjectNavContainer extends HTMLElement {
 const SUB_VIEWS: Array<{ view: ProjectSubView; label: string; icon: string }> = [
   { view: 'canvas', label: 'Canvas', icon: 'dashboard' },
   { view: 'diff', label: 'Diff', icon: 'difference' },
+  { view: 'variables', label: 'Variables', icon: 'data_object' },
 ];
 
 function pathForView(projectId: string, view: ProjectSubView): string {
   if (view === 'canvas') return `/project/${projectId}`;
-  return `/project/${projectId}/diff`;
+  return `/project/${projectId}/${view}`;
 }
 
 function buttonClasses(isActive: boolean): string {
@@ -26,7 +27,7 @@ function buttonClasses(isActive: boolean): string {
 }
 
 export function projectViewTabsHTML(activeView: ProjectView): string {
-  const activeSubView: ProjectSubView = activeView === 'diff' ? 'diff' : 'canvas';
+  const activeSubView: ProjectSubView = activeView === 'editor' ? 'canvas' : activeView;
 
   return `
     <div class="project-view-tabs flex items-center gap-2">
@@ -0,0 +1,129 @@
+/**
+ * Trash View — soft-deleted projects, nodes and transcript flows with restore and permanent delete.
+ */
+import { store } from '../store';
+import { router } from '../router';
+import { themeToggleHTML, wireThemeToggle } from '../theme';
+import { customAlert, customConfirm } from '../dialogs';
+import { preserveScrollDuringRender } from '../view-state';
+import { daysUntilPurge, TRASH_RETENTION_DAYS, trashEntryLabel, type TrashEntry } from '../trash';
+
+const KIND_ICONS: Record<TrashEntry['kind'], string> = {
+  project: 'account_tree',
+  node: 'widgets',
+  'transcript-flow': 'smart_toy',
+};
+
+export function renderTrash(container: HTMLElement): void {
+  preserveScrollDuringRender(container, () => {
+    const entries = store.getTrash();
+
+    container.innerHTML = `
+      <header class="h-14 border-b border-primary/10 flex items-center justify-between px-6 bg-white dark:bg-background-dark/80 z-20">
+        <div class="flex items-center gap-3">
+          <button type="button" class="w-8 h-8 flex items-center justify-center cursor-pointer rounded" id="nav-home" aria-label="Go to dashboard">
+            <img src="${import.meta.env.BASE_URL}Icon.svg" alt="Spoqen" class="w-8 h-8 object-contain" />
+          </button>
+          <div>
+            <h1 class="text-sm font-semibold leading-none">Trash</h1>
+            <span class="text-[10px] text-slate-400 uppercase tracking-wider">Items are deleted forever after ${TRASH_RETENTION_DAYS} days</span>
+          </div>
+        </div>
+        <div class="flex items-center gap-3">
+          ${themeToggleHTML()}
+          <button id="btn-empty-trash" class="ui-btn ui-btn-outline !text-xs !py-1.5 text-red-600 dark:text-red-300" ${entries.length === 0 ? 'disabled' : ''}>
+            <span class="material-icons-outlined text-sm">delete_forever</span>
+            <span>Empty Trash</span>
+          </button>
+        </div>
+      </header>
+
+      <main data-scroll-preserve="trash-main" class="flex-1 min-h-0 overflow-y-auto custom-scrollbar max-w-4xl mx-auto w-full px-4 sm:px-6 lg:px-8 py-8">
+        ${entries.length === 0
+          ? `
+            <div class="rounded-xl border border-dashed border-card-border dark:border-primary/20 bg-white/70 dark:bg-slate-900/50 px-5 py-10 text-center text-sm text-slate-500 dark:text-slate-300">
+              The trash is empty.
+            </div>
+          `
+          : `<ul class="space-y-2">${entries.map((entry) => renderTrashEntry(entry)).join('')}</ul>`}
+      </main>
+    `;
+
+    wireThemeToggle(container);
+    container.querySelector('#nav-home')?.addEventListener('click', () => router.navigate('/'));
+
+    container.querySelectorAll<HTMLElement>('.trash-restore').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const entryId = button.dataset.entryId;
+        if (!entryId) return;
+        const result = store.restoreFromTrash(entryId);
+        if (!result.ok) {
+          await customAlert(result.error);
+        }
+        renderTrash(container);
+      });
+    });
+
+    container.querySelectorAll<HTMLElement>('.trash-purge').forEach((button) => {
+      button.addEventListener('click', async () => {
+        const entryId = button.dataset.entryId;
+        if (!entryId) return;
+        if (!(await customConfirm('Delete this item forever? This cannot be undone.'))) return;
+        store.purgeFromTrash(entryId);
+        renderTrash(container);
+      });
+    });
+
+    container.querySelector('#btn-empty-trash')?.addEventListener('click', async () => {
+      if (!(await customConfirm(`Delete all ${entries.length} items in the trash forever? This cannot be undone.`))) return;
+      store.emptyTrash();
+      renderTrash(container);
+    });
+  });
+}
+
+function renderTrashEntry(entry: TrashEntry): string {
+  const daysLeft = daysUntilPurge(entry);
+  return `
+    <li class="flex items-center gap-4 rounded-xl border border-card-border dark:border-primary/20 bg-white dark:bg-slate-900 px-4 py-3">
+      <span class="material-icons-outlined text-slate-400">${KIND_ICONS[entry.kind]}</span>
+      <div class="flex-1 min-w-0">
+        <p class="text-sm font-medium text-slate-800 dark:text-slate-100 truncate">${escapeHtml(trashEntryLabel(entry))}</p>
+        <p class="text-[11px] text-slate-500 dark:text-slate-400 truncate">${escapeHtml(describeTrashEntry(entry))}</p>
+      </div>
+      <span class="text-[11px] text-slate-400 whitespace-nowrap" title="Deleted ${escapeHtml(new Date(entry.deletedAt).toLocaleString())}">
+        ${daysLeft === 1 ? '1 day left' : `${daysLeft} days left`}
+      </span>
+      <button type="button" class="trash-restore ui-btn ui-btn-outline !text-xs !py-1" data-entry-id="${escapeHtml(entry.id)}">
+        <span class="material-icons-outlined text-sm">restore_from_trash</span>
+        <span>Restore</span>
+      </button>
+      <button type="button" class="trash-purge ui-btn ui-btn-outline !text-xs !py-1 text-red-600 dark:text-red-300" data-entry-id="${escapeHtml(entry.id)}">
+        <span class="material-icons-outlined text-sm">delete_forever</span>
+        <span>Delete Forever</span>
+      </button>
+    </li>
+  `;
+}
+
+function describeTrashEntry(entry: TrashEntry): string {
+  switch (entry.kind) {
+    case 'project':
+      return `Project · ${entry.project.nodes.length} nodes`;
+    case 'node': {
+      const project = store.getProject(entry.projectId);
+      return project ? `Node in ${project.name}` : 'Node in a deleted project';
+    }
+    case 'transcript-flow':
+      return entry.project ? `Transcript flow · with project ${entry.project.name}` : 'Transcript flow';
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,322 @@
+/**
+ * Variables View — a project's declared template variables and a preview of the
+ * runtime prompt with test values filled in.
+ */
+import type { PromptNode, TemplateVariable } from '../models';
+import { router } from '../router';
+import { store } from '../store';
+import { customAlert } from '../dialogs';
+import { themeToggleHTML, wireThemeToggle } from '../theme';
+import { preserveScrollDuringRender } from '../view-state';
+import { projectViewTabsHTML, wireEscapeToCanvas, wireProjectViewTabs } from './project-nav';
+import {
+  lintTemplateVariables,
+  missingRequiredVariables,
+  normalizeVariableName,
+  resolveVariableValues,
+  substituteTemplateVariables,
+  type TemplateVariableWarning,
+} from '../template-variables';
+
+const TEST_VALUES_KEY = 'promptblueprint_variable_test_values';
+
+export function renderVariables(container: HTMLElement, projectId: string): void {
+  const project = store.getProject(projectId);
+  if (!project) {
+    router.navigate('/');
+    return;
+  }
+
+  preserveScrollDuringRender(container, () => {
+    const variables = project.variables ?? [];
+    const activeEnvironment = store.getActiveEnvironment(projectId);
+
+    container.innerHTML = `
+      <header class="ui-header z-30">
+        <div class="ui-header-left">
+          <button type="button" class="w-8 h-8 flex items-center justify-center cursor-pointer rounded" id="nav-home" aria-label="Go to dashboard">
+            <img src="${import.meta.env.BASE_URL}Icon.svg" alt="Spoqen" class="w-8 h-8 object-contain" />
+          </button>
+          <div class="min-w-0">
+            <h1 class="text-sm font-semibold leading-none truncate max-w-[30ch]">${escapeHtml(project.name)}</h1>
+            <span class="text-[10px] text-slate-400 uppercase tracking-wider">Template Variables</span>
+          </div>
+        </div>
+        <div class="ui-header-center">
+          ${projectViewTabsHTML('variables')}
+        </div>
+        <div class="ui-header-right ui-toolbar">
+          ${themeToggleHTML()}
+          <button id="btn-back" class="ui-btn ui-btn-outline">
+            <span class="material-icons text-sm">arrow_back</span>
+            Back to Canvas
+          </button>
+        </div>
+      </header>
+
+      <main class="ui-main ui-stack-lg" data-scroll-preserve="variables-main">
+        <section class="ui-pane flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <div id="variable-warnings"></div>
+
+          <div class="rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+            <div class="flex items-center justify-between gap-3 px-4 py-3 border-b border-slate-200 dark:border-slate-800">
+              <div>
+                <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100">Declared variables</h2>
+                <p class="text-[11px] text-slate-500 dark:text-slate-400">Use them in node content as <code>{{name}}</code>.</p>
+              </div>
+              <button id="btn-add-variable" class="ui-btn ui-btn-outline !text-xs !py-1.5">
+                <span class="material-icons text-sm">add</span> Add Variable
+              </button>
+            </div>
+            ${variables.length === 0
+              ? '<p class="px-4 py-6 text-sm text-slate-500 dark:text-slate-400">No variables declared yet.</p>'
+              : `
+                <table class="w-full text-sm">
+                  <thead class="text-[11px] uppercase tracking-wider text-slate-400">
+                    <tr>
+                      <th class="text-left font-semibold px-4 py-2">Name</th>
+                      <th class="text-left font-semibold px-2 py-2">Description</th>
+                      <th class="text-left font-semibold px-2 py-2">Default</th>
+                      <th class="text-center font-semibold px-2 py-2">Required</th>
+                      <th class="px-2 py-2"><span class="sr-only">Remove</span></th>
+                    </tr>
+                  </thead>
+                  <tbody>${variables.map((variable, index) => renderVariableRow(variable, index)).join('')}</tbody>
+                </table>
+              `}
+          </div>
+        </section>
+
+        <section class="ui-pane w-full lg:w-[44%] flex flex-col overflow-y-auto custom-scrollbar p-6 space-y-4 border-l border-slate-200 dark:border-slate-800">
+          <div>
+            <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100 mb-2">Test values</h2>
+            <div id="variable-test-values" class="space-y-2"></div>
+          </div>
+          <div class="flex-1 flex flex-col min-h-0">
+            <div class="flex items-center justify-between gap-2 mb-2">
+              <h2 class="text-sm font-semibold text-slate-800 dark:text-slate-100">Runtime prompt preview${activeEnvironment ? ` · ${escapeHtml(activeEnvironment)}` : ''}</h2>
+              <span id="preview-status" class="text-[11px]"></span>
+            </div>
+            <pre id="variable-preview" class="flex-1 min-h-[16rem] overflow-auto custom-scrollbar rounded-lg border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-950 p-4 text-xs leading-relaxed whitespace-pre-wrap font-mono"></pre>
+          </div>
+        </section>
+      </main>
+    `;
+
+    container.querySelector('#nav-home')?.addEventListener('click', () => router.navigate('/'));
+    container.querySelector('#btn-back')?.addEventListener('click', () => router.navigate(`/project/${projectId}`));
+    wireProjectViewTabs(container, projectId);
+    wireEscapeToCanvas(container, projectId);
+    wireThemeToggle(container);
+
+    const rerender = (): void => renderVariables(container, projectId);
+    const saveVariables = (next: TemplateVariable[]): void => store.setProjectVariables(projectId, next);
+    // Row handlers read declarations back from the store, since edits are saved without a re-render.
+    const current = (): TemplateVariable[] => store.getProject(projectId)?.variables ?? [];
+
+    container.querySelector('#btn-add-variable')?.addEventListener('click', () => {
+      const taken = new Set(current().map((variable) => variable.name));
+      let name = 'variable';
+      for (let suffix = 2; taken.has(name); suffix += 1) name = `variable_${suffix}`;
+      saveVariables([...current(), { name, description: '', defaultValue: '', required: false }]);
+      rerender();
+    });
+
+    container.querySelectorAll<HTMLElement>('.variable-row').forEach((row) => {
+      const index = Number(row.dataset.index);
+      const field = (selector: string) => row.querySelector<HTMLInputElement>(selector);
+
+      field('.variable-name')?.addEventListener('change', async (event) => {
+        const input = event.currentTarget as HTMLInputElement;
+        const name = normalizeVariableName(input.value);
+        const duplicate = current().some((variable, otherIndex) => otherIndex !== index && variable.name === name);
+        if (!name || duplicate) {
+          input.value = current()[index]?.name ?? '';
+          await customAlert(name
+            ? `A variable named "${name}" already exists.`
+            : 'Variable names use letters, numbers and "_", and cannot start with a number.');
+          return;
+        }
+        input.value = name;
+        saveVariables(current().map((variable, otherIndex) => (otherIndex === index ? { ...variable, name } : variable)));
+        refreshDerived();
+      });
+
+      const wireText = (selector: string, key: 'description' | 'defaultValue'): void => {
+        field(selector)?.addEventListener('change', (event) => {
+          const value = (event.currentTarget as HTMLInputElement).value;
+          saveVariables(current().map((variable, otherIndex) => (otherIndex === index ? { ...variable, [key]: value } : variable)));
+          refreshDerived();
+        });
+      };
+      wireText('.variable-description', 'description');
+      wireText('.variable-default', 'defaultValue');
+
+      field('.variable-required')?.addEventListener('change', (event) => {
+        const required = (event.currentTarget as HTMLInputElement).checked;
+        saveVariables(current().map((variable, otherIndex) => (otherIndex === index ? { ...variable, required } : variable)));
+        refreshDerived();
+      });
+
+      row.querySelector('.variable-remove')?.addEventListener('click', () => {
+        saveVariables(current().filter((_, otherIndex) => otherIndex !== index));
+        rerender();
+      });
+    });
+
+    /** Warnings, test inputs and preview depend on the declarations; the table does not. */
+    function refreshDerived(): void {
+      const declared = store.getProject(projectId)?.variables ?? [];
+      const warnings = lintTemplateVariables(project!.nodes, declared);
+      renderWarnings(container, project!.nodes, warnings);
+      renderTestValues(container, projectId, declared, warnings);
+      refreshPreview();
+
+      container.querySelectorAll<HTMLElement>('.declare-variable').forEach((button) => {
+        button.addEventListener('click', () => {
+          const name = button.dataset.name;
+          if (!name) return;
+          saveVariables([...declared, { name, description: '', defaultValue: '', required: false }]);
+          rerender();
+        });
+      });
+      container.querySelectorAll<HTMLElement>('.remove-unused-variable').forEach((button) => {
+        button.addEventListener('click', () => {
+          saveVariables(declared.filter((variable) => variable.name !== button.dataset.name));
+          rerender();
+        });
+      });
+      container.querySelectorAll<HTMLInputElement>('.variable-test-value').forEach((input) => {
+        input.addEventListener('input', () => {
+          const name = input.dataset.name;
+          if (!name) return;
+          saveTestValues(projectId, { ...loadTestValues(projectId), [name]: input.value });
+          refreshPreview();
+        });
+      });
+    }
+
+    function refreshPreview(): void {
+      const declared = store.getProject(projectId)?.variables ?? [];
+      const values = resolveVariableValues(declared, loadTestValues(projectId));
+      const { text, unresolved } = substituteTemplateVariables(store.assembleRuntimePrompt(projectId, activeEnvironment), values);
+      const missing = missingRequiredVariables(declared, values);
+
+      const preview = container.querySelector<HTMLElement>('#variable-preview');
+      if (preview) preview.textContent = text || '(the prompt is empty)';
+      const status = container.querySelector<HTMLElement>('#preview-status');
+      if (!status) return;
+      const problems = [
+        ...(missing.length > 0 ? [`Required without a value: ${missing.join(', ')}`] : []),
+        ...(unresolved.length > 0 ? [`Unfilled: ${unresolved.join(', ')}`] : []),
+      ];
+      status.textContent = problems.length > 0 ? problems.join(' · ') : 'All placeholders filled';
+      status.className = `text-[11px] ${problems.length > 0 ? 'text-amber-600 dark:text-amber-300' : 'text-emerald-600 dark:text-emerald-300'}`;
+    }
+
+    refreshDerived();
+  });
+}
+
+function renderVariableRow(variable: TemplateVariable, index: number): string {
+  const inputClass = 'w-full rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary';
+  return `
+    <tr class="variable-row border-t border-slate-100 dark:border-slate-800" data-index="${index}">
+      <td class="px-4 py-2"><input class="variable-name ${inputClass} font-mono" value="${escapeHtml(variable.name)}" aria-label="Name" /></td>
+      <td class="px-2 py-2"><input class="variable-description ${inputClass}" value="${escapeHtml(variable.description)}" aria-label="Description" /></td>
+      <td class="px-2 py-2"><input class="variable-default ${inputClass}" value="${escapeHtml(variable.defaultValue)}" aria-label="Default value" /></td>
+      <td class="px-2 py-2 text-center"><input type="checkbox" class="variable-required accent-primary" ${variable.required ? 'checked' : ''} aria-label="Required" /></td>
+      <td class="px-2 py-2 text-right">
+        <button type="button" class="variable-remove text-slate-400 hover:text-red-500" title="Remove variable">
+          <span class="material-icons-outlined text-lg">delete</span>
+        </button>
+      </td>
+    </tr>
+  `;
+}
+
+function renderWarnings(container: HTMLElement, nodes: PromptNode[], warnings: TemplateVariableWarning[]): void {
+  const host = container.querySelector<HTMLElement>('#variable-warnings');
+  if (!host) return;
+  const labelById = new Map(nodes.map((node) => [node.id, node.label]));
+  host.innerHTML = warnings.length === 0
+    ? ''
+    : `
+      <ul class="space-y-2">
+        ${warnings.map((warning) => `
+          <li class="flex items-center gap-3 rounded-lg border border-amber-200 dark:border-amber-800/60 bg-amber-50 dark:bg-amber-950/40 px-3 py-2 text-sm text-amber-900 dark:text-amber-100">
+            <span class="material-icons text-base">warning_amber</span>
+            <span class="flex-1 min-w-0">
+              ${warning.kind === 'undeclared'
+                ? `<code>{{${escapeHtml(warning.name)}}}</code> is used in ${escapeHtml(warning.nodeIds.map((nodeId) => labelById.get(nodeId) ?? nodeId).join(', '))} but not declared.`
+                : `<code>${escapeHtml(warning.name)}</code> is declared but no node uses it.`}
+            </span>
+            ${warning.kind === 'undeclared'
+              ? `<button type="button" class="declare-variable ui-btn ui-btn-outline !text-xs !py-1" data-name="${escapeHtml(warning.name)}">Declare</button>`
+              : `<button type="button" class="remove-unused-variable ui-btn ui-btn-outline !text-xs !py-1" data-name="${escapeHtml(warning.name)}">Remove</button>`}
+          </li>
+        `).join('')}
+      </ul>
+    `;
+}
+
+function renderTestValues(
+  container: HTMLElement,
+  projectId: string,
+  declared: TemplateVariable[],
+  warnings: TemplateVariableWarning[],
+): void {
+  const host = container.querySelector<HTMLElement>('#variable-test-values');
+  if (!host) return;
+  const names = [
+    ...declared.map((variable) => variable.name),
+    ...warnings.flatMap((warning) => (warning.kind === 'undeclared' ? [warning.name] : [])),
+  ];
+  const testValues = loadTestValues(projectId);
+  const defaultByName = new Map(declared.map((variable) => [variable.name, variable.defaultValue]));
+  host.innerHTML = names.length === 0
+    ? '<p class="text-xs text-slate-500 dark:text-slate-400">The prompt has no variables.</p>'
+    : names.map((name) => `
+      <label class="flex items-center gap-3">
+        <span class="w-40 shrink-0 truncate font-mono text-xs text-slate-600 dark:text-slate-300" title="${escapeHtml(name)}">${escapeHtml(name)}</span>
+        <input
+          class="variable-test-value flex-1 rounded border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+          data-name="${escapeHtml(name)}"
+          value="${escapeHtml(testValues[name] ?? '')}"
+          placeholder="${escapeHtml(defaultByName.get(name) ? `Default: ${defaultByName.get(name)}` : 'No default')}"
+        />
+      </label>
+    `).join('');
+}
+
+function loadTestValues(projectId: string): Record<string, string> {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(TEST_VALUES_KEY) ?? '{}');
+    if (typeof parsed !== 'object' || parsed === null) return {};
+    const values: unknown = (parsed as Record<string, unknown>)[projectId];
+    if (typeof values !== 'object' || values === null) return {};
+    return Object.fromEntries(Object.entries(values).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  } catch {
+    return {};
+  }
+}
+
+function saveTestValues(projectId: string, values: Record<string, string>): void {
+  let all: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(TEST_VALUES_KEY) ?? '{}');
+    if (typeof parsed === 'object' && parsed !== null) all = parsed as Record<string, unknown>;
+  } catch {
+    // A corrupt entry is replaced below.
+  }
+  localStorage.setItem(TEST_VALUES_KEY, JSON.stringify({ ...all, [projectId]: values }));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { PromptNode } from './models';
+import { buildVoiceAgentConfig, collectVoiceAgentSettings, readNodeSettings, voiceNodeKind } from './voice-agent-export';
+
+function node(label: string, content: string, type = label): Pick<PromptNode, 'type' | 'label' | 'content'> {
+  return { type: type as PromptNode['type'], label, content };
+}
+
+const nodes = [
+  node('Core Persona', 'You are Ava, a scheduling assistant.'),
+  node('Transcriber', '## Transcriber\nModel: Nova-2\nLanguage: en\nSample Rate: 16kHz'),
+  node('LLM Brain', '## System Prompt\nModel: gpt-4o\nTemperature: 0.4\nrole: "Friendly receptionist"'),
+  node('Voice Synth', '## Voice Model\nProvider: 11labs\nVoice: rachel\nStability: 0.5'),
+  node('Web Hook', '## Webhook\nEndpoint: https://hooks.example.com/events'),
+  node('Booking Hook', 'Name: book appointment\nDescription: Books a slot\nURL: https://api.example.com/book', 'webhook'),
+];
+
+describe('voice agent export', () => {
+  it('recognizes model-tier nodes by type or label and reads their settings', () => {
+    expect(voiceNodeKind(node('Web Hook', ''))).toBe('webhook');
+    expect(voiceNodeKind(node('Booking', '', 'llm-brain'))).toBe('llm-brain');
+    expect(voiceNodeKind(node('Core Persona', ''))).toBeNull();
+    expect(readNodeSettings('## Voice\n- Voice: "Nova-v2"\nMax_Tokens: 200\nplain prose')).toEqual({ voice: 'Nova-v2', 'max tokens': '200' });
+  });
+
+  it('builds a Vapi assistant with the rest of the graph as the system prompt', () => {
+    const { config, warnings } = buildVoiceAgentConfig('vapi', 'Ava', collectVoiceAgentSettings(nodes, 'GPT-4o'));
+
+    expect(config).toEqual({
+      name: 'Ava',
+      model: {
+        provider: 'openai',
+        model: 'gpt-4o',
+        temperature: 0.4,
+        messages: [{ role: 'system', content: 'You are Ava, a scheduling assistant.\n\n## System Prompt\nrole: "Friendly receptionist"' }],
+        tools: [{
+          type: 'function',
+          function: { name: 'book_appointment', description: 'Books a slot', parameters: { type: 'object', properties: {} } },
+          server: { url: 'https://api.example.com/book' },
+        }],
+      },
+      transcriber: { provider: 'deepgram', model: 'nova-2', language: 'en' },
+      voice: { provider: '11labs', voiceId: 'rachel', stability: 0.5 },
+      server: { url: 'https://hooks.example.com/events' },
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('builds a Retell agent and LLM and warns about settings it cannot carry', () => {
+    const settings = collectVoiceAgentSettings([nodes[0], nodes[1], nodes[5]], 'Mystery 1');
+    const { config, warnings } = buildVoiceAgentConfig('retell', 'Ava', settings);
+
+    expect(config).toEqual({
+      agent: { agent_name: 'Ava', language: 'en', response_engine: { type: 'retell-llm' } },
+      llm: {
+        model: 'mystery-1',
+        general_prompt: 'You are Ava, a scheduling assistant.',
+        general_tools: [{
+          type: 'custom',
+          name: 'book_appointment',
+          description: 'Books a slot',
+          url: 'https://api.example.com/book',
+          speak_after_execution: true,
+          parameters: { type: 'object', properties: {} },
+        }],
+      },
+    });
+    expect(warnings).toHaveLength(3);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * VoiceAgentExport — assistant configuration for voice-agent platforms.
+ *
+ * Model-tier nodes (`transcriber`, `llm-brain`, `voice-synth`) hold `Key: value`
+ * settings that are read into structured config instead of the prompt. A `webhook`
+ * node with a `Name:` becomes a tool; one without is the assistant's server URL.
+ * Everything else, in assembly order, is the system prompt.
+ */
+import type { PromptNode } from './models';
+
+export type VoicePlatform = 'vapi' | 'retell';
+export type VoiceNodeKind = 'transcriber' | 'llm-brain' | 'voice-synth' | 'webhook';
+
+export const VOICE_PLATFORMS: ReadonlyArray<{ id: VoicePlatform; label: string }> = [
+  { id: 'vapi', label: 'Vapi assistant' },
+  { id: 'retell', label: 'Retell agent + LLM' },
+];
+
+export interface VoiceWebhook {
+  /** Tool function name; null for the assistant's server URL. */
+  name: string | null;
+  description: string;
+  url: string;
+}
+
+export interface VoiceAgentSettings {
+  transcriber: Record<string, string> | null;
+  llm: Record<string, string>;
+  voice: Record<string, string> | null;
+  webhooks: VoiceWebhook[];
+  systemPrompt: string;
+}
+
+export interface VoiceAgentExport {
+  config: Record<string, unknown>;
+  warnings: string[];
+}
+
+const SETTING_LINE_PATTERN = /^\s*(?:[-*]\s+)?([A-Za-z][A-Za-z0-9 _-]{0,40}?)\s*:\s*(.+?)\s*$/;
+const LLM_SETTING_KEYS = new Set(['provider', 'model', 'temperature', 'max tokens']);
+const URL_PATTERN = /https?:\/\/[^\s"'<>]+/;
+
+const NODE_KIND_BY_COMPACT_NAME: Record<string, VoiceNodeKind> = {
+  transcriber: 'transcriber',
+  llmbrain: 'llm-brain',
+  voicesynth: 'voice-synth',
+  webhook: 'webhook',
+};
+
+/** Nodes are matched on type or label, since imported nodes carry their label as type. */
+export function voiceNodeKind(node: Pick<PromptNode, 'type' | 'label'>): VoiceNodeKind | null {
+  for (const name of [node.type, node.label]) {
+    const kind = NODE_KIND_BY_COMPACT_NAME[name.toLowerCase().replace(/[^a-z0-9]/g, '')];
+    if (kind) return kind;
+  }
+  return null;
+}
+
+/** `Key: value` lines keyed by lowercased key; headings, prose and quotes around values are dropped. */
+export function readNodeSettings(content: string): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    if (/^\s*#/.test(line)) continue;
+    const match = SETTING_LINE_PATTERN.exec(line);
+    if (!match) continue;
+    settings[settingKey(match[1])] = match[2].replace(/^["']|["']$/g, '');
+  }
+  return settings;
+}
+
+/** `fallbackModel` (the project's model) is used when no LLM node names one. */
+export function collectVoiceAgentSettings(
+  orderedNodes: Array<Pick<PromptNode, 'type' | 'label' | 'content'>>,
+  fallbackModel: string,
+): VoiceAgentSettings {
+  const settings: VoiceAgentSettings = { transcriber: null, llm: {}, voice: null, webhooks: [], systemPrompt: '' };
+  const promptParts: string[] = [];
+
+  for (const node of orderedNodes) {
+    switch (voiceNodeKind(node)) {
+      case 'transcriber':
+        settings.transcriber = { ...settings.transcriber, ...readNodeSettings(node.content) };
+        break;
+      case 'voice-synth':
+        settings.voice = { ...settings.voice, ...readNodeSettings(node.content) };
+        break;
+      case 'llm-brain': {
+        const nodeSettings = readNodeSettings(node.content);
+        for (const key of LLM_SETTING_KEYS) {
+          if (nodeSettings[key]) settings.llm[key] = nodeSettings[key];
+        }
+        // Lines that are not model settings (role, tone, ...) are prompt text.
+        const promptLines = node.content.split(/\r?\n/).filter((line) => {
+          const match = SETTING_LINE_PATTERN.exec(line);
+          return !match || !LLM_SETTING_KEYS.has(settingKey(match[1]));
+        });
+        if (promptLines.some((line) => line.trim() && !/^\s*#/.test(line))) promptParts.push(promptLines.join('\n').trim());
+        break;
+      }
+      case 'webhook': {
+        const nodeSettings = readNodeSettings(node.content);
+        const url = (nodeSettings.endpoint ?? nodeSettings.url ?? node.content).match(URL_PATTERN)?.[0];
+        if (!url) break;
+        settings.webhooks.push({
+          name: nodeSettings.name ? toToolName(nodeSettings.name) : null,
+          description: nodeSettings.description ?? node.label,
+          url,
+        });
+        break;
+      }
+      default:
+        if (node.content.trim()) promptParts.push(node.content);
+    }
+  }
+
+  settings.llm.model ??= fallbackModel.trim().toLowerCase().replace(/\s+/g, '-');
+  settings.systemPrompt = promptParts.join('\n\n');
+  return settings;
+}
+
+export function buildVoiceAgentConfig(
+  platform: VoicePlatform,
+  agentName: string,
+  settings: VoiceAgentSettings,
+): VoiceAgentExport {
+  const warnings: string[] = [];
+  const serverHooks = settings.webhooks.filter((hook) => hook.name === null);
+  const tools = settings.webhooks.filter((hook): hook is VoiceWebhook & { name: string } => hook.name !== null);
+  if (serverHooks.length > 1) {
+    warnings.push(`Only the first of ${serverHooks.length} webhook nodes without a Name is used as the server URL.`);
+  }
+  if (!settings.voice) warnings.push('No Voice Synth node; the platform default voice is used.');
+  const llmProvider = settings.llm.provider ?? inferLlmProvider(settings.llm.model);
+  if (!llmProvider) warnings.push(`Could not tell the provider of model "${settings.llm.model}"; add a Provider: line to the LLM node.`);
+
+  if (platform === 'vapi') {
+    if (!settings.transcriber) warnings.push('No Transcriber node; the platform default transcriber is used.');
+    const config: Record<string, unknown> = {
+      name: agentName,
+      model: compact({
+        provider: llmProvider,
+        model: settings.llm.model,
+        temperature: toNumber(settings.llm.temperature),
+        maxTokens: toNumber(settings.llm['max tokens']),
+        messages: [{ role: 'system', content: settings.systemPrompt }],
+        tools: tools.length > 0
+          ? tools.map((tool) => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: { type: 'object', properties: {} } },
+            server: { url: tool.url },
+          }))
+          : undefined,
+      }),
+    };
+    if (settings.transcriber) {
+      config.transcriber = compact({
+        provider: settings.transcriber.provider ?? inferTranscriberProvider(settings.transcriber.model),
+        model: settings.transcriber.model?.toLowerCase(),
+        language: settings.transcriber.language,
+      });
+    }
+    if (settings.voice) {
+      config.voice = compact({
+        provider: settings.voice.provider,
+        voiceId: settings.voice.voice,
+        model: settings.voice.model,
+        stability: toNumber(settings.voice.stability),
+        similarityBoost: toNumber(settings.voice.similarity),
+        speed: toNumber(settings.voice.speed),
+      });
+      if (!settings.voice.provider) warnings.push('The Voice Synth node has no Provider: line; set the voice provider after import.');
+    }
+    if (serverHooks[0]) config.server = { url: serverHooks[0].url };
+    return { config, warnings };
+  }
+
+  if (settings.transcriber?.model) {
+    warnings.push('Retell picks its own transcriber; the Transcriber model is not exported.');
+  }
+  return {
+    config: {
+      agent: compact({
+        agent_name: agentName,
+        voice_id: settings.voice?.voice,
+        voice_speed: toNumber(settings.voice?.speed),
+        language: settings.transcriber?.language,
+        webhook_url: serverHooks[0]?.url,
+        response_engine: { type: 'retell-llm' },
+      }),
+      llm: compact({
+        model: settings.llm.model,
+        model_temperature: toNumber(settings.llm.temperature),
+        general_prompt: settings.systemPrompt,
+        general_tools: tools.length > 0
+          ? tools.map((tool) => ({
+            type: 'custom',
+            name: tool.name,
+            description: tool.description,
+            url: tool.url,
+            speak_after_execution: true,
+            parameters: { type: 'object', properties: {} },
+          }))
+          : undefined,
+      }),
+    },
+    warnings,
+  };
+}
+
+export function voiceAgentFileName(projectName: string, platform: VoicePlatform): string {
+  const slug = projectName
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'project'}.${platform}.json`;
+}
+
+function settingKey(raw: string): string {
+  return raw.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+function toToolName(value: string): string {
+  return value.trim().replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 64) || 'webhook';
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function inferLlmProvider(model: string | undefined): string | undefined {
+  const name = model?.toLowerCase() ?? '';
+  if (/^(gpt|o\d|chatgpt)/.test(name)) return 'openai';
+  if (name.startsWith('claude')) return 'anthropic';
+  if (name.startsWith('gemini')) return 'google';
+  if (name.startsWith('llama')) return 'groq';
+  return undefined;
+}
+
+function inferTranscriberProvider(model: string | undefined): string | undefined {
+  const name = model?.toLowerCase() ?? '';
+  if (name.startsWith('whisper')) return 'openai';
+  if (name.startsWith('nova')) return 'deepgram';
+  return undefined;
+}
+
+/** Drops undefined fields so the JSON only carries settings the graph actually set. */
+function compact(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined));
+}
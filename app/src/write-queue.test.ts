@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  adoptableRemoteWriteQueueKeys,
+  MAX_REMOTE_WRITE_ATTEMPTS,
+  parseRemoteWriteEntries,
+  REMOTE_WRITE_LEASE_TTL_MS,
+  remoteWriteLeaseKey,
+  RemoteWriteQueue,
+} from './write-queue';
+
+describe('RemoteWriteQueue', () => {
+  it('keeps entries in order and snapshots their payloads', () => {
+    const queue = new RemoteWriteQueue();
+    const payload = { projectId: 'p1', connectionId: 'c1', label: 'yes' };
+    const first = queue.enqueue({ type: 'update-connection-label', payload });
+    queue.enqueue({ type: 'delete-connection', payload: { projectId: 'p1', connectionId: 'c2' } });
+    payload.label = 'mutated later';
+
+    expect(queue.nextPending()?.id).toBe(first.id);
+    expect(queue.get(first.id)?.operation).toEqual({
+      type: 'update-connection-label',
+      payload: { projectId: 'p1', connectionId: 'c1', label: 'yes' },
+    });
+
+    queue.complete(first.id);
+    expect(queue.nextPending()?.operation.type).toBe('delete-connection');
+    expect(queue.counts()).toEqual({ pending: 1, failed: 0 });
+  });
+
+  it('parks an entry as failed after the maximum number of attempts', () => {
+    const queue = new RemoteWriteQueue();
+    const entry = queue.enqueue({ type: 'delete-node', payload: { projectId: 'p1', nodeId: 'n1' } });
+
+    for (let attempt = 1; attempt < MAX_REMOTE_WRITE_ATTEMPTS; attempt += 1) {
+      expect(queue.recordFailure(entry.id, 'network down')).toBe('pending');
+    }
+    expect(queue.recordFailure(entry.id, 'network down')).toBe('failed');
+    expect(queue.nextPending()).toBeUndefined();
+    expect(queue.counts()).toEqual({ pending: 0, failed: 1 });
+
+    expect(queue.discardFailed()).toBe(1);
+    expect(queue.isEmpty()).toBe(true);
+  });
+
+  it('puts failed entries back in line when retried', () => {
+    const queue = new RemoteWriteQueue();
+    const failed = queue.enqueue({ type: 'delete-node', payload: { projectId: 'p1', nodeId: 'n1' } });
+    queue.enqueue({ type: 'delete-node', payload: { projectId: 'p1', nodeId: 'n2' } });
+    for (let attempt = 0; attempt < MAX_REMOTE_WRITE_ATTEMPTS; attempt += 1) {
+      queue.recordFailure(failed.id, 'missing migration');
+    }
+
+    expect(queue.retryFailed()).toBe(1);
+    expect(queue.counts()).toEqual({ pending: 2, failed: 0 });
+    expect(queue.nextPending()?.id).toBe(failed.id);
+    expect(queue.get(failed.id)?.attempts).toBe(0);
+  });
+
+  it('round-trips through JSON and drops malformed entries', () => {
+    const queue = new RemoteWriteQueue();
+    queue.enqueue({ type: 'delete-custom-node', payload: { templateId: 't1' } });
+    const raw = JSON.stringify([
+      ...queue.toJSON(),
+      { id: 'broken', operation: { type: 'drop-table', payload: {} } },
+    ]);
+
+    const restored = parseRemoteWriteEntries(raw);
+    expect(restored).toHaveLength(1);
+    expect(restored[0].operation.type).toBe('delete-custom-node');
+    expect(parseRemoteWriteEntries('not json')).toEqual([]);
+  });
+
+  it('adopts only queues whose owning tab is gone', () => {
+    const now = 1_000_000;
+    const prefix = 'promptblueprint_write_queue_u1';
+    const items = new Map<string, string>([
+      [`${prefix}:tab-a`, '[]'],
+      [remoteWriteLeaseKey(`${prefix}:tab-a`), String(now - 1_000)],
+      [`${prefix}:tab-b`, '[]'],
+      [remoteWriteLeaseKey(`${prefix}:tab-b`), String(now - 2_000)],
+      [`${prefix}:closed`, '[]'],
+      [remoteWriteLeaseKey(`${prefix}:closed`), String(now - REMOTE_WRITE_LEASE_TTL_MS - 1)],
+      [`${prefix}:no-lease`, '[]'],
+      [prefix, '[]'],
+      ['promptblueprint_write_queue_u2:tab-c', '[]'],
+    ]);
+    const storage = {
+      get length() {
+        return items.size;
+      },
+      key: (index: number) => [...items.keys()][index] ?? null,
+      getItem: (key: string) => items.get(key) ?? null,
+    };
+
+    const keys = adoptableRemoteWriteQueueKeys(storage, prefix, `${prefix}:tab-a`, now);
+    expect(keys.sort()).toEqual([prefix, `${prefix}:closed`, `${prefix}:no-lease`, `${prefix}:tab-a`].sort());
+    expect(adoptableRemoteWriteQueueKeys(storage, prefix, `${prefix}:tab-new`, now)).not.toContain(`${prefix}:tab-a`);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * RemoteWriteQueue — durable, ordered log of Supabase writes issued by the store.
+ *
+ * Every background write is recorded here (operation type + JSON payload)
+ * before it is sent, so writes made while the store is in local-fallback mode,
+ * or still in flight when the page closes, can be replayed in order later.
+ */
+import {
+  uid,
+  type Connection,
+  type CustomNodeTemplate,
+  type ProjectHead,
+  type ProjectLineage,
+  type PromptNode,
+  type PromptVersion,
+  type TemplateVariable,
+} from './models';
+import { isRecord } from './model-guards';
+
+export interface RemoteProjectRecord {
+  id: string;
+  name: string;
+  description: string;
+  model: string;
+  icon: string;
+  lastEdited: string;
+  forkedFrom?: ProjectLineage;
+}
+
+export type RemoteNodeUpdates = Partial<Omit<PromptNode, 'id'>>;
+
+export type RemoteWriteOperation =
+  | { type: 'insert-project'; payload: { project: RemoteProjectRecord } }
+  | { type: 'delete-project'; payload: { projectId: string; linkedTranscriptSetId: string | null } }
+  | { type: 'link-transcript-set'; payload: { transcriptSetId: string; projectId: string; updatedAt: string } }
+  | { type: 'delete-transcript-flow'; payload: { transcriptSetId: string; linkedProjectId: string | null } }
+  | { type: 'insert-custom-node'; payload: { template: CustomNodeTemplate } }
+  | { type: 'update-custom-node'; payload: { template: CustomNodeTemplate } }
+  | { type: 'delete-custom-node'; payload: { templateId: string } }
+  | { type: 'insert-node'; payload: { projectId: string; node: PromptNode; sortOrder: number; connections: Connection[]; followingNodeIds?: string[] } }
+  | { type: 'update-node'; payload: { projectId: string; nodeId: string; updates: RemoteNodeUpdates; node: PromptNode } }
+  | { type: 'delete-node'; payload: { projectId: string; nodeId: string } }
+  | { type: 'insert-connection'; payload: { projectId: string; connection: Connection } }
+  | { type: 'update-connection-label'; payload: { projectId: string; connectionId: string; label: string } }
+  | { type: 'delete-connection'; payload: { projectId: string; connectionId: string } }
+  | { type: 'insert-version'; payload: { projectId: string; version: PromptVersion } }
+  | { type: 'update-project-head'; payload: { projectId: string; head: ProjectHead } }
+  | { type: 'set-version-tag'; payload: { projectId: string; tag: string; versionId: string } }
+  | { type: 'delete-version-tag'; payload: { projectId: string; tag: string } }
+  | { type: 'update-project-organization'; payload: { projectId: string; folder: string | null; tags: string[] } }
+  | { type: 'update-project-variables'; payload: { projectId: string; variables: TemplateVariable[] } }
+  | { type: 'update-project-environments'; payload: { projectId: string; environments: string[] } }
+  | { type: 'update-project-token-budget'; payload: { projectId: string; tokenBudget: number | null } }
+  | { type: 'update-project-conversation-tokens'; payload: { projectId: string; conversationTokens: number | null } }
+  | { type: 'trash-project'; payload: { projectId: string; deletedAt: string } }
+  | { type: 'restore-project'; payload: { projectId: string; transcriptSetId: string | null } }
+  | { type: 'trash-node'; payload: { projectId: string; nodeId: string; deletedAt: string } }
+  | { type: 'restore-node'; payload: { projectId: string; node: PromptNode; sortOrder: number; connections: Connection[]; followingNodeIds?: string[] } }
+  | { type: 'trash-transcript-flow'; payload: { transcriptSetId: string; linkedProjectId: string | null; deletedAt: string } }
+  | { type: 'restore-transcript-flow'; payload: { transcriptSetId: string; linkedProjectId: string | null } }
+  | { type: 'delete-node-sync-meta'; payload: { projectId: string; nodeIds: string[] } };
+
+export type RemoteWriteOperationType = RemoteWriteOperation['type'];
+
+export type RemoteWriteStatus = 'pending' | 'failed';
+
+export interface RemoteWriteEntry {
+  id: string;
+  operation: RemoteWriteOperation;
+  enqueuedAt: number;
+  attempts: number;
+  status: RemoteWriteStatus;
+  lastError: string | null;
+}
+
+export interface RemoteWriteCounts {
+  pending: number;
+  failed: number;
+}
+
+/** Attempts after which an entry stops blocking the queue and is parked as failed. */
+export const MAX_REMOTE_WRITE_ATTEMPTS = 3;
+
+/** How often an open tab renews the lease on its persisted queue. */
+export const REMOTE_WRITE_LEASE_INTERVAL_MS = 5_000;
+/** A queue whose lease is older than this belongs to a tab that was closed. */
+export const REMOTE_WRITE_LEASE_TTL_MS = 30_000;
+
+const REMOTE_WRITE_LEASE_SUFFIX = ':lease';
+
+type QueueStorage = Pick<Storage, 'length' | 'key' | 'getItem'>;
+
+const REMOTE_WRITE_OPERATION_TYPES: ReadonlySet<string> = new Set<RemoteWriteOperationType>([
+  'insert-project',
+  'delete-project',
+  'link-transcript-set',
+  'delete-transcript-flow',
+  'insert-custom-node',
+  'update-custom-node',
+  'delete-custom-node',
+  'insert-node',
+  'update-node',
+  'delete-node',
+  'insert-connection',
+  'update-connection-label',
+  'delete-connection',
+  'insert-version',
+  'update-project-head',
+  'set-version-tag',
+  'delete-version-tag',
+  'update-project-organization',
+  'update-project-variables',
+  'update-project-environments',
+  'update-project-token-budget',
+  'update-project-conversation-tokens',
+  'trash-project',
+  'restore-project',
+  'trash-node',
+  'restore-node',
+  'trash-transcript-flow',
+  'restore-transcript-flow',
+  'delete-node-sync-meta',
+]);
+
+export class RemoteWriteQueue {
+  private entries: RemoteWriteEntry[] = [];
+
+  constructor(entries: RemoteWriteEntry[] = []) {
+    this.entries = entries;
+  }
+
+  /** Appends a write; the payload is copied so later in-memory edits do not leak into it. */
+  enqueue(operation: RemoteWriteOperation): RemoteWriteEntry {
+    const entry: RemoteWriteEntry = {
+      id: uid(),
+      operation: JSON.parse(JSON.stringify(operation)) as RemoteWriteOperation,
+      enqueuedAt: Date.now(),
+      attempts: 0,
+      status: 'pending',
+      lastError: null,
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  get(entryId: string): RemoteWriteEntry | undefined {
+    return this.entries.find((entry) => entry.id === entryId);
+  }
+
+  /** Oldest entry that still needs to be sent. */
+  nextPending(): RemoteWriteEntry | undefined {
+    return this.entries.find((entry) => entry.status === 'pending');
+  }
+
+  /** True when `entryId` is the oldest pending entry, i.e. it may be sent now. */
+  isNextPending(entryId: string): boolean {
+    return this.nextPending()?.id === entryId;
+  }
+
+  complete(entryId: string): void {
+    this.entries = this.entries.filter((entry) => entry.id !== entryId);
+  }
+
+  /** Records a failed attempt and returns the entry's resulting status. */
+  recordFailure(entryId: string, error: string): RemoteWriteStatus | null {
+    const entry = this.get(entryId);
+    if (!entry) return null;
+    entry.attempts += 1;
+    entry.lastError = error;
+    if (entry.attempts >= MAX_REMOTE_WRITE_ATTEMPTS) {
+      entry.status = 'failed';
+    }
+    return entry.status;
+  }
+
+  /** Puts failed entries back in line with fresh attempts, keeping their original order. */
+  retryFailed(): number {
+    let retried = 0;
+    for (const entry of this.entries) {
+      if (entry.status !== 'failed') continue;
+      entry.status = 'pending';
+      entry.attempts = 0;
+      retried += 1;
+    }
+    return retried;
+  }
+
+  discardFailed(): number {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.status !== 'failed');
+    return before - this.entries.length;
+  }
+
+  counts(): RemoteWriteCounts {
+    let pending = 0;
+    let failed = 0;
+    for (const entry of this.entries) {
+      if (entry.status === 'pending') pending += 1;
+      else failed += 1;
+    }
+    return { pending, failed };
+  }
+
+  isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  toJSON(): RemoteWriteEntry[] {
+    return this.entries;
+  }
+}
+
+/** Key holding the time the owner of `queueKey` last renewed its lease. */
+export function remoteWriteLeaseKey(queueKey: string): string {
+  return `${queueKey}${REMOTE_WRITE_LEASE_SUFFIX}`;
+}
+
+/**
+ * Persisted queue keys under `prefix` that a tab owning `ownKey` may adopt: its own,
+ * the unsuffixed key of older builds, and queues whose lease is missing or expired.
+ * Queues of tabs that are still open stay with them.
+ */
+export function adoptableRemoteWriteQueueKeys(storage: QueueStorage, prefix: string, ownKey: string, now: number): string[] {
+  const keys: string[] = [];
+  for (let index = 0; index < storage.length; index += 1) {
+    const key = storage.key(index);
+    if (!key || key.endsWith(REMOTE_WRITE_LEASE_SUFFIX)) continue;
+    if (key === prefix || key === ownKey) {
+      keys.push(key);
+      continue;
+    }
+    if (!key.startsWith(`${prefix}:`)) continue;
+    const renewedAt = Number(storage.getItem(remoteWriteLeaseKey(key)));
+    if (!Number.isFinite(renewedAt) || renewedAt <= 0 || now - renewedAt > REMOTE_WRITE_LEASE_TTL_MS) {
+      keys.push(key);
+    }
+  }
+  return keys;
+}
+
+/** Parses a persisted queue; malformed entries are dropped rather than failing the whole load. */
+export function parseRemoteWriteEntries(raw: string | null): RemoteWriteEntry[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(isRemoteWriteEntry);
+  } catch {
+    return [];
+  }
+}
+
+function isRemoteWriteEntry(value: unknown): value is RemoteWriteEntry {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.id === 'string' &&
+    isRemoteWriteOperation(value.operation) &&
+    typeof value.enqueuedAt === 'number' &&
+    typeof value.attempts === 'number' &&
+    (value.status === 'pending' || value.status === 'failed') &&
+    (typeof value.lastError === 'string' || value.lastError === null)
+  );
+}
+
+export function isRemoteWriteOperation(value: unknown): value is RemoteWriteOperation {
+  if (!isRecord(value)) return false;
+  return (
+    typeof value.type === 'string' &&
+    REMOTE_WRITE_OPERATION_TYPES.has(value.type) &&
+    isRecord(value.payload)
+  );
+}
@@ -12,10 +12,27 @@ create table if not exists public.projects (
   model text not null default 'GPT-4o',
   icon text not null default 'schema',
   last_edited text not null default 'Just now',
+  forked_from_project_id text,
+  forked_from_project_name text,
+  forked_from_version_id text,
+  forked_at timestamptz,
+  head_branch text,
+  head_version_id text,
+  deleted_at timestamptz,
+  folder text,
+  tags text[] not null default '{}',
+  updated_at timestamptz,
+  variables jsonb not null default '[]'::jsonb,
+  environments text[] not null default '{}',
+  token_budget integer,
+  conversation_tokens integer,
   created_at timestamptz not null default now()
 );
 
 create index if not exists idx_projects_owner_id on public.projects(owner_id);
+create index if not exists idx_projects_forked_from on public.projects(forked_from_project_id);
+create index if not exists idx_projects_deleted_at on public.projects(deleted_at) where deleted_at is not null;
+create index if not exists idx_projects_folder on public.projects(owner_id, folder);
 
 create table if not exists public.prompt_nodes (
   id text primary key default gen_random_uuid()::text,
@@ -28,10 +45,13 @@ create table if not exists public.prompt_nodes (
   content text not null default '',
   meta jsonb not null default '{}',
   sort_order int not null default 0,
+  revision int not null default 0,
+  deleted_at timestamptz,
   created_at timestamptz not null default now()
 );
 
 create index if not exists idx_prompt_nodes_project on public.prompt_nodes(project_id);
+create index if not exists idx_prompt_nodes_deleted_at on public.prompt_nodes(deleted_at) where deleted_at is not null;
 
 create table if not exists public.connections (
   id text primary key default gen_random_uuid()::text,
@@ -51,10 +71,13 @@ create table if not exists public.prompt_versions (
   timestamp bigint not null default (extract(epoch from now())::bigint * 1000),
   content text not null default '',
   notes text not null default '',
+  parent_id text,
+  branch text not null default 'main',
   created_at timestamptz not null default now()
 );
 
 create index if not exists idx_prompt_versions_project on public.prompt_versions(project_id);
+create index if not exists idx_prompt_versions_parent on public.prompt_versions(parent_id);
 
 create table if not exists public.custom_nodes (
   id text primary key default gen_random_uuid()::text,
@@ -64,6 +87,7 @@ create table if not exists public.custom_nodes (
   icon text not null default 'widgets',
   content text not null default '',
   meta jsonb not null default '{}',
+  revision integer not null default 1,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
@@ -276,12 +300,14 @@ create table if not exists public.transcript_sets (
   name text not null,
   description text not null default '',
   source text not null default 'manual',
+  deleted_at timestamptz,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now()
 );
 
 create index if not exists idx_transcript_sets_owner_id on public.transcript_sets(owner_id);
 create index if not exists idx_transcript_sets_project_id on public.transcript_sets(project_id);
+create index if not exists idx_transcript_sets_deleted_at on public.transcript_sets(deleted_at) where deleted_at is not null;
 
 create table if not exists public.transcripts (
   id text primary key default gen_random_uuid()::text,
@@ -625,3 +651,43 @@ create policy "optimization_runs_delete_own"
     public.user_owns_transcript_set(transcript_set_id)
     and (project_id is null or public.user_owns_project(project_id))
   );
+
+-- Release tags on prompt versions.
+create table if not exists public.prompt_version_tags (
+  project_id text not null references public.projects(id) on delete cascade,
+  tag text not null,
+  version_id text not null references public.prompt_versions(id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  primary key (project_id, tag)
+);
+
+create index if not exists idx_prompt_version_tags_version on public.prompt_version_tags(version_id);
+
+alter table public.prompt_version_tags enable row level security;
+
+drop policy if exists "prompt_version_tags_select_own" on public.prompt_version_tags;
+drop policy if exists "prompt_version_tags_insert_own" on public.prompt_version_tags;
+drop policy if exists "prompt_version_tags_update_own" on public.prompt_version_tags;
+drop policy if exists "prompt_version_tags_delete_own" on public.prompt_version_tags;
+
+create policy "prompt_version_tags_select_own"
+  on public.prompt_version_tags
+  for select
+  using (public.user_owns_project(project_id));
+
+create policy "prompt_version_tags_insert_own"
+  on public.prompt_version_tags
+  for insert
+  with check (public.user_owns_project(project_id));
+
+create policy "prompt_version_tags_update_own"
+  on public.prompt_version_tags
+  for update
+  using (public.user_owns_project(project_id))
+  with check (public.user_owns_project(project_id));
+
+create policy "prompt_version_tags_delete_own"
+  on public.prompt_version_tags
+  for delete
+  using (public.user_owns_project(project_id));
+
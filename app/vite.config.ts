@@ -10,4 +10,8 @@ export default defineConfig({
   build: {
     outDir: 'dist',
   },
+  worker: {
+    // The tokenizer worker loads tiktoken's WASM with a dynamic import.
+    format: 'es',
+  },
 });
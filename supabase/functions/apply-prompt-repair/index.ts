@@ -79,7 +79,8 @@ serve(async (req: Request) => {
         .from('prompt_nodes')
         .update({ content: patch.new_content })
         .eq('id', patch.prompt_node_id)
-        .eq('project_id', projectId);
+        .eq('project_id', projectId)
+        .is('deleted_at', null);
       if (nodeUpdate.error) {
         throw new Error(`Failed to apply patch ${patch.id}: ${nodeUpdate.error.message}`);
       }
@@ -212,6 +213,7 @@ async function buildPromptSnapshot(
     .from('prompt_nodes')
     .select('id, type, label, icon, x, y, content, meta, sort_order')
     .eq('project_id', projectId)
+    .is('deleted_at', null)
     .order('sort_order', { ascending: true });
   if (nodesRes.error) {
     throw new Error(`Failed to load prompt nodes for snapshot: ${nodesRes.error.message}`);
@@ -343,6 +343,7 @@ async function loadPromptNodes(
     .from('prompt_nodes')
     .select('id, label, type, content, sort_order')
     .eq('project_id', projectId)
+    .is('deleted_at', null)
     .order('sort_order', { ascending: true });
   if (res.error) {
     throw new Error(`Failed to load prompt nodes: ${res.error.message}`);
@@ -0,0 +1,33 @@
+-- Enable realtime canvas collaboration on prompt_nodes and connections.
+-- prompt_nodes.revision backs optimistic concurrency for concurrent content edits.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.prompt_nodes
+  add column if not exists revision integer not null default 0;
+
+-- Full row images let delete events carry project_id for client-side filtering.
+alter table if exists public.prompt_nodes replica identity full;
+alter table if exists public.connections replica identity full;
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'prompt_nodes'
+    ) then
+      alter publication supabase_realtime add table public.prompt_nodes;
+    end if;
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'connections'
+    ) then
+      alter publication supabase_realtime add table public.connections;
+    end if;
+  end if;
+end
+$$;
+
+commit;
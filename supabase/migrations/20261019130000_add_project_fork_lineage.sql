@@ -0,0 +1,15 @@
+-- Record fork lineage on projects: the parent project and the version it was forked from.
+-- The parent is not a foreign key so lineage survives deletion of the original.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists forked_from_project_id text,
+  add column if not exists forked_from_project_name text,
+  add column if not exists forked_from_version_id text,
+  add column if not exists forked_at timestamptz;
+
+create index if not exists idx_projects_forked_from on public.projects(forked_from_project_id);
+
+commit;
@@ -0,0 +1,17 @@
+-- Branching version history: each version records its parent and branch, and
+-- each project records the branch and version its working graph is based on.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.prompt_versions
+  add column if not exists parent_id text,
+  add column if not exists branch text not null default 'main';
+
+alter table if exists public.projects
+  add column if not exists head_branch text,
+  add column if not exists head_version_id text;
+
+create index if not exists idx_prompt_versions_parent on public.prompt_versions(parent_id);
+
+commit;
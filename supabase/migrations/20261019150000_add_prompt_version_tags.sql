@@ -0,0 +1,45 @@
+-- Named release tags (e.g. prod, staging, v1.4) pointing at prompt versions.
+-- A tag names at most one version per project; moving a tag updates its row.
+-- Safe to run repeatedly.
+
+begin;
+
+create table if not exists public.prompt_version_tags (
+  project_id text not null references public.projects(id) on delete cascade,
+  tag text not null,
+  version_id text not null references public.prompt_versions(id) on delete cascade,
+  updated_at timestamptz not null default now(),
+  primary key (project_id, tag)
+);
+
+create index if not exists idx_prompt_version_tags_version on public.prompt_version_tags(version_id);
+
+alter table public.prompt_version_tags enable row level security;
+
+drop policy if exists "prompt_version_tags_select_own" on public.prompt_version_tags;
+drop policy if exists "prompt_version_tags_insert_own" on public.prompt_version_tags;
+drop policy if exists "prompt_version_tags_update_own" on public.prompt_version_tags;
+drop policy if exists "prompt_version_tags_delete_own" on public.prompt_version_tags;
+
+create policy "prompt_version_tags_select_own"
+  on public.prompt_version_tags
+  for select
+  using (public.user_owns_project(project_id));
+
+create policy "prompt_version_tags_insert_own"
+  on public.prompt_version_tags
+  for insert
+  with check (public.user_owns_project(project_id));
+
+create policy "prompt_version_tags_update_own"
+  on public.prompt_version_tags
+  for update
+  using (public.user_owns_project(project_id))
+  with check (public.user_owns_project(project_id));
+
+create policy "prompt_version_tags_delete_own"
+  on public.prompt_version_tags
+  for delete
+  using (public.user_owns_project(project_id));
+
+commit;
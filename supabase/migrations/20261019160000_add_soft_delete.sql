@@ -0,0 +1,20 @@
+-- Trash bin: projects, prompt nodes and transcript sets are soft-deleted by
+-- setting deleted_at, and purged permanently after the retention window.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists deleted_at timestamptz;
+
+alter table if exists public.prompt_nodes
+  add column if not exists deleted_at timestamptz;
+
+alter table if exists public.transcript_sets
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists idx_projects_deleted_at on public.projects(deleted_at) where deleted_at is not null;
+create index if not exists idx_prompt_nodes_deleted_at on public.prompt_nodes(deleted_at) where deleted_at is not null;
+create index if not exists idx_transcript_sets_deleted_at on public.transcript_sets(deleted_at) where deleted_at is not null;
+
+commit;
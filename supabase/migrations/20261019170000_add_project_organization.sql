@@ -0,0 +1,14 @@
+-- Dashboard organization: a folder and free-form tags per project, and the
+-- time of the last edit so projects can be sorted by recency.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists folder text,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists updated_at timestamptz;
+
+create index if not exists idx_projects_folder on public.projects(owner_id, folder);
+
+commit;
@@ -0,0 +1,10 @@
+-- Template variables: the `{{name}}` placeholders a project declares, with a
+-- description, default value and required flag for each.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists variables jsonb not null default '[]'::jsonb;
+
+commit;
@@ -0,0 +1,10 @@
+-- Environment profiles: the named environments a project assembles prompts for.
+-- Per-node inclusion rules are stored in prompt_nodes.meta.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists environments text[] not null default '{}';
+
+commit;
@@ -0,0 +1,11 @@
+-- Linked library nodes: custom node templates carry a revision that is bumped on
+-- every edit. Linked instances record the revision they were synced to in
+-- prompt_nodes.meta, so they can tell when the library entry has changed.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.custom_nodes
+  add column if not exists revision integer not null default 1;
+
+commit;
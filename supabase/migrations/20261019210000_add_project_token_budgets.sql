@@ -0,0 +1,11 @@
+-- Token budgets: an optional limit on the assembled prompt of a project, counted
+-- with the encoding of the project's model. Per-node budgets live in
+-- prompt_nodes.meta.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists token_budget integer;
+
+commit;
@@ -0,0 +1,10 @@
+-- Cost estimates: the average number of conversation tokens sent with the
+-- assembled prompt on each call, added to the prompt's input cost.
+-- Safe to run repeatedly.
+
+begin;
+
+alter table if exists public.projects
+  add column if not exists conversation_tokens integer;
+
+commit;